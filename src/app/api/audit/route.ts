@@ -0,0 +1,80 @@
+import { NextRequest, NextResponse } from 'next/server'
+import { db } from '@/lib/db'
+import { authenticate, checkProjectAccess, requireRole } from '@/lib/auth-middleware'
+import { AuditQuerySchema } from '@/lib/schemas'
+
+/**
+ * GET /api/audit - Query audit log entries
+ * Filters: projectId, entityType, entityId, userId, from, to, limit
+ * Project members can read their project's entries; other queries are admin only
+ */
+export async function GET(request: NextRequest) {
+  try {
+    const authResult = await authenticate(request)
+    if ('error' in authResult) {
+      return NextResponse.json({ error: authResult.error }, { status: authResult.status })
+    }
+
+    const { searchParams } = new URL(request.url)
+    const validatedFields = AuditQuerySchema.safeParse(Object.fromEntries(searchParams))
+
+    if (!validatedFields.success) {
+      return NextResponse.json(
+        { error: 'Invalid input fields', details: validatedFields.error.flatten() },
+        { status: 400 }
+      )
+    }
+
+    const { projectId, entityType, entityId, userId, from, to, limit } = validatedFields.data
+
+    const isAdmin = requireRole(authResult.user.role, 'ADMIN')
+
+    if (projectId) {
+      const hasAccess = isAdmin || await checkProjectAccess(
+        authResult.user.id,
+        projectId,
+        'VIEWER'
+      )
+
+      if (!hasAccess) {
+        return NextResponse.json(
+          { error: 'Insufficient permissions' },
+          { status: 403 }
+        )
+      }
+    } else if (!isAdmin) {
+      return NextResponse.json(
+        { error: 'Only administrators can query audit logs across projects' },
+        { status: 403 }
+      )
+    }
+
+    const entries = await db.auditLog.findMany({
+      where: {
+        projectId,
+        entityType,
+        entityId,
+        userId,
+        ...((from || to) && {
+          createdAt: { gte: from, lte: to }
+        })
+      },
+      include: {
+        user: {
+          select: { id: true, name: true, email: true }
+        }
+      },
+      orderBy: { createdAt: 'desc' },
+      take: limit
+    })
+
+    return NextResponse.json({ entries })
+
+  } catch (error) {
+    console.error('Get audit log error:', error)
+    return NextResponse.json(
+      { error: 'Internal server error' },
+      { status: 500 }
+    )
+  }
+}
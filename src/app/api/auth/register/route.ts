@@ -2,6 +2,7 @@ import { NextRequest, NextResponse } from 'next/server'
 import { hash } from 'bcryptjs'
 import { db } from '@/lib/db'
 import { RegisterUserSchema } from '@/lib/schemas'
+import { acceptInvitations } from '@/lib/invitations'
 
 export async function POST(request: NextRequest) {
   try {
@@ -16,7 +17,7 @@ export async function POST(request: NextRequest) {
       )
     }
 
-    const { name, email, password } = validatedFields.data
+    const { name, email, password, inviteToken } = validatedFields.data
 
     // Check if user already exists
     const existingUser = await db.user.findUnique({
@@ -49,9 +50,15 @@ export async function POST(request: NextRequest) {
       }
     })
 
+    // Join projects the user was invited to
+    const joinedProjectIds = inviteToken
+      ? await acceptInvitations(user.id, email, inviteToken)
+      : []
+
     return NextResponse.json({
       message: 'User created successfully',
-      user
+      user,
+      joinedProjectIds
     }, { status: 201 })
 
   } catch (error) {
@@ -0,0 +1,164 @@
+import { NextRequest, NextResponse } from 'next/server'
+import { db } from '@/lib/db'
+import { authenticate, checkOrganizationAccess, checkProjectAccess, requireRole } from '@/lib/auth-middleware'
+import { AssignCriteriaProfileSchema } from '@/lib/schemas'
+
+/**
+ * POST /api/criteria-profiles/[id]/assign - Attach profile to a project or organization
+ */
+export async function POST(
+  request: NextRequest,
+  { params }: { params: { id: string } }
+) {
+  return updateAssignment(request, params.id, 'assign')
+}
+
+/**
+ * DELETE /api/criteria-profiles/[id]/assign - Detach profile from a project or organization
+ */
+export async function DELETE(
+  request: NextRequest,
+  { params }: { params: { id: string } }
+) {
+  return updateAssignment(request, params.id, 'unassign')
+}
+
+async function updateAssignment(
+  request: NextRequest,
+  profileId: string,
+  mode: 'assign' | 'unassign'
+) {
+  try {
+    const authResult = await authenticate(request)
+    if ('error' in authResult) {
+      return NextResponse.json({ error: authResult.error }, { status: authResult.status })
+    }
+
+    const body = await request.json()
+    const validatedFields = AssignCriteriaProfileSchema.safeParse(body)
+
+    if (!validatedFields.success) {
+      return NextResponse.json(
+        { error: 'Invalid input fields', details: validatedFields.error.flatten() },
+        { status: 400 }
+      )
+    }
+
+    const { projectId, orgId } = validatedFields.data
+
+    const profile = await db.criteriaProfile.findUnique({
+      where: { id: profileId }
+    })
+
+    if (!profile) {
+      return NextResponse.json(
+        { error: 'Criteria profile not found' },
+        { status: 404 }
+      )
+    }
+
+    const criteriaProfileId = mode === 'assign' ? profileId : null
+
+    if (projectId) {
+      const project = await db.project.findUnique({
+        where: { id: projectId }
+      })
+
+      if (!project) {
+        return NextResponse.json(
+          { error: 'Project not found' },
+          { status: 404 }
+        )
+      }
+
+      // Project owners choose which of their organization's profiles applies
+      const hasAccess = await checkProjectAccess(
+        authResult.user.id,
+        projectId,
+        'OWNER'
+      )
+
+      if (!hasAccess) {
+        return NextResponse.json(
+          { error: 'Insufficient permissions' },
+          { status: 403 }
+        )
+      }
+
+      if (project.orgId !== profile.orgId) {
+        return NextResponse.json(
+          { error: 'Criteria profile belongs to a different organization' },
+          { status: 400 }
+        )
+      }
+
+      if (mode === 'unassign' && project.criteriaProfileId !== profileId) {
+        return NextResponse.json(
+          { error: 'Criteria profile is not assigned to this project' },
+          { status: 400 }
+        )
+      }
+
+      const updatedProject = await db.project.update({
+        where: { id: projectId },
+        data: { criteriaProfileId },
+        select: { id: true, name: true, criteriaProfileId: true }
+      })
+
+      return NextResponse.json({
+        message: mode === 'assign' ? 'Criteria profile assigned to project' : 'Criteria profile removed from project',
+        project: updatedProject
+      })
+    }
+
+    if (!requireRole(authResult.user.role, 'ADMIN')) {
+      return NextResponse.json(
+        { error: 'Only administrators can set organization criteria' },
+        { status: 403 }
+      )
+    }
+
+    if (orgId !== profile.orgId) {
+      return NextResponse.json(
+        { error: 'Criteria profile belongs to a different organization' },
+        { status: 400 }
+      )
+    }
+
+    if (!await checkOrganizationAccess(authResult.user.id, profile.orgId)) {
+      return NextResponse.json(
+        { error: 'Insufficient permissions' },
+        { status: 403 }
+      )
+    }
+
+    const organization = await db.organization.findUnique({
+      where: { id: orgId }
+    })
+
+    if (mode === 'unassign' && organization?.criteriaProfileId !== profileId) {
+      return NextResponse.json(
+        { error: 'Criteria profile is not assigned to this organization' },
+        { status: 400 }
+      )
+    }
+
+    const updatedOrganization = await db.organization.update({
+      where: { id: orgId },
+      data: { criteriaProfileId },
+      select: { id: true, name: true, criteriaProfileId: true }
+    })
+
+    return NextResponse.json({
+      message: mode === 'assign' ? 'Criteria profile assigned to organization' : 'Criteria profile removed from organization',
+      organization: updatedOrganization
+    })
+
+  } catch (error) {
+    console.error('Assign criteria profile error:', error)
+    return NextResponse.json(
+      { error: 'Internal server error' },
+      { status: 500 }
+    )
+  }
+}
@@ -0,0 +1,196 @@
+import { NextRequest, NextResponse } from 'next/server'
+import { db } from '@/lib/db'
+import { authenticate, checkOrganizationAccess, requireRole } from '@/lib/auth-middleware'
+import { UpdateCriteriaProfileSchema } from '@/lib/schemas'
+import { parseCriteriaOverrides, resolveCriteria, sameCriteria } from '@/lib/criteria'
+
+/**
+ * GET /api/criteria-profiles/[id] - Get criteria profile with resolved limits
+ */
+export async function GET(
+  request: NextRequest,
+  { params }: { params: { id: string } }
+) {
+  try {
+    const authResult = await authenticate(request)
+    if ('error' in authResult) {
+      return NextResponse.json({ error: authResult.error }, { status: authResult.status })
+    }
+
+    const profile = await db.criteriaProfile.findUnique({
+      where: { id: params.id },
+      include: {
+        organization: {
+          select: { id: true, name: true }
+        },
+        projects: {
+          select: { id: true, name: true }
+        }
+      }
+    })
+
+    if (!profile) {
+      return NextResponse.json(
+        { error: 'Criteria profile not found' },
+        { status: 404 }
+      )
+    }
+
+    if (!await checkOrganizationAccess(authResult.user.id, profile.orgId)) {
+      return NextResponse.json(
+        { error: 'Insufficient permissions' },
+        { status: 403 }
+      )
+    }
+
+    return NextResponse.json({
+      profile: {
+        ...profile,
+        resolvedCriteria: resolveCriteria(parseCriteriaOverrides(profile.criteria))
+      }
+    })
+
+  } catch (error) {
+    console.error('Get criteria profile error:', error)
+    return NextResponse.json(
+      { error: 'Internal server error' },
+      { status: 500 }
+    )
+  }
+}
+
+/**
+ * PATCH /api/criteria-profiles/[id] - Update profile (bumps version when limits change)
+ */
+export async function PATCH(
+  request: NextRequest,
+  { params }: { params: { id: string } }
+) {
+  try {
+    const authResult = await authenticate(request)
+    if ('error' in authResult) {
+      return NextResponse.json({ error: authResult.error }, { status: authResult.status })
+    }
+
+    if (!requireRole(authResult.user.role, 'ADMIN')) {
+      return NextResponse.json(
+        { error: 'Only administrators can update criteria profiles' },
+        { status: 403 }
+      )
+    }
+
+    const body = await request.json()
+    const validatedFields = UpdateCriteriaProfileSchema.safeParse(body)
+
+    if (!validatedFields.success) {
+      return NextResponse.json(
+        { error: 'Invalid input fields', details: validatedFields.error.flatten() },
+        { status: 400 }
+      )
+    }
+
+    const existingProfile = await db.criteriaProfile.findUnique({
+      where: { id: params.id }
+    })
+
+    if (!existingProfile) {
+      return NextResponse.json(
+        { error: 'Criteria profile not found' },
+        { status: 404 }
+      )
+    }
+
+    if (!await checkOrganizationAccess(authResult.user.id, existingProfile.orgId)) {
+      return NextResponse.json(
+        { error: 'Insufficient permissions' },
+        { status: 403 }
+      )
+    }
+
+    const { name, description, criteria } = validatedFields.data
+
+    // Results already computed keep their own snapshot of the old limits
+    const criteriaChanged = criteria !== undefined &&
+      !sameCriteria(criteria, existingProfile.criteria)
+
+    const profile = await db.criteriaProfile.update({
+      where: { id: params.id },
+      data: {
+        name,
+        description,
+        ...(criteriaChanged && {
+          criteria,
+          version: { increment: 1 }
+        })
+      }
+    })
+
+    return NextResponse.json({
+      message: 'Criteria profile updated successfully',
+      profile
+    })
+
+  } catch (error) {
+    console.error('Update criteria profile error:', error)
+    return NextResponse.json(
+      { error: 'Internal server error' },
+      { status: 500 }
+    )
+  }
+}
+
+/**
+ * DELETE /api/criteria-profiles/[id] - Delete profile (admin only)
+ */
+export async function DELETE(
+  request: NextRequest,
+  { params }: { params: { id: string } }
+) {
+  try {
+    const authResult = await authenticate(request)
+    if ('error' in authResult) {
+      return NextResponse.json({ error: authResult.error }, { status: authResult.status })
+    }
+
+    if (!requireRole(authResult.user.role, 'ADMIN')) {
+      return NextResponse.json(
+        { error: 'Only administrators can delete criteria profiles' },
+        { status: 403 }
+      )
+    }
+
+    const profile = await db.criteriaProfile.findUnique({
+      where: { id: params.id }
+    })
+
+    if (!profile) {
+      return NextResponse.json(
+        { error: 'Criteria profile not found' },
+        { status: 404 }
+      )
+    }
+
+    if (!await checkOrganizationAccess(authResult.user.id, profile.orgId)) {
+      return NextResponse.json(
+        { error: 'Insufficient permissions' },
+        { status: 403 }
+      )
+    }
+
+    // Projects and organizations using this profile fall back to the next level
+    await db.criteriaProfile.delete({
+      where: { id: params.id }
+    })
+
+    return NextResponse.json({
+      message: 'Criteria profile deleted successfully'
+    })
+
+  } catch (error) {
+    console.error('Delete criteria profile error:', error)
+    return NextResponse.json(
+      { error: 'Internal server error' },
+      { status: 500 }
+    )
+  }
+}
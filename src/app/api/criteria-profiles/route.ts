@@ -0,0 +1,121 @@
+import { NextRequest, NextResponse } from 'next/server'
+import { db } from '@/lib/db'
+import { authenticate, checkOrganizationAccess, getUserOrganizationIds, requireRole } from '@/lib/auth-middleware'
+import { CreateCriteriaProfileSchema } from '@/lib/schemas'
+import { DEFAULT_CRITERIA, parseCriteriaOverrides, resolveCriteria } from '@/lib/criteria'
+
+/**
+ * GET /api/criteria-profiles - List criteria profiles, optionally for one organization
+ * Only profiles of the user's own organizations are listed
+ */
+export async function GET(request: NextRequest) {
+  try {
+    const authResult = await authenticate(request)
+    if ('error' in authResult) {
+      return NextResponse.json({ error: authResult.error }, { status: authResult.status })
+    }
+
+    const { searchParams } = new URL(request.url)
+    const orgId = searchParams.get('orgId')
+    const orgIds = await getUserOrganizationIds(authResult.user.id)
+
+    const profiles = await db.criteriaProfile.findMany({
+      where: { orgId: { in: orgId ? orgIds.filter(id => id === orgId) : orgIds } },
+      include: {
+        organization: {
+          select: { id: true, name: true }
+        },
+        _count: {
+          select: { projects: true, organizations: true }
+        }
+      },
+      orderBy: { name: 'asc' }
+    })
+
+    return NextResponse.json({
+      profiles: profiles.map(profile => ({
+        ...profile,
+        resolvedCriteria: resolveCriteria(parseCriteriaOverrides(profile.criteria))
+      })),
+      defaults: DEFAULT_CRITERIA
+    })
+
+  } catch (error) {
+    console.error('Get criteria profiles error:', error)
+    return NextResponse.json(
+      { error: 'Internal server error' },
+      { status: 500 }
+    )
+  }
+}
+
+/**
+ * POST /api/criteria-profiles - Create a criteria profile for an organization
+ */
+export async function POST(request: NextRequest) {
+  try {
+    const authResult = await authenticate(request)
+    if ('error' in authResult) {
+      return NextResponse.json({ error: authResult.error }, { status: authResult.status })
+    }
+
+    // Only ADMIN users manage organization-wide criteria
+    if (!requireRole(authResult.user.role, 'ADMIN')) {
+      return NextResponse.json(
+        { error: 'Only administrators can create criteria profiles' },
+        { status: 403 }
+      )
+    }
+
+    const body = await request.json()
+    const validatedFields = CreateCriteriaProfileSchema.safeParse(body)
+
+    if (!validatedFields.success) {
+      return NextResponse.json(
+        { error: 'Invalid input fields', details: validatedFields.error.flatten() },
+        { status: 400 }
+      )
+    }
+
+    const { orgId, name, description, criteria } = validatedFields.data
+
+    const organization = await db.organization.findUnique({
+      where: { id: orgId }
+    })
+
+    if (!organization) {
+      return NextResponse.json(
+        { error: 'Organization not found' },
+        { status: 404 }
+      )
+    }
+
+    if (!await checkOrganizationAccess(authResult.user.id, orgId)) {
+      return NextResponse.json(
+        { error: 'Insufficient permissions' },
+        { status: 403 }
+      )
+    }
+
+    const profile = await db.criteriaProfile.create({
+      data: {
+        orgId,
+        name,
+        description,
+        criteria
+      }
+    })
+
+    return NextResponse.json({
+      message: 'Criteria profile created successfully',
+      profile
+    }, { status: 201 })
+
+  } catch (error) {
+    console.error('Create criteria profile error:', error)
+    return NextResponse.json(
+      { error: 'Internal server error' },
+      { status: 500 }
+    )
+  }
+}
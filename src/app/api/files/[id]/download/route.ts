@@ -0,0 +1,68 @@
+import { NextRequest, NextResponse } from 'next/server'
+import { db } from '@/lib/db'
+import { authenticate } from '@/lib/auth-middleware'
+import { generateDownloadUrl } from '@/lib/storage'
+import { canViewFile, fileProjectSelect } from '@/lib/file-access'
+
+/**
+ * GET /api/files/[id]/download - Redirect to a short-lived URL for the file
+ * Files are only reachable through this route; the bucket itself is private.
+ * ?size=thumbnail|preview serves a rendition, falling back to the original.
+ */
+export async function GET(
+  request: NextRequest,
+  { params }: { params: { id: string } }
+) {
+  try {
+    const authResult = await authenticate(request)
+    if ('error' in authResult) {
+      return NextResponse.json({ error: authResult.error }, { status: authResult.status })
+    }
+
+    const file = await db.fileAsset.findUnique({
+      where: { id: params.id },
+      select: {
+        filename: true,
+        thumbnailKey: true,
+        previewKey: true,
+        ...fileProjectSelect
+      }
+    })
+
+    if (!file) {
+      return NextResponse.json(
+        { error: 'File not found' },
+        { status: 404 }
+      )
+    }
+
+    const hasAccess = await canViewFile(authResult.user, file)
+
+    if (!hasAccess) {
+      return NextResponse.json(
+        { error: 'Insufficient permissions' },
+        { status: 403 }
+      )
+    }
+
+    const size = request.nextUrl.searchParams.get('size')
+    const key = (size === 'thumbnail' && file.thumbnailKey)
+      || (size === 'preview' && file.previewKey)
+      || file.filename
+
+    const downloadUrl = await generateDownloadUrl(key)
+
+    // Local storage returns a path on this app; S3 returns an absolute URL
+    const response = NextResponse.redirect(new URL(downloadUrl, request.url))
+    response.headers.set('Cache-Control', 'private, max-age=300')
+
+    return response
+
+  } catch (error) {
+    console.error('File download error:', error)
+    return NextResponse.json(
+      { error: 'Internal server error' },
+      { status: 500 }
+    )
+  }
+}
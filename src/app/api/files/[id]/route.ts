@@ -1,7 +1,11 @@
 import { NextRequest, NextResponse } from 'next/server'
 import { db } from '@/lib/db'
 import { authenticate, checkProjectAccess } from '@/lib/auth-middleware'
-import { deleteFile, extractKeyFromUrl } from '@/lib/s3-client'
+import { getSessionLockedMessage, isSessionLocked } from '@/lib/session-workflow'
+import { deleteFile } from '@/lib/storage'
+import { withDownloadUrl } from '@/lib/file-utils'
+import { canViewFile, fileProjectSelect } from '@/lib/file-access'
+import { refreshMoistureTests } from '@/lib/test-evaluation'
 
 /**
  * GET /api/files/[id] - Get file details
@@ -48,23 +52,21 @@ export async function GET(
       )
     }
 
-    // Check access to the project
-    if (file.projectId) {
-      const hasAccess = await checkProjectAccess(
-        authResult.user.id,
-        file.projectId,
-        'VIEWER'
-      )
+    // Check access to the project, which may only be linked through the file's area, unit, session or test
+    const fileProject = await db.fileAsset.findUniqueOrThrow({
+      where: { id: fileId },
+      select: fileProjectSelect
+    })
+    const hasAccess = await canViewFile(authResult.user, fileProject)
 
-      if (!hasAccess) {
-        return NextResponse.json(
-          { error: 'Insufficient permissions' },
-          { status: 403 }
-        )
-      }
+    if (!hasAccess) {
+      return NextResponse.json(
+        { error: 'Insufficient permissions' },
+        { status: 403 }
+      )
     }
 
-    return NextResponse.json({ file })
+    return NextResponse.json({ file: withDownloadUrl(file) })
 
   } catch (error) {
     console.error('Get file error:', error)
@@ -95,6 +97,12 @@ export async function DELETE(
       include: {
         project: {
           select: { id: true }
+        },
+        session: {
+          select: { status: true }
+        },
+        testResult: {
+          select: { sessionId: true, session: { select: { status: true } } }
         }
       }
     })
@@ -122,13 +130,26 @@ export async function DELETE(
       }
     }
 
+    // Evidence attached to a locked session can't be changed
+    const sessionStatus = file.session?.status ?? file.testResult?.session.status
+    if (sessionStatus && isSessionLocked(sessionStatus)) {
+      return NextResponse.json(
+        { error: getSessionLockedMessage(sessionStatus) },
+        { status: 409 }
+      )
+    }
+
     try {
-      // Delete from S3
-      const s3Key = extractKeyFromUrl(file.url)
-      await deleteFile(s3Key)
-    } catch (s3Error) {
-      console.error('S3 delete error:', s3Error)
-      // Continue with database deletion even if S3 delete fails
+      // Delete from storage (filename holds the storage key)
+      await deleteFile(file.filename)
+      for (const key of [file.thumbnailKey, file.previewKey, file.thermalKey]) {
+        if (key) {
+          await deleteFile(key)
+        }
+      }
+    } catch (storageError) {
+      console.error('Storage delete error:', storageError)
+      // Continue with database deletion even if storage delete fails
     }
 
     // Delete from database
@@ -136,6 +157,12 @@ export async function DELETE(
       where: { id: fileId }
     })
 
+    // Removing IR surface temperatures can change the session's moisture results
+    const evidenceSessionId = file.sessionId ?? file.testResult?.sessionId
+    if (file.thermalKey && evidenceSessionId) {
+      await refreshMoistureTests(evidenceSessionId)
+    }
+
     return NextResponse.json({ 
       message: 'File deleted successfully'
     })
@@ -170,6 +197,12 @@ export async function PATCH(
       include: {
         project: {
           select: { id: true }
+        },
+        session: {
+          select: { status: true }
+        },
+        testResult: {
+          select: { sessionId: true, session: { select: { status: true } } }
         }
       }
     })
@@ -197,6 +230,15 @@ export async function PATCH(
       }
     }
 
+    // Evidence attached to a locked session can't be changed
+    const sessionStatus = file.session?.status ?? file.testResult?.session.status
+    if (sessionStatus && isSessionLocked(sessionStatus)) {
+      return NextResponse.json(
+        { error: getSessionLockedMessage(sessionStatus) },
+        { status: 409 }
+      )
+    }
+
     // Only allow updating certain fields
     const allowedFields = ['label', 'category']
     const updateData: any = {}
@@ -207,6 +249,25 @@ export async function PATCH(
       }
     }
 
+    // Files can be linked to a test in the session they were uploaded to
+    if ('testResultId' in body) {
+      const testResult = typeof body.testResultId === 'string'
+        ? await db.testResult.findUnique({
+            where: { id: body.testResultId },
+            select: { sessionId: true }
+          })
+        : null
+
+      if (!testResult || !file.sessionId || testResult.sessionId !== file.sessionId) {
+        return NextResponse.json(
+          { error: 'Test result must belong to the same session as the file' },
+          { status: 400 }
+        )
+      }
+
+      updateData.testResultId = body.testResultId
+    }
+
     const updatedFile = await db.fileAsset.update({
       where: { id: fileId },
       data: updateData,
@@ -231,9 +292,14 @@ export async function PATCH(
       }
     })
 
+    // Linking an IR image to a moisture test can change the session's results
+    if (updatedFile.thermalKey && updatedFile.sessionId && 'testResultId' in updateData) {
+      await refreshMoistureTests(updatedFile.sessionId)
+    }
+
     return NextResponse.json({ 
       message: 'File updated successfully',
-      file: updatedFile
+      file: withDownloadUrl(updatedFile)
     })
 
   } catch (error) {
@@ -0,0 +1,71 @@
+import { NextRequest, NextResponse } from 'next/server'
+import { db } from '@/lib/db'
+import { authenticate } from '@/lib/auth-middleware'
+import { getFileContents } from '@/lib/storage'
+import { canViewFile, fileProjectSelect } from '@/lib/file-access'
+import { decodeTemperatureGrid } from '@/lib/ir-radiometric'
+
+/**
+ * GET /api/files/[id]/thermal - Per-pixel surface temperatures of a radiometric IR image
+ * Returns the thermal summary and a row-major grid of temperatures in °F.
+ */
+export async function GET(
+  request: NextRequest,
+  { params }: { params: { id: string } }
+) {
+  try {
+    const authResult = await authenticate(request)
+    if ('error' in authResult) {
+      return NextResponse.json({ error: authResult.error }, { status: authResult.status })
+    }
+
+    const file = await db.fileAsset.findUnique({
+      where: { id: params.id },
+      select: {
+        thermal: true,
+        thermalKey: true,
+        ...fileProjectSelect
+      }
+    })
+
+    if (!file) {
+      return NextResponse.json(
+        { error: 'File not found' },
+        { status: 404 }
+      )
+    }
+
+    const hasAccess = await canViewFile(authResult.user, file)
+
+    if (!hasAccess) {
+      return NextResponse.json(
+        { error: 'Insufficient permissions' },
+        { status: 403 }
+      )
+    }
+
+    if (!file.thermalKey || !file.thermal) {
+      return NextResponse.json(
+        { error: 'File has no radiometric data' },
+        { status: 404 }
+      )
+    }
+
+    const grid = await getFileContents(file.thermalKey)
+
+    const response = NextResponse.json({
+      thermal: file.thermal,
+      temperatures_F: decodeTemperatureGrid(grid)
+    })
+    response.headers.set('Cache-Control', 'private, max-age=300')
+
+    return response
+
+  } catch (error) {
+    console.error('Get thermal data error:', error)
+    return NextResponse.json(
+      { error: 'Internal server error' },
+      { status: 500 }
+    )
+  }
+}
@@ -1,12 +1,19 @@
 import { NextRequest, NextResponse } from 'next/server'
+import { FileCategory, Prisma } from '@prisma/client'
 import { db } from '@/lib/db'
 import { authenticate, checkProjectAccess } from '@/lib/auth-middleware'
+import { getSessionLockedMessage, isSessionLocked } from '@/lib/session-workflow'
 import { FileUploadSchema } from '@/lib/schemas'
+import { getStorage } from '@/lib/storage'
+import { getUploadFolder, withDownloadUrl } from '@/lib/file-utils'
+import { resolveUploadTarget } from '@/lib/file-access'
+import { supportsRenditions } from '@/lib/image-renditions'
+import { processUploadedImage } from '@/lib/image-processing'
+import { refreshMoistureTests } from '@/lib/test-evaluation'
 import { z } from 'zod'
 
 const SaveFileSchema = FileUploadSchema.extend({
-  key: z.string().min(1, "S3 key is required"),
-  url: z.string().url("Valid URL is required"),
+  key: z.string().min(1, "Storage key is required"),
   projectId: z.string().optional(),
   areaId: z.string().optional(),
   sessionId: z.string().optional(),
@@ -30,8 +37,34 @@ export async function GET(request: NextRequest) {
     const testResultId = searchParams.get('testResultId')
     const category = searchParams.get('category')
 
+    // Files are listed for one target; its project decides access, and unfiltered lists are admin-only
+    const target = await resolveUploadTarget({
+      projectId: projectId ?? undefined,
+      areaId: areaId ?? undefined,
+      sessionId: sessionId ?? undefined,
+      testResultId: testResultId ?? undefined
+    })
+
+    if (!target) {
+      return NextResponse.json(
+        { error: 'File target not found' },
+        { status: 404 }
+      )
+    }
+
+    const hasAccess = target.projectId
+      ? await checkProjectAccess(authResult.user.id, target.projectId, 'VIEWER')
+      : authResult.user.role === 'ADMIN'
+
+    if (!hasAccess) {
+      return NextResponse.json(
+        { error: 'Insufficient permissions' },
+        { status: 403 }
+      )
+    }
+
     // Build where clause
-    const whereClause: any = {}
+    const whereClause: Prisma.FileAssetWhereInput = {}
     
     if (testResultId) {
       whereClause.testResultId = testResultId
@@ -50,23 +83,7 @@ export async function GET(request: NextRequest) {
     }
 
     if (category) {
-      whereClause.category = category
-    }
-
-    // Verify access to project if specified
-    if (projectId) {
-      const hasAccess = await checkProjectAccess(
-        authResult.user.id,
-        projectId,
-        'VIEWER'
-      )
-
-      if (!hasAccess) {
-        return NextResponse.json(
-          { error: 'Insufficient permissions' },
-          { status: 403 }
-        )
-      }
+      whereClause.category = category as FileCategory
     }
 
     const files = await db.fileAsset.findMany({
@@ -93,7 +110,7 @@ export async function GET(request: NextRequest) {
       orderBy: { createdAt: 'desc' }
     })
 
-    return NextResponse.json({ files })
+    return NextResponse.json({ files: files.map(withDownloadUrl) })
 
   } catch (error) {
     console.error('Get files error:', error)
@@ -131,7 +148,6 @@ export async function POST(request: NextRequest) {
       category = 'OTHER', 
       label, 
       key, 
-      url,
       projectId,
       areaId,
       sessionId,
@@ -154,6 +170,11 @@ export async function POST(request: NextRequest) {
       }
     }
 
+    // Session the file is evidence for, directly or through its test
+    let evidenceSessionId = sessionId
+    // Project whose access was checked, from the most specific target
+    let targetProjectId = projectId
+
     // Verify related entities exist
     if (testResultId) {
       const testResult = await db.testResult.findUnique({
@@ -181,6 +202,16 @@ export async function POST(request: NextRequest) {
           { status: 403 }
         )
       }
+
+      if (isSessionLocked(testResult.session.status)) {
+        return NextResponse.json(
+          { error: getSessionLockedMessage(testResult.session.status) },
+          { status: 409 }
+        )
+      }
+
+      evidenceSessionId = testResult.sessionId
+      targetProjectId = testResult.session.area.project.id
     } else if (sessionId) {
       const session = await db.session.findUnique({
         where: { id: sessionId },
@@ -206,6 +237,15 @@ export async function POST(request: NextRequest) {
           { status: 403 }
         )
       }
+
+      if (isSessionLocked(session.status)) {
+        return NextResponse.json(
+          { error: getSessionLockedMessage(session.status) },
+          { status: 409 }
+        )
+      }
+
+      targetProjectId = session.area.project.id
     } else if (areaId) {
       const area = await db.area.findUnique({
         where: { id: areaId },
@@ -231,6 +271,28 @@ export async function POST(request: NextRequest) {
           { status: 403 }
         )
       }
+
+      targetProjectId = area.project.id
+    }
+
+    if (projectId && targetProjectId !== projectId) {
+      return NextResponse.json(
+        { error: 'File target belongs to another project' },
+        { status: 400 }
+      )
+    }
+
+    // Only accept keys issued for the target whose access was checked, so a file
+    // stored under another project can't be registered here
+    const folder = targetProjectId
+      ? getUploadFolder({ projectId: targetProjectId, areaId, sessionId: evidenceSessionId, testResultId })
+      : 'general'
+
+    if (!key.startsWith(`${folder}/`) || key.split('/').indexOf('..') !== -1) {
+      return NextResponse.json(
+        { error: 'Storage key does not match the upload target' },
+        { status: 400 }
+      )
     }
 
     // Extract original filename (remove S3 prefix)
@@ -239,9 +301,9 @@ export async function POST(request: NextRequest) {
     // Save file metadata to database
     const fileAsset = await db.fileAsset.create({
       data: {
-        filename: key, // S3 key
+        filename: key, // Storage key
         originalName,
-        url,
+        url: getStorage().getPublicUrl(key), // Storage location; clients use the download route
         mimeType,
         fileSize,
         label,
@@ -272,9 +334,28 @@ export async function POST(request: NextRequest) {
       }
     })
 
+    // Image processing is best-effort: the upload stands without EXIF data,
+    // renditions or thermal data, and clients fall back to the original
+    let file = fileAsset
+    if (supportsRenditions(mimeType)) {
+      try {
+        const project = targetProjectId
+          ? await db.project.findUnique({ where: { id: targetProjectId }, select: { timeZone: true } })
+          : null
+        file = { ...fileAsset, ...await processUploadedImage(fileAsset, project?.timeZone) }
+      } catch (processingError) {
+        console.error('Image processing error:', processingError)
+      }
+    }
+
+    // New IR surface temperatures can change the session's moisture results
+    if (file.thermalKey && evidenceSessionId) {
+      await refreshMoistureTests(evidenceSessionId)
+    }
+
     return NextResponse.json({ 
       message: 'File uploaded successfully',
-      file: fileAsset
+      file: withDownloadUrl(file)
     }, { status: 201 })
 
   } catch (error) {
@@ -1,6 +1,8 @@
 import { NextRequest, NextResponse } from 'next/server'
 import { authenticate, checkProjectAccess } from '@/lib/auth-middleware'
-import { generateUploadUrl, getUploadFolder, validateFile as validateFileType, categorizeFile } from '@/lib/s3-client'
+import { generateUploadUrl } from '@/lib/storage'
+import { getUploadFolder, validateFile as validateFileType, categorizeFile } from '@/lib/file-utils'
+import { resolveUploadTarget } from '@/lib/file-access'
 import { z } from 'zod'
 
 const GenerateUploadUrlSchema = z.object({
@@ -46,11 +48,27 @@ export async function POST(request: NextRequest) {
       )
     }
 
-    // If projectId is provided, verify access
-    if (projectId) {
+    // The folder is built from the target's own project so that keys can be checked when the file is saved
+    const target = await resolveUploadTarget({ projectId, areaId, sessionId, testResultId })
+
+    if (!target) {
+      return NextResponse.json(
+        { error: 'Upload target not found' },
+        { status: 404 }
+      )
+    }
+
+    if (projectId && target.projectId !== projectId) {
+      return NextResponse.json(
+        { error: 'Upload target belongs to another project' },
+        { status: 400 }
+      )
+    }
+
+    if (target.projectId) {
       const hasAccess = await checkProjectAccess(
         authResult.user.id,
-        projectId,
+        target.projectId,
         'EDITOR'
       )
 
@@ -63,16 +81,21 @@ export async function POST(request: NextRequest) {
     }
 
     // Generate folder structure and upload URL
-    const folder = getUploadFolder({ projectId, areaId, sessionId, testResultId, category })
+    const folder = getUploadFolder({
+      projectId: target.projectId ?? undefined,
+      areaId,
+      sessionId: target.sessionId,
+      testResultId,
+      category
+    })
     const upload = await generateUploadUrl(filename, mimeType, folder)
 
     // Auto-categorize if not provided
-    const fileCategory = category || categorizeFile(mimeType)
+    const fileCategory = category || categorizeFile(mimeType, filename)
 
     return NextResponse.json({
       uploadUrl: upload.uploadUrl,
       key: upload.key,
-      publicUrl: upload.publicUrl,
       category: fileCategory,
       folder
     })
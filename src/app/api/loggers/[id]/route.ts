@@ -0,0 +1,127 @@
+import { NextRequest, NextResponse } from 'next/server'
+import { db } from '@/lib/db'
+import { authenticate, checkProjectAccess } from '@/lib/auth-middleware'
+import { getActiveCriteria } from '@/lib/criteria-profiles'
+import { analyzeLoggerSamples } from '@/lib/logger-data'
+import type { LoggerColumnMap } from '@/lib/schemas'
+
+/**
+ * GET /api/loggers/[id] - Get a logger dataset with its readings
+ * Includes hours above the project's indoor RH and dew point limits, occupied-hour
+ * and overnight statistics.
+ */
+export async function GET(
+  request: NextRequest,
+  { params }: { params: { id: string } }
+) {
+  try {
+    const authResult = await authenticate(request)
+    if ('error' in authResult) {
+      return NextResponse.json({ error: authResult.error }, { status: authResult.status })
+    }
+
+    const dataset = await db.loggerDataset.findUnique({
+      where: { id: params.id },
+      include: {
+        area: { select: { id: true, name: true } },
+        unit: { select: { id: true, label: true } },
+        uploadedBy: { select: { id: true, name: true, email: true } },
+        samples: {
+          select: { recordedAt: true, temperature_F: true, rh_pct: true, dewPoint_F: true },
+          orderBy: { recordedAt: 'asc' }
+        }
+      }
+    })
+
+    if (!dataset) {
+      return NextResponse.json(
+        { error: 'Logger dataset not found' },
+        { status: 404 }
+      )
+    }
+
+    const hasAccess = await checkProjectAccess(
+      authResult.user.id,
+      dataset.projectId,
+      'VIEWER'
+    )
+
+    if (!hasAccess) {
+      return NextResponse.json(
+        { error: 'Insufficient permissions' },
+        { status: 403 }
+      )
+    }
+
+    const { limits } = await getActiveCriteria(dataset.projectId)
+    const analysis = analyzeLoggerSamples(
+      dataset.samples,
+      { rh_pct: limits.indoorMaxRh_pct, dewPoint_F: limits.indoorMaxDewPoint_F },
+      (dataset.columnMap as unknown as LoggerColumnMap).utcOffsetMinutes
+    )
+
+    return NextResponse.json({ dataset, analysis })
+
+  } catch (error) {
+    console.error('Get logger dataset error:', error)
+    return NextResponse.json(
+      { error: 'Internal server error' },
+      { status: 500 }
+    )
+  }
+}
+
+/**
+ * DELETE /api/loggers/[id] - Delete a logger dataset and its readings
+ */
+export async function DELETE(
+  request: NextRequest,
+  { params }: { params: { id: string } }
+) {
+  try {
+    const authResult = await authenticate(request)
+    if ('error' in authResult) {
+      return NextResponse.json({ error: authResult.error }, { status: authResult.status })
+    }
+
+    const dataset = await db.loggerDataset.findUnique({
+      where: { id: params.id },
+      select: { projectId: true }
+    })
+
+    if (!dataset) {
+      return NextResponse.json(
+        { error: 'Logger dataset not found' },
+        { status: 404 }
+      )
+    }
+
+    const hasAccess = await checkProjectAccess(
+      authResult.user.id,
+      dataset.projectId,
+      'EDITOR'
+    )
+
+    if (!hasAccess) {
+      return NextResponse.json(
+        { error: 'Insufficient permissions' },
+        { status: 403 }
+      )
+    }
+
+    await db.loggerDataset.delete({
+      where: { id: params.id }
+    })
+
+    return NextResponse.json({
+      message: 'Logger dataset deleted successfully'
+    })
+
+  } catch (error) {
+    console.error('Delete logger dataset error:', error)
+    return NextResponse.json(
+      { error: 'Internal server error' },
+      { status: 500 }
+    )
+  }
+}
@@ -0,0 +1,260 @@
+import { NextRequest, NextResponse } from 'next/server'
+import { Prisma } from '@prisma/client'
+import { db } from '@/lib/db'
+import { authenticate, checkProjectAccess } from '@/lib/auth-middleware'
+import { CreateLoggerDatasetSchema, LoggerListQuerySchema } from '@/lib/schemas'
+import { detectLoggerTable, parseCsv, parseLoggerRows } from '@/lib/logger-csv'
+import {
+  MAX_LOGGER_SAMPLES,
+  getTypicalInterval,
+  summarizeLoggerSamples,
+  withDewPoint
+} from '@/lib/logger-data'
+
+/**
+ * GET /api/loggers - List logger datasets for a project, area or unit
+ */
+export async function GET(request: NextRequest) {
+  try {
+    const authResult = await authenticate(request)
+    if ('error' in authResult) {
+      return NextResponse.json({ error: authResult.error }, { status: authResult.status })
+    }
+
+    const { searchParams } = new URL(request.url)
+    const validatedFields = LoggerListQuerySchema.safeParse(Object.fromEntries(searchParams))
+
+    if (!validatedFields.success) {
+      return NextResponse.json(
+        { error: 'Invalid input fields', details: validatedFields.error.flatten() },
+        { status: 400 }
+      )
+    }
+
+    const { projectId, areaId, unitId } = validatedFields.data
+    const whereClause: Prisma.LoggerDatasetWhereInput = {}
+    let projectIdToCheck = projectId
+
+    if (unitId) {
+      const unit = await db.hvacUnit.findUnique({
+        where: { id: unitId },
+        select: { area: { select: { projectId: true } } }
+      })
+
+      if (!unit) {
+        return NextResponse.json(
+          { error: 'Unit not found' },
+          { status: 404 }
+        )
+      }
+
+      projectIdToCheck = unit.area.projectId
+      whereClause.unitId = unitId
+    } else if (areaId) {
+      const area = await db.area.findUnique({
+        where: { id: areaId },
+        select: { projectId: true }
+      })
+
+      if (!area) {
+        return NextResponse.json(
+          { error: 'Area not found' },
+          { status: 404 }
+        )
+      }
+
+      projectIdToCheck = area.projectId
+      // Include loggers placed at the area's units
+      whereClause.OR = [{ areaId }, { unit: { areaId } }]
+    } else if (projectId) {
+      whereClause.projectId = projectId
+    }
+
+    if (!projectIdToCheck) {
+      return NextResponse.json(
+        { error: 'Project ID, Area ID or Unit ID is required' },
+        { status: 400 }
+      )
+    }
+
+    const hasAccess = await checkProjectAccess(
+      authResult.user.id,
+      projectIdToCheck,
+      'VIEWER'
+    )
+
+    if (!hasAccess) {
+      return NextResponse.json(
+        { error: 'Insufficient permissions' },
+        { status: 403 }
+      )
+    }
+
+    const datasets = await db.loggerDataset.findMany({
+      where: whereClause,
+      include: {
+        area: { select: { id: true, name: true } },
+        unit: { select: { id: true, label: true } },
+        uploadedBy: { select: { id: true, name: true, email: true } }
+      },
+      orderBy: { startedAt: 'desc' }
+    })
+
+    return NextResponse.json({ datasets })
+
+  } catch (error) {
+    console.error('Get logger datasets error:', error)
+    return NextResponse.json(
+      { error: 'Internal server error' },
+      { status: 500 }
+    )
+  }
+}
+
+/**
+ * POST /api/loggers - Import a data logger CSV export
+ * The CSV is parsed server-side with the column mapping confirmed in the import form.
+ */
+export async function POST(request: NextRequest) {
+  try {
+    const authResult = await authenticate(request)
+    if ('error' in authResult) {
+      return NextResponse.json({ error: authResult.error }, { status: authResult.status })
+    }
+
+    const body = await request.json()
+    const validatedFields = CreateLoggerDatasetSchema.safeParse(body)
+
+    if (!validatedFields.success) {
+      return NextResponse.json(
+        { error: 'Invalid input fields', details: validatedFields.error.flatten() },
+        { status: 400 }
+      )
+    }
+
+    const { areaId, unitId, name, loggerType, location, outdoor, sourceFilename, csv, columnMap } = validatedFields.data
+
+    let projectId: string
+    let datasetAreaId = areaId
+
+    if (unitId) {
+      const unit = await db.hvacUnit.findUnique({
+        where: { id: unitId },
+        select: { areaId: true, area: { select: { projectId: true } } }
+      })
+
+      if (!unit) {
+        return NextResponse.json(
+          { error: 'Unit not found' },
+          { status: 404 }
+        )
+      }
+
+      if (areaId && unit.areaId !== areaId) {
+        return NextResponse.json(
+          { error: 'Unit does not belong to this area' },
+          { status: 400 }
+        )
+      }
+
+      projectId = unit.area.projectId
+      datasetAreaId = unit.areaId
+    } else {
+      const area = await db.area.findUnique({
+        where: { id: areaId },
+        select: { projectId: true }
+      })
+
+      if (!area) {
+        return NextResponse.json(
+          { error: 'Area not found' },
+          { status: 404 }
+        )
+      }
+
+      projectId = area.projectId
+    }
+
+    const hasAccess = await checkProjectAccess(
+      authResult.user.id,
+      projectId,
+      'EDITOR'
+    )
+
+    if (!hasAccess) {
+      return NextResponse.json(
+        { error: 'Insufficient permissions' },
+        { status: 403 }
+      )
+    }
+
+    const table = detectLoggerTable(parseCsv(csv))
+
+    if (!table) {
+      return NextResponse.json(
+        { error: 'Could not find a header row followed by data in the CSV' },
+        { status: 400 }
+      )
+    }
+
+    const { readings, skippedRows } = parseLoggerRows(table, columnMap)
+
+    if (readings.length === 0) {
+      return NextResponse.json(
+        { error: 'No valid readings found with this column mapping' },
+        { status: 400 }
+      )
+    }
+
+    if (readings.length > MAX_LOGGER_SAMPLES) {
+      return NextResponse.json(
+        { error: `Logger exports are limited to ${MAX_LOGGER_SAMPLES} readings` },
+        { status: 400 }
+      )
+    }
+
+    const samples = withDewPoint(readings)
+
+    // The dataset create is audited from its result; the samples (createMany) are not
+    const dataset = await db.$transaction(async (tx) => {
+      const created = await tx.loggerDataset.create({
+        data: {
+          projectId,
+          areaId: datasetAreaId,
+          unitId,
+          name,
+          loggerType,
+          location,
+          outdoor,
+          sourceFilename,
+          columnMap,
+          startedAt: samples[0].recordedAt,
+          endedAt: samples[samples.length - 1].recordedAt,
+          sampleCount: samples.length,
+          intervalSeconds: getTypicalInterval(samples),
+          summary: summarizeLoggerSamples(samples) as unknown as Prisma.InputJsonValue,
+          uploadedById: authResult.user.id
+        }
+      })
+
+      await tx.loggerSample.createMany({
+        data: samples.map(sample => ({ ...sample, datasetId: created.id }))
+      })
+
+      return created
+    }, { timeout: 60000 })
+
+    return NextResponse.json({
+      message: 'Logger data imported successfully',
+      dataset,
+      skippedRows
+    }, { status: 201 })
+
+  } catch (error) {
+    console.error('Import logger data error:', error)
+    return NextResponse.json(
+      { error: 'Internal server error' },
+      { status: 500 }
+    )
+  }
+}
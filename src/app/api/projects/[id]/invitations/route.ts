@@ -0,0 +1,62 @@
+import { NextRequest, NextResponse } from 'next/server'
+import { authenticate, checkProjectAccess } from '@/lib/auth-middleware'
+import { RevokeInvitationSchema } from '@/lib/schemas'
+import { revokeInvitation } from '@/lib/invitations'
+
+/**
+ * DELETE /api/projects/[id]/invitations - Revoke a pending invitation by email
+ */
+export async function DELETE(
+  request: NextRequest,
+  { params }: { params: { id: string } }
+) {
+  try {
+    const authResult = await authenticate(request)
+    if ('error' in authResult) {
+      return NextResponse.json({ error: authResult.error }, { status: authResult.status })
+    }
+
+    const body = await request.json()
+    const validatedFields = RevokeInvitationSchema.safeParse(body)
+
+    if (!validatedFields.success) {
+      return NextResponse.json(
+        { error: 'Invalid input fields', details: validatedFields.error.flatten() },
+        { status: 400 }
+      )
+    }
+
+    const hasAccess = await checkProjectAccess(
+      authResult.user.id,
+      params.id,
+      'OWNER'
+    )
+
+    if (!hasAccess) {
+      return NextResponse.json(
+        { error: 'Only project owners can manage members' },
+        { status: 403 }
+      )
+    }
+
+    const removed = await revokeInvitation(params.id, validatedFields.data.email)
+
+    if (removed === 0) {
+      return NextResponse.json(
+        { error: 'Invitation not found' },
+        { status: 404 }
+      )
+    }
+
+    return NextResponse.json({
+      message: 'Invitation revoked successfully'
+    })
+
+  } catch (error) {
+    console.error('Revoke invitation error:', error)
+    return NextResponse.json(
+      { error: 'Internal server error' },
+      { status: 500 }
+    )
+  }
+}
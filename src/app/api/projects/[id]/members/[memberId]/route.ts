@@ -0,0 +1,161 @@
+import { NextRequest, NextResponse } from 'next/server'
+import { db } from '@/lib/db'
+import { authenticate, checkProjectAccess } from '@/lib/auth-middleware'
+import { UpdateProjectMemberSchema } from '@/lib/schemas'
+
+/**
+ * Whether removing or demoting this membership would leave the project without an owner
+ */
+async function isLastOwner(membership: { projectId: string; role: string }) {
+  if (membership.role !== 'OWNER') {
+    return false
+  }
+
+  const ownerCount = await db.membership.count({
+    where: { projectId: membership.projectId, role: 'OWNER' }
+  })
+
+  return ownerCount <= 1
+}
+
+/**
+ * PATCH /api/projects/[id]/members/[memberId] - Change a member's role
+ */
+export async function PATCH(
+  request: NextRequest,
+  { params }: { params: { id: string; memberId: string } }
+) {
+  try {
+    const authResult = await authenticate(request)
+    if ('error' in authResult) {
+      return NextResponse.json({ error: authResult.error }, { status: authResult.status })
+    }
+
+    const body = await request.json()
+    const validatedFields = UpdateProjectMemberSchema.safeParse(body)
+
+    if (!validatedFields.success) {
+      return NextResponse.json(
+        { error: 'Invalid input fields', details: validatedFields.error.flatten() },
+        { status: 400 }
+      )
+    }
+
+    const hasAccess = await checkProjectAccess(
+      authResult.user.id,
+      params.id,
+      'OWNER'
+    )
+
+    if (!hasAccess) {
+      return NextResponse.json(
+        { error: 'Only project owners can manage members' },
+        { status: 403 }
+      )
+    }
+
+    const membership = await db.membership.findUnique({
+      where: { id: params.memberId }
+    })
+
+    if (!membership || membership.projectId !== params.id) {
+      return NextResponse.json(
+        { error: 'Member not found' },
+        { status: 404 }
+      )
+    }
+
+    const { role } = validatedFields.data
+
+    if (role !== 'OWNER' && await isLastOwner(membership)) {
+      return NextResponse.json(
+        { error: 'A project must have at least one owner' },
+        { status: 400 }
+      )
+    }
+
+    const member = await db.membership.update({
+      where: { id: params.memberId },
+      data: { role },
+      include: {
+        user: {
+          select: { id: true, name: true, email: true, image: true }
+        }
+      }
+    })
+
+    return NextResponse.json({
+      message: 'Member updated successfully',
+      member
+    })
+
+  } catch (error) {
+    console.error('Update project member error:', error)
+    return NextResponse.json(
+      { error: 'Internal server error' },
+      { status: 500 }
+    )
+  }
+}
+
+/**
+ * DELETE /api/projects/[id]/members/[memberId] - Remove a member (owners, or members leaving)
+ */
+export async function DELETE(
+  request: NextRequest,
+  { params }: { params: { id: string; memberId: string } }
+) {
+  try {
+    const authResult = await authenticate(request)
+    if ('error' in authResult) {
+      return NextResponse.json({ error: authResult.error }, { status: authResult.status })
+    }
+
+    const membership = await db.membership.findUnique({
+      where: { id: params.memberId }
+    })
+
+    if (!membership || membership.projectId !== params.id) {
+      return NextResponse.json(
+        { error: 'Member not found' },
+        { status: 404 }
+      )
+    }
+
+    const isSelf = membership.userId === authResult.user.id
+    const hasAccess = isSelf || await checkProjectAccess(
+      authResult.user.id,
+      params.id,
+      'OWNER'
+    )
+
+    if (!hasAccess) {
+      return NextResponse.json(
+        { error: 'Only project owners can manage members' },
+        { status: 403 }
+      )
+    }
+
+    if (await isLastOwner(membership)) {
+      return NextResponse.json(
+        { error: 'A project must have at least one owner' },
+        { status: 400 }
+      )
+    }
+
+    await db.membership.delete({
+      where: { id: params.memberId }
+    })
+
+    return NextResponse.json({
+      message: 'Member removed successfully'
+    })
+
+  } catch (error) {
+    console.error('Remove project member error:', error)
+    return NextResponse.json(
+      { error: 'Internal server error' },
+      { status: 500 }
+    )
+  }
+}
@@ -0,0 +1,166 @@
+import { NextRequest, NextResponse } from 'next/server'
+import { db } from '@/lib/db'
+import { authenticate, checkProjectAccess } from '@/lib/auth-middleware'
+import { AddProjectMemberSchema } from '@/lib/schemas'
+import { createInvitation, getInvitationUrl, getProjectInvitations, sendInvitationEmail } from '@/lib/invitations'
+
+/**
+ * GET /api/projects/[id]/members - List project members and pending invitations
+ */
+export async function GET(
+  request: NextRequest,
+  { params }: { params: { id: string } }
+) {
+  try {
+    const authResult = await authenticate(request)
+    if ('error' in authResult) {
+      return NextResponse.json({ error: authResult.error }, { status: authResult.status })
+    }
+
+    const hasAccess = await checkProjectAccess(
+      authResult.user.id,
+      params.id,
+      'VIEWER'
+    )
+
+    if (!hasAccess) {
+      return NextResponse.json(
+        { error: 'Insufficient permissions' },
+        { status: 403 }
+      )
+    }
+
+    const members = await db.membership.findMany({
+      where: { projectId: params.id },
+      include: {
+        user: {
+          select: { id: true, name: true, email: true, image: true }
+        }
+      },
+      orderBy: { createdAt: 'asc' }
+    })
+
+    // Invitation tokens are only visible to owners
+    const isOwner = await checkProjectAccess(authResult.user.id, params.id, 'OWNER')
+    const invitations = (await getProjectInvitations(params.id)).map(invitation => ({
+      email: invitation.email,
+      role: invitation.role,
+      expires: invitation.expires,
+      ...(isOwner && { inviteUrl: getInvitationUrl(invitation) })
+    }))
+
+    return NextResponse.json({ members, invitations })
+
+  } catch (error) {
+    console.error('Get project members error:', error)
+    return NextResponse.json(
+      { error: 'Internal server error' },
+      { status: 500 }
+    )
+  }
+}
+
+/**
+ * POST /api/projects/[id]/members - Add a member, or invite them if they have no account
+ */
+export async function POST(
+  request: NextRequest,
+  { params }: { params: { id: string } }
+) {
+  try {
+    const authResult = await authenticate(request)
+    if ('error' in authResult) {
+      return NextResponse.json({ error: authResult.error }, { status: authResult.status })
+    }
+
+    const body = await request.json()
+    const validatedFields = AddProjectMemberSchema.safeParse(body)
+
+    if (!validatedFields.success) {
+      return NextResponse.json(
+        { error: 'Invalid input fields', details: validatedFields.error.flatten() },
+        { status: 400 }
+      )
+    }
+
+    const hasAccess = await checkProjectAccess(
+      authResult.user.id,
+      params.id,
+      'OWNER'
+    )
+
+    if (!hasAccess) {
+      return NextResponse.json(
+        { error: 'Only project owners can manage members' },
+        { status: 403 }
+      )
+    }
+
+    const { email, role } = validatedFields.data
+
+    const user = await db.user.findFirst({
+      where: { email: { equals: email, mode: 'insensitive' } },
+      select: { id: true }
+    })
+
+    if (!user) {
+      const invitation = await createInvitation(params.id, email, role)
+
+      // The owner still gets the link to share by hand if the email can't be sent
+      const emailed = await sendInvitationEmail(invitation, authResult.user.name || authResult.user.email)
+        .catch(error => {
+          console.error('Invitation email error:', error)
+          return false
+        })
+
+      return NextResponse.json({
+        message: 'Invitation created successfully',
+        invitation: {
+          email: invitation.email,
+          role: invitation.role,
+          expires: invitation.expires,
+          inviteUrl: getInvitationUrl(invitation),
+          emailed
+        }
+      }, { status: 201 })
+    }
+
+    const existingMembership = await db.membership.findUnique({
+      where: {
+        userId_projectId: { userId: user.id, projectId: params.id }
+      }
+    })
+
+    if (existingMembership) {
+      return NextResponse.json(
+        { error: 'User is already a member of this project' },
+        { status: 409 }
+      )
+    }
+
+    const member = await db.membership.create({
+      data: {
+        userId: user.id,
+        projectId: params.id,
+        role
+      },
+      include: {
+        user: {
+          select: { id: true, name: true, email: true, image: true }
+        }
+      }
+    })
+
+    return NextResponse.json({
+      message: 'Member added successfully',
+      member
+    }, { status: 201 })
+
+  } catch (error) {
+    console.error('Add project member error:', error)
+    return NextResponse.json(
+      { error: 'Internal server error' },
+      { status: 500 }
+    )
+  }
+}
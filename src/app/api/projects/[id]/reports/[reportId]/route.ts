@@ -0,0 +1,224 @@
+import { NextRequest, NextResponse } from 'next/server'
+import { db } from '@/lib/db'
+import { authenticate, checkProjectAccess } from '@/lib/auth-middleware'
+import { getWorkflowActor } from '@/lib/session-workflow'
+import { UpdateReportSchema } from '@/lib/schemas'
+import {
+  reportVersionInclude,
+  isReportFrozen,
+  getReportPdf,
+  getReportFilename,
+  deleteReportVersion,
+  toReportPayload
+} from '@/lib/report-storage'
+
+/**
+ * GET /api/projects/[id]/reports/[reportId] - Download a stored report version
+ */
+export async function GET(
+  request: NextRequest,
+  { params }: { params: { id: string; reportId: string } }
+) {
+  try {
+    const authResult = await authenticate(request)
+    if ('error' in authResult) {
+      return NextResponse.json({ error: authResult.error }, { status: authResult.status })
+    }
+
+    const hasAccess = await checkProjectAccess(
+      authResult.user.id,
+      params.id,
+      'VIEWER'
+    )
+
+    if (!hasAccess) {
+      return NextResponse.json(
+        { error: 'Insufficient permissions' },
+        { status: 403 }
+      )
+    }
+
+    const report = await db.report.findUnique({
+      where: { id: params.reportId }
+    })
+
+    if (!report || report.projectId !== params.id) {
+      return NextResponse.json(
+        { error: 'Report not found' },
+        { status: 404 }
+      )
+    }
+
+    const pdfBuffer = await getReportPdf(report)
+
+    if (!pdfBuffer) {
+      return NextResponse.json(
+        { error: 'Report PDF not found' },
+        { status: 404 }
+      )
+    }
+
+    const response = new NextResponse(new Uint8Array(pdfBuffer))
+    response.headers.set('Content-Type', 'application/pdf')
+    response.headers.set('Content-Disposition', `attachment; filename="${getReportFilename(report)}"`)
+    response.headers.set('Content-Length', pdfBuffer.length.toString())
+
+    return response
+
+  } catch (error) {
+    console.error('Report download error:', error)
+    return NextResponse.json(
+      { error: 'Internal server error' },
+      { status: 500 }
+    )
+  }
+}
+
+/**
+ * PATCH /api/projects/[id]/reports/[reportId] - Approve a report version, freezing it
+ */
+export async function PATCH(
+  request: NextRequest,
+  { params }: { params: { id: string; reportId: string } }
+) {
+  try {
+    const authResult = await authenticate(request)
+    if ('error' in authResult) {
+      return NextResponse.json({ error: authResult.error }, { status: authResult.status })
+    }
+
+    const body = await request.json()
+    const validatedFields = UpdateReportSchema.safeParse(body)
+
+    if (!validatedFields.success) {
+      return NextResponse.json(
+        { error: 'Invalid input fields', details: validatedFields.error.flatten() },
+        { status: 400 }
+      )
+    }
+
+    const report = await db.report.findUnique({
+      where: { id: params.reportId }
+    })
+
+    if (!report || report.projectId !== params.id) {
+      return NextResponse.json(
+        { error: 'Report not found' },
+        { status: 404 }
+      )
+    }
+
+    // Same reviewers as session approval
+    const actor = await getWorkflowActor(authResult.user, params.id)
+
+    if (!actor.isReviewer) {
+      return NextResponse.json(
+        { error: 'Only project owners can approve reports' },
+        { status: 403 }
+      )
+    }
+
+    // As with sessions, a report can't be approved by the user who generated it
+    if (report.generatedById === actor.userId) {
+      return NextResponse.json(
+        { error: 'A report cannot be approved by the user who generated it' },
+        { status: 403 }
+      )
+    }
+
+    if (isReportFrozen(report.status)) {
+      return NextResponse.json(
+        { error: 'Report is already approved and cannot be changed' },
+        { status: 409 }
+      )
+    }
+
+    if (!report.pdfKey) {
+      return NextResponse.json(
+        { error: 'Only stored report versions can be approved' },
+        { status: 400 }
+      )
+    }
+
+    const updatedReport = await db.report.update({
+      where: { id: params.reportId },
+      data: {
+        status: validatedFields.data.status,
+        approvedById: authResult.user.id,
+        approvedAt: new Date()
+      },
+      include: reportVersionInclude
+    })
+
+    return NextResponse.json({
+      message: 'Report approved successfully',
+      report: toReportPayload(updatedReport)
+    })
+
+  } catch (error) {
+    console.error('Approve report error:', error)
+    return NextResponse.json(
+      { error: 'Internal server error' },
+      { status: 500 }
+    )
+  }
+}
+
+/**
+ * DELETE /api/projects/[id]/reports/[reportId] - Delete a report version that hasn't been approved
+ */
+export async function DELETE(
+  request: NextRequest,
+  { params }: { params: { id: string; reportId: string } }
+) {
+  try {
+    const authResult = await authenticate(request)
+    if ('error' in authResult) {
+      return NextResponse.json({ error: authResult.error }, { status: authResult.status })
+    }
+
+    const hasAccess = await checkProjectAccess(
+      authResult.user.id,
+      params.id,
+      'EDITOR'
+    )
+
+    if (!hasAccess) {
+      return NextResponse.json(
+        { error: 'Insufficient permissions' },
+        { status: 403 }
+      )
+    }
+
+    const report = await db.report.findUnique({
+      where: { id: params.reportId }
+    })
+
+    if (!report || report.projectId !== params.id) {
+      return NextResponse.json(
+        { error: 'Report not found' },
+        { status: 404 }
+      )
+    }
+
+    if (isReportFrozen(report.status)) {
+      return NextResponse.json(
+        { error: 'Approved reports cannot be deleted' },
+        { status: 409 }
+      )
+    }
+
+    await deleteReportVersion(report)
+
+    return NextResponse.json({
+      message: 'Report deleted successfully'
+    })
+
+  } catch (error) {
+    console.error('Delete report error:', error)
+    return NextResponse.json(
+      { error: 'Internal server error' },
+      { status: 500 }
+    )
+  }
+}
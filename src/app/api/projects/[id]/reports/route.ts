@@ -0,0 +1,71 @@
+import { NextRequest, NextResponse } from 'next/server'
+import { db } from '@/lib/db'
+import { authenticate, checkProjectAccess } from '@/lib/auth-middleware'
+import { ReportListQuerySchema } from '@/lib/schemas'
+import { reportVersionInclude, getReportDownloadUrl, toReportPayload } from '@/lib/report-storage'
+
+/**
+ * GET /api/projects/[id]/reports - List stored report versions, newest first
+ */
+export async function GET(
+  request: NextRequest,
+  { params }: { params: { id: string } }
+) {
+  try {
+    const authResult = await authenticate(request)
+    if ('error' in authResult) {
+      return NextResponse.json({ error: authResult.error }, { status: authResult.status })
+    }
+
+    const validatedFields = ReportListQuerySchema.safeParse(
+      Object.fromEntries(request.nextUrl.searchParams)
+    )
+
+    if (!validatedFields.success) {
+      return NextResponse.json(
+        { error: 'Invalid input fields', details: validatedFields.error.flatten() },
+        { status: 400 }
+      )
+    }
+
+    const hasAccess = await checkProjectAccess(
+      authResult.user.id,
+      params.id,
+      'VIEWER'
+    )
+
+    if (!hasAccess) {
+      return NextResponse.json(
+        { error: 'Insufficient permissions' },
+        { status: 403 }
+      )
+    }
+
+    const { sessionId, scope } = validatedFields.data
+
+    const reports = await db.report.findMany({
+      where: {
+        projectId: params.id,
+        ...(sessionId && { sessionId }),
+        ...(scope === 'project' && { sessionId: null }),
+        ...(scope === 'session' && { sessionId: { not: null } })
+      },
+      include: reportVersionInclude,
+      orderBy: [{ createdAt: 'desc' }, { version: 'desc' }]
+    })
+
+    return NextResponse.json({
+      reports: reports.map(report => ({
+        ...toReportPayload(report),
+        downloadUrl: report.pdfKey ? getReportDownloadUrl(report) : null
+      }))
+    })
+
+  } catch (error) {
+    console.error('Get project reports error:', error)
+    return NextResponse.json(
+      { error: 'Internal server error' },
+      { status: 500 }
+    )
+  }
+}
@@ -53,7 +53,7 @@ export async function POST(request: NextRequest) {
       )
     }
 
-    const { name, orgId, address, notes } = validatedFields.data
+    const { name, orgId, address, elevationFt, latitude, longitude, timeZone, notes } = validatedFields.data
 
     // Verify organization exists
     const organization = await db.organization.findUnique({
@@ -74,6 +74,10 @@ export async function POST(request: NextRequest) {
           name,
           orgId,
           address,
+          elevationFt,
+          latitude,
+          longitude,
+          timeZone,
           notes,
         },
         include: {
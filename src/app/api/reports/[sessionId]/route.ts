@@ -1,12 +1,23 @@
 import React from 'react'
 import { NextRequest, NextResponse } from 'next/server'
-import { renderToStream } from '@react-pdf/renderer'
+import { renderToBuffer } from '@react-pdf/renderer'
 import { db } from '@/lib/db'
 import { authenticate, checkProjectAccess } from '@/lib/auth-middleware'
 import { CommissioningReport } from '@/lib/pdf-generator'
+import { getMonitoringSummaries, getTestStatistics } from '@/lib/report-data'
+import { loadSessionReportImages } from '@/lib/report-images'
+import { GenerateSessionReportSchema, ReportDownloadQuerySchema } from '@/lib/schemas'
+import { recordedTemplate } from '@/lib/test-templates'
+import {
+  storeReportVersion,
+  getReportPdf,
+  getReportFilename,
+  getReportDownloadUrl,
+  toReportPayload
+} from '@/lib/report-storage'
 
 /**
- * GET /api/reports/[sessionId] - Generate and download PDF report
+ * GET /api/reports/[sessionId] - Download the latest stored report (or ?version=n)
  */
 export async function GET(
   request: NextRequest,
@@ -20,38 +31,10 @@ export async function GET(
 
     const sessionId = params.sessionId
 
-    // Get comprehensive session data for report
     const session = await db.session.findUnique({
       where: { id: sessionId },
       include: {
-        area: {
-          include: {
-            project: {
-              include: { organization: true }
-            },
-            units: {
-              orderBy: { label: 'asc' }
-            }
-          }
-        },
-        author: {
-          select: { id: true, name: true, email: true }
-        },
-        tests: {
-          include: {
-            unit: {
-              select: { 
-                id: true, 
-                label: true, 
-                make: true, 
-                model: true, 
-                tons: true,
-                refrigerant: true
-              }
-            }
-          },
-          orderBy: { createdAt: 'asc' }
-        }
+        area: { select: { projectId: true } }
       }
     })
 
@@ -65,7 +48,7 @@ export async function GET(
     // Check project access
     const hasAccess = await checkProjectAccess(
       authResult.user.id,
-      session.area.project.id,
+      session.area.projectId,
       'VIEWER'
     )
 
@@ -76,84 +59,51 @@ export async function GET(
       )
     }
 
-    // Calculate session statistics
-    const testsByType = session.tests.reduce((acc, test) => {
-      acc[test.testType] = (acc[test.testType] || 0) + 1
-      return acc
-    }, {} as Record<string, number>)
-
-    const passFailStats = session.tests.reduce((acc, test) => {
-      if (test.pass === true) acc.pass++
-      else if (test.pass === false) acc.fail++
-      else acc.pending++
-      return acc
-    }, { pass: 0, fail: 0, pending: 0 })
-
-    const completionRate = session.tests.length > 0 
-      ? Math.round((passFailStats.pass + passFailStats.fail) / session.tests.length * 100)
-      : 0
-
-    const statistics = {
-      testsByType,
-      passFailStats,
-      completionRate
-    }
+    const validatedQuery = ReportDownloadQuerySchema.safeParse(Object.fromEntries(request.nextUrl.searchParams))
 
-    // Prepare data for PDF generation (convert dates to strings)
-    const reportData = {
-      session: {
-        ...session,
-        startedAt: session.startedAt.toISOString(),
-        endedAt: session.endedAt?.toISOString() || null,
-        tests: session.tests.map(test => ({
-          ...test,
-          createdAt: test.createdAt.toISOString()
-        })),
-        statistics
-      }
+    if (!validatedQuery.success) {
+      return NextResponse.json(
+        { error: 'Invalid report version', details: validatedQuery.error.flatten() },
+        { status: 400 }
+      )
     }
 
-    // Generate PDF
-    const pdfStream = await renderToStream(
-      React.createElement(CommissioningReport, { data: reportData }) as any
-    )
+    const { version } = validatedQuery.data
 
-    // Convert stream to buffer
-    const chunks: Uint8Array[] = []
-    
-    return new Promise<NextResponse>((resolve) => {
-      pdfStream.on('data', (chunk) => {
-        chunks.push(chunk)
-      })
-      
-      pdfStream.on('end', () => {
-        const pdfBuffer = Buffer.concat(chunks)
-        
-        // Generate filename
-        const sessionTitle = session.title || `Session-${session.id.slice(-8)}`
-        const date = new Date(session.startedAt).toISOString().split('T')[0]
-        const filename = `${sessionTitle.replace(/[^a-zA-Z0-9-_]/g, '-')}-${date}.pdf`
-
-        // Return PDF as response
-        const response = new NextResponse(pdfBuffer)
-        response.headers.set('Content-Type', 'application/pdf')
-        response.headers.set('Content-Disposition', `attachment; filename="${filename}"`)
-        response.headers.set('Content-Length', pdfBuffer.length.toString())
-
-        resolve(response)
-      })
-
-      pdfStream.on('error', (error) => {
-        console.error('PDF generation error:', error)
-        resolve(NextResponse.json(
-          { error: 'Failed to generate PDF report' },
-          { status: 500 }
-        ))
-      })
+    const report = await db.report.findFirst({
+      where: {
+        sessionId,
+        pdfKey: { not: null },
+        ...(version !== undefined && { version })
+      },
+      orderBy: { version: 'desc' }
     })
 
+    if (!report) {
+      return NextResponse.json(
+        { error: version ? 'Report version not found' : 'No report has been generated for this session' },
+        { status: 404 }
+      )
+    }
+
+    const pdfBuffer = await getReportPdf(report)
+
+    if (!pdfBuffer) {
+      return NextResponse.json(
+        { error: 'Report PDF not found' },
+        { status: 404 }
+      )
+    }
+
+    const response = new NextResponse(new Uint8Array(pdfBuffer))
+    response.headers.set('Content-Type', 'application/pdf')
+    response.headers.set('Content-Disposition', `attachment; filename="${getReportFilename(report)}"`)
+    response.headers.set('Content-Length', pdfBuffer.length.toString())
+
+    return response
+
   } catch (error) {
-    console.error('Report generation error:', error)
+    console.error('Report download error:', error)
     return NextResponse.json(
       { error: 'Internal server error' },
       { status: 500 }
@@ -162,7 +112,7 @@ export async function GET(
 }
 
 /**
- * POST /api/reports/[sessionId] - Save report metadata to database
+ * POST /api/reports/[sessionId] - Generate a new report version and store the PDF
  */
 export async function POST(
   request: NextRequest,
@@ -175,14 +125,54 @@ export async function POST(
     }
 
     const sessionId = params.sessionId
-    const body = await request.json()
-    const { title, summary, pdfUrl } = body
+    const body = await request.json().catch(() => ({}))
+    const validatedFields = GenerateSessionReportSchema.safeParse(body)
+
+    if (!validatedFields.success) {
+      return NextResponse.json(
+        { error: 'Invalid input fields', details: validatedFields.error.flatten() },
+        { status: 400 }
+      )
+    }
 
-    // Get session to verify access and get project info
+    // Get comprehensive session data for report
     const session = await db.session.findUnique({
       where: { id: sessionId },
       include: {
-        area: { include: { project: true } }
+        area: {
+          include: {
+            project: {
+              include: { organization: true }
+            },
+            units: {
+              orderBy: { label: 'asc' }
+            }
+          }
+        },
+        author: {
+          select: { id: true, name: true, email: true }
+        },
+        tests: {
+          include: {
+            unit: {
+              select: {
+                id: true,
+                label: true,
+                make: true,
+                model: true,
+                tons: true,
+                refrigerant: true
+              }
+            },
+            template: {
+              select: { id: true, name: true, category: true, definition: true }
+            },
+            templateVersion: {
+              select: { version: true, definition: true }
+            }
+          },
+          orderBy: { createdAt: 'asc' }
+        }
       }
     })
 
@@ -207,44 +197,54 @@ export async function POST(
       )
     }
 
-    // Find existing report or create new one
-    let report = await db.report.findFirst({
-      where: { sessionId }
-    })
+    const statistics = getTestStatistics(session.tests)
 
-    if (report) {
-      // Update existing report
-      report = await db.report.update({
-        where: { id: report.id },
-        data: {
-          title: title || `${session.area.project.name} - ${session.area.name}`,
-          summary,
-          pdfUrl,
-          status: 'GENERATED'
-        }
-      })
-    } else {
-      // Create new report
-      report = await db.report.create({
-        data: {
-          projectId: session.area.project.id,
-          areaId: session.area.id,
-          sessionId,
-          title: title || `${session.area.project.name} - ${session.area.name}`,
-          summary,
-          pdfUrl,
-          status: 'GENERATED'
-        }
-      })
+    // Prepare data for PDF generation (convert dates to strings)
+    const reportData = {
+      session: {
+        ...session,
+        startedAt: session.startedAt.toISOString(),
+        endedAt: session.endedAt?.toISOString() || null,
+        tests: session.tests.map(test => ({
+          ...test,
+          template: recordedTemplate(test.template, test.templateVersion),
+          createdAt: test.createdAt.toISOString()
+        })),
+        statistics
+      },
+      images: await loadSessionReportImages(
+        sessionId,
+        session.area.units.map(unit => unit.id)
+      ),
+      monitoring: await getMonitoringSummaries(session.area.project.id, [session.area.id])
     }
 
-    return NextResponse.json({ 
-      message: 'Report saved successfully',
-      report
+    const pdfBuffer = await renderToBuffer(
+      React.createElement(CommissioningReport, { data: reportData }) as any
+    )
+
+    const { title, summary } = validatedFields.data
+    const sessionTitle = session.title || `Session ${session.id.slice(-8)}`
+
+    const report = await storeReportVersion({
+      projectId: session.area.project.id,
+      areaId: session.area.id,
+      sessionId,
+      sessionIds: [sessionId],
+      title: title || `${session.area.project.name} - ${session.area.name} - ${sessionTitle}`,
+      summary,
+      generatedById: authResult.user.id,
+      pdf: new Uint8Array(pdfBuffer)
+    })
+
+    return NextResponse.json({
+      message: 'Report generated successfully',
+      report: toReportPayload(report),
+      downloadUrl: getReportDownloadUrl(report)
     }, { status: 201 })
 
   } catch (error) {
-    console.error('Save report error:', error)
+    console.error('Report generation error:', error)
     return NextResponse.json(
       { error: 'Internal server error' },
       { status: 500 }
@@ -0,0 +1,96 @@
+import React from 'react'
+import { NextRequest, NextResponse } from 'next/server'
+import { renderToBuffer } from '@react-pdf/renderer'
+import { authenticate, checkProjectAccess } from '@/lib/auth-middleware'
+import { ProjectReportSchema } from '@/lib/schemas'
+import { getProjectReportData } from '@/lib/report-data'
+import { ProjectCommissioningReport } from '@/lib/pdf-generator'
+import { storeReportVersion, getReportDownloadUrl, toReportPayload } from '@/lib/report-storage'
+
+/**
+ * POST /api/reports - Generate and store a project report combining several sessions
+ * Includes all project sessions unless sessionIds or areaIds narrow the selection
+ */
+export async function POST(request: NextRequest) {
+  try {
+    const authResult = await authenticate(request)
+    if ('error' in authResult) {
+      return NextResponse.json({ error: authResult.error }, { status: authResult.status })
+    }
+
+    const body = await request.json()
+    const validatedFields = ProjectReportSchema.safeParse(body)
+
+    if (!validatedFields.success) {
+      return NextResponse.json(
+        { error: 'Invalid input fields', details: validatedFields.error.flatten() },
+        { status: 400 }
+      )
+    }
+
+    const { projectId, sessionIds, areaIds, title, summary } = validatedFields.data
+
+    const hasAccess = await checkProjectAccess(
+      authResult.user.id,
+      projectId,
+      'EDITOR'
+    )
+
+    if (!hasAccess) {
+      return NextResponse.json(
+        { error: 'Insufficient permissions' },
+        { status: 403 }
+      )
+    }
+
+    const reportData = await getProjectReportData(projectId, { sessionIds, areaIds })
+
+    if (!reportData) {
+      return NextResponse.json(
+        { error: 'Project not found' },
+        { status: 404 }
+      )
+    }
+
+    if (reportData.sessions.length === 0) {
+      return NextResponse.json(
+        { error: 'No sessions match the report selection' },
+        { status: 400 }
+      )
+    }
+
+    if (sessionIds && reportData.sessions.length !== new Set(sessionIds).size) {
+      return NextResponse.json(
+        { error: 'One or more sessions do not belong to this project' },
+        { status: 400 }
+      )
+    }
+
+    const pdfBuffer = await renderToBuffer(
+      React.createElement(ProjectCommissioningReport, { data: reportData, title }) as any
+    )
+
+    const report = await storeReportVersion({
+      projectId,
+      areaId: reportData.areas.length === 1 ? reportData.areas[0].id : null,
+      sessionIds: reportData.sessions.map(session => session.id),
+      title: title || `${reportData.project.name} - Commissioning Report`,
+      summary,
+      generatedById: authResult.user.id,
+      pdf: new Uint8Array(pdfBuffer)
+    })
+
+    return NextResponse.json({
+      message: 'Report generated successfully',
+      report: toReportPayload(report),
+      downloadUrl: getReportDownloadUrl(report)
+    }, { status: 201 })
+
+  } catch (error) {
+    console.error('Project report generation error:', error)
+    return NextResponse.json(
+      { error: 'Internal server error' },
+      { status: 500 }
+    )
+  }
+}
@@ -0,0 +1,121 @@
+import { NextRequest, NextResponse } from 'next/server'
+import { Prisma } from '@prisma/client'
+import { db } from '@/lib/db'
+import { authenticate, checkProjectAccess } from '@/lib/auth-middleware'
+import { getActiveCriteria } from '@/lib/criteria-profiles'
+import { evaluateTestResult } from '@/lib/test-evaluation'
+import { recordedTemplate } from '@/lib/test-templates'
+import { getSessionLockedMessage, isSessionLocked } from '@/lib/session-workflow'
+
+/**
+ * POST /api/sessions/[id]/recompute - Recompute every test in a session
+ * Used after session weather, unit data or the project's criteria change
+ */
+export async function POST(
+  request: NextRequest,
+  { params }: { params: { id: string } }
+) {
+  try {
+    const authResult = await authenticate(request)
+    if ('error' in authResult) {
+      return NextResponse.json({ error: authResult.error }, { status: authResult.status })
+    }
+
+    const session = await db.session.findUnique({
+      where: { id: params.id },
+      include: {
+        area: {
+          include: { project: true }
+        },
+        tests: {
+          include: { unit: true, template: true, templateVersion: true }
+        },
+        weatherObservations: {
+          orderBy: { observedAt: 'asc' }
+        }
+      }
+    })
+
+    if (!session) {
+      return NextResponse.json(
+        { error: 'Session not found' },
+        { status: 404 }
+      )
+    }
+
+    const hasAccess = await checkProjectAccess(
+      authResult.user.id,
+      session.area.project.id,
+      'EDITOR'
+    )
+
+    if (!hasAccess) {
+      return NextResponse.json(
+        { error: 'Insufficient permissions' },
+        { status: 403 }
+      )
+    }
+
+    if (isSessionLocked(session.status)) {
+      return NextResponse.json(
+        { error: getSessionLockedMessage(session.status) },
+        { status: 409 }
+      )
+    }
+
+    const criteria = await getActiveCriteria(session.area.project.id)
+
+    const evaluations = await Promise.all(
+      session.tests.map(async test => ({
+        test,
+        ...(await evaluateTestResult(
+          test.testType,
+          test.reading,
+          session,
+          test.unit,
+          criteria,
+          test.createdAt,
+          recordedTemplate(test.template, test.templateVersion)
+        ))
+      }))
+    )
+
+    await db.$transaction(
+      evaluations.map(({ test, computed, pass }) =>
+        db.testResult.update({
+          where: { id: test.id },
+          data: {
+            computed: computed ? (computed as any) : Prisma.DbNull,
+            pass: pass ?? null
+          }
+        })
+      )
+    )
+
+    const changed = evaluations.filter(({ test, pass }) => (pass ?? null) !== test.pass)
+
+    return NextResponse.json({
+      message: 'Session tests recomputed successfully',
+      recomputed: evaluations.length,
+      failed: evaluations.filter(e => !e.computed).length,
+      changed: changed.map(({ test, pass }) => ({
+        id: test.id,
+        testType: test.testType,
+        previousPass: test.pass,
+        pass: pass ?? null
+      })),
+      criteria: {
+        profileId: criteria.profileId,
+        name: criteria.name,
+        version: criteria.version
+      }
+    })
+
+  } catch (error) {
+    console.error('Recompute session error:', error)
+    return NextResponse.json(
+      { error: 'Internal server error' },
+      { status: 500 }
+    )
+  }
+}
@@ -1,6 +1,13 @@
 import { NextRequest, NextResponse } from 'next/server'
 import { db } from '@/lib/db'
 import { authenticate, checkProjectAccess } from '@/lib/auth-middleware'
+import {
+  getAvailableTransitions,
+  getSubmitterId,
+  getSessionLockedMessage,
+  getWorkflowActor,
+  isSessionLocked
+} from '@/lib/session-workflow'
 
 /**
  * GET /api/sessions/[id] - Get session details with tests
@@ -38,19 +45,31 @@ export async function GET(
             unit: {
               select: { id: true, label: true, make: true, model: true }
             },
+            template: {
+              select: { id: true, name: true, category: true, version: true }
+            },
             files: {
-              select: { id: true, filename: true, url: true, mimeType: true, label: true }
+              select: { id: true, filename: true, mimeType: true, label: true }
             }
           },
           orderBy: { createdAt: 'desc' }
         },
         files: {
-          select: { id: true, filename: true, url: true, mimeType: true, label: true, category: true }
+          select: { id: true, filename: true, mimeType: true, label: true, category: true }
+        },
+        transitions: {
+          include: {
+            actor: {
+              select: { id: true, name: true, email: true }
+            }
+          },
+          orderBy: { createdAt: 'desc' }
         },
         _count: {
           select: {
             tests: true,
-            files: true
+            files: true,
+            weatherObservations: true
           }
         }
       }
@@ -90,8 +109,14 @@ export async function GET(
       return acc
     }, { pass: 0, fail: 0, pending: 0 })
 
+    const actor = await getWorkflowActor(authResult.user, session.area.project.id)
+
     const sessionWithStats = {
       ...session,
+      workflow: {
+        locked: isSessionLocked(session.status),
+        availableTransitions: getAvailableTransitions(session.status, actor, getSubmitterId(session))
+      },
       statistics: {
         testsByType,
         passFailStats,
@@ -157,10 +182,25 @@ export async function PATCH(
       )
     }
 
+    // Status changes go through the review workflow
+    if ('status' in body) {
+      return NextResponse.json(
+        { error: 'Use POST /api/sessions/[id]/transition to change session status' },
+        { status: 400 }
+      )
+    }
+
+    if (isSessionLocked(existingSession.status)) {
+      return NextResponse.json(
+        { error: getSessionLockedMessage(existingSession.status) },
+        { status: 409 }
+      )
+    }
+
     // Validate update fields
     const allowedFields = [
       'title', 'weatherOADryBulb', 'weatherOARH', 'weatherNotes', 
-      'notes', 'status', 'endedAt'
+      'notes', 'endedAt'
     ]
     
     const updateData: any = {}
@@ -170,9 +210,9 @@ export async function PATCH(
       }
     }
 
-    // Auto-set endedAt when status changes to non-draft
-    if (body.status && body.status !== 'DRAFT' && !existingSession.endedAt) {
-      updateData.endedAt = new Date()
+    // Hand-entered outdoor conditions replace retrieved weather
+    if ('weatherOADryBulb' in body || 'weatherOARH' in body) {
+      updateData.weatherSource = null
     }
 
     const updatedSession = await db.session.update({
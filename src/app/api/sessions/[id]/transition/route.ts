@@ -0,0 +1,132 @@
+import { NextRequest, NextResponse } from 'next/server'
+import { db } from '@/lib/db'
+import { authenticate } from '@/lib/auth-middleware'
+import { SessionTransitionSchema } from '@/lib/schemas'
+import { getSubmitterId, getWorkflowActor, validateTransition } from '@/lib/session-workflow'
+
+/**
+ * POST /api/sessions/[id]/transition - Move session through the review workflow
+ */
+export async function POST(
+  request: NextRequest,
+  { params }: { params: { id: string } }
+) {
+  try {
+    const authResult = await authenticate(request)
+    if ('error' in authResult) {
+      return NextResponse.json({ error: authResult.error }, { status: authResult.status })
+    }
+
+    const body = await request.json()
+    const validatedFields = SessionTransitionSchema.safeParse(body)
+
+    if (!validatedFields.success) {
+      return NextResponse.json(
+        { error: 'Invalid input fields', details: validatedFields.error.flatten() },
+        { status: 400 }
+      )
+    }
+
+    const { status, comment } = validatedFields.data
+
+    const existingSession = await db.session.findUnique({
+      where: { id: params.id },
+      include: {
+        area: { include: { project: true } },
+        transitions: {
+          where: { toStatus: 'SUBMITTED' },
+          orderBy: { createdAt: 'desc' },
+          take: 1,
+          select: { actorId: true, toStatus: true }
+        }
+      }
+    })
+
+    if (!existingSession) {
+      return NextResponse.json(
+        { error: 'Session not found' },
+        { status: 404 }
+      )
+    }
+
+    const actor = await getWorkflowActor(authResult.user, existingSession.area.project.id)
+
+    if (!actor.isEditor && !actor.isReviewer) {
+      return NextResponse.json(
+        { error: 'Insufficient permissions' },
+        { status: 403 }
+      )
+    }
+
+    const transition = validateTransition(
+      existingSession.status,
+      status,
+      actor,
+      comment,
+      getSubmitterId(existingSession)
+    )
+
+    if (!transition.valid) {
+      return NextResponse.json(
+        { error: transition.error },
+        { status: transition.status }
+      )
+    }
+
+    // The update only applies while the session is still in the status the transition was checked against
+    const result = await db.$transaction(async (tx) => {
+      const { count } = await tx.session.updateMany({
+        where: { id: params.id, status: existingSession.status },
+        data: {
+          status,
+          // Field work ends when the session is first submitted
+          ...(status === 'SUBMITTED' && !existingSession.endedAt && { endedAt: new Date() })
+        }
+      })
+
+      if (count === 0) {
+        return null
+      }
+
+      const sessionTransition = await tx.sessionTransition.create({
+        data: {
+          sessionId: params.id,
+          actorId: authResult.user.id,
+          fromStatus: existingSession.status,
+          toStatus: status,
+          comment: comment?.trim() || null
+        },
+        include: {
+          actor: {
+            select: { id: true, name: true, email: true }
+          }
+        }
+      })
+      const updatedSession = await tx.session.findUniqueOrThrow({ where: { id: params.id } })
+
+      return { updatedSession, sessionTransition }
+    })
+
+    if (!result) {
+      return NextResponse.json(
+        { error: 'Session status changed since it was loaded; reload and try again' },
+        { status: 409 }
+      )
+    }
+
+    const { updatedSession, sessionTransition } = result
+
+    return NextResponse.json({
+      message: 'Session status updated successfully',
+      session: updatedSession,
+      transition: sessionTransition
+    })
+
+  } catch (error) {
+    console.error('Session transition error:', error)
+    return NextResponse.json(
+      { error: 'Internal server error' },
+      { status: 500 }
+    )
+  }
+}
@@ -0,0 +1,136 @@
+import { NextRequest, NextResponse } from 'next/server'
+import { db } from '@/lib/db'
+import { authenticate, checkProjectAccess } from '@/lib/auth-middleware'
+import { refreshWeatherTests } from '@/lib/test-evaluation'
+import { fetchSessionWeather } from '@/lib/weather'
+import { getSessionLockedMessage, isSessionLocked } from '@/lib/session-workflow'
+
+/**
+ * GET /api/sessions/[id]/weather - Get the session's stored hourly outdoor conditions
+ */
+export async function GET(
+  request: NextRequest,
+  { params }: { params: { id: string } }
+) {
+  try {
+    const authResult = await authenticate(request)
+    if ('error' in authResult) {
+      return NextResponse.json({ error: authResult.error }, { status: authResult.status })
+    }
+
+    const session = await db.session.findUnique({
+      where: { id: params.id },
+      select: {
+        weatherOADryBulb: true,
+        weatherOARH: true,
+        weatherSource: true,
+        area: { select: { projectId: true } },
+        weatherObservations: {
+          orderBy: { observedAt: 'asc' },
+          select: { observedAt: true, dryBulb_F: true, rh_pct: true, dewPoint_F: true }
+        }
+      }
+    })
+
+    if (!session) {
+      return NextResponse.json(
+        { error: 'Session not found' },
+        { status: 404 }
+      )
+    }
+
+    const hasAccess = await checkProjectAccess(
+      authResult.user.id,
+      session.area.projectId,
+      'VIEWER'
+    )
+
+    if (!hasAccess) {
+      return NextResponse.json(
+        { error: 'Insufficient permissions' },
+        { status: 403 }
+      )
+    }
+
+    const { area, weatherObservations, ...weather } = session
+
+    return NextResponse.json({ weather, observations: weatherObservations })
+
+  } catch (error) {
+    console.error('Get session weather error:', error)
+    return NextResponse.json(
+      { error: 'Internal server error' },
+      { status: 500 }
+    )
+  }
+}
+
+/**
+ * POST /api/sessions/[id]/weather - Retrieve outdoor conditions from the weather provider
+ * Stores hourly history for the session and recomputes tests that use outdoor conditions
+ */
+export async function POST(
+  request: NextRequest,
+  { params }: { params: { id: string } }
+) {
+  try {
+    const authResult = await authenticate(request)
+    if ('error' in authResult) {
+      return NextResponse.json({ error: authResult.error }, { status: authResult.status })
+    }
+
+    const session = await db.session.findUnique({
+      where: { id: params.id },
+      include: {
+        area: { include: { project: true } }
+      }
+    })
+
+    if (!session) {
+      return NextResponse.json(
+        { error: 'Session not found' },
+        { status: 404 }
+      )
+    }
+
+    const hasAccess = await checkProjectAccess(
+      authResult.user.id,
+      session.area.project.id,
+      'EDITOR'
+    )
+
+    if (!hasAccess) {
+      return NextResponse.json(
+        { error: 'Insufficient permissions' },
+        { status: 403 }
+      )
+    }
+
+    if (isSessionLocked(session.status)) {
+      return NextResponse.json(
+        { error: getSessionLockedMessage(session.status) },
+        { status: 409 }
+      )
+    }
+
+    const weather = await fetchSessionWeather(session.id)
+
+    if ('error' in weather) {
+      return NextResponse.json({ error: weather.error }, { status: weather.status })
+    }
+
+    await refreshWeatherTests(session.id)
+
+    return NextResponse.json({
+      message: 'Session weather updated successfully',
+      weather
+    })
+
+  } catch (error) {
+    console.error('Fetch session weather error:', error)
+    return NextResponse.json(
+      { error: 'Internal server error' },
+      { status: 500 }
+    )
+  }
+}
@@ -2,6 +2,7 @@ import { NextRequest, NextResponse } from 'next/server'
 import { db } from '@/lib/db'
 import { authenticate, checkProjectAccess } from '@/lib/auth-middleware'
 import { CreateSessionSchema } from '@/lib/schemas'
+import { fetchSessionWeather, getWeatherProvider } from '@/lib/weather'
 
 /**
  * GET /api/sessions - Get sessions with optional filtering
@@ -157,6 +158,17 @@ export async function POST(request: NextRequest) {
       )
     }
 
+    // Checked before the insert, so a misconfigured provider skips the weather lookup
+    // instead of failing a request whose session was already created
+    let fetchWeather = false
+    if (weatherOADryBulb == null && weatherOARH == null) {
+      try {
+        fetchWeather = getWeatherProvider() !== null
+      } catch (error) {
+        console.error('Weather provider error:', error)
+      }
+    }
+
     // Create session
     const session = await db.session.create({
       data: {
@@ -184,6 +196,18 @@ export async function POST(request: NextRequest) {
       }
     })
 
+    // Fill in outdoor conditions when none were entered, without holding up the response;
+    // the session page shows them once stored
+    if (fetchWeather) {
+      fetchSessionWeather(session.id)
+        .then(weather => {
+          if ('error' in weather) {
+            console.warn('Session weather not retrieved:', weather.error)
+          }
+        })
+        .catch(error => console.error('Session weather error:', error))
+    }
+
     return NextResponse.json({ 
       message: 'Session created successfully',
       session 
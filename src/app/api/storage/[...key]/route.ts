@@ -0,0 +1,131 @@
+import { NextRequest, NextResponse } from 'next/server'
+import { authenticate, checkProjectAccess } from '@/lib/auth-middleware'
+import { getStorage } from '@/lib/storage'
+import { verifyStorageSignature } from '@/lib/storage-local'
+import { getProjectIdFromKey, MAX_FILE_SIZE } from '@/lib/file-utils'
+
+function isLocalStorage() {
+  return process.env.STORAGE_DRIVER === 'local'
+}
+
+function isNotFound(error: unknown) {
+  return (error as NodeJS.ErrnoException)?.code === 'ENOENT'
+}
+
+/**
+ * GET /api/storage/[...key] - Read a file from local storage
+ * Requires a signed download URL, or access to the project the key belongs to
+ */
+export async function GET(
+  request: NextRequest,
+  { params }: { params: { key: string[] } }
+) {
+  try {
+    if (!isLocalStorage()) {
+      return NextResponse.json({ error: 'Not found' }, { status: 404 })
+    }
+
+    const authResult = await authenticate(request)
+    if ('error' in authResult) {
+      return NextResponse.json({ error: authResult.error }, { status: authResult.status })
+    }
+
+    const key = params.key.join('/')
+    const { searchParams } = request.nextUrl
+
+    const isSigned = verifyStorageSignature('GET', key, searchParams.get('expires'), searchParams.get('signature'))
+    const projectId = getProjectIdFromKey(key)
+    const hasAccess = isSigned || (projectId !== null && await checkProjectAccess(
+      authResult.user.id,
+      projectId,
+      'VIEWER'
+    ))
+
+    if (!hasAccess) {
+      return NextResponse.json(
+        { error: 'Insufficient permissions' },
+        { status: 403 }
+      )
+    }
+
+    const object = await getStorage().getObject(key)
+
+    const response = new NextResponse(new Uint8Array(object.body))
+    response.headers.set('Content-Type', object.contentType || 'application/octet-stream')
+    response.headers.set('Content-Length', object.body.length.toString())
+    response.headers.set('Cache-Control', 'private, max-age=300')
+
+    return response
+
+  } catch (error) {
+    if (isNotFound(error)) {
+      return NextResponse.json({ error: 'File not found' }, { status: 404 })
+    }
+
+    console.error('Storage read error:', error)
+    return NextResponse.json(
+      { error: 'Internal server error' },
+      { status: 500 }
+    )
+  }
+}
+
+/**
+ * PUT /api/storage/[...key] - Upload a file to local storage using a signed upload URL
+ */
+export async function PUT(
+  request: NextRequest,
+  { params }: { params: { key: string[] } }
+) {
+  try {
+    if (!isLocalStorage()) {
+      return NextResponse.json({ error: 'Not found' }, { status: 404 })
+    }
+
+    const authResult = await authenticate(request)
+    if ('error' in authResult) {
+      return NextResponse.json({ error: authResult.error }, { status: authResult.status })
+    }
+
+    const key = params.key.join('/')
+    const { searchParams } = request.nextUrl
+
+    if (!verifyStorageSignature('PUT', key, searchParams.get('expires'), searchParams.get('signature'))) {
+      return NextResponse.json(
+        { error: 'Upload URL is invalid or has expired' },
+        { status: 403 }
+      )
+    }
+
+    const contentLength = parseInt(request.headers.get('content-length') || '0', 10)
+    if (contentLength > MAX_FILE_SIZE) {
+      return NextResponse.json(
+        { error: 'File size must be less than 50MB' },
+        { status: 413 }
+      )
+    }
+
+    const body = new Uint8Array(await request.arrayBuffer())
+    if (body.length > MAX_FILE_SIZE) {
+      return NextResponse.json(
+        { error: 'File size must be less than 50MB' },
+        { status: 413 }
+      )
+    }
+
+    await getStorage().putObject(
+      key,
+      body,
+      request.headers.get('content-type') || 'application/octet-stream'
+    )
+
+    return new NextResponse(null, { status: 200 })
+
+  } catch (error) {
+    console.error('Storage write error:', error)
+    return NextResponse.json(
+      { error: 'Internal server error' },
+      { status: 500 }
+    )
+  }
+}
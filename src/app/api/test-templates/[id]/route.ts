@@ -0,0 +1,228 @@
+import { NextRequest, NextResponse } from 'next/server'
+import { db } from '@/lib/db'
+import { authenticate, checkOrganizationAccess, requireRole } from '@/lib/auth-middleware'
+import { UpdateTestTemplateSchema } from '@/lib/schemas'
+import { sameDefinition } from '@/lib/test-templates'
+
+/**
+ * GET /api/test-templates/[id] - Get a custom test template
+ */
+export async function GET(
+  request: NextRequest,
+  { params }: { params: { id: string } }
+) {
+  try {
+    const authResult = await authenticate(request)
+    if ('error' in authResult) {
+      return NextResponse.json({ error: authResult.error }, { status: authResult.status })
+    }
+
+    const template = await db.testTemplate.findUnique({
+      where: { id: params.id },
+      include: {
+        organization: {
+          select: { id: true, name: true }
+        },
+        _count: {
+          select: { tests: true }
+        }
+      }
+    })
+
+    if (!template) {
+      return NextResponse.json(
+        { error: 'Test template not found' },
+        { status: 404 }
+      )
+    }
+
+    if (!await checkOrganizationAccess(authResult.user.id, template.orgId)) {
+      return NextResponse.json(
+        { error: 'Insufficient permissions' },
+        { status: 403 }
+      )
+    }
+
+    return NextResponse.json({ template })
+
+  } catch (error) {
+    console.error('Get test template error:', error)
+    return NextResponse.json(
+      { error: 'Internal server error' },
+      { status: 500 }
+    )
+  }
+}
+
+/**
+ * PATCH /api/test-templates/[id] - Update template (adds a definition version when the definition changes)
+ */
+export async function PATCH(
+  request: NextRequest,
+  { params }: { params: { id: string } }
+) {
+  try {
+    const authResult = await authenticate(request)
+    if ('error' in authResult) {
+      return NextResponse.json({ error: authResult.error }, { status: authResult.status })
+    }
+
+    if (!requireRole(authResult.user.role, 'ADMIN')) {
+      return NextResponse.json(
+        { error: 'Only administrators can update test templates' },
+        { status: 403 }
+      )
+    }
+
+    const body = await request.json()
+    const validatedFields = UpdateTestTemplateSchema.safeParse(body)
+
+    if (!validatedFields.success) {
+      return NextResponse.json(
+        { error: 'Invalid input fields', details: validatedFields.error.flatten() },
+        { status: 400 }
+      )
+    }
+
+    const existingTemplate = await db.testTemplate.findUnique({
+      where: { id: params.id }
+    })
+
+    if (!existingTemplate) {
+      return NextResponse.json(
+        { error: 'Test template not found' },
+        { status: 404 }
+      )
+    }
+
+    if (!await checkOrganizationAccess(authResult.user.id, existingTemplate.orgId)) {
+      return NextResponse.json(
+        { error: 'Insufficient permissions' },
+        { status: 403 }
+      )
+    }
+
+    const { name, description, category, definition, archived } = validatedFields.data
+
+    // Definitions are never edited in place: a change adds a version and tests keep the one they were recorded with
+    const definitionChanged = definition !== undefined &&
+      !sameDefinition(definition, existingTemplate.definition)
+    const nextVersion = existingTemplate.version + 1
+
+    // Tests recorded before versions were kept are pinned to the definition being replaced
+    if (definitionChanged) {
+      const currentVersion = await db.testTemplateVersion.upsert({
+        where: {
+          templateId_version: { templateId: params.id, version: existingTemplate.version }
+        },
+        create: {
+          templateId: params.id,
+          version: existingTemplate.version,
+          definition: existingTemplate.definition as any
+        },
+        update: {}
+      })
+      await db.testResult.updateMany({
+        where: { templateId: params.id, templateVersionId: null },
+        data: { templateVersionId: currentVersion.id }
+      })
+    }
+
+    const template = await db.testTemplate.update({
+      where: { id: params.id },
+      data: {
+        name,
+        description,
+        category,
+        archived,
+        ...(definitionChanged && {
+          definition,
+          version: nextVersion,
+          versions: {
+            create: { version: nextVersion, definition }
+          }
+        })
+      }
+    })
+
+    return NextResponse.json({
+      message: 'Test template updated successfully',
+      template
+    })
+
+  } catch (error) {
+    console.error('Update test template error:', error)
+    return NextResponse.json(
+      { error: 'Internal server error' },
+      { status: 500 }
+    )
+  }
+}
+
+/**
+ * DELETE /api/test-templates/[id] - Delete template (admin only)
+ * Templates with recorded tests must be archived instead so their results keep rendering
+ */
+export async function DELETE(
+  request: NextRequest,
+  { params }: { params: { id: string } }
+) {
+  try {
+    const authResult = await authenticate(request)
+    if ('error' in authResult) {
+      return NextResponse.json({ error: authResult.error }, { status: authResult.status })
+    }
+
+    if (!requireRole(authResult.user.role, 'ADMIN')) {
+      return NextResponse.json(
+        { error: 'Only administrators can delete test templates' },
+        { status: 403 }
+      )
+    }
+
+    const template = await db.testTemplate.findUnique({
+      where: { id: params.id },
+      include: {
+        _count: {
+          select: { tests: true }
+        }
+      }
+    })
+
+    if (!template) {
+      return NextResponse.json(
+        { error: 'Test template not found' },
+        { status: 404 }
+      )
+    }
+
+    if (!await checkOrganizationAccess(authResult.user.id, template.orgId)) {
+      return NextResponse.json(
+        { error: 'Insufficient permissions' },
+        { status: 403 }
+      )
+    }
+
+    if (template._count.tests > 0) {
+      return NextResponse.json(
+        { error: 'Test template has recorded tests; archive it instead' },
+        { status: 409 }
+      )
+    }
+
+    await db.testTemplate.delete({
+      where: { id: params.id }
+    })
+
+    return NextResponse.json({
+      message: 'Test template deleted successfully'
+    })
+
+  } catch (error) {
+    console.error('Delete test template error:', error)
+    return NextResponse.json(
+      { error: 'Internal server error' },
+      { status: 500 }
+    )
+  }
+}
@@ -0,0 +1,128 @@
+import { NextRequest, NextResponse } from 'next/server'
+import { db } from '@/lib/db'
+import { authenticate, checkOrganizationAccess, getUserOrganizationIds, requireRole } from '@/lib/auth-middleware'
+import { CreateTestTemplateSchema } from '@/lib/schemas'
+import { TEMPLATE_CONTEXT_VALUES, getTemplateFunctions } from '@/lib/test-templates'
+
+/**
+ * GET /api/test-templates - List custom test templates, optionally for one organization
+ * Only templates of the user's own organizations are listed; archived templates
+ * are left out unless includeArchived=true
+ */
+export async function GET(request: NextRequest) {
+  try {
+    const authResult = await authenticate(request)
+    if ('error' in authResult) {
+      return NextResponse.json({ error: authResult.error }, { status: authResult.status })
+    }
+
+    const { searchParams } = new URL(request.url)
+    const orgId = searchParams.get('orgId')
+    const includeArchived = searchParams.get('includeArchived') === 'true'
+    const orgIds = await getUserOrganizationIds(authResult.user.id)
+
+    const templates = await db.testTemplate.findMany({
+      where: {
+        orgId: { in: orgId ? orgIds.filter(id => id === orgId) : orgIds },
+        ...(!includeArchived && { archived: false })
+      },
+      include: {
+        organization: {
+          select: { id: true, name: true }
+        },
+        _count: {
+          select: { tests: true }
+        }
+      },
+      orderBy: { name: 'asc' }
+    })
+
+    return NextResponse.json({
+      templates,
+      contextValues: TEMPLATE_CONTEXT_VALUES,
+      functions: Object.keys(getTemplateFunctions())
+    })
+
+  } catch (error) {
+    console.error('Get test templates error:', error)
+    return NextResponse.json(
+      { error: 'Internal server error' },
+      { status: 500 }
+    )
+  }
+}
+
+/**
+ * POST /api/test-templates - Create a custom test template for an organization
+ */
+export async function POST(request: NextRequest) {
+  try {
+    const authResult = await authenticate(request)
+    if ('error' in authResult) {
+      return NextResponse.json({ error: authResult.error }, { status: authResult.status })
+    }
+
+    // Only ADMIN users manage organization-wide test templates
+    if (!requireRole(authResult.user.role, 'ADMIN')) {
+      return NextResponse.json(
+        { error: 'Only administrators can create test templates' },
+        { status: 403 }
+      )
+    }
+
+    const body = await request.json()
+    const validatedFields = CreateTestTemplateSchema.safeParse(body)
+
+    if (!validatedFields.success) {
+      return NextResponse.json(
+        { error: 'Invalid input fields', details: validatedFields.error.flatten() },
+        { status: 400 }
+      )
+    }
+
+    const { orgId, name, description, category, definition } = validatedFields.data
+
+    const organization = await db.organization.findUnique({
+      where: { id: orgId }
+    })
+
+    if (!organization) {
+      return NextResponse.json(
+        { error: 'Organization not found' },
+        { status: 404 }
+      )
+    }
+
+    if (!await checkOrganizationAccess(authResult.user.id, orgId)) {
+      return NextResponse.json(
+        { error: 'Insufficient permissions' },
+        { status: 403 }
+      )
+    }
+
+    const template = await db.testTemplate.create({
+      data: {
+        orgId,
+        name,
+        description,
+        category,
+        definition,
+        versions: {
+          create: { version: 1, definition }
+        }
+      }
+    })
+
+    return NextResponse.json({
+      message: 'Test template created successfully',
+      template
+    }, { status: 201 })
+
+  } catch (error) {
+    console.error('Create test template error:', error)
+    return NextResponse.json(
+      { error: 'Internal server error' },
+      { status: 500 }
+    )
+  }
+}
@@ -0,0 +1,315 @@
+import { NextRequest, NextResponse } from 'next/server'
+import { Prisma } from '@prisma/client'
+import { db } from '@/lib/db'
+import { authenticate, checkProjectAccess } from '@/lib/auth-middleware'
+import { UpdateTestResultSchema } from '@/lib/schemas'
+import { getRecordedCriteria } from '@/lib/criteria'
+import { evaluateTestResult, getUnitError, refreshCoilTests, validateReadingForTest } from '@/lib/test-evaluation'
+import { recordedTemplate } from '@/lib/test-templates'
+import { getSessionLockedMessage, isSessionLocked } from '@/lib/session-workflow'
+
+/**
+ * GET /api/tests/[id] - Get a single test result
+ */
+export async function GET(
+  request: NextRequest,
+  { params }: { params: { id: string } }
+) {
+  try {
+    const authResult = await authenticate(request)
+    if ('error' in authResult) {
+      return NextResponse.json({ error: authResult.error }, { status: authResult.status })
+    }
+
+    const testResult = await db.testResult.findUnique({
+      where: { id: params.id },
+      include: {
+        session: {
+          include: {
+            area: {
+              include: { project: true }
+            }
+          }
+        },
+        unit: true,
+        template: true,
+        files: {
+          select: { id: true, filename: true, mimeType: true, label: true, category: true }
+        }
+      }
+    })
+
+    if (!testResult) {
+      return NextResponse.json(
+        { error: 'Test result not found' },
+        { status: 404 }
+      )
+    }
+
+    const hasAccess = await checkProjectAccess(
+      authResult.user.id,
+      testResult.session.area.project.id,
+      'VIEWER'
+    )
+
+    if (!hasAccess) {
+      return NextResponse.json(
+        { error: 'Insufficient permissions' },
+        { status: 403 }
+      )
+    }
+
+    return NextResponse.json({ testResult })
+
+  } catch (error) {
+    console.error('Get test result error:', error)
+    return NextResponse.json(
+      { error: 'Internal server error' },
+      { status: 500 }
+    )
+  }
+}
+
+/**
+ * PATCH /api/tests/[id] - Update reading, unit or notes and recompute
+ */
+export async function PATCH(
+  request: NextRequest,
+  { params }: { params: { id: string } }
+) {
+  try {
+    const authResult = await authenticate(request)
+    if ('error' in authResult) {
+      return NextResponse.json({ error: authResult.error }, { status: authResult.status })
+    }
+
+    const body = await request.json()
+    const validatedFields = UpdateTestResultSchema.safeParse(body)
+
+    if (!validatedFields.success) {
+      return NextResponse.json(
+        { error: 'Invalid input fields', details: validatedFields.error.flatten() },
+        { status: 400 }
+      )
+    }
+
+    const existingTest = await db.testResult.findUnique({
+      where: { id: params.id },
+      include: {
+        session: {
+          include: {
+            area: {
+              include: { project: true }
+            },
+            weatherObservations: {
+              orderBy: { observedAt: 'asc' }
+            }
+          }
+        },
+        unit: true,
+        template: true,
+        templateVersion: true
+      }
+    })
+
+    if (!existingTest) {
+      return NextResponse.json(
+        { error: 'Test result not found' },
+        { status: 404 }
+      )
+    }
+
+    const hasAccess = await checkProjectAccess(
+      authResult.user.id,
+      existingTest.session.area.project.id,
+      'EDITOR'
+    )
+
+    if (!hasAccess) {
+      return NextResponse.json(
+        { error: 'Insufficient permissions' },
+        { status: 403 }
+      )
+    }
+
+    if (isSessionLocked(existingTest.session.status)) {
+      return NextResponse.json(
+        { error: getSessionLockedMessage(existingTest.session.status) },
+        { status: 409 }
+      )
+    }
+
+    // Custom tests are validated and computed with the template definition they were recorded against
+    const template = recordedTemplate(existingTest.template, existingTest.templateVersion)
+
+    const { unitId, reading, notes } = validatedFields.data
+
+    // Re-validate the reading against the schema for this test type (or its template)
+    let validatedReading = existingTest.reading as Prisma.InputJsonValue
+    if (reading !== undefined) {
+      const readingResult = validateReadingForTest(existingTest.testType, reading, template)
+
+      if (!readingResult.success) {
+        return NextResponse.json(
+          { error: 'Invalid reading', details: readingResult.errors },
+          { status: 400 }
+        )
+      }
+
+      validatedReading = readingResult.data as Prisma.InputJsonValue
+    }
+
+    // Resolve the unit the test belongs to after the update
+    let unit = existingTest.unit
+    if (unitId !== undefined) {
+      unit = unitId
+        ? await db.hvacUnit.findUnique({ where: { id: unitId } })
+        : null
+
+      if (unitId && (!unit || unit.areaId !== existingTest.session.areaId)) {
+        return NextResponse.json(
+          { error: 'HVAC unit not found' },
+          { status: 404 }
+        )
+      }
+    }
+
+    const unitError = getUnitError(existingTest.testType, unit)
+
+    if (unitError) {
+      return NextResponse.json(
+        { error: unitError },
+        { status: 400 }
+      )
+    }
+
+    // Edits keep the criteria version the test was graded with
+    const { computed, pass } = await evaluateTestResult(
+      existingTest.testType,
+      validatedReading,
+      existingTest.session,
+      unit,
+      getRecordedCriteria(existingTest.computed),
+      existingTest.createdAt,
+      template
+    )
+
+    const testResult = await db.testResult.update({
+      where: { id: params.id },
+      data: {
+        reading: validatedReading,
+        unitId: unit?.id ?? null,
+        notes,
+        computed: computed ? (computed as any) : Prisma.DbNull,
+        pass: pass ?? null
+      },
+      include: {
+        unit: true,
+        template: {
+          select: { id: true, name: true, category: true, version: true }
+        },
+        files: {
+          select: { id: true, filename: true, mimeType: true, label: true, category: true }
+        }
+      }
+    })
+
+    // Coil capacities use the unit's latest measured airflow
+    if (testResult.testType === 'AIRFLOW_STATIC' && (testResult.unitId || existingTest.unitId)) {
+      await refreshCoilTests(existingTest.sessionId)
+    }
+
+    return NextResponse.json({
+      message: 'Test result updated successfully',
+      testResult
+    })
+
+  } catch (error) {
+    console.error('Update test result error:', error)
+    return NextResponse.json(
+      { error: 'Internal server error' },
+      { status: 500 }
+    )
+  }
+}
+
+/**
+ * DELETE /api/tests/[id] - Delete a test result
+ */
+export async function DELETE(
+  request: NextRequest,
+  { params }: { params: { id: string } }
+) {
+  try {
+    const authResult = await authenticate(request)
+    if ('error' in authResult) {
+      return NextResponse.json({ error: authResult.error }, { status: authResult.status })
+    }
+
+    const testResult = await db.testResult.findUnique({
+      where: { id: params.id },
+      include: {
+        session: {
+          include: {
+            area: {
+              include: { project: true }
+            }
+          }
+        }
+      }
+    })
+
+    if (!testResult) {
+      return NextResponse.json(
+        { error: 'Test result not found' },
+        { status: 404 }
+      )
+    }
+
+    const hasAccess = await checkProjectAccess(
+      authResult.user.id,
+      testResult.session.area.project.id,
+      'EDITOR'
+    )
+
+    if (!hasAccess) {
+      return NextResponse.json(
+        { error: 'Insufficient permissions' },
+        { status: 403 }
+      )
+    }
+
+    if (isSessionLocked(testResult.session.status)) {
+      return NextResponse.json(
+        { error: getSessionLockedMessage(testResult.session.status) },
+        { status: 409 }
+      )
+    }
+
+    // Keep attached evidence as session files rather than deleting it
+    await db.$transaction([
+      db.fileAsset.updateMany({
+        where: { testResultId: params.id },
+        data: { testResultId: null }
+      }),
+      db.testResult.delete({
+        where: { id: params.id }
+      })
+    ])
+
+    if (testResult.testType === 'AIRFLOW_STATIC' && testResult.unitId) {
+      await refreshCoilTests(testResult.sessionId)
+    }
+
+    return NextResponse.json({
+      message: 'Test result deleted successfully'
+    })
+
+  } catch (error) {
+    console.error('Delete test result error:', error)
+    return NextResponse.json(
+      { error: 'Internal server error' },
+      { status: 500 }
+    )
+  }
+}
@@ -2,8 +2,9 @@ import { NextRequest, NextResponse } from 'next/server'
 import { db } from '@/lib/db'
 import { authenticate, checkProjectAccess } from '@/lib/auth-middleware'
 import { CreateTestResultSchema } from '@/lib/schemas'
-import { computeTestResult } from '@/lib/test-computations'
-import { TestType } from '@prisma/client'
+import { evaluateTestResult, getUnitError, refreshCoilTests, validateReadingForTest } from '@/lib/test-evaluation'
+import { getSessionLockedMessage, isSessionLocked } from '@/lib/session-workflow'
+import { Prisma, TestType } from '@prisma/client'
 
 /**
  * POST /api/tests - Create new test result
@@ -25,7 +26,30 @@ export async function POST(request: NextRequest) {
       )
     }
 
-    const { sessionId, unitId, testType, reading, notes } = validatedFields.data
+    const { sessionId, unitId, testType, templateId, notes } = validatedFields.data
+
+    // Custom tests are validated and computed from their organization's template
+    const template = templateId
+      ? await db.testTemplate.findUnique({ where: { id: templateId } })
+      : null
+
+    if (templateId && (!template || template.archived)) {
+      return NextResponse.json(
+        { error: 'Test template not found' },
+        { status: 404 }
+      )
+    }
+
+    const readingResult = validateReadingForTest(testType, validatedFields.data.reading, template)
+
+    if (!readingResult.success) {
+      return NextResponse.json(
+        { error: 'Invalid reading', details: readingResult.errors },
+        { status: 400 }
+      )
+    }
+
+    const reading = readingResult.data as Prisma.InputJsonValue
 
     // Get session and verify access
     const session = await db.session.findUnique({
@@ -33,6 +57,9 @@ export async function POST(request: NextRequest) {
       include: {
         area: {
           include: { project: true }
+        },
+        weatherObservations: {
+          orderBy: { observedAt: 'asc' }
         }
       }
     })
@@ -58,45 +85,83 @@ export async function POST(request: NextRequest) {
       )
     }
 
+    if (isSessionLocked(session.status)) {
+      return NextResponse.json(
+        { error: getSessionLockedMessage(session.status) },
+        { status: 409 }
+      )
+    }
+
+    if (template && template.orgId !== session.area.project.orgId) {
+      return NextResponse.json(
+        { error: 'Test template belongs to another organization' },
+        { status: 400 }
+      )
+    }
+
     // Verify unit exists if provided
-    if (unitId) {
-      const unit = await db.hvacUnit.findUnique({
-        where: { id: unitId }
-      })
+    const unit = unitId
+      ? await db.hvacUnit.findUnique({ where: { id: unitId } })
+      : null
 
-      if (!unit) {
-        return NextResponse.json(
-          { error: 'HVAC unit not found' },
-          { status: 404 }
-        )
-      }
+    if (unitId && !unit) {
+      return NextResponse.json(
+        { error: 'HVAC unit not found' },
+        { status: 404 }
+      )
     }
 
-    // Get weather data from session for computations
-    const weatherData = {
-      outdoorTemp: session.weatherOADryBulb ?? undefined,
-      outdoorRH: session.weatherOARH ?? undefined
+    // The unit's refrigerant and airflow feed the computation, so it must be in the session's area
+    if (unit && unit.areaId !== session.areaId) {
+      return NextResponse.json(
+        { error: 'HVAC unit belongs to another area' },
+        { status: 400 }
+      )
     }
 
-    // Compute test results
-    let computed = undefined
-    let pass = undefined
-    
-    try {
-      const computation = computeTestResult(testType as TestType, reading, weatherData)
-      computed = computation
-      pass = computation.pass
-    } catch (error) {
-      console.error('Computation error:', error)
-      // Continue without computation if it fails
+    const unitError = getUnitError(testType as TestType, unit)
+
+    if (unitError) {
+      return NextResponse.json(
+        { error: unitError },
+        { status: 400 }
+      )
     }
 
+    // The reading is recorded against the template's current definition version
+    const templateVersion = template
+      ? await db.testTemplateVersion.upsert({
+          where: {
+            templateId_version: { templateId: template.id, version: template.version }
+          },
+          create: {
+            templateId: template.id,
+            version: template.version,
+            definition: template.definition as any
+          },
+          update: {}
+        })
+      : null
+
+    // Compute test results against session weather and the active criteria profile
+    const { computed, pass } = await evaluateTestResult(
+      testType as TestType,
+      reading,
+      session,
+      unit,
+      undefined,
+      undefined,
+      template
+    )
+
     // Create test result
     const testResult = await db.testResult.create({
       data: {
         sessionId,
         unitId,
         testType: testType as TestType,
+        templateId,
+        templateVersionId: templateVersion?.id,
         reading,
         computed: computed as any,
         pass,
@@ -110,10 +175,18 @@ export async function POST(request: NextRequest) {
             }
           }
         },
-        unit: true
+        unit: true,
+        template: {
+          select: { id: true, name: true, category: true, version: true }
+        }
       }
     })
 
+    // Coil capacities use the unit's latest measured airflow
+    if (testResult.testType === 'AIRFLOW_STATIC' && unitId) {
+      await refreshCoilTests(sessionId)
+    }
+
     return NextResponse.json({ 
       message: 'Test result created successfully',
       testResult 
@@ -191,7 +264,12 @@ export async function GET(request: NextRequest) {
           }
         },
         unit: true,
-        files: true
+        template: {
+          select: { id: true, name: true, category: true, version: true }
+        },
+        files: {
+          select: { id: true, filename: true, mimeType: true, label: true, category: true }
+        }
       },
       orderBy: { createdAt: 'desc' }
     })
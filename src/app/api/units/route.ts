@@ -89,7 +89,7 @@ export async function GET(request: NextRequest) {
           orderBy: { createdAt: 'desc' }
         },
         files: {
-          select: { id: true, filename: true, url: true, mimeType: true, label: true, category: true }
+          select: { id: true, filename: true, mimeType: true, label: true, category: true }
         },
         _count: {
           select: {
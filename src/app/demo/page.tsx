@@ -158,7 +158,7 @@ export default function DemoPage() {
                         </div>
                         <div className="flex justify-between">
                           <span className="text-gray-600 dark:text-gray-300">Static Pressure:</span>
-                          <span className="font-mono">{test.staticPressure}" w.c.</span>
+                          <span className="font-mono">{test.staticPressure}&quot; w.c.</span>
                         </div>
                       </>
                     )}
@@ -190,11 +190,11 @@ export default function DemoPage() {
                       <>
                         <div className="flex justify-between">
                           <span className="text-gray-600 dark:text-gray-300">Measured:</span>
-                          <span className="font-mono">{test.pressure}" w.c.</span>
+                          <span className="font-mono">{test.pressure}&quot; w.c.</span>
                         </div>
                         <div className="flex justify-between">
                           <span className="text-gray-600 dark:text-gray-300">Target Range:</span>
-                          <span className="font-mono">{test.target}" w.c.</span>
+                          <span className="font-mono">{test.target}&quot; w.c.</span>
                         </div>
                       </>
                     )}
@@ -235,7 +235,7 @@ export default function DemoPage() {
               </CardHeader>
               <CardContent>
                 <p className="text-sm text-gray-600 dark:text-gray-300">
-                  Built-in acceptance criteria for building pressure (0.02-0.05" w.c.), supply dew point (50-55°F), and more.
+                  Built-in acceptance criteria for building pressure (0.02-0.05&quot; w.c.), supply dew point (50-55°F), and more.
                 </p>
               </CardContent>
             </Card>
@@ -133,7 +133,7 @@ export default function LoginPage() {
           </Button>
           
           <div className="text-center text-sm">
-            Don't have an account?{' '}
+            Don&apos;t have an account?{' '}
             <Link 
               href="/register" 
               className="text-primary hover:underline"
@@ -9,6 +9,9 @@ import { Card, CardContent, CardDescription, CardHeader, CardTitle } from '@/com
 import { Badge } from '@/components/ui/badge'
 import { Tabs, TabsContent, TabsList, TabsTrigger } from '@/components/ui/tabs'
 import { Separator } from '@/components/ui/separator'
+import { LoggerImport } from '@/components/loggers/logger-import'
+import { LoggerDatasets, LoggerDatasetListItem } from '@/components/loggers/logger-datasets'
+import { LoggerMonitoring } from '@/components/loggers/logger-monitoring'
 
 interface AreaData {
   id: string
@@ -82,6 +85,7 @@ export default function AreaDetailPage() {
   const areaId = params.areaId as string
 
   const [areaData, setAreaData] = useState<AreaData | null>(null)
+  const [loggerDatasets, setLoggerDatasets] = useState<LoggerDatasetListItem[]>([])
   const [loading, setLoading] = useState(true)
   const [activeTab, setActiveTab] = useState('overview')
 
@@ -92,6 +96,7 @@ export default function AreaDetailPage() {
     }
 
     fetchAreaData()
+    fetchLoggerDatasets()
   }, [session, projectId, areaId])
 
   const fetchAreaData = async () => {
@@ -115,6 +120,19 @@ export default function AreaDetailPage() {
     }
   }
 
+  const fetchLoggerDatasets = async () => {
+    try {
+      // Outdoor loggers anywhere in the project can be overlaid on this area's charts
+      const response = await fetch(`/api/loggers?projectId=${projectId}`)
+      if (response.ok) {
+        const data = await response.json()
+        setLoggerDatasets(data.datasets)
+      }
+    } catch (error) {
+      console.error('Failed to fetch logger datasets:', error)
+    }
+  }
+
   const getStatusColor = (status: string) => {
     switch (status) {
       case 'DRAFT': return 'bg-yellow-100 text-yellow-800 dark:bg-yellow-900 dark:text-yellow-200'
@@ -167,6 +185,7 @@ export default function AreaDetailPage() {
   }
 
   const kpis = calculateAreaKPIs()
+  const areaLoggerDatasets = loggerDatasets.filter(d => d.area?.id === areaId)
 
   return (
     <div className="min-h-screen bg-gray-50 dark:bg-gray-900">
@@ -276,10 +295,11 @@ export default function AreaDetailPage() {
 
         {/* Main Content Tabs */}
         <Tabs value={activeTab} onValueChange={setActiveTab} className="space-y-6">
-          <TabsList className="grid w-full grid-cols-3">
+          <TabsList className="grid w-full grid-cols-4">
             <TabsTrigger value="overview">Overview</TabsTrigger>
             <TabsTrigger value="units">HVAC Units ({areaData.units.length})</TabsTrigger>
             <TabsTrigger value="sessions">Sessions ({areaData.sessions.length})</TabsTrigger>
+            <TabsTrigger value="monitoring">Monitoring ({areaLoggerDatasets.length})</TabsTrigger>
           </TabsList>
 
           <TabsContent value="overview" className="space-y-6">
@@ -581,6 +601,21 @@ export default function AreaDetailPage() {
               </div>
             )}
           </TabsContent>
+
+          <TabsContent value="monitoring" className="space-y-6">
+            <LoggerMonitoring areaId={areaId} datasets={loggerDatasets} />
+
+            <LoggerImport
+              areaId={areaId}
+              units={areaData.units}
+              onImported={() => fetchLoggerDatasets()}
+            />
+
+            <LoggerDatasets
+              datasets={areaLoggerDatasets}
+              onDelete={(datasetId) => setLoggerDatasets(prev => prev.filter(d => d.id !== datasetId))}
+            />
+          </TabsContent>
         </Tabs>
       </div>
     </div>
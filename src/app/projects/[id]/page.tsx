@@ -9,6 +9,7 @@ import { Card, CardContent, CardDescription, CardHeader, CardTitle } from '@/com
 import { Badge } from '@/components/ui/badge'
 import { Tabs, TabsContent, TabsList, TabsTrigger } from '@/components/ui/tabs'
 import { Separator } from '@/components/ui/separator'
+import { ProjectReportBuilder } from '@/components/reports/project-report-builder'
 
 interface ProjectData {
   id: string
@@ -81,6 +82,32 @@ interface RecentSession {
   }
 }
 
+interface AuditEntry {
+  id: string
+  action: 'CREATE' | 'UPDATE' | 'DELETE'
+  entityType: string
+  entityId: string
+  oldValues?: Record<string, any>
+  newValues?: Record<string, any>
+  createdAt: string
+  user?: {
+    name?: string
+    email: string
+  }
+}
+
+const ENTITY_LABELS: Record<string, string> = {
+  Project: 'Project',
+  Area: 'Area',
+  HvacUnit: 'HVAC unit',
+  Session: 'Session',
+  SessionTransition: 'Session status',
+  TestResult: 'Test result',
+  FileAsset: 'File',
+  Report: 'Report',
+  Membership: 'Member'
+}
+
 export default function ProjectDetailPage() {
   const { data: session } = useSession()
   const router = useRouter()
@@ -91,6 +118,7 @@ export default function ProjectDetailPage() {
   const [recentSessions, setRecentSessions] = useState<RecentSession[]>([])
   const [loading, setLoading] = useState(true)
   const [activeTab, setActiveTab] = useState('overview')
+  const [activity, setActivity] = useState<AuditEntry[] | null>(null)
 
   useEffect(() => {
     if (!session) {
@@ -102,6 +130,12 @@ export default function ProjectDetailPage() {
     fetchRecentSessions()
   }, [session, projectId])
 
+  useEffect(() => {
+    if (activeTab === 'activity' && activity === null) {
+      fetchActivity()
+    }
+  }, [activeTab])
+
   const fetchProjectData = async () => {
     try {
       const response = await fetch('/api/projects')
@@ -120,6 +154,34 @@ export default function ProjectDetailPage() {
     }
   }
 
+  const fetchActivity = async () => {
+    try {
+      const response = await fetch(`/api/audit?projectId=${projectId}&limit=200`)
+      if (response.ok) {
+        const data = await response.json()
+        setActivity(data.entries)
+      }
+    } catch (error) {
+      console.error('Failed to fetch activity:', error)
+    }
+  }
+
+  const describeActivity = (entry: AuditEntry) => {
+    const label = ENTITY_LABELS[entry.entityType] || entry.entityType
+    const values = entry.newValues || entry.oldValues || {}
+    const name = values.name || values.label || values.title || values.filename || values.testType
+
+    if (entry.action === 'UPDATE') {
+      const fields = Object.keys(entry.newValues || {})
+      if (fields.includes('status')) {
+        return `${label} ${name ? `"${name}" ` : ''}status ${entry.oldValues?.status} → ${entry.newValues?.status}`
+      }
+      return `${label} ${name ? `"${name}" ` : ''}updated (${fields.join(', ')})`
+    }
+
+    return `${label} ${name ? `"${name}" ` : ''}${entry.action === 'CREATE' ? 'created' : 'deleted'}`
+  }
+
   const fetchRecentSessions = async () => {
     try {
       const response = await fetch(`/api/sessions?projectId=${projectId}`)
@@ -278,11 +340,12 @@ export default function ProjectDetailPage() {
 
         {/* Main Content Tabs */}
         <Tabs value={activeTab} onValueChange={setActiveTab} className="space-y-6">
-          <TabsList className="grid w-full grid-cols-4">
+          <TabsList className="grid w-full grid-cols-5">
             <TabsTrigger value="overview">Overview</TabsTrigger>
             <TabsTrigger value="areas">Areas ({projectData.areas.length})</TabsTrigger>
             <TabsTrigger value="sessions">Sessions ({kpis?.totalSessions || 0})</TabsTrigger>
             <TabsTrigger value="reports">Reports ({projectData._count.reports})</TabsTrigger>
+            <TabsTrigger value="activity">Activity</TabsTrigger>
           </TabsList>
 
           <TabsContent value="overview" className="space-y-6">
@@ -557,17 +620,56 @@ export default function ProjectDetailPage() {
           </TabsContent>
 
           <TabsContent value="reports" className="space-y-6">
+            {kpis?.totalSessions ? (
+              <ProjectReportBuilder
+                projectId={projectId}
+                projectName={projectData.name}
+                areas={projectData.areas}
+              />
+            ) : (
+              <Card>
+                <CardContent>
+                  <p className="text-gray-500 text-center py-8">
+                    Reports become available once sessions have been recorded
+                  </p>
+                </CardContent>
+              </Card>
+            )}
+          </TabsContent>
+
+          <TabsContent value="activity" className="space-y-6">
             <Card>
               <CardHeader>
-                <CardTitle>Project Reports</CardTitle>
+                <CardTitle>Activity Timeline</CardTitle>
                 <CardDescription>
-                  Generated commissioning reports for this project
+                  Changes to areas, units, sessions, tests, files and reports
                 </CardDescription>
               </CardHeader>
               <CardContent>
-                <p className="text-gray-500 text-center py-8">
-                  Report generation coming soon...
-                </p>
+                {activity === null ? (
+                  <div className="flex items-center justify-center py-8">
+                    <div className="animate-spin rounded-full h-8 w-8 border-b-2 border-blue-600"></div>
+                  </div>
+                ) : activity.length === 0 ? (
+                  <p className="text-gray-500 text-center py-8">No activity recorded yet</p>
+                ) : (
+                  <div className="space-y-3">
+                    {activity.map((entry) => (
+                      <div key={entry.id} className="flex items-start justify-between p-3 bg-gray-50 dark:bg-gray-800 rounded-lg">
+                        <div className="flex items-start gap-3">
+                          <Badge variant={entry.action === 'DELETE' ? 'destructive' : entry.action === 'CREATE' ? 'default' : 'secondary'}>
+                            {entry.action}
+                          </Badge>
+                          <div className="text-sm">{describeActivity(entry)}</div>
+                        </div>
+                        <div className="text-right text-sm text-gray-500 shrink-0 ml-4">
+                          <div>{entry.user?.name || entry.user?.email || 'System'}</div>
+                          <div>{new Date(entry.createdAt).toLocaleString()}</div>
+                        </div>
+                      </div>
+                    ))}
+                  </div>
+                )}
               </CardContent>
             </Card>
           </TabsContent>
@@ -13,6 +13,8 @@ import { TestEntryForm } from '@/components/test-forms/test-entry-form'
 import { FileUpload } from '@/components/file-upload/file-upload'
 import { FileGallery } from '@/components/file-upload/file-gallery'
 import { ReportGenerator } from '@/components/reports/report-generator'
+import { LoggerMonitoring } from '@/components/loggers/logger-monitoring'
+import type { LoggerDatasetListItem } from '@/components/loggers/logger-datasets'
 
 interface SessionData {
   id: string
@@ -22,6 +24,7 @@ interface SessionData {
   weatherOADryBulb?: number
   weatherOARH?: number
   weatherNotes?: string
+  weatherSource?: string | null
   notes?: string
   status: string
   area: {
@@ -30,6 +33,7 @@ interface SessionData {
     sqft?: number
     project: {
       id: string
+      orgId: string
       name: string
       organization: {
         name: string
@@ -61,6 +65,11 @@ interface SessionData {
       id: string
       label: string
     }
+    template?: {
+      id: string
+      name: string
+      category: 'HVAC' | 'ENVELOPE'
+    } | null
   }>
   statistics: {
     testsByType: Record<string, number>
@@ -75,16 +84,36 @@ interface SessionData {
     id: string
     filename: string
     originalName: string
-    url: string
     mimeType: string
     fileSize: number
     label?: string
     category: string
     createdAt: string
   }>
+  transitions: Array<{
+    id: string
+    fromStatus: string
+    toStatus: string
+    comment?: string
+    createdAt: string
+    actor: {
+      id: string
+      name?: string
+      email: string
+    }
+  }>
+  workflow: {
+    locked: boolean
+    availableTransitions: Array<{
+      to: string
+      action: string
+      commentRequired: boolean
+    }>
+  }
   _count: {
     tests: number
     files: number
+    weatherObservations: number
   }
 }
 
@@ -102,7 +131,8 @@ const HVAC_TESTS = [
   'COIL_PERFORMANCE',
   'FAN_EVAP_RECHECK',
   'ECONOMIZER_SEAL',
-  'DISTRIBUTION_MIXING'
+  'DISTRIBUTION_MIXING',
+  'DEHUMIDIFIER_PERFORMANCE'
 ]
 
 export default function SessionDetailPage() {
@@ -116,6 +146,7 @@ export default function SessionDetailPage() {
   const [activeTab, setActiveTab] = useState('overview')
   const [files, setFiles] = useState<any[]>([])
   const [filesLoading, setFilesLoading] = useState(false)
+  const [loggerDatasets, setLoggerDatasets] = useState<LoggerDatasetListItem[] | null>(null)
 
   useEffect(() => {
     if (!session) {
@@ -133,6 +164,9 @@ export default function SessionDetailPage() {
       if (response.ok) {
         const data = await response.json()
         setSessionData(data.session)
+        if (loggerDatasets === null) {
+          fetchLoggerDatasets(data.session.area.project.id)
+        }
       } else {
         // Handle error - session not found or no access
         router.push('/projects')
@@ -160,6 +194,18 @@ export default function SessionDetailPage() {
     }
   }
 
+  const fetchLoggerDatasets = async (projectId: string) => {
+    try {
+      const response = await fetch(`/api/loggers?projectId=${projectId}`)
+      if (response.ok) {
+        const data = await response.json()
+        setLoggerDatasets(data.datasets)
+      }
+    } catch (error) {
+      console.error('Failed to fetch logger datasets:', error)
+    }
+  }
+
   const handleFileUploaded = (file: any) => {
     setFiles(prev => [file, ...prev])
     // Update session file count
@@ -219,22 +265,65 @@ export default function SessionDetailPage() {
     }
   }
 
-  const updateSessionStatus = async (status: string) => {
+  const transitionSession = async (transition: SessionData['workflow']['availableTransitions'][number]) => {
+    let comment: string | undefined
+    if (transition.commentRequired) {
+      const input = prompt(`Comment required to ${transition.action.toLowerCase()} this session:`)
+      if (!input?.trim()) {
+        return
+      }
+      comment = input
+    }
+
     try {
-      const response = await fetch(`/api/sessions/${sessionId}`, {
-        method: 'PATCH',
+      const response = await fetch(`/api/sessions/${sessionId}/transition`, {
+        method: 'POST',
         headers: { 'Content-Type': 'application/json' },
-        body: JSON.stringify({ status })
+        body: JSON.stringify({ status: transition.to, comment })
       })
 
       if (response.ok) {
         await fetchSession() // Refresh data
+      } else {
+        const error = await response.json()
+        alert(error.error)
       }
     } catch (error) {
       console.error('Failed to update session status:', error)
     }
   }
 
+  const recomputeTests = async () => {
+    try {
+      const response = await fetch(`/api/sessions/${sessionId}/recompute`, {
+        method: 'POST'
+      })
+
+      if (response.ok) {
+        await fetchSession() // Refresh data
+      }
+    } catch (error) {
+      console.error('Failed to recompute tests:', error)
+    }
+  }
+
+  const fetchWeather = async () => {
+    try {
+      const response = await fetch(`/api/sessions/${sessionId}/weather`, {
+        method: 'POST'
+      })
+
+      if (response.ok) {
+        await fetchSession() // Refresh data
+      } else {
+        const error = await response.json()
+        alert(error.error)
+      }
+    } catch (error) {
+      console.error('Failed to fetch session weather:', error)
+    }
+  }
+
   const getStatusColor = (status: string) => {
     switch (status) {
       case 'DRAFT': return 'bg-yellow-100 text-yellow-800 dark:bg-yellow-900 dark:text-yellow-200'
@@ -257,8 +346,13 @@ export default function SessionDetailPage() {
     return <div>Session not found</div>
   }
 
-  const envelopeTests = sessionData.tests.filter(t => ENVELOPE_TESTS.includes(t.testType))
-  const hvacTests = sessionData.tests.filter(t => HVAC_TESTS.includes(t.testType))
+  // Custom tests are grouped by their template's category
+  const envelopeTests = sessionData.tests.filter(t =>
+    ENVELOPE_TESTS.includes(t.testType) || t.template?.category === 'ENVELOPE'
+  )
+  const hvacTests = sessionData.tests.filter(t =>
+    HVAC_TESTS.includes(t.testType) || t.template?.category === 'HVAC'
+  )
 
   return (
     <div className="min-h-screen bg-gray-50 dark:bg-gray-900">
@@ -306,15 +400,34 @@ export default function SessionDetailPage() {
                 {sessionData.status}
               </Badge>
               
-              {sessionData.status === 'DRAFT' && (
+              {sessionData.workflow.availableTransitions.map((transition) => (
+                <Button 
+                  key={transition.to}
+                  variant={transition.to === 'REJECTED' ? 'destructive' : 'outline'}
+                  onClick={() => transitionSession(transition)}
+                >
+                  {transition.action}
+                </Button>
+              ))}
+              
+              {!sessionData.workflow.locked && (
                 <Button 
                   variant="outline"
-                  onClick={() => updateSessionStatus('SUBMITTED')}
+                  onClick={fetchWeather}
                 >
-                  Submit for Review
+                  Fetch Weather
                 </Button>
               )}
-              
+
+              {!sessionData.workflow.locked && sessionData.tests.length > 0 && (
+                <Button 
+                  variant="outline"
+                  onClick={recomputeTests}
+                >
+                  Recompute Tests
+                </Button>
+              )}
+
               <Button 
                 variant="outline"
                 onClick={() => setActiveTab('summary')}
@@ -325,6 +438,12 @@ export default function SessionDetailPage() {
           </div>
         </div>
 
+        {sessionData.workflow.locked && (
+          <div className="mb-6 rounded-lg border border-blue-200 bg-blue-50 p-4 text-sm text-blue-800 dark:border-blue-800 dark:bg-blue-950 dark:text-blue-200">
+            This session is {sessionData.status.toLowerCase()}. Tests and files are locked until it is returned to draft.
+          </div>
+        )}
+
         {/* Session Statistics */}
         <div className="grid grid-cols-1 md:grid-cols-4 gap-6 mb-8">
           <Card>
@@ -355,11 +474,12 @@ export default function SessionDetailPage() {
 
         {/* Main Content Tabs */}
         <Tabs value={activeTab} onValueChange={setActiveTab} className="space-y-6">
-          <TabsList className="grid w-full grid-cols-5">
+          <TabsList className="grid w-full grid-cols-6">
             <TabsTrigger value="overview">Overview</TabsTrigger>
             <TabsTrigger value="hvac">HVAC Tests ({hvacTests.length})</TabsTrigger>
             <TabsTrigger value="envelope">Envelope Tests ({envelopeTests.length})</TabsTrigger>
             <TabsTrigger value="media">Media ({sessionData._count.files})</TabsTrigger>
+            <TabsTrigger value="monitoring">Monitoring</TabsTrigger>
             <TabsTrigger value="summary">Summary</TabsTrigger>
           </TabsList>
 
@@ -385,6 +505,12 @@ export default function SessionDetailPage() {
                       <p className="text-sm text-gray-600 dark:text-gray-300">
                         {sessionData.weatherOADryBulb}°F, {sessionData.weatherOARH}%RH
                       </p>
+                      {sessionData.weatherSource && (
+                        <p className="text-sm text-gray-500 mt-1">
+                          At session start from {sessionData.weatherSource}
+                          {' • '}{sessionData._count.weatherObservations} hourly observations
+                        </p>
+                      )}
                       {sessionData.weatherNotes && (
                         <p className="text-sm text-gray-500 mt-1">{sessionData.weatherNotes}</p>
                       )}
@@ -426,6 +552,39 @@ export default function SessionDetailPage() {
                 </CardContent>
               </Card>
             </div>
+
+            {/* Review History */}
+            <Card>
+              <CardHeader>
+                <CardTitle>Review History</CardTitle>
+              </CardHeader>
+              <CardContent>
+                {sessionData.transitions.length === 0 ? (
+                  <p className="text-sm text-gray-500">No status changes yet</p>
+                ) : (
+                  <div className="space-y-3">
+                    {sessionData.transitions.map((transition) => (
+                      <div key={transition.id} className="flex items-start justify-between p-3 bg-gray-50 dark:bg-gray-800 rounded-lg">
+                        <div>
+                          <div className="flex items-center gap-2 text-sm">
+                            <Badge className={getStatusColor(transition.fromStatus)}>{transition.fromStatus}</Badge>
+                            <span>→</span>
+                            <Badge className={getStatusColor(transition.toStatus)}>{transition.toStatus}</Badge>
+                          </div>
+                          {transition.comment && (
+                            <p className="text-sm text-gray-600 dark:text-gray-300 mt-2">{transition.comment}</p>
+                          )}
+                        </div>
+                        <div className="text-right text-sm text-gray-500">
+                          <div>{transition.actor.name || transition.actor.email}</div>
+                          <div>{new Date(transition.createdAt).toLocaleString()}</div>
+                        </div>
+                      </div>
+                    ))}
+                  </div>
+                )}
+              </CardContent>
+            </Card>
           </TabsContent>
 
           <TabsContent value="hvac" className="space-y-6">
@@ -483,6 +642,7 @@ export default function SessionDetailPage() {
                 ) : (
                   <FileGallery
                     files={files}
+                    tests={sessionData.tests}
                     onFileUpdate={handleFileUpdate}
                     onFileDelete={handleFileDelete}
                     showActions={true}
@@ -493,6 +653,26 @@ export default function SessionDetailPage() {
             </Card>
           </TabsContent>
 
+          <TabsContent value="monitoring" className="space-y-6">
+            {loggerDatasets === null ? (
+              <div className="flex items-center justify-center py-8">
+                <div className="animate-spin rounded-full h-8 w-8 border-b-2 border-blue-600"></div>
+              </div>
+            ) : (
+              <LoggerMonitoring areaId={sessionData.area.id} datasets={loggerDatasets} />
+            )}
+            <p className="text-sm text-gray-500">
+              Logger data is imported on the{' '}
+              <Link
+                href={`/projects/${sessionData.area.project.id}/areas/${sessionData.area.id}`}
+                className="text-blue-600 hover:underline"
+              >
+                area page
+              </Link>
+              .
+            </p>
+          </TabsContent>
+
           <TabsContent value="summary" className="space-y-6">
             <Card>
               <CardHeader>
@@ -520,7 +700,7 @@ export default function SessionDetailPage() {
                           .filter(t => t.pass === false)
                           .map(test => (
                             <div key={test.id} className="text-red-600">
-                              • {test.testType.replace('_', ' ')} 
+                              • {test.template?.name ?? test.testType.replace('_', ' ')} 
                               {test.unit && ` (${test.unit.label})`}
                             </div>
                           ))
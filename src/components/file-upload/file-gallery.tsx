@@ -1,22 +1,32 @@
 'use client'
 
-import { useState } from 'react'
+import { useEffect, useMemo, useState } from 'react'
 import { Card, CardContent } from '@/components/ui/card'
 import { Button } from '@/components/ui/button'
 import { Badge } from '@/components/ui/badge'
 import { Input } from '@/components/ui/input'
 import { Label } from '@/components/ui/label'
+import { findClosestTest } from '@/lib/file-utils'
+import { assessCondensationRisk, getIndoorDewPoint } from '@/lib/condensation-risk'
+import type { ThermalSummary } from '@/lib/ir-radiometric'
 
 interface FileAsset {
   id: string
-  filename: string
   originalName: string
   url: string
+  thumbnailUrl?: string | null
+  previewUrl?: string | null
   mimeType: string
   fileSize: number
   label?: string
   category: string
   createdAt: string
+  takenAt?: string | null
+  latitude?: number | null
+  longitude?: number | null
+  cameraMake?: string | null
+  cameraModel?: string | null
+  thermal?: ThermalSummary | null
   project?: { name: string }
   area?: { name: string }
   session?: { title: string; startedAt: string }
@@ -26,9 +36,18 @@ interface FileAsset {
   }
 }
 
+interface GalleryTest {
+  id: string
+  testType: string
+  createdAt: string
+  computed?: any
+  unit?: { label: string }
+}
+
 interface FileGalleryProps {
   files: FileAsset[]
-  onFileUpdate?: (fileId: string, updates: { label?: string; category?: string }) => void
+  tests?: GalleryTest[] // Session tests, for suggesting which test a photo belongs to
+  onFileUpdate?: (fileId: string, updates: { label?: string; category?: string; testResultId?: string }) => void
   onFileDelete?: (fileId: string) => void
   showActions?: boolean
   showContext?: boolean
@@ -43,6 +62,68 @@ const CATEGORY_COLORS = {
   OTHER: 'bg-gray-100 text-gray-800 dark:bg-gray-700 dark:text-gray-200'
 }
 
+const RISK_BADGES = {
+  CONDENSING: { label: 'Below dew point', className: 'bg-red-100 text-red-800 dark:bg-red-900 dark:text-red-200' },
+  AT_RISK: { label: 'Near dew point', className: 'bg-amber-100 text-amber-800 dark:bg-amber-900 dark:text-amber-200' },
+}
+
+const formatTemp = (temp_F: number | null) => temp_F !== null ? `${temp_F.toFixed(1)}°F` : '--'
+
+/**
+ * IR image with a temperature readout under the cursor
+ */
+function ThermalViewer({ file, src }: { file: FileAsset; src: string }) {
+  const [temperatures, setTemperatures] = useState<Array<number | null> | null>(null)
+  const [cursorTemp, setCursorTemp] = useState<number | null>(null)
+  const thermal = file.thermal!
+
+  useEffect(() => {
+    let cancelled = false
+    setTemperatures(null)
+
+    fetch(`/api/files/${file.id}/thermal`)
+      .then(response => response.ok ? response.json() : null)
+      .then(data => {
+        if (!cancelled && data) {
+          setTemperatures(data.temperatures_F)
+        }
+      })
+      .catch(error => console.error('Failed to load thermal data:', error))
+
+    return () => { cancelled = true }
+  }, [file.id])
+
+  // The displayed image is scaled, so map the cursor onto the thermal frame
+  const handleMouseMove = (e: React.MouseEvent<HTMLImageElement>) => {
+    if (!temperatures) return
+    const rect = e.currentTarget.getBoundingClientRect()
+    const col = Math.min(thermal.width - 1, Math.floor((e.clientX - rect.left) / rect.width * thermal.width))
+    const row = Math.min(thermal.height - 1, Math.floor((e.clientY - rect.top) / rect.height * thermal.height))
+    setCursorTemp(temperatures[row * thermal.width + col] ?? null)
+  }
+
+  return (
+    <div className="space-y-2">
+      <img
+        src={src}
+        alt={file.originalName}
+        className="max-w-full max-h-96 mx-auto cursor-crosshair"
+        onMouseMove={handleMouseMove}
+        onMouseLeave={() => setCursorTemp(null)}
+      />
+      <div className="flex flex-wrap justify-center gap-4 text-sm text-gray-600 dark:text-gray-300">
+        <span>Min {formatTemp(thermal.minTemp_F)}</span>
+        <span>Max {formatTemp(thermal.maxTemp_F)}</span>
+        <span>Spot {formatTemp(thermal.spotTemp_F)}</span>
+        <span>ε {thermal.emissivity.toFixed(2)}</span>
+        <span className="font-medium text-gray-900 dark:text-gray-100">
+          Cursor {formatTemp(cursorTemp)}
+        </span>
+      </div>
+    </div>
+  )
+}
+
 const CATEGORY_ICONS = {
   PHOTO: (
     <svg className="w-5 h-5" fill="none" stroke="currentColor" viewBox="0 0 24 24">
@@ -73,6 +154,7 @@ const CATEGORY_ICONS = {
 
 export function FileGallery({
   files,
+  tests = [],
   onFileUpdate,
   onFileDelete,
   showActions = true,
@@ -83,6 +165,24 @@ export function FileGallery({
   const [editLabel, setEditLabel] = useState('')
   const [editCategory, setEditCategory] = useState('')
   const [previewFile, setPreviewFile] = useState<FileAsset | null>(null)
+  const [sortBy, setSortBy] = useState<'uploaded' | 'taken'>('uploaded')
+
+  const indoorDewPoint = useMemo(() => getIndoorDewPoint(tests), [tests])
+
+  // Photos without a capture time sort after those with one, by upload time
+  const sortedFiles = useMemo(() => {
+    if (sortBy === 'uploaded') {
+      return files
+    }
+
+    const time = (file: FileAsset) => new Date(file.takenAt ?? file.createdAt).getTime()
+    return [...files].sort((a, b) => {
+      if (!a.takenAt !== !b.takenAt) {
+        return a.takenAt ? -1 : 1
+      }
+      return time(b) - time(a)
+    })
+  }, [files, sortBy])
 
   const handleEditStart = (file: FileAsset) => {
     setEditingFile(file.id)
@@ -114,7 +214,15 @@ export function FileGallery({
     return (bytes / (1024 * 1024)).toFixed(1) + ' MB'
   }
 
+  const formatCamera = (file: FileAsset) =>
+    [file.cameraMake, file.cameraModel].filter(Boolean).join(' ')
+
+  // IR images open in the viewer for the temperature readout
   const openFile = (file: FileAsset) => {
+    if (file.thermal) {
+      setPreviewFile(file)
+      return
+    }
     window.open(file.url, '_blank')
   }
 
@@ -133,159 +241,221 @@ export function FileGallery({
 
   return (
     <div className="space-y-4">
+      <div className="flex items-center justify-end gap-2">
+        <Label className="text-xs text-gray-500">Sort by</Label>
+        <select
+          value={sortBy}
+          onChange={(e) => setSortBy(e.target.value as 'uploaded' | 'taken')}
+          className="px-2 py-1 text-sm border border-gray-300 rounded-md"
+        >
+          <option value="uploaded">Upload time</option>
+          <option value="taken">Capture time</option>
+        </select>
+      </div>
+
       <div className={`grid gap-4 ${compact ? 'grid-cols-2 md:grid-cols-3 lg:grid-cols-4' : 'grid-cols-1 md:grid-cols-2 lg:grid-cols-3'}`}>
-        {files.map((file) => (
-          <Card key={file.id} className="hover:shadow-md transition-shadow">
-            <CardContent className={compact ? "p-3" : "p-4"}>
-              {/* File Preview */}
-              <div className="mb-3">
-                {isImage(file.mimeType) ? (
-                  <div 
-                    className="relative aspect-video bg-gray-100 dark:bg-gray-800 rounded-lg overflow-hidden cursor-pointer group"
-                    onClick={() => openFile(file)}
-                  >
-                    <img
-                      src={file.url}
-                      alt={file.originalName}
-                      className="w-full h-full object-cover group-hover:scale-105 transition-transform"
-                      loading="lazy"
-                    />
-                    <div className="absolute inset-0 bg-black bg-opacity-0 group-hover:bg-opacity-10 transition-opacity"></div>
-                  </div>
-                ) : (
-                  <div 
-                    className="aspect-video bg-gray-100 dark:bg-gray-800 rounded-lg flex items-center justify-center cursor-pointer hover:bg-gray-200 dark:hover:bg-gray-700 transition-colors"
-                    onClick={() => openFile(file)}
-                  >
-                    <div className="text-center">
-                      <div className="mx-auto mb-2 text-gray-400">
-                        {CATEGORY_ICONS[file.category as keyof typeof CATEGORY_ICONS] || CATEGORY_ICONS.OTHER}
-                      </div>
-                      <p className="text-xs text-gray-600 dark:text-gray-300 font-medium">
-                        {file.mimeType.split('/')[1]?.toUpperCase() || 'FILE'}
-                      </p>
-                    </div>
-                  </div>
-                )}
-              </div>
-
-              {/* File Info */}
-              <div className="space-y-2">
-                <div className="flex items-start justify-between gap-2">
-                  <div className="flex-1 min-w-0">
-                    <h4 className={`font-medium truncate ${compact ? 'text-sm' : ''}`}>
-                      {file.originalName}
-                    </h4>
-                    <p className={`text-gray-500 ${compact ? 'text-xs' : 'text-sm'}`}>
-                      {formatFileSize(file.fileSize)}
-                    </p>
-                  </div>
-                  <Badge className={`${CATEGORY_COLORS[file.category as keyof typeof CATEGORY_COLORS]} text-xs`}>
-                    {file.category.replace('_', ' ')}
-                  </Badge>
-                </div>
+        {sortedFiles.map((file) => {
+          const suggestedTest = onFileUpdate && !file.testResult && isImage(file.mimeType)
+            ? findClosestTest(file.takenAt, tests)
+            : null
+          const risk = file.thermal && indoorDewPoint
+            ? assessCondensationRisk(file.thermal.minTemp_F, indoorDewPoint.dewPoint_F)
+            : null
 
-                {/* File Label */}
-                {editingFile === file.id ? (
-                  <div className="space-y-2">
-                    <div>
-                      <Label className="text-xs">Description</Label>
-                      <Input
-                        value={editLabel}
-                        onChange={(e) => setEditLabel(e.target.value)}
-                        placeholder="File description..."
-                        className="h-8"
+          return (
+            <Card key={file.id} className="hover:shadow-md transition-shadow">
+              <CardContent className={compact ? "p-3" : "p-4"}>
+                {/* File Preview */}
+                <div className="mb-3">
+                  {isImage(file.mimeType) ? (
+                    <div 
+                      className="relative aspect-video bg-gray-100 dark:bg-gray-800 rounded-lg overflow-hidden cursor-pointer group"
+                      onClick={() => openFile(file)}
+                    >
+                      <img
+                        src={file.thumbnailUrl ?? file.url}
+                        alt={file.originalName}
+                        className="w-full h-full object-cover group-hover:scale-105 transition-transform"
+                        loading="lazy"
                       />
+                      <div className="absolute inset-0 bg-black bg-opacity-0 group-hover:bg-opacity-10 transition-opacity"></div>
                     </div>
-                    <div>
-                      <Label className="text-xs">Category</Label>
-                      <select
-                        value={editCategory}
-                        onChange={(e) => setEditCategory(e.target.value)}
-                        className="w-full px-2 py-1 text-sm border border-gray-300 rounded-md"
-                      >
-                        <option value="PHOTO">Photo</option>
-                        <option value="IR_IMAGE">IR Image</option>
-                        <option value="NAMEPLATE">Nameplate</option>
-                        <option value="DOCUMENT">Document</option>
-                        <option value="OTHER">Other</option>
-                      </select>
+                  ) : (
+                    <div 
+                      className="aspect-video bg-gray-100 dark:bg-gray-800 rounded-lg flex items-center justify-center cursor-pointer hover:bg-gray-200 dark:hover:bg-gray-700 transition-colors"
+                      onClick={() => openFile(file)}
+                    >
+                      <div className="text-center">
+                        <div className="mx-auto mb-2 text-gray-400">
+                          {CATEGORY_ICONS[file.category as keyof typeof CATEGORY_ICONS] || CATEGORY_ICONS.OTHER}
+                        </div>
+                        <p className="text-xs text-gray-600 dark:text-gray-300 font-medium">
+                          {file.mimeType.split('/')[1]?.toUpperCase() || 'FILE'}
+                        </p>
+                      </div>
                     </div>
-                    <div className="flex gap-1">
-                      <Button size="sm" onClick={() => handleEditSave(file.id)} className="h-7 text-xs">
-                        Save
-                      </Button>
-                      <Button size="sm" variant="outline" onClick={handleEditCancel} className="h-7 text-xs">
-                        Cancel
-                      </Button>
+                  )}
+                </div>
+
+                {/* File Info */}
+                <div className="space-y-2">
+                  <div className="flex items-start justify-between gap-2">
+                    <div className="flex-1 min-w-0">
+                      <h4 className={`font-medium truncate ${compact ? 'text-sm' : ''}`}>
+                        {file.originalName}
+                      </h4>
+                      <p className={`text-gray-500 ${compact ? 'text-xs' : 'text-sm'}`}>
+                        {formatFileSize(file.fileSize)}
+                      </p>
                     </div>
+                    <Badge className={`${CATEGORY_COLORS[file.category as keyof typeof CATEGORY_COLORS]} text-xs`}>
+                      {file.category.replace('_', ' ')}
+                    </Badge>
                   </div>
-                ) : (
-                  <>
-                    {file.label && (
-                      <p className={`text-gray-600 dark:text-gray-300 ${compact ? 'text-xs' : 'text-sm'}`}>
-                        {file.label}
-                      </p>
-                    )}
-
-                    {showContext && (
-                      <div className={`space-y-1 ${compact ? 'text-xs' : 'text-sm'} text-gray-500`}>
-                        {file.testResult && (
-                          <div>
-                            Test: {file.testResult.testType.replace('_', ' ')}
-                            {file.testResult.unit && ` (${file.testResult.unit.label})`}
-                          </div>
-                        )}
-                        {file.session && (
-                          <div>Session: {file.session.title || 'Untitled'}</div>
-                        )}
-                        {file.area && <div>Area: {file.area.name}</div>}
-                        {file.project && <div>Project: {file.project.name}</div>}
+
+                  {/* File Label */}
+                  {editingFile === file.id ? (
+                    <div className="space-y-2">
+                      <div>
+                        <Label className="text-xs">Description</Label>
+                        <Input
+                          value={editLabel}
+                          onChange={(e) => setEditLabel(e.target.value)}
+                          placeholder="File description..."
+                          className="h-8"
+                        />
                       </div>
-                    )}
-
-                    <p className={`text-gray-400 ${compact ? 'text-xs' : 'text-sm'}`}>
-                      {new Date(file.createdAt).toLocaleDateString()}
-                    </p>
-
-                    {showActions && (
-                      <div className="flex gap-1 pt-1">
-                        <Button
-                          size="sm"
-                          variant="outline"
-                          onClick={() => openFile(file)}
-                          className="h-7 text-xs flex-1"
+                      <div>
+                        <Label className="text-xs">Category</Label>
+                        <select
+                          value={editCategory}
+                          onChange={(e) => setEditCategory(e.target.value)}
+                          className="w-full px-2 py-1 text-sm border border-gray-300 rounded-md"
                         >
-                          View
+                          <option value="PHOTO">Photo</option>
+                          <option value="IR_IMAGE">IR Image</option>
+                          <option value="NAMEPLATE">Nameplate</option>
+                          <option value="DOCUMENT">Document</option>
+                          <option value="OTHER">Other</option>
+                        </select>
+                      </div>
+                      <div className="flex gap-1">
+                        <Button size="sm" onClick={() => handleEditSave(file.id)} className="h-7 text-xs">
+                          Save
+                        </Button>
+                        <Button size="sm" variant="outline" onClick={handleEditCancel} className="h-7 text-xs">
+                          Cancel
                         </Button>
-                        {onFileUpdate && (
+                      </div>
+                    </div>
+                  ) : (
+                    <>
+                      {file.label && (
+                        <p className={`text-gray-600 dark:text-gray-300 ${compact ? 'text-xs' : 'text-sm'}`}>
+                          {file.label}
+                        </p>
+                      )}
+
+                      {showContext && (
+                        <div className={`space-y-1 ${compact ? 'text-xs' : 'text-sm'} text-gray-500`}>
+                          {file.testResult && (
+                            <div>
+                              Test: {file.testResult.testType.replace('_', ' ')}
+                              {file.testResult.unit && ` (${file.testResult.unit.label})`}
+                            </div>
+                          )}
+                          {file.session && (
+                            <div>Session: {file.session.title || 'Untitled'}</div>
+                          )}
+                          {file.area && <div>Area: {file.area.name}</div>}
+                          {file.project && <div>Project: {file.project.name}</div>}
+                        </div>
+                      )}
+
+                      <div className={`text-gray-400 ${compact ? 'text-xs' : 'text-sm'}`}>
+                        {file.takenAt ? (
+                          <p>Taken {new Date(file.takenAt).toLocaleString()}</p>
+                        ) : (
+                          <p>{new Date(file.createdAt).toLocaleDateString()}</p>
+                        )}
+                        {!compact && formatCamera(file) && <p>{formatCamera(file)}</p>}
+                        {!compact && file.latitude != null && file.longitude != null && (
+                          <p>{file.latitude.toFixed(5)}, {file.longitude.toFixed(5)}</p>
+                        )}
+                      </div>
+
+                      {file.thermal && (
+                        <div className={`flex flex-wrap items-center gap-x-2 gap-y-1 ${compact ? 'text-xs' : 'text-sm'} text-gray-600 dark:text-gray-300`}>
+                          <span>
+                            {formatTemp(file.thermal.minTemp_F)} – {formatTemp(file.thermal.maxTemp_F)}, spot {formatTemp(file.thermal.spotTemp_F)}
+                          </span>
+                          {risk && risk !== 'OK' && indoorDewPoint && (
+                            <Badge
+                              className={`${RISK_BADGES[risk].className} text-xs`}
+                              title={`Indoor dew point ${formatTemp(indoorDewPoint.dewPoint_F)}`}
+                            >
+                              {RISK_BADGES[risk].label}
+                            </Badge>
+                          )}
+                        </div>
+                      )}
+
+                      {showActions && suggestedTest && (
+                        <div className="flex items-center justify-between gap-2 rounded-md bg-blue-50 dark:bg-blue-950 px-2 py-1 text-xs text-blue-800 dark:text-blue-200">
+                          <span className="truncate">
+                            Suggested: {suggestedTest.testType.replace('_', ' ')}
+                            {suggestedTest.unit && ` (${suggestedTest.unit.label})`}
+                          </span>
                           <Button
                             size="sm"
                             variant="outline"
-                            onClick={() => handleEditStart(file)}
-                            className="h-7 text-xs flex-1"
+                            onClick={() => onFileUpdate?.(file.id, { testResultId: suggestedTest.id })}
+                            className="h-6 text-xs"
                           >
-                            Edit
+                            Link
                           </Button>
-                        )}
-                        {onFileDelete && (
+                        </div>
+                      )}
+
+                      {showActions && (
+                        <div className="flex gap-1 pt-1">
                           <Button
                             size="sm"
                             variant="outline"
-                            onClick={() => onFileDelete(file.id)}
-                            className="h-7 text-xs text-red-600 hover:text-red-700"
+                            onClick={() => openFile(file)}
+                            className="h-7 text-xs flex-1"
                           >
-                            ×
+                            View
                           </Button>
-                        )}
-                      </div>
-                    )}
-                  </>
-                )}
-              </div>
-            </CardContent>
-          </Card>
-        ))}
+                          {onFileUpdate && (
+                            <Button
+                              size="sm"
+                              variant="outline"
+                              onClick={() => handleEditStart(file)}
+                              className="h-7 text-xs flex-1"
+                            >
+                              Edit
+                            </Button>
+                          )}
+                          {onFileDelete && (
+                            <Button
+                              size="sm"
+                              variant="outline"
+                              onClick={() => onFileDelete(file.id)}
+                              className="h-7 text-xs text-red-600 hover:text-red-700"
+                            >
+                              ×
+                            </Button>
+                          )}
+                        </div>
+                      )}
+                    </>
+                  )}
+                </div>
+              </CardContent>
+            </Card>
+          )
+        })}
       </div>
 
       {/* File Preview Modal */}
@@ -299,9 +469,11 @@ export function FileGallery({
               </Button>
             </div>
             <div className="p-4">
-              {isImage(previewFile.mimeType) ? (
+              {previewFile.thermal ? (
+                <ThermalViewer file={previewFile} src={previewFile.previewUrl ?? previewFile.url} />
+              ) : isImage(previewFile.mimeType) ? (
                 <img
-                  src={previewFile.url}
+                  src={previewFile.previewUrl ?? previewFile.url}
                   alt={previewFile.originalName}
                   className="max-w-full max-h-96 mx-auto"
                 />
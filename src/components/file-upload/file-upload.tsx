@@ -7,7 +7,7 @@ import { Card, CardContent } from '@/components/ui/card'
 import { Badge } from '@/components/ui/badge'
 import { Input } from '@/components/ui/input'
 import { Label } from '@/components/ui/label'
-import { validateFile } from '@/lib/s3-client'
+import { validateFile } from '@/lib/file-utils'
 
 interface FileUploadProps {
   onFileUploaded: (file: UploadedFile) => void
@@ -25,7 +25,6 @@ interface FileUploadProps {
 
 interface UploadedFile {
   id: string
-  filename: string
   originalName: string
   url: string
   mimeType: string
@@ -123,15 +122,15 @@ export function FileUpload({
         throw new Error(error.error || 'Failed to get upload URL')
       }
 
-      const { uploadUrl, key, publicUrl, category: detectedCategory } = await uploadResponse.json()
+      const { uploadUrl, key, category: detectedCategory } = await uploadResponse.json()
 
       // Update progress
       setUploadingFiles(prev =>
         prev.map(f => f.file === file ? { ...f, progress: 25 } : f)
       )
 
-      // Step 2: Upload to S3
-      const s3Response = await fetch(uploadUrl, {
+      // Step 2: Upload to storage
+      const storageResponse = await fetch(uploadUrl, {
         method: 'PUT',
         body: file,
         headers: {
@@ -139,8 +138,8 @@ export function FileUpload({
         }
       })
 
-      if (!s3Response.ok) {
-        throw new Error('Failed to upload to S3')
+      if (!storageResponse.ok) {
+        throw new Error('Failed to upload file')
       }
 
       // Update progress
@@ -160,7 +159,6 @@ export function FileUpload({
           category: category || detectedCategory,
           label: fileLabel,
           key,
-          url: publicUrl,
           ...context
         })
       })
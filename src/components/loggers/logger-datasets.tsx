@@ -0,0 +1,177 @@
+'use client'
+
+import { useState } from 'react'
+import { Button } from '@/components/ui/button'
+import { Card, CardContent } from '@/components/ui/card'
+import { Badge } from '@/components/ui/badge'
+import type { LoggerExceedance, LoggerSummary } from '@/lib/logger-data'
+import type { LoggerColumnMap } from '@/lib/schemas'
+
+export interface LoggerDatasetListItem {
+  id: string
+  name: string
+  loggerType?: string | null
+  location?: string | null
+  outdoor: boolean
+  sourceFilename: string
+  startedAt: string
+  endedAt: string
+  sampleCount: number
+  intervalSeconds?: number | null
+  columnMap: LoggerColumnMap
+  summary: LoggerSummary
+  area: { id: string; name: string } | null
+  unit?: { id: string; label: string } | null
+  uploadedBy: { name: string }
+}
+
+interface LoggerDatasetsProps {
+  datasets: LoggerDatasetListItem[]
+  onDelete?: (datasetId: string) => void
+}
+
+const formatHours = (hours: number) => hours >= 48 ? `${(hours / 24).toFixed(1)} days` : `${hours.toFixed(1)} h`
+
+export function LoggerDatasets({ datasets, onDelete }: LoggerDatasetsProps) {
+  const [exceedance, setExceedance] = useState<Record<string, LoggerExceedance>>({})
+  const [loadingId, setLoadingId] = useState<string | null>(null)
+
+  const loadExceedance = async (datasetId: string) => {
+    setLoadingId(datasetId)
+    try {
+      const response = await fetch(`/api/loggers/${datasetId}`)
+      if (response.ok) {
+        const data = await response.json()
+        setExceedance(prev => ({ ...prev, [datasetId]: data.analysis.exceedance }))
+      }
+    } catch (error) {
+      console.error('Failed to fetch logger dataset:', error)
+    } finally {
+      setLoadingId(null)
+    }
+  }
+
+  const handleDelete = async (datasetId: string) => {
+    if (!confirm('Delete this logger dataset and all of its readings?')) return
+
+    try {
+      const response = await fetch(`/api/loggers/${datasetId}`, { method: 'DELETE' })
+      if (response.ok) {
+        onDelete?.(datasetId)
+      }
+    } catch (error) {
+      console.error('Failed to delete logger dataset:', error)
+    }
+  }
+
+  if (datasets.length === 0) {
+    return (
+      <Card>
+        <CardContent className="text-center py-12">
+          <h3 className="text-lg font-medium text-gray-900 dark:text-white mb-2">
+            No logger data
+          </h3>
+          <p className="text-gray-600 dark:text-gray-300">
+            Import a temperature/RH logger export to track conditions over time
+          </p>
+        </CardContent>
+      </Card>
+    )
+  }
+
+  return (
+    <div className="space-y-4">
+      {datasets.map((dataset) => {
+        const { summary } = dataset
+        const result = exceedance[dataset.id]
+
+        return (
+          <Card key={dataset.id}>
+            <CardContent className="p-4 space-y-3">
+              <div className="flex items-start justify-between">
+                <div>
+                  <div className="flex items-center gap-2 mb-1">
+                    <h4 className="text-lg font-medium">{dataset.name}</h4>
+                    {dataset.unit && <Badge variant="outline">{dataset.unit.label}</Badge>}
+                    {dataset.outdoor && <Badge variant="outline">Outdoor</Badge>}
+                  </div>
+                  <div className="text-sm text-gray-600 dark:text-gray-300">
+                    {[dataset.loggerType, dataset.location].filter(Boolean).join(' • ')}
+                  </div>
+                  <div className="text-sm text-gray-500">
+                    {new Date(dataset.startedAt).toLocaleString()} – {new Date(dataset.endedAt).toLocaleString()}
+                    {' • '}{dataset.sampleCount} readings
+                    {dataset.intervalSeconds && ` every ${Math.round(dataset.intervalSeconds / 60)} min`}
+                  </div>
+                </div>
+
+                <div className="flex gap-2">
+                  {!result && !dataset.outdoor && (
+                    <Button
+                      size="sm"
+                      variant="outline"
+                      disabled={loadingId === dataset.id}
+                      onClick={() => loadExceedance(dataset.id)}
+                    >
+                      {loadingId === dataset.id ? 'Loading...' : 'Hours Above Limits'}
+                    </Button>
+                  )}
+                  {onDelete && (
+                    <Button size="sm" variant="outline" onClick={() => handleDelete(dataset.id)}>
+                      Delete
+                    </Button>
+                  )}
+                </div>
+              </div>
+
+              <div className="grid grid-cols-2 md:grid-cols-4 gap-3 text-sm">
+                <div>
+                  <span className="text-gray-500">Temperature:</span>
+                  <div className="font-medium">
+                    {summary.temperature_F.min.toFixed(1)}–{summary.temperature_F.max.toFixed(1)}°F
+                    (avg {summary.temperature_F.avg.toFixed(1)})
+                  </div>
+                </div>
+                <div>
+                  <span className="text-gray-500">RH:</span>
+                  <div className="font-medium">
+                    {summary.rh_pct.min.toFixed(0)}–{summary.rh_pct.max.toFixed(0)}%
+                    (avg {summary.rh_pct.avg.toFixed(0)})
+                  </div>
+                </div>
+                <div>
+                  <span className="text-gray-500">Dew point:</span>
+                  <div className="font-medium">
+                    {summary.dewPoint_F.min.toFixed(1)}–{summary.dewPoint_F.max.toFixed(1)}°F
+                    (avg {summary.dewPoint_F.avg.toFixed(1)})
+                  </div>
+                </div>
+                <div>
+                  <span className="text-gray-500">Logged:</span>
+                  <div className="font-medium">{formatHours(summary.hoursLogged)}</div>
+                </div>
+              </div>
+
+              {result && (
+                <div className="grid grid-cols-2 gap-3 text-sm p-3 bg-gray-50 dark:bg-gray-800 rounded-lg">
+                  <div>
+                    <span className="text-gray-500">Above {result.thresholds.rh_pct}% RH:</span>
+                    <div className={`font-medium ${result.hoursAboveRh > 0 ? 'text-red-600' : 'text-green-600'}`}>
+                      {formatHours(result.hoursAboveRh)} ({result.percentAboveRh.toFixed(1)}%)
+                    </div>
+                  </div>
+                  <div>
+                    <span className="text-gray-500">Dew point above {result.thresholds.dewPoint_F}°F:</span>
+                    <div className={`font-medium ${result.hoursAboveDewPoint > 0 ? 'text-red-600' : 'text-green-600'}`}>
+                      {formatHours(result.hoursAboveDewPoint)} ({result.percentAboveDewPoint.toFixed(1)}%)
+                    </div>
+                  </div>
+                </div>
+              )}
+            </CardContent>
+          </Card>
+        )
+      })}
+    </div>
+  )
+}
@@ -0,0 +1,305 @@
+'use client'
+
+import { useMemo, useState } from 'react'
+import { Button } from '@/components/ui/button'
+import { Card, CardContent, CardDescription, CardHeader, CardTitle } from '@/components/ui/card'
+import { Input } from '@/components/ui/input'
+import { Label } from '@/components/ui/label'
+import {
+  LoggerCsvTable,
+  detectLoggerTable,
+  parseCsv,
+  parseLoggerRows,
+  suggestColumnMap
+} from '@/lib/logger-csv'
+import type { LoggerColumnMap } from '@/lib/schemas'
+
+interface LoggerImportProps {
+  areaId: string
+  units: Array<{ id: string; label: string }>
+  onImported: (dataset: { id: string }) => void
+}
+
+const PREVIEW_ROWS = 5
+
+const selectClassName = 'w-full px-3 py-2 border border-gray-300 rounded-md focus:outline-none focus:ring-2 focus:ring-blue-500'
+
+export function LoggerImport({ areaId, units, onImported }: LoggerImportProps) {
+  const [file, setFile] = useState<{ name: string; text: string } | null>(null)
+  const [table, setTable] = useState<LoggerCsvTable | null>(null)
+  const [columnMap, setColumnMap] = useState<Partial<LoggerColumnMap>>({})
+  const [name, setName] = useState('')
+  const [loggerType, setLoggerType] = useState('')
+  const [location, setLocation] = useState('')
+  const [unitId, setUnitId] = useState('')
+  const [outdoor, setOutdoor] = useState(false)
+  const [error, setError] = useState<string | null>(null)
+  const [importing, setImporting] = useState(false)
+
+  const handleFileChange = async (selected: File | undefined) => {
+    setError(null)
+    setTable(null)
+    setFile(null)
+    if (!selected) return
+
+    const text = await selected.text()
+    const detected = detectLoggerTable(parseCsv(text))
+
+    if (!detected) {
+      setError('Could not find a header row followed by data in this file')
+      return
+    }
+
+    setFile({ name: selected.name, text })
+    setTable(detected)
+    // Loggers usually record in the local time of the site, so default to the browser's offset
+    setColumnMap({
+      temperatureUnit: 'F',
+      dateOrder: 'MDY',
+      ...suggestColumnMap(detected, -new Date().getTimezoneOffset())
+    })
+    setName(prev => prev || selected.name.replace(/\.[^.]+$/, ''))
+  }
+
+  const isComplete = (map: Partial<LoggerColumnMap>): map is LoggerColumnMap =>
+    map.time !== undefined && map.temperature !== undefined && map.rh !== undefined
+    && !!map.temperatureUnit && !!map.dateOrder && map.utcOffsetMinutes !== undefined
+
+  const preview = useMemo(() => {
+    if (!table || !isComplete(columnMap)) return null
+    return parseLoggerRows(table, columnMap)
+  }, [table, columnMap])
+
+  const updateMap = (changes: Partial<LoggerColumnMap>) => {
+    setColumnMap(prev => ({ ...prev, ...changes }))
+  }
+
+  const handleImport = async () => {
+    if (!file || !isComplete(columnMap)) return
+
+    setImporting(true)
+    setError(null)
+
+    try {
+      const response = await fetch('/api/loggers', {
+        method: 'POST',
+        headers: { 'Content-Type': 'application/json' },
+        body: JSON.stringify({
+          areaId,
+          unitId: unitId || undefined,
+          name,
+          loggerType: loggerType || undefined,
+          location: location || undefined,
+          outdoor,
+          sourceFilename: file.name,
+          csv: file.text,
+          columnMap
+        })
+      })
+
+      if (!response.ok) {
+        const data = await response.json()
+        throw new Error(data.error || 'Failed to import logger data')
+      }
+
+      const { dataset } = await response.json()
+      onImported(dataset)
+
+      setFile(null)
+      setTable(null)
+      setName('')
+      setLoggerType('')
+      setLocation('')
+      setUnitId('')
+      setOutdoor(false)
+    } catch (error) {
+      console.error('Logger import error:', error)
+      setError(error instanceof Error ? error.message : 'Failed to import logger data')
+    } finally {
+      setImporting(false)
+    }
+  }
+
+  const columnSelect = (id: string, value: number | undefined, onChange: (index: number) => void) => (
+    <select
+      id={id}
+      value={value ?? ''}
+      onChange={(e) => onChange(parseInt(e.target.value, 10))}
+      className={selectClassName}
+    >
+      <option value="" disabled>Select column</option>
+      {table?.headers.map((header, index) => (
+        <option key={index} value={index}>{header || `Column ${index + 1}`}</option>
+      ))}
+    </select>
+  )
+
+  return (
+    <Card>
+      <CardHeader>
+        <CardTitle>Import Logger Data</CardTitle>
+        <CardDescription>
+          Upload a temperature/RH CSV export (HOBO, Govee, etc.) and confirm its columns
+        </CardDescription>
+      </CardHeader>
+      <CardContent className="space-y-4">
+        <div>
+          <Label htmlFor="logger-file">CSV export</Label>
+          <Input
+            id="logger-file"
+            type="file"
+            accept=".csv,.txt,text/csv"
+            onChange={(e) => handleFileChange(e.target.files?.[0])}
+          />
+        </div>
+
+        {error && (
+          <p className="text-sm text-red-600">{error}</p>
+        )}
+
+        {table && (
+          <>
+            <div className="grid grid-cols-1 md:grid-cols-3 gap-4">
+              <div>
+                <Label htmlFor="logger-name">Name</Label>
+                <Input id="logger-name" value={name} onChange={(e) => setName(e.target.value)} />
+              </div>
+              <div>
+                <Label htmlFor="logger-type">Logger</Label>
+                <Input
+                  id="logger-type"
+                  placeholder="e.g. HOBO MX1101"
+                  value={loggerType}
+                  onChange={(e) => setLoggerType(e.target.value)}
+                />
+              </div>
+              <div>
+                <Label htmlFor="logger-location">Location</Label>
+                <Input
+                  id="logger-location"
+                  placeholder="e.g. Bedroom 2, 5 ft AFF"
+                  value={location}
+                  onChange={(e) => setLocation(e.target.value)}
+                />
+              </div>
+              <div>
+                <Label htmlFor="logger-unit">Unit (optional)</Label>
+                <select
+                  id="logger-unit"
+                  value={unitId}
+                  onChange={(e) => {
+                    setUnitId(e.target.value)
+                    if (e.target.value) setOutdoor(false)
+                  }}
+                  className={selectClassName}
+                >
+                  <option value="">Area space conditions</option>
+                  {units.map(unit => (
+                    <option key={unit.id} value={unit.id}>{unit.label}</option>
+                  ))}
+                </select>
+              </div>
+              <div className="flex items-end gap-2 pb-2">
+                <input
+                  id="logger-outdoor"
+                  type="checkbox"
+                  className="rounded"
+                  checked={outdoor}
+                  disabled={!!unitId}
+                  onChange={(e) => setOutdoor(e.target.checked)}
+                />
+                <Label htmlFor="logger-outdoor">Outdoor logger (shown as an overlay)</Label>
+              </div>
+            </div>
+
+            <div className="grid grid-cols-1 md:grid-cols-3 gap-4">
+              <div>
+                <Label htmlFor="logger-time">Date/time column</Label>
+                {columnSelect('logger-time', columnMap.time, time => updateMap({ time }))}
+              </div>
+              <div>
+                <Label htmlFor="logger-temperature">Temperature column</Label>
+                {columnSelect('logger-temperature', columnMap.temperature, temperature => updateMap({ temperature }))}
+              </div>
+              <div>
+                <Label htmlFor="logger-rh">RH column</Label>
+                {columnSelect('logger-rh', columnMap.rh, rh => updateMap({ rh }))}
+              </div>
+              <div>
+                <Label htmlFor="logger-unit-temp">Temperature unit</Label>
+                <select
+                  id="logger-unit-temp"
+                  value={columnMap.temperatureUnit ?? 'F'}
+                  onChange={(e) => updateMap({ temperatureUnit: e.target.value as LoggerColumnMap['temperatureUnit'] })}
+                  className={selectClassName}
+                >
+                  <option value="F">°F</option>
+                  <option value="C">°C</option>
+                </select>
+              </div>
+              <div>
+                <Label htmlFor="logger-date-order">Date format</Label>
+                <select
+                  id="logger-date-order"
+                  value={columnMap.dateOrder ?? 'MDY'}
+                  onChange={(e) => updateMap({ dateOrder: e.target.value as LoggerColumnMap['dateOrder'] })}
+                  className={selectClassName}
+                >
+                  <option value="MDY">Month/Day/Year</option>
+                  <option value="DMY">Day/Month/Year</option>
+                  <option value="YMD">Year-Month-Day</option>
+                </select>
+              </div>
+              <div>
+                <Label htmlFor="logger-offset">Logger clock offset from UTC (hours)</Label>
+                <Input
+                  id="logger-offset"
+                  type="number"
+                  step="0.5"
+                  value={(columnMap.utcOffsetMinutes ?? 0) / 60}
+                  onChange={(e) => updateMap({ utcOffsetMinutes: Math.round(parseFloat(e.target.value || '0') * 60) })}
+                />
+              </div>
+            </div>
+
+            {preview && (
+              <div className="space-y-2">
+                <div className="text-sm text-gray-600 dark:text-gray-300">
+                  {preview.readings.length} readings
+                  {preview.skippedRows > 0 && `, ${preview.skippedRows} rows skipped`}
+                </div>
+                {preview.readings.length > 0 && (
+                  <table className="w-full text-sm">
+                    <thead>
+                      <tr className="text-left text-gray-500">
+                        <th className="py-1">Time</th>
+                        <th className="py-1">Temp (°F)</th>
+                        <th className="py-1">RH (%)</th>
+                      </tr>
+                    </thead>
+                    <tbody>
+                      {preview.readings.slice(0, PREVIEW_ROWS).map(reading => (
+                        <tr key={reading.recordedAt.getTime()}>
+                          <td className="py-1">{reading.recordedAt.toLocaleString()}</td>
+                          <td className="py-1">{reading.temperature_F.toFixed(1)}</td>
+                          <td className="py-1">{reading.rh_pct.toFixed(1)}</td>
+                        </tr>
+                      ))}
+                    </tbody>
+                  </table>
+                )}
+              </div>
+            )}
+
+            <Button
+              onClick={handleImport}
+              disabled={importing || !name || !preview || preview.readings.length === 0}
+            >
+              {importing ? 'Importing...' : 'Import'}
+            </Button>
+          </>
+        )}
+      </CardContent>
+    </Card>
+  )
+}
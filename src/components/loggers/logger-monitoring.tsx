@@ -0,0 +1,355 @@
+'use client'
+
+import { useEffect, useMemo, useState } from 'react'
+import {
+  CartesianGrid,
+  ComposedChart,
+  Legend,
+  Line,
+  ReferenceArea,
+  ReferenceLine,
+  ResponsiveContainer,
+  Tooltip,
+  XAxis,
+  YAxis
+} from 'recharts'
+import { Card, CardContent, CardDescription, CardHeader, CardTitle } from '@/components/ui/card'
+import { Input } from '@/components/ui/input'
+import { Label } from '@/components/ui/label'
+import {
+  DEFAULT_OCCUPIED_SCHEDULE,
+  LoggerAnalysis,
+  LoggerSamplePoint,
+  LoggerThresholds,
+  analyzeLoggerSamples,
+  downsampleSamples,
+  getExceedancePeriods
+} from '@/lib/logger-data'
+import type { LoggerDatasetListItem } from './logger-datasets'
+
+interface LoggerMonitoringProps {
+  areaId: string
+  datasets: LoggerDatasetListItem[] // All project datasets; outdoor ones from any area can be overlaid
+}
+
+interface DatasetDetail {
+  samples: LoggerSamplePoint[]
+  analysis: LoggerAnalysis
+}
+
+const CHART_POINTS = 1000
+
+const selectClassName = 'w-full px-3 py-2 border border-gray-300 rounded-md focus:outline-none focus:ring-2 focus:ring-blue-500'
+
+const formatHours = (hours: number) => hours >= 48 ? `${(hours / 24).toFixed(1)} days` : `${hours.toFixed(1)} h`
+
+const formatTick = (value: number) =>
+  new Date(value).toLocaleDateString(undefined, { month: 'short', day: 'numeric' })
+
+const toSeries = (samples: LoggerSamplePoint[]) =>
+  downsampleSamples(samples, CHART_POINTS).map(sample => ({
+    time: new Date(sample.recordedAt).getTime(),
+    temperature_F: sample.temperature_F,
+    rh_pct: sample.rh_pct,
+    dewPoint_F: sample.dewPoint_F
+  }))
+
+export function LoggerMonitoring({ areaId, datasets }: LoggerMonitoringProps) {
+  const indoor = datasets.filter(d => !d.outdoor && d.area?.id === areaId)
+  const outdoor = datasets.filter(d => d.outdoor)
+
+  const [selectedId, setSelectedId] = useState('')
+  const [outdoorId, setOutdoorId] = useState('')
+  const [details, setDetails] = useState<Record<string, DatasetDetail>>({})
+  const [thresholds, setThresholds] = useState<LoggerThresholds | null>(null)
+  const [schedule, setSchedule] = useState(DEFAULT_OCCUPIED_SCHEDULE)
+
+  useEffect(() => {
+    if (!indoor.some(d => d.id === selectedId)) {
+      setSelectedId(indoor[0]?.id ?? '')
+    }
+    if (outdoorId && !outdoor.some(d => d.id === outdoorId)) {
+      setOutdoorId('')
+    }
+  }, [datasets])
+
+  useEffect(() => {
+    for (const id of [selectedId, outdoorId]) {
+      if (id && !details[id]) fetchDetail(id)
+    }
+  }, [selectedId, outdoorId])
+
+  const fetchDetail = async (datasetId: string) => {
+    try {
+      const response = await fetch(`/api/loggers/${datasetId}`)
+      if (response.ok) {
+        const data = await response.json()
+        setDetails(prev => ({ ...prev, [datasetId]: { samples: data.dataset.samples, analysis: data.analysis } }))
+        // Start from the project's criteria limits
+        setThresholds(prev => prev ?? data.analysis.exceedance.thresholds)
+      }
+    } catch (error) {
+      console.error('Failed to fetch logger dataset:', error)
+    }
+  }
+
+  const selected = indoor.find(d => d.id === selectedId)
+  const detail = details[selectedId]
+  const outdoorDetail = outdoorId ? details[outdoorId] : undefined
+
+  const analysis = useMemo(() => {
+    if (!selected || !detail || !thresholds) return null
+    return analyzeLoggerSamples(detail.samples, thresholds, selected.columnMap.utcOffsetMinutes, schedule)
+  }, [selected, detail, thresholds, schedule])
+
+  const periods = useMemo(() => {
+    if (!detail || !thresholds) return []
+    return getExceedancePeriods(detail.samples, thresholds)
+  }, [detail, thresholds])
+
+  const indoorSeries = useMemo(() => detail ? toSeries(detail.samples) : [], [detail])
+
+  const outdoorSeries = useMemo(() => {
+    if (!outdoorDetail || indoorSeries.length === 0) return []
+    const start = indoorSeries[0].time
+    const end = indoorSeries[indoorSeries.length - 1].time
+    const overlapping = outdoorDetail.samples.filter(s => {
+      const t = new Date(s.recordedAt).getTime()
+      return t >= start && t <= end
+    })
+    return toSeries(overlapping).map(point => ({
+      time: point.time,
+      outdoorTemperature_F: point.temperature_F,
+      outdoorDewPoint_F: point.dewPoint_F
+    }))
+  }, [outdoorDetail, indoorSeries])
+
+  if (indoor.length === 0) {
+    return (
+      <Card>
+        <CardContent className="text-center py-12">
+          <h3 className="text-lg font-medium text-gray-900 dark:text-white mb-2">
+            No monitoring data
+          </h3>
+          <p className="text-gray-600 dark:text-gray-300">
+            Import an indoor temperature/RH logger export for this area to chart conditions over time
+          </p>
+        </CardContent>
+      </Card>
+    )
+  }
+
+  return (
+    <div className="space-y-6">
+      <Card>
+        <CardHeader>
+          <CardTitle>Monitoring</CardTitle>
+          <CardDescription>
+            Logged dry bulb, RH and dew point; shaded periods are above the RH or dew point limit
+          </CardDescription>
+        </CardHeader>
+        <CardContent className="space-y-4">
+          <div className="grid grid-cols-1 md:grid-cols-3 lg:grid-cols-6 gap-4">
+            <div className="lg:col-span-2">
+              <Label htmlFor="monitoring-dataset">Logger</Label>
+              <select
+                id="monitoring-dataset"
+                value={selectedId}
+                onChange={(e) => setSelectedId(e.target.value)}
+                className={selectClassName}
+              >
+                {indoor.map(d => (
+                  <option key={d.id} value={d.id}>
+                    {d.name}{d.unit ? ` (${d.unit.label})` : ''}
+                  </option>
+                ))}
+              </select>
+            </div>
+            <div className="lg:col-span-2">
+              <Label htmlFor="monitoring-outdoor">Outdoor overlay</Label>
+              <select
+                id="monitoring-outdoor"
+                value={outdoorId}
+                onChange={(e) => setOutdoorId(e.target.value)}
+                className={selectClassName}
+              >
+                <option value="">None</option>
+                {outdoor.map(d => (
+                  <option key={d.id} value={d.id}>{d.name}</option>
+                ))}
+              </select>
+            </div>
+            <div>
+              <Label htmlFor="monitoring-rh">RH limit (%)</Label>
+              <Input
+                id="monitoring-rh"
+                type="number"
+                step="1"
+                value={thresholds?.rh_pct ?? ''}
+                onChange={(e) => thresholds && setThresholds({ ...thresholds, rh_pct: parseFloat(e.target.value) || 0 })}
+              />
+            </div>
+            <div>
+              <Label htmlFor="monitoring-dp">Dew point limit (°F)</Label>
+              <Input
+                id="monitoring-dp"
+                type="number"
+                step="0.5"
+                value={thresholds?.dewPoint_F ?? ''}
+                onChange={(e) => thresholds && setThresholds({ ...thresholds, dewPoint_F: parseFloat(e.target.value) || 0 })}
+              />
+            </div>
+          </div>
+
+          {!detail ? (
+            <div className="flex items-center justify-center py-16">
+              <div className="animate-spin rounded-full h-8 w-8 border-b-2 border-blue-600"></div>
+            </div>
+          ) : (
+            <div className="h-96">
+              <ResponsiveContainer width="100%" height="100%">
+                <ComposedChart margin={{ top: 10, right: 10, bottom: 10, left: 0 }}>
+                  <CartesianGrid strokeDasharray="3 3" />
+                  <XAxis
+                    dataKey="time"
+                    type="number"
+                    scale="time"
+                    domain={['dataMin', 'dataMax']}
+                    tickFormatter={formatTick}
+                    allowDuplicatedCategory={false}
+                  />
+                  <YAxis yAxisId="temp" unit="°F" domain={['auto', 'auto']} />
+                  <YAxis yAxisId="rh" orientation="right" unit="%" domain={[0, 100]} />
+                  <Tooltip
+                    labelFormatter={(value) => new Date(value as number).toLocaleString()}
+                    formatter={(value) => (value as number).toFixed(1)}
+                  />
+                  <Legend />
+
+                  {periods.map(period => (
+                    <ReferenceArea
+                      key={period.start}
+                      yAxisId="rh"
+                      x1={period.start}
+                      x2={period.end}
+                      fill="#ef4444"
+                      fillOpacity={0.12}
+                      ifOverflow="hidden"
+                    />
+                  ))}
+                  {thresholds && (
+                    <>
+                      <ReferenceLine yAxisId="rh" y={thresholds.rh_pct} stroke="#16a34a" strokeDasharray="4 4" />
+                      <ReferenceLine yAxisId="temp" y={thresholds.dewPoint_F} stroke="#2563eb" strokeDasharray="4 4" />
+                    </>
+                  )}
+
+                  <Line yAxisId="temp" data={indoorSeries} dataKey="temperature_F" name="Dry bulb" stroke="#dc2626" dot={false} isAnimationActive={false} />
+                  <Line yAxisId="temp" data={indoorSeries} dataKey="dewPoint_F" name="Dew point" stroke="#2563eb" dot={false} isAnimationActive={false} />
+                  <Line yAxisId="rh" data={indoorSeries} dataKey="rh_pct" name="RH" stroke="#16a34a" dot={false} isAnimationActive={false} />
+                  {outdoorSeries.length > 0 && (
+                    <>
+                      <Line yAxisId="temp" data={outdoorSeries} dataKey="outdoorTemperature_F" name="Outdoor dry bulb" stroke="#f97316" strokeDasharray="5 3" dot={false} isAnimationActive={false} />
+                      <Line yAxisId="temp" data={outdoorSeries} dataKey="outdoorDewPoint_F" name="Outdoor dew point" stroke="#0891b2" strokeDasharray="5 3" dot={false} isAnimationActive={false} />
+                    </>
+                  )}
+                </ComposedChart>
+              </ResponsiveContainer>
+            </div>
+          )}
+        </CardContent>
+      </Card>
+
+      {analysis && (
+        <Card>
+          <CardHeader>
+            <CardTitle>Exceedance Summary</CardTitle>
+            <CardDescription>
+              {formatHours(analysis.exceedance.hoursLogged)} logged
+            </CardDescription>
+          </CardHeader>
+          <CardContent className="space-y-4">
+            <div className="grid grid-cols-2 md:grid-cols-4 gap-4 text-sm">
+              <div>
+                <span className="text-gray-500">Above {analysis.exceedance.thresholds.rh_pct}% RH:</span>
+                <div className="text-lg font-bold">
+                  {formatHours(analysis.exceedance.hoursAboveRh)} ({analysis.exceedance.percentAboveRh.toFixed(1)}%)
+                </div>
+              </div>
+              <div>
+                <span className="text-gray-500">Dew point above {analysis.exceedance.thresholds.dewPoint_F}°F:</span>
+                <div className="text-lg font-bold">
+                  {formatHours(analysis.exceedance.hoursAboveDewPoint)} ({analysis.exceedance.percentAboveDewPoint.toFixed(1)}%)
+                </div>
+              </div>
+              <div>
+                <span className="text-gray-500">Occupied hours out of range:</span>
+                <div className={`text-lg font-bold ${analysis.occupied.percentOutOfRange > 0 ? 'text-red-600' : 'text-green-600'}`}>
+                  {analysis.occupied.percentOutOfRange.toFixed(1)}%
+                </div>
+                <div className="text-xs text-gray-500">
+                  {formatHours(analysis.occupied.hoursOutOfRange)} of {formatHours(analysis.occupied.hoursLogged)}
+                </div>
+              </div>
+              <div>
+                <span className="text-gray-500">Overnight RH rise:</span>
+                <div className="text-lg font-bold">
+                  {analysis.overnight.nights > 0
+                    ? `${analysis.overnight.rhRise_pct.avg >= 0 ? '+' : ''}${analysis.overnight.rhRise_pct.avg.toFixed(1)}%`
+                    : 'N/A'}
+                </div>
+                {analysis.overnight.nights > 0 && (
+                  <div className="text-xs text-gray-500">
+                    max {analysis.overnight.rhRise_pct.max.toFixed(1)}%, dew point {analysis.overnight.dewPointRise_F.avg >= 0 ? '+' : ''}
+                    {analysis.overnight.dewPointRise_F.avg.toFixed(1)}°F avg over {analysis.overnight.nights} nights
+                  </div>
+                )}
+              </div>
+            </div>
+
+            <div className="flex flex-wrap items-end gap-4 text-sm">
+              <div>
+                <Label htmlFor="occupied-start">Occupied from</Label>
+                <Input
+                  id="occupied-start"
+                  type="number"
+                  min={0}
+                  max={23}
+                  className="w-24"
+                  value={schedule.startHour}
+                  onChange={(e) => setSchedule({ ...schedule, startHour: parseInt(e.target.value, 10) || 0 })}
+                />
+              </div>
+              <div>
+                <Label htmlFor="occupied-end">to</Label>
+                <Input
+                  id="occupied-end"
+                  type="number"
+                  min={0}
+                  max={24}
+                  className="w-24"
+                  value={schedule.endHour}
+                  onChange={(e) => setSchedule({ ...schedule, endHour: parseInt(e.target.value, 10) || 0 })}
+                />
+              </div>
+              <div className="flex items-center gap-2 pb-2">
+                <input
+                  id="occupied-weekdays"
+                  type="checkbox"
+                  className="rounded"
+                  checked={schedule.weekdaysOnly}
+                  onChange={(e) => setSchedule({ ...schedule, weekdaysOnly: e.target.checked })}
+                />
+                <Label htmlFor="occupied-weekdays">Weekdays only</Label>
+              </div>
+              <div className="pb-2 text-gray-500">
+                Occupied RH {analysis.occupied.rh_pct.min.toFixed(0)}–{analysis.occupied.rh_pct.max.toFixed(0)}%
+                (avg {analysis.occupied.rh_pct.avg.toFixed(0)}), dew point avg {analysis.occupied.dewPoint_F.avg.toFixed(1)}°F
+              </div>
+            </div>
+          </CardContent>
+        </Card>
+      )}
+    </div>
+  )
+}
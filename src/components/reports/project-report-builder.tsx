@@ -0,0 +1,150 @@
+'use client'
+
+import { useState } from 'react'
+import { Button } from '@/components/ui/button'
+import { Card, CardContent, CardDescription, CardHeader, CardTitle } from '@/components/ui/card'
+import { Input } from '@/components/ui/input'
+import { Label } from '@/components/ui/label'
+import { downloadFile } from '@/lib/utils'
+import { ReportVersions } from './report-versions'
+
+interface ProjectReportBuilderProps {
+  projectId: string
+  projectName: string
+  areas: Array<{
+    id: string
+    name: string
+    sessions: Array<{
+      id: string
+      title?: string
+      status: string
+      startedAt: string
+      _count: {
+        tests: number
+      }
+    }>
+  }>
+}
+
+export function ProjectReportBuilder({ projectId, projectName, areas }: ProjectReportBuilderProps) {
+  const allSessionIds = areas.flatMap(area => area.sessions.map(s => s.id))
+  const [selected, setSelected] = useState<string[]>(allSessionIds)
+  const [title, setTitle] = useState('')
+  const [generating, setGenerating] = useState(false)
+  const [versionsKey, setVersionsKey] = useState(0)
+
+  const toggleSession = (sessionId: string) => {
+    setSelected(prev =>
+      prev.includes(sessionId) ? prev.filter(id => id !== sessionId) : [...prev, sessionId]
+    )
+  }
+
+  const toggleArea = (sessionIds: string[]) => {
+    const allSelected = sessionIds.every(id => selected.includes(id))
+    setSelected(prev =>
+      allSelected
+        ? prev.filter(id => !sessionIds.includes(id))
+        : Array.from(new Set([...prev, ...sessionIds]))
+    )
+  }
+
+  const generateReport = async () => {
+    setGenerating(true)
+
+    try {
+      const response = await fetch('/api/reports', {
+        method: 'POST',
+        headers: { 'Content-Type': 'application/json' },
+        body: JSON.stringify({
+          projectId,
+          sessionIds: selected,
+          title: title || undefined
+        })
+      })
+
+      if (response.ok) {
+        const { downloadUrl } = await response.json()
+        setVersionsKey(key => key + 1)
+
+        await downloadFile(downloadUrl, `${projectName}-report.pdf`)
+      } else {
+        const error = await response.json()
+        throw new Error(error.error || 'Failed to generate report')
+      }
+    } catch (error) {
+      console.error('Report generation failed:', error)
+      alert(`Failed to generate report: ${error instanceof Error ? error.message : 'Unknown error'}`)
+    } finally {
+      setGenerating(false)
+    }
+  }
+
+  return (
+    <div className="space-y-6">
+      <Card>
+        <CardHeader>
+          <CardTitle>Project Report</CardTitle>
+          <CardDescription>
+            Combine sessions across areas into one report with a findings summary and before/after comparisons for retested units
+          </CardDescription>
+        </CardHeader>
+        <CardContent className="space-y-6">
+          <div className="space-y-2">
+            <Label htmlFor="reportTitle">Report Title</Label>
+            <Input
+              id="reportTitle"
+              placeholder="HVAC Commissioning Report"
+              value={title}
+              onChange={(e) => setTitle(e.target.value)}
+            />
+          </div>
+
+          {areas.filter(area => area.sessions.length > 0).map((area) => {
+            const areaSessionIds = area.sessions.map(s => s.id)
+            return (
+              <div key={area.id} className="space-y-2">
+                <label className="flex items-center gap-2 font-medium">
+                  <input
+                    type="checkbox"
+                    checked={areaSessionIds.every(id => selected.includes(id))}
+                    onChange={() => toggleArea(areaSessionIds)}
+                  />
+                  {area.name}
+                </label>
+                <div className="ml-6 space-y-1">
+                  {area.sessions.map((session) => (
+                    <label key={session.id} className="flex items-center gap-2 text-sm">
+                      <input
+                        type="checkbox"
+                        checked={selected.includes(session.id)}
+                        onChange={() => toggleSession(session.id)}
+                      />
+                      <span>{session.title || `Session ${session.id.slice(-8)}`}</span>
+                      <span className="text-gray-500">
+                        {new Date(session.startedAt).toLocaleDateString()} • {session._count.tests} tests • {session.status}
+                      </span>
+                    </label>
+                  ))}
+                </div>
+              </div>
+            )
+          })}
+
+          <Button
+            onClick={generateReport}
+            disabled={generating || selected.length === 0}
+            className="w-full"
+          >
+            {generating ? 'Generating...' : `Generate Report (${selected.length} sessions)`}
+          </Button>
+        </CardContent>
+      </Card>
+
+      <ReportVersions
+        projectId={projectId}
+        scope="project"
+        refreshKey={versionsKey}
+      />
+    </div>
+  )
+}
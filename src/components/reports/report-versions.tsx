@@ -0,0 +1,192 @@
+'use client'
+
+import { useCallback, useEffect, useState } from 'react'
+import { Button } from '@/components/ui/button'
+import { Card, CardContent, CardDescription, CardHeader, CardTitle } from '@/components/ui/card'
+import { Badge } from '@/components/ui/badge'
+import { downloadFile } from '@/lib/utils'
+
+interface ReportVersion {
+  id: string
+  version: number
+  title: string
+  status: 'DRAFT' | 'GENERATED' | 'APPROVED'
+  fileSize: number | null
+  createdAt: string
+  approvedAt: string | null
+  downloadUrl: string | null
+  generatedBy: { id: string; name: string | null; email: string } | null
+  approvedBy: { id: string; name: string | null; email: string } | null
+  sessions: Array<{ id: string; title: string | null }>
+}
+
+interface ReportVersionsProps {
+  projectId: string
+  sessionId?: string // Only this session's reports
+  scope?: 'session' | 'project'
+  refreshKey?: number // Bump to reload after generating a new version
+}
+
+export function ReportVersions({ projectId, sessionId, scope, refreshKey }: ReportVersionsProps) {
+  const [reports, setReports] = useState<ReportVersion[]>([])
+  const [loading, setLoading] = useState(true)
+  const [busyId, setBusyId] = useState<string | null>(null)
+
+  const fetchReports = useCallback(async () => {
+    try {
+      const params = new URLSearchParams()
+      if (sessionId) params.set('sessionId', sessionId)
+      if (scope) params.set('scope', scope)
+
+      const response = await fetch(`/api/projects/${projectId}/reports?${params}`)
+      if (response.ok) {
+        const data = await response.json()
+        setReports(data.reports)
+      }
+    } catch (error) {
+      console.error('Failed to fetch reports:', error)
+    } finally {
+      setLoading(false)
+    }
+  }, [projectId, sessionId, scope])
+
+  useEffect(() => {
+    fetchReports()
+  }, [fetchReports, refreshKey])
+
+  const downloadReport = async (report: ReportVersion) => {
+    if (!report.downloadUrl) return
+
+    try {
+      await downloadFile(report.downloadUrl, `report-v${report.version}.pdf`)
+    } catch (error) {
+      console.error('Report download failed:', error)
+      alert(`Failed to download report: ${error instanceof Error ? error.message : 'Unknown error'}`)
+    }
+  }
+
+  const approveReport = async (report: ReportVersion) => {
+    if (!confirm(`Approve version ${report.version}? Approved reports can no longer be changed or deleted.`)) {
+      return
+    }
+
+    setBusyId(report.id)
+    try {
+      const response = await fetch(`/api/projects/${projectId}/reports/${report.id}`, {
+        method: 'PATCH',
+        headers: { 'Content-Type': 'application/json' },
+        body: JSON.stringify({ status: 'APPROVED' })
+      })
+
+      if (response.ok) {
+        await fetchReports()
+      } else {
+        const error = await response.json()
+        alert(error.error || 'Failed to approve report')
+      }
+    } catch (error) {
+      console.error('Failed to approve report:', error)
+    } finally {
+      setBusyId(null)
+    }
+  }
+
+  const deleteReport = async (report: ReportVersion) => {
+    if (!confirm(`Delete version ${report.version}?`)) {
+      return
+    }
+
+    setBusyId(report.id)
+    try {
+      const response = await fetch(`/api/projects/${projectId}/reports/${report.id}`, {
+        method: 'DELETE'
+      })
+
+      if (response.ok) {
+        await fetchReports()
+      } else {
+        const error = await response.json()
+        alert(error.error || 'Failed to delete report')
+      }
+    } catch (error) {
+      console.error('Failed to delete report:', error)
+    } finally {
+      setBusyId(null)
+    }
+  }
+
+  return (
+    <Card>
+      <CardHeader>
+        <CardTitle>Report History</CardTitle>
+        <CardDescription>
+          Every generated report is stored as a new version. Approved versions are frozen.
+        </CardDescription>
+      </CardHeader>
+      <CardContent>
+        {loading ? (
+          <p className="text-sm text-gray-500">Loading reports...</p>
+        ) : reports.length === 0 ? (
+          <p className="text-sm text-gray-500">No reports have been generated yet</p>
+        ) : (
+          <div className="space-y-3">
+            {reports.map((report) => (
+              <div key={report.id} className="flex items-center justify-between border rounded-lg p-3">
+                <div className="space-y-1">
+                  <div className="flex items-center gap-2">
+                    <span className="font-medium">v{report.version}</span>
+                    <span className="text-sm">{report.title}</span>
+                    <Badge variant={report.status === 'APPROVED' ? 'default' : 'secondary'}>
+                      {report.status}
+                    </Badge>
+                  </div>
+                  <div className="text-xs text-gray-500">
+                    Generated {new Date(report.createdAt).toLocaleString()}
+                    {report.generatedBy && ` by ${report.generatedBy.name || report.generatedBy.email}`}
+                    {!sessionId && ` • ${report.sessions.length} session${report.sessions.length === 1 ? '' : 's'}`}
+                    {report.fileSize && ` • ${Math.round(report.fileSize / 1024)} KB`}
+                  </div>
+                  {report.approvedAt && (
+                    <div className="text-xs text-green-700">
+                      Approved {new Date(report.approvedAt).toLocaleString()}
+                      {report.approvedBy && ` by ${report.approvedBy.name || report.approvedBy.email}`}
+                    </div>
+                  )}
+                </div>
+                <div className="flex gap-2">
+                  <Button
+                    size="sm"
+                    variant="outline"
+                    onClick={() => downloadReport(report)}
+                    disabled={!report.downloadUrl}
+                  >
+                    Download
+                  </Button>
+                  {report.status !== 'APPROVED' && report.downloadUrl && (
+                    <>
+                      <Button
+                        size="sm"
+                        onClick={() => approveReport(report)}
+                        disabled={busyId === report.id}
+                      >
+                        Approve
+                      </Button>
+                      <Button
+                        size="sm"
+                        variant="destructive"
+                        onClick={() => deleteReport(report)}
+                        disabled={busyId === report.id}
+                      >
+                        Delete
+                      </Button>
+                    </>
+                  )}
+                </div>
+              </div>
+            ))}
+          </div>
+        )}
+      </CardContent>
+    </Card>
+  )
+}
@@ -0,0 +1,111 @@
+'use client'
+
+import { useMemo } from 'react'
+import type { TestType } from '@prisma/client'
+import type { ZodTypeAny } from 'zod'
+import { Card, CardContent } from '@/components/ui/card'
+import { computeTestResult, type ComputedResult } from '@/lib/test-computations'
+import { computeTemplateResult, type TestTemplateSnapshot } from '@/lib/test-templates'
+import { pressureAtElevation } from '@/lib/psychrometrics'
+
+/**
+ * Live result for a form's current values, computed the same way as the saved test
+ * Returns null until the values pass the test type's schema. Previews use the
+ * default criteria; the saved result is checked against the project's profile.
+ */
+export function useComputedPreview(
+  testType: TestType,
+  schema: ZodTypeAny,
+  values: unknown,
+  sessionData: any,
+  unit?: { refrigerant?: string | null; tons?: number | null } | null,
+  template?: TestTemplateSnapshot | null
+): ComputedResult | null {
+  // Form values are a new object on every render; compare them by content
+  const valuesKey = JSON.stringify(values)
+  const elevationFt: number | null = sessionData.area.project.elevationFt ?? null
+  const outdoorTemp: number | undefined = sessionData.weatherOADryBulb ?? undefined
+  const outdoorRH: number | undefined = sessionData.weatherOARH ?? undefined
+  const refrigerant = unit?.refrigerant ?? null
+  const tons = unit?.tons ?? null
+
+  return useMemo(() => {
+    const parsed = schema.safeParse(JSON.parse(valuesKey))
+    if (!parsed.success) return null
+
+    const weatherData = {
+      outdoorTemp,
+      outdoorRH,
+      barometricPressure: elevationFt != null ? pressureAtElevation(elevationFt) : undefined
+    }
+
+    try {
+      return template
+        ? computeTemplateResult(template, parsed.data, weatherData, { tons })
+        : computeTestResult(testType, parsed.data, weatherData, { refrigerant })
+    } catch {
+      return null
+    }
+  }, [testType, schema, valuesKey, elevationFt, outdoorTemp, outdoorRH, refrigerant, tons, template])
+}
+
+interface ComputedPreviewProps {
+  computed: ComputedResult
+  /** Calculations to list, with display labels and units */
+  calculations?: Array<{ key: string; label: string; unit?: string; digits?: number }>
+}
+
+const formatValue = (value: number | string, digits = 2) =>
+  typeof value === 'number' ? value.toFixed(digits) : value
+
+/**
+ * Live results card listing selected calculations and every check
+ */
+export function ComputedPreview({ computed, calculations = [] }: ComputedPreviewProps) {
+  return (
+    <Card className={`border-l-4 ${computed.pass ? 'border-l-green-500 bg-green-50 dark:bg-green-900/10' : 'border-l-red-500 bg-red-50 dark:bg-red-900/10'}`}>
+      <CardContent className="pt-4">
+        <h4 className="font-medium mb-3">Live Results</h4>
+
+        {calculations.length > 0 && (
+          <div className="grid grid-cols-1 md:grid-cols-2 gap-x-6 gap-y-2 text-sm mb-3">
+            {calculations
+              .filter(({ key }) => computed.calculations[key] !== undefined)
+              .map(({ key, label, unit, digits }) => (
+                <div key={key} className="flex justify-between">
+                  <span>{label}:</span>
+                  <span className="font-mono">
+                    {formatValue(computed.calculations[key], digits)}{unit}
+                  </span>
+                </div>
+              ))}
+          </div>
+        )}
+
+        <div className="space-y-2 text-sm">
+          {Object.entries(computed.checks).map(([key, check]) => (
+            <div key={key} className="flex items-start justify-between gap-4">
+              <div>
+                <div>{check.message}</div>
+                <div className="text-xs text-gray-500">Target: {check.target}</div>
+              </div>
+              <span className={`font-medium whitespace-nowrap ${check.pass ? 'text-green-600' : 'text-red-600'}`}>
+                {check.pass ? '✓ PASS' : '✗ FAIL'}
+              </span>
+            </div>
+          ))}
+        </div>
+
+        <div className="mt-3 pt-3 border-t border-gray-200 dark:border-gray-700">
+          <div className="flex justify-between items-center font-medium">
+            <span>Overall Result:</span>
+            <span className={`text-lg ${computed.pass ? 'text-green-600' : 'text-red-600'}`}>
+              {computed.pass ? '✓ PASS' : '✗ FAIL'}
+            </span>
+          </div>
+          <p className="text-xs text-gray-600 mt-2">{computed.summary}</p>
+        </div>
+      </CardContent>
+    </Card>
+  )
+}
@@ -0,0 +1,480 @@
+'use client'
+
+import { useEffect, useMemo, useState } from 'react'
+import { useFieldArray, useForm, type UseFormReturn } from 'react-hook-form'
+import { zodResolver } from '@hookform/resolvers/zod'
+import type { TestType } from '@prisma/client'
+import { Card, CardContent, CardDescription, CardHeader, CardTitle } from '@/components/ui/card'
+import { Button } from '@/components/ui/button'
+import { Input } from '@/components/ui/input'
+import { Label } from '@/components/ui/label'
+import { Badge } from '@/components/ui/badge'
+import { applyFieldErrors } from '@/lib/utils'
+import type { ReadingTestType } from '@/lib/schemas'
+import type { TestTemplateSnapshot } from '@/lib/test-templates'
+import {
+  getFormDefaults,
+  getGridRowDefaults,
+  getTemplateForm,
+  getTestForm,
+  type FieldMetadata,
+  type FormFieldSpec
+} from '@/lib/test-forms'
+import { ComputedPreview, useComputedPreview } from './computed-preview'
+
+interface SchemaTestFormProps {
+  sessionId: string
+  testType: string
+  /** Organization template for CUSTOM tests */
+  template?: TestTemplateSnapshot | null
+  unitId?: string
+  sessionData: any
+  onComplete: () => void
+  onCancel: () => void
+}
+
+type FormValues = Record<string, any>
+
+const inputClassName = 'w-full px-3 py-2 border border-gray-300 rounded-md focus:outline-none focus:ring-2 focus:ring-blue-500'
+
+// Blank number inputs are left out of the reading rather than sent as NaN
+const toNumber = (value: unknown) => value === '' || value == null ? undefined : Number(value)
+
+const fieldLabel = (meta: FieldMetadata) => meta.unit ? `${meta.label} (${meta.unit})` : meta.label
+
+const errorMessage = (error: unknown) => (error as { message?: string } | undefined)?.message
+
+/**
+ * Test entry form generated from the test type's reading schema and field metadata,
+ * or from a custom test template's fields
+ */
+export function SchemaTestForm({
+  sessionId,
+  testType,
+  template,
+  unitId,
+  sessionData,
+  onComplete,
+  onCancel
+}: SchemaTestFormProps) {
+  const { schema, metadata, fields } = useMemo(
+    () => template ? getTemplateForm(template) : getTestForm(testType as ReadingTestType),
+    [testType, template]
+  )
+  const [isSubmitting, setIsSubmitting] = useState(false)
+  const [selectedUnit, setSelectedUnit] = useState<string>(metadata.unit === 'none' ? '' : unitId || '')
+
+  // Get available units
+  const units = sessionData.area.units || []
+  const currentUnit = units.find((u: any) => u.id === selectedUnit) ?? null
+
+  const form = useForm<FormValues>({
+    resolver: zodResolver(schema),
+    defaultValues: getFormDefaults(fields, { unit: currentUnit, session: sessionData })
+  })
+
+  const watchedValues = form.watch()
+  const computed = useComputedPreview(testType as TestType, schema, watchedValues, sessionData, currentUnit, template)
+
+  // Refresh unit-derived values when the unit selection changes
+  useEffect(() => {
+    for (const field of fields) {
+      const value = field.meta.prefill?.({ unit: currentUnit, session: sessionData })
+      if (value !== undefined) {
+        form.setValue(field.name, value)
+      }
+    }
+  }, [currentUnit, fields, form, sessionData])
+
+  const onSubmit = async (data: FormValues) => {
+    if (metadata.unit === 'required' && !selectedUnit) {
+      alert('Please select a unit')
+      return
+    }
+
+    setIsSubmitting(true)
+
+    try {
+      const response = await fetch('/api/tests', {
+        method: 'POST',
+        headers: { 'Content-Type': 'application/json' },
+        body: JSON.stringify({
+          sessionId,
+          testType,
+          templateId: template?.id,
+          unitId: selectedUnit || null,
+          reading: data,
+          notes: data.notes
+        })
+      })
+
+      if (response.ok) {
+        onComplete()
+      } else {
+        const error = await response.json()
+        applyFieldErrors(error.details?.fieldErrors, form.setError)
+        console.error('Failed to save test:', error)
+      }
+    } catch (error) {
+      console.error('Error saving test:', error)
+    } finally {
+      setIsSubmitting(false)
+    }
+  }
+
+  const visibleFields = fields.filter(field =>
+    field.kind !== 'constant' && !field.meta.hidden && (!field.meta.showWhen || field.meta.showWhen(watchedValues))
+  )
+
+  return (
+    <Card className="max-w-3xl mx-auto">
+      <CardHeader>
+        <CardTitle className="flex items-center gap-3">
+          {metadata.name} Test
+          {computed && (
+            <Badge variant={computed.pass ? 'default' : 'destructive'}>
+              {computed.pass ? 'PASS' : 'FAIL'}
+            </Badge>
+          )}
+        </CardTitle>
+        <CardDescription>{metadata.description}</CardDescription>
+      </CardHeader>
+
+      <CardContent>
+        <form onSubmit={form.handleSubmit(onSubmit)} className="space-y-6">
+          {/* Unit Selection */}
+          {metadata.unit !== 'none' && (
+            <div className="space-y-2">
+              <Label htmlFor="unit">{metadata.unit === 'required' ? 'HVAC Unit *' : 'Serving Unit'}</Label>
+              <select
+                id="unit"
+                value={selectedUnit}
+                onChange={(e) => setSelectedUnit(e.target.value)}
+                className={inputClassName}
+                required={metadata.unit === 'required'}
+              >
+                <option value="">{metadata.unit === 'required' ? 'Select a unit...' : 'Not unit-specific'}</option>
+                {units.map((unit: any) => (
+                  <option key={unit.id} value={unit.id}>
+                    {unit.label} - {unit.make} {unit.model}
+                    {unit.tons && ` (${unit.tons} tons)`}
+                  </option>
+                ))}
+              </select>
+            </div>
+          )}
+
+          {currentUnit && (
+            <Card className="bg-blue-50 dark:bg-blue-900/10">
+              <CardContent className="pt-4">
+                <div className="grid grid-cols-2 md:grid-cols-4 gap-4 text-sm">
+                  <div>
+                    <span className="text-gray-600 dark:text-gray-300">Make/Model:</span>
+                    <div className="font-medium">{currentUnit.make} {currentUnit.model}</div>
+                  </div>
+                  <div>
+                    <span className="text-gray-600 dark:text-gray-300">Capacity:</span>
+                    <div className="font-medium">{currentUnit.tons ? `${currentUnit.tons} tons` : 'N/A'}</div>
+                  </div>
+                  <div>
+                    <span className="text-gray-600 dark:text-gray-300">Refrigerant:</span>
+                    <div className="font-medium">{currentUnit.refrigerant || 'N/A'}</div>
+                  </div>
+                  <div>
+                    <span className="text-gray-600 dark:text-gray-300">Stages:</span>
+                    <div className="font-medium">{currentUnit.stages || 'N/A'}</div>
+                  </div>
+                </div>
+              </CardContent>
+            </Card>
+          )}
+
+          <div className="grid grid-cols-1 md:grid-cols-2 gap-6">
+            {visibleFields.map(field => (
+              <div
+                key={field.name}
+                className={field.kind === 'number' || field.kind === 'select' ? 'space-y-2' : 'space-y-2 md:col-span-2'}
+              >
+                <SchemaField field={field} form={form} />
+              </div>
+            ))}
+          </div>
+
+          {computed && <ComputedPreview computed={computed} calculations={metadata.preview} />}
+
+          {/* Actions */}
+          <div className="flex items-center gap-3">
+            <Button
+              type="submit"
+              disabled={isSubmitting || !form.formState.isValid || (metadata.unit === 'required' && !selectedUnit)}
+            >
+              {isSubmitting ? 'Saving...' : 'Save Test Result'}
+            </Button>
+            <Button
+              type="button"
+              variant="outline"
+              onClick={onCancel}
+              disabled={isSubmitting}
+            >
+              Cancel
+            </Button>
+          </div>
+
+          {/* Help Text */}
+          {metadata.guidelines && (
+            <div className="bg-blue-50 dark:bg-blue-900/10 p-4 rounded-lg">
+              <h4 className="font-medium text-blue-900 dark:text-blue-100 mb-2">
+                Testing Guidelines
+              </h4>
+              <ul className="text-sm text-blue-800 dark:text-blue-200 space-y-1">
+                {metadata.guidelines.map(line => (
+                  <li key={line}>• {line}</li>
+                ))}
+              </ul>
+            </div>
+          )}
+        </form>
+      </CardContent>
+    </Card>
+  )
+}
+
+interface SchemaFieldProps {
+  field: FormFieldSpec
+  form: UseFormReturn<FormValues>
+}
+
+/**
+ * Input for one reading field, chosen by the field's schema type
+ */
+function SchemaField({ field, form }: SchemaFieldProps) {
+  const { name, meta } = field
+  const error = errorMessage(form.formState.errors[name])
+  const label = `${fieldLabel(meta)}${field.required ? ' *' : ''}`
+
+  const help = meta.help && <p className="text-xs text-gray-500">{meta.help}</p>
+  const errorText = error && <p className="text-sm text-red-600">{error}</p>
+
+  switch (field.kind) {
+    case 'boolean':
+      return (
+        <Label className="flex items-center gap-2">
+          <input type="checkbox" className="rounded" {...form.register(name)} />
+          {meta.label}
+        </Label>
+      )
+
+    case 'select':
+      return (
+        <>
+          <Label htmlFor={name}>{label}</Label>
+          <select id={name} className={inputClassName} {...form.register(name)}>
+            {field.options?.map(option => (
+              <option key={option.value} value={option.value}>{option.label}</option>
+            ))}
+          </select>
+          {errorText}
+          {help}
+        </>
+      )
+
+    case 'number':
+      return (
+        <>
+          <Label htmlFor={name}>{label}</Label>
+          <Input
+            id={name}
+            type="number"
+            step={meta.step ?? 'any'}
+            min={field.min}
+            max={field.max}
+            placeholder={meta.placeholder}
+            {...form.register(name, { setValueAs: toNumber })}
+          />
+          {errorText}
+          {help}
+        </>
+      )
+
+    case 'list':
+      return <ListField field={field} form={form} />
+
+    case 'grid':
+      return <GridField field={field} form={form} />
+
+    default:
+      return (
+        <>
+          <Label htmlFor={name}>{meta.multiline ? meta.label : label}</Label>
+          {meta.multiline ? (
+            <textarea
+              id={name}
+              rows={3}
+              className={inputClassName}
+              placeholder={meta.placeholder}
+              {...form.register(name)}
+            />
+          ) : (
+            <Input id={name} placeholder={meta.placeholder} {...form.register(name)} />
+          )}
+          {errorText}
+          {help}
+        </>
+      )
+  }
+}
+
+/**
+ * Editable list of strings with add and remove
+ */
+function ListField({ field, form }: SchemaFieldProps) {
+  const [newItem, setNewItem] = useState('')
+  const items: string[] = form.watch(field.name) || []
+
+  const addItem = () => {
+    const item = newItem.trim()
+    if (!item) return
+
+    form.setValue(field.name, [...items, item], { shouldValidate: true })
+    setNewItem('')
+  }
+
+  const removeItem = (index: number) => {
+    form.setValue(field.name, items.filter((_, i) => i !== index), { shouldValidate: true })
+  }
+
+  return (
+    <>
+      <Label htmlFor={`${field.name}-new`}>{fieldLabel(field.meta)}</Label>
+      {items.length > 0 && (
+        <ul className="space-y-2">
+          {items.map((item, index) => (
+            <li
+              key={`${item}-${index}`}
+              className="flex items-center justify-between p-2 bg-gray-50 dark:bg-gray-800 rounded-md text-sm"
+            >
+              <span>{item}</span>
+              <Button type="button" size="sm" variant="outline" onClick={() => removeItem(index)}>
+                Remove
+              </Button>
+            </li>
+          ))}
+        </ul>
+      )}
+      <div className="flex gap-2">
+        <Input
+          id={`${field.name}-new`}
+          value={newItem}
+          placeholder={field.meta.placeholder}
+          onChange={(e) => setNewItem(e.target.value)}
+          onKeyDown={(e) => {
+            if (e.key === 'Enter') {
+              e.preventDefault()
+              addItem()
+            }
+          }}
+        />
+        <Button type="button" variant="outline" onClick={addItem} disabled={!newItem.trim()}>
+          Add
+        </Button>
+      </div>
+      {field.meta.help && <p className="text-xs text-gray-500">{field.meta.help}</p>}
+    </>
+  )
+}
+
+/**
+ * Table of object rows (e.g. grid sample points) with add and remove
+ */
+function GridField({ field, form }: SchemaFieldProps) {
+  const { fields: rows, append, remove } = useFieldArray({ control: form.control, name: field.name })
+  const columns = field.columns ?? []
+  const values: Array<Record<string, any>> = form.watch(field.name) || []
+  const rowErrors = form.formState.errors[field.name] as any
+
+  return (
+    <>
+      <div className="flex items-center justify-between">
+        <Label>{fieldLabel(field.meta)}{field.required && ' *'}</Label>
+        <Button
+          type="button"
+          size="sm"
+          variant="outline"
+          onClick={() => append(getGridRowDefaults(field, rows.length))}
+        >
+          Add Row
+        </Button>
+      </div>
+
+      <div className="border rounded-lg overflow-x-auto">
+        <table className="w-full text-sm">
+          <thead className="bg-gray-50 dark:bg-gray-800">
+            <tr>
+              {columns.map(column => (
+                <th key={column.name} className="text-left font-medium px-3 py-2">{fieldLabel(column.meta)}</th>
+              ))}
+              {field.meta.rowSummary && (
+                <th className="text-left font-medium px-3 py-2">{field.meta.rowSummary.label}</th>
+              )}
+              <th className="px-3 py-2" />
+            </tr>
+          </thead>
+          <tbody>
+            {rows.map((row, index) => (
+              <tr key={row.id} className="border-t">
+                {columns.map(column => {
+                  const path = `${field.name}.${index}.${column.name}`
+                  const invalid = rowErrors?.[index]?.[column.name] ? 'border-red-500' : ''
+
+                  return (
+                    <td key={column.name} className="px-3 py-2">
+                      {column.kind === 'number' ? (
+                        <Input
+                          aria-label={`${column.meta.label} ${index + 1}`}
+                          type="number"
+                          step={column.meta.step ?? 'any'}
+                          min={column.min}
+                          max={column.max}
+                          placeholder={column.meta.placeholder}
+                          className={invalid}
+                          {...form.register(path, { setValueAs: toNumber })}
+                        />
+                      ) : column.kind === 'boolean' ? (
+                        <input type="checkbox" className="rounded" {...form.register(path)} />
+                      ) : (
+                        <Input
+                          aria-label={`${column.meta.label} ${index + 1}`}
+                          placeholder={column.meta.placeholder}
+                          className={invalid}
+                          {...form.register(path)}
+                        />
+                      )}
+                    </td>
+                  )
+                })}
+                {field.meta.rowSummary && (
+                  <td className="px-3 py-2 font-mono whitespace-nowrap">
+                    {(values[index] && field.meta.rowSummary.compute(values[index])) ?? '—'}
+                  </td>
+                )}
+                <td className="px-3 py-2 text-right">
+                  <Button
+                    type="button"
+                    size="sm"
+                    variant="outline"
+                    onClick={() => remove(index)}
+                    disabled={rows.length === 1}
+                  >
+                    Remove
+                  </Button>
+                </td>
+              </tr>
+            ))}
+          </tbody>
+        </table>
+      </div>
+      {rowErrors?.message && <p className="text-sm text-red-600">{rowErrors.message}</p>}
+      {field.meta.help && <p className="text-xs text-gray-500">{field.meta.help}</p>}
+    </>
+  )
+}
@@ -1,14 +1,14 @@
 'use client'
 
-import { useState } from 'react'
+import { useEffect, useState } from 'react'
 import { Card, CardContent, CardDescription, CardHeader, CardTitle } from '@/components/ui/card'
 import { Button } from '@/components/ui/button'
 import { Badge } from '@/components/ui/badge'
 import { Separator } from '@/components/ui/separator'
-import { BuildingPressureForm } from './building-pressure-form'
-import { AirflowStaticForm } from './airflow-static-form'
-import { RefrigerantCircuitForm } from './refrigerant-circuit-form'
-import { CoilPerformanceForm } from './coil-performance-form'
+import type { ReadingTestType } from '@/lib/schemas'
+import type { TestTemplateSnapshot } from '@/lib/test-templates'
+import { TEST_FORMS, getTemplateFormMetadata } from '@/lib/test-forms'
+import { SchemaTestForm } from './schema-test-form'
 
 interface TestEntryFormProps {
   sessionId: string
@@ -18,75 +18,6 @@ interface TestEntryFormProps {
   onTestAdded: () => void
 }
 
-// Test type metadata
-const TEST_METADATA: Record<string, {
-  name: string
-  description: string
-  priority: 'high' | 'medium' | 'low'
-  estimatedTime: string
-}> = {
-  'BUILDING_PRESSURE': {
-    name: 'Building Pressure',
-    description: 'Measure building pressurization (target 0.02-0.05 in. w.c.)',
-    priority: 'high',
-    estimatedTime: '10 min'
-  },
-  'PRESSURE_DECAY': {
-    name: 'Pressure Decay',
-    description: 'Test envelope tightness over time',
-    priority: 'medium',
-    estimatedTime: '15 min'
-  },
-  'RETURN_CURB_LEAKAGE': {
-    name: 'Return/Curb Leakage',
-    description: 'Smoke testing for return air leaks',
-    priority: 'high',
-    estimatedTime: '20 min'
-  },
-  'SLAB_WALL_MOISTURE': {
-    name: 'Slab/Wall Moisture',
-    description: 'Plastic sheet test and IR imaging',
-    priority: 'medium',
-    estimatedTime: '30 min'
-  },
-  'AIRFLOW_STATIC': {
-    name: 'Airflow & Static',
-    description: 'CFM measurements and static pressure',
-    priority: 'high',
-    estimatedTime: '15 min'
-  },
-  'REFRIGERANT_CIRCUIT': {
-    name: 'Refrigerant Circuit',
-    description: 'Superheat and subcooling measurements',
-    priority: 'high',
-    estimatedTime: '20 min'
-  },
-  'COIL_PERFORMANCE': {
-    name: 'Coil Performance',
-    description: 'Temperature/humidity across coils',
-    priority: 'high',
-    estimatedTime: '15 min'
-  },
-  'FAN_EVAP_RECHECK': {
-    name: 'Fan/Evap Recheck',
-    description: 'Post-adjustment verification',
-    priority: 'medium',
-    estimatedTime: '10 min'
-  },
-  'ECONOMIZER_SEAL': {
-    name: 'Economizer Seal',
-    description: 'Damper leakage testing',
-    priority: 'medium',
-    estimatedTime: '15 min'
-  },
-  'DISTRIBUTION_MIXING': {
-    name: 'Distribution & Mixing',
-    description: 'Zone temperature/humidity uniformity',
-    priority: 'low',
-    estimatedTime: '25 min'
-  }
-}
-
 export function TestEntryForm({ 
   sessionId, 
   sessionData, 
@@ -95,13 +26,37 @@ export function TestEntryForm({
   onTestAdded 
 }: TestEntryFormProps) {
   const [selectedTest, setSelectedTest] = useState<string | null>(null)
+  const [selectedTemplate, setSelectedTemplate] = useState<TestTemplateSnapshot | null>(null)
   const [showForm, setShowForm] = useState(false)
+  const [templates, setTemplates] = useState<TestTemplateSnapshot[]>([])
+
+  const orgId: string = sessionData.area.project.orgId
+
+  // The organization's custom tests in this category
+  useEffect(() => {
+    const fetchTemplates = async () => {
+      try {
+        const response = await fetch(`/api/test-templates?orgId=${orgId}`)
+        if (response.ok) {
+          const data = await response.json()
+          setTemplates(data.templates.filter((template: TestTemplateSnapshot) => template.category === testCategory))
+        }
+      } catch (error) {
+        console.error('Failed to fetch test templates:', error)
+      }
+    }
+
+    fetchTemplates()
+  }, [orgId, testCategory])
 
   // Get existing tests for this category
   const existingTests = sessionData.tests.filter((test: any) => 
-    availableTests.includes(test.testType)
+    availableTests.includes(test.testType) || test.template?.category === testCategory
   )
 
+  const testName = (test: any) =>
+    test.template?.name ?? TEST_FORMS[test.testType as ReadingTestType]?.name
+
   // Group tests by unit (for HVAC) or show all (for ENVELOPE)
   const testsByUnit = testCategory === 'HVAC' 
     ? sessionData.area.units.reduce((acc: any, unit: any) => {
@@ -113,53 +68,53 @@ export function TestEntryForm({
       }, {})
     : { 'envelope': { unit: null, tests: existingTests } }
 
-  const renderTestForm = (testType: string, unitId?: string) => {
-    const commonProps = {
-      sessionId,
-      testType,
-      unitId,
-      sessionData,
-      onComplete: () => {
-        setShowForm(false)
-        setSelectedTest(null)
+  const deleteTest = async (testId: string) => {
+    if (!confirm('Are you sure you want to delete this test result?')) {
+      return
+    }
+
+    try {
+      const response = await fetch(`/api/tests/${testId}`, { method: 'DELETE' })
+
+      if (response.ok) {
         onTestAdded()
-      },
-      onCancel: () => {
-        setShowForm(false)
-        setSelectedTest(null)
+      } else {
+        const error = await response.json()
+        console.error('Failed to delete test:', error)
       }
+    } catch (error) {
+      console.error('Error deleting test:', error)
     }
+  }
 
-    switch (testType) {
-      case 'BUILDING_PRESSURE':
-        return <BuildingPressureForm {...commonProps} />
-      case 'AIRFLOW_STATIC':
-        return <AirflowStaticForm {...commonProps} />
-      case 'REFRIGERANT_CIRCUIT':
-        return <RefrigerantCircuitForm {...commonProps} />
-      case 'COIL_PERFORMANCE':
-        return <CoilPerformanceForm {...commonProps} />
-      default:
-        return (
-          <Card>
-            <CardContent className="p-6">
-              <p className="text-gray-500">
-                Form for {TEST_METADATA[testType]?.name} coming soon...
-              </p>
-              <div className="mt-4 flex gap-2">
-                <Button variant="outline" onClick={commonProps.onCancel}>
-                  Cancel
-                </Button>
-              </div>
-            </CardContent>
-          </Card>
-        )
-    }
+  const closeForm = () => {
+    setShowForm(false)
+    setSelectedTest(null)
+    setSelectedTemplate(null)
+  }
+
+  const startTest = (testType: string, template: TestTemplateSnapshot | null = null) => {
+    setSelectedTest(testType)
+    setSelectedTemplate(template)
+    setShowForm(true)
   }
 
   if (showForm && selectedTest) {
-    const unitId = testCategory === 'HVAC' ? Object.keys(testsByUnit)[0] : undefined
-    return renderTestForm(selectedTest, unitId)
+    return (
+      <SchemaTestForm
+        key={selectedTemplate?.id ?? selectedTest}
+        sessionId={sessionId}
+        testType={selectedTest}
+        template={selectedTemplate}
+        unitId={testCategory === 'HVAC' ? Object.keys(testsByUnit)[0] : undefined}
+        sessionData={sessionData}
+        onComplete={() => {
+          closeForm()
+          onTestAdded()
+        }}
+        onCancel={closeForm}
+      />
+    )
   }
 
   return (
@@ -175,46 +130,36 @@ export function TestEntryForm({
         <CardContent>
           <div className="grid grid-cols-1 md:grid-cols-2 lg:grid-cols-3 gap-4">
             {availableTests.map((testType) => {
-              const metadata = TEST_METADATA[testType]
+              const metadata = TEST_FORMS[testType as ReadingTestType]
               const completedCount = existingTests.filter((t: any) => t.testType === testType).length
-              const isHighPriority = metadata.priority === 'high'
-              
+
               return (
-                <div
+                <TestTypeCard
                   key={testType}
-                  className={`p-4 border rounded-lg cursor-pointer hover:border-blue-500 transition-colors ${
-                    isHighPriority ? 'border-orange-200 bg-orange-50 dark:bg-orange-900/10' : ''
-                  }`}
-                  onClick={() => {
-                    setSelectedTest(testType)
-                    setShowForm(true)
-                  }}
-                >
-                  <div className="flex items-start justify-between mb-2">
-                    <h4 className="font-medium text-sm">{metadata.name}</h4>
-                    <div className="flex gap-1">
-                      {isHighPriority && (
-                        <Badge variant="destructive" className="text-xs px-1 py-0">
-                          Priority
-                        </Badge>
-                      )}
-                      {completedCount > 0 && (
-                        <Badge variant="secondary" className="text-xs px-1 py-0">
-                          {completedCount}
-                        </Badge>
-                      )}
-                    </div>
-                  </div>
-                  <p className="text-xs text-gray-600 dark:text-gray-300 mb-2">
-                    {metadata.description}
-                  </p>
-                  <div className="flex items-center justify-between text-xs">
-                    <span className="text-gray-500">Est. {metadata.estimatedTime}</span>
-                    <Button size="sm" variant="outline" className="h-6 text-xs px-2">
-                      Start Test
-                    </Button>
-                  </div>
-                </div>
+                  name={metadata.name}
+                  description={metadata.description}
+                  estimatedTime={metadata.estimatedTime}
+                  isHighPriority={metadata.priority === 'high'}
+                  completedCount={completedCount}
+                  onStart={() => startTest(testType)}
+                />
+              )
+            })}
+            {templates.map((template) => {
+              const metadata = getTemplateFormMetadata(template)
+              const completedCount = existingTests.filter((t: any) => t.template?.id === template.id).length
+
+              return (
+                <TestTypeCard
+                  key={template.id}
+                  name={metadata.name}
+                  description={metadata.description}
+                  estimatedTime={metadata.estimatedTime}
+                  isHighPriority={false}
+                  isCustom
+                  completedCount={completedCount}
+                  onStart={() => startTest('CUSTOM', template)}
+                />
               )
             })}
           </div>
@@ -253,7 +198,7 @@ export function TestEntryForm({
                     <div className="flex-1">
                       <div className="flex items-center gap-3 mb-2">
                         <h4 className="font-medium">
-                          {TEST_METADATA[test.testType]?.name}
+                          {testName(test)}
                         </h4>
                         <Badge 
                           variant={test.pass === true ? 'default' : test.pass === false ? 'destructive' : 'secondary'}
@@ -292,6 +237,9 @@ export function TestEntryForm({
                       <Button variant="outline" size="sm">
                         View
                       </Button>
+                      <Button variant="outline" size="sm" onClick={() => deleteTest(test.id)}>
+                        Delete
+                      </Button>
                     </div>
                   </div>
                 ))}
@@ -303,3 +251,62 @@ export function TestEntryForm({
     </div>
   )
 }
+
+interface TestTypeCardProps {
+  name: string
+  description: string
+  estimatedTime: string
+  isHighPriority: boolean
+  isCustom?: boolean
+  completedCount: number
+  onStart: () => void
+}
+
+function TestTypeCard({
+  name,
+  description,
+  estimatedTime,
+  isHighPriority,
+  isCustom,
+  completedCount,
+  onStart
+}: TestTypeCardProps) {
+  return (
+    <div
+      className={`p-4 border rounded-lg cursor-pointer hover:border-blue-500 transition-colors ${
+        isHighPriority ? 'border-orange-200 bg-orange-50 dark:bg-orange-900/10' : ''
+      }`}
+      onClick={onStart}
+    >
+      <div className="flex items-start justify-between mb-2">
+        <h4 className="font-medium text-sm">{name}</h4>
+        <div className="flex gap-1">
+          {isHighPriority && (
+            <Badge variant="destructive" className="text-xs px-1 py-0">
+              Priority
+            </Badge>
+          )}
+          {isCustom && (
+            <Badge variant="outline" className="text-xs px-1 py-0">
+              Custom
+            </Badge>
+          )}
+          {completedCount > 0 && (
+            <Badge variant="secondary" className="text-xs px-1 py-0">
+              {completedCount}
+            </Badge>
+          )}
+        </div>
+      </div>
+      <p className="text-xs text-gray-600 dark:text-gray-300 mb-2">
+        {description}
+      </p>
+      <div className="flex items-center justify-between text-xs">
+        <span className="text-gray-500">Est. {estimatedTime}</span>
+        <Button size="sm" variant="outline" className="h-6 text-xs px-2">
+          Start Test
+        </Button>
+      </div>
+    </div>
+  )
+}
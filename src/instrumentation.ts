@@ -0,0 +1,11 @@
+/**
+ * Server startup checks
+ * Runs once when the Next.js server starts, so missing settings fail the
+ * deployment instead of the first request that needs them.
+ */
+export async function register() {
+  if (process.env.NEXT_RUNTIME === 'nodejs') {
+    const { checkMailConfig } = await import('./lib/mail')
+    checkMailConfig()
+  }
+}
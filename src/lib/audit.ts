@@ -0,0 +1,347 @@
+/**
+ * Audit logging
+ *
+ * Creates, updates and deletes on the audited models are recorded by a Prisma
+ * client extension applied in db.ts, so API routes never write audit entries
+ * themselves. The acting user comes from the request context started in
+ * authenticate().
+ *
+ * Rows removed by database cascades (e.g. areas of a deleted project) are not
+ * recorded individually; the parent delete carries the audit entry. createMany
+ * is not audited since it doesn't return the created ids. Entries are written
+ * outside the caller's transaction, so a rolled-back transaction still leaves
+ * its entries behind.
+ */
+
+import { AsyncLocalStorage } from 'node:async_hooks'
+import { Prisma, PrismaClient } from '@prisma/client'
+
+interface AuditContext {
+  userId: string | null
+}
+
+export const AUDITED_MODELS = [
+  'Project',
+  'Area',
+  'HvacUnit',
+  'Session',
+  'SessionTransition',
+  'TestResult',
+  'FileAsset',
+  'Report',
+  'Membership',
+  'LoggerDataset'
+] as const
+
+export type AuditedModel = typeof AUDITED_MODELS[number]
+export type AuditAction = 'CREATE' | 'UPDATE' | 'DELETE'
+
+type AuditRecord = Record<string, any> & { id: string }
+
+interface AuditEntry {
+  action: AuditAction
+  record: AuditRecord
+  oldValues?: Record<string, unknown> | null
+  newValues?: Record<string, unknown> | null
+}
+
+const auditContext = new AsyncLocalStorage<AuditContext>()
+
+// Fields that change on every write and add noise to diffs
+const IGNORED_FIELDS = ['updatedAt']
+
+/**
+ * Start an audit context for the current request.
+ * Must run before the caller's first await so later queries in the request see it.
+ */
+export function beginAuditContext(): AuditContext {
+  const context: AuditContext = { userId: null }
+  auditContext.enterWith(context)
+  return context
+}
+
+function isAuditedModel(model: string | undefined): model is AuditedModel {
+  return AUDITED_MODELS.includes(model as AuditedModel)
+}
+
+function delegateFor(client: PrismaClient, model: AuditedModel): any {
+  return (client as any)[model.charAt(0).toLowerCase() + model.slice(1)]
+}
+
+function toJson(value: unknown): Prisma.InputJsonValue {
+  return JSON.parse(JSON.stringify(value))
+}
+
+/**
+ * Keep only the fields that differ between two versions of a record
+ */
+function diffValues(oldRecord: AuditRecord, newRecord: AuditRecord) {
+  const oldValues: Record<string, unknown> = {}
+  const newValues: Record<string, unknown> = {}
+
+  for (const key of Object.keys({ ...oldRecord, ...newRecord })) {
+    if (IGNORED_FIELDS.includes(key)) continue
+    if (JSON.stringify(oldRecord[key]) !== JSON.stringify(newRecord[key])) {
+      oldValues[key] = oldRecord[key]
+      newValues[key] = newRecord[key]
+    }
+  }
+
+  return Object.keys(newValues).length > 0 ? { oldValues, newValues } : null
+}
+
+/**
+ * Find the project an audited record belongs to so entries can be filtered per project
+ */
+async function resolveProjectId(
+  client: PrismaClient,
+  model: AuditedModel,
+  record: AuditRecord
+): Promise<string | null> {
+  const areaProject = async (areaId?: string | null) => areaId
+    ? (await client.area.findUnique({ where: { id: areaId }, select: { projectId: true } }))?.projectId ?? null
+    : null
+
+  const sessionProject = async (sessionId?: string | null) => sessionId
+    ? areaProject((await client.session.findUnique({ where: { id: sessionId }, select: { areaId: true } }))?.areaId)
+    : null
+
+  switch (model) {
+    case 'Project':
+      return record.id
+    case 'Area':
+    case 'Report':
+    case 'Membership':
+    case 'LoggerDataset':
+      return record.projectId
+    case 'HvacUnit':
+    case 'Session':
+      return areaProject(record.areaId)
+    case 'SessionTransition':
+    case 'TestResult':
+      return sessionProject(record.sessionId)
+    case 'FileAsset':
+      return record.projectId ?? await sessionProject(record.sessionId) ?? await areaProject(record.areaId)
+  }
+}
+
+async function writeAuditEntries(
+  client: PrismaClient,
+  model: AuditedModel,
+  entries: AuditEntry[],
+  projectIds?: Map<string, string | null>
+) {
+  if (entries.length === 0) return
+
+  try {
+    const userId = auditContext.getStore()?.userId ?? null
+
+    const data = await Promise.all(entries.map(async entry => ({
+      userId,
+      action: entry.action,
+      entityType: model,
+      entityId: entry.record.id,
+      projectId: projectIds?.get(entry.record.id) ?? await resolveProjectId(client, model, entry.record),
+      oldValues: entry.oldValues ? toJson(entry.oldValues) : Prisma.DbNull,
+      newValues: entry.newValues ? toJson(entry.newValues) : Prisma.DbNull
+    })))
+
+    await client.auditLog.createMany({ data })
+  } catch (error) {
+    // A failed audit write must not fail the change itself
+    console.error('Audit log error:', error)
+  }
+}
+
+// Columns of each audited model, so entries hold plain column values whatever the caller selected
+const COLUMNS: Record<AuditedModel, string[]> = {
+  Project: Object.values(Prisma.ProjectScalarFieldEnum),
+  Area: Object.values(Prisma.AreaScalarFieldEnum),
+  HvacUnit: Object.values(Prisma.HvacUnitScalarFieldEnum),
+  Session: Object.values(Prisma.SessionScalarFieldEnum),
+  SessionTransition: Object.values(Prisma.SessionTransitionScalarFieldEnum),
+  TestResult: Object.values(Prisma.TestResultScalarFieldEnum),
+  FileAsset: Object.values(Prisma.FileAssetScalarFieldEnum),
+  Report: Object.values(Prisma.ReportScalarFieldEnum),
+  Membership: Object.values(Prisma.MembershipScalarFieldEnum),
+  LoggerDataset: Object.values(Prisma.LoggerDatasetScalarFieldEnum)
+}
+
+/**
+ * Widen a narrow select so the write returns every column of the record
+ */
+function withAllColumns(model: AuditedModel, args: any) {
+  if (!args.select) return args
+
+  const select = { ...args.select }
+  for (const column of COLUMNS[model]) select[column] = true
+  return { ...args, select }
+}
+
+/**
+ * Column values of a write result, without any included relations
+ */
+function columnsOf(model: AuditedModel, result: Record<string, any>): AuditRecord {
+  const record: Record<string, any> = {}
+  for (const column of COLUMNS[model]) {
+    if (column in result) record[column] = result[column]
+  }
+  return record as AuditRecord
+}
+
+/**
+ * Trim a result back to the fields the caller selected
+ */
+function asSelected(args: any, result: Record<string, any>) {
+  if (!args.select) return result
+
+  const selected: Record<string, any> = {}
+  for (const key of Object.keys(args.select)) {
+    if (args.select[key] && key in result) selected[key] = result[key]
+  }
+  return selected
+}
+
+// Json columns take their new value as-is; other columns may wrap it in an operation like { set } or { increment }
+const JSON_FIELDS = new Set(
+  Prisma.dmmf.datamodel.models.flatMap(m => m.fields.filter(f => f.type === 'Json').map(f => `${m.name}.${f.name}`))
+)
+
+/**
+ * Apply an updateMany `data` argument to a record read before the write
+ */
+function applyUpdateData(model: AuditedModel, record: AuditRecord, data: Record<string, any>): AuditRecord {
+  const updated: Record<string, any> = { ...record }
+
+  for (const [key, value] of Object.entries(data)) {
+    if (value === undefined) continue
+
+    if (value === Prisma.DbNull || value === Prisma.JsonNull) {
+      updated[key] = null
+    } else if (
+      JSON_FIELDS.has(`${model}.${key}`) ||
+      value === null ||
+      typeof value !== 'object' ||
+      value instanceof Date ||
+      Array.isArray(value)
+    ) {
+      updated[key] = value
+    } else if ('set' in value) {
+      updated[key] = value.set
+    } else if (typeof record[key] === 'number') {
+      const current = record[key]
+      if ('increment' in value) updated[key] = current + value.increment
+      else if ('decrement' in value) updated[key] = current - value.decrement
+      else if ('multiply' in value) updated[key] = current * value.multiply
+      else if ('divide' in value) updated[key] = current / value.divide
+    }
+  }
+
+  return updated as AuditRecord
+}
+
+function updateEntry(oldRecord: AuditRecord, newRecord: AuditRecord): AuditEntry | null {
+  const diff = diffValues(oldRecord, newRecord)
+  return diff ? { action: 'UPDATE', record: newRecord, ...diff } : null
+}
+
+/**
+ * Prisma client extension that records audited writes.
+ * Entries are built from each write's own result, or for updateMany from its
+ * data, rather than re-read through the base client, which runs outside the
+ * caller's interactive transaction and can't see its uncommitted rows. Only
+ * updates read the record beforehand, for the diff; inside a transaction that
+ * read sees the last committed version.
+ */
+export function createAuditExtension(client: PrismaClient) {
+  return Prisma.defineExtension({
+    name: 'audit-log',
+    query: {
+      $allModels: {
+        async create({ model, args, query }) {
+          if (!isAuditedModel(model)) return query(args)
+
+          const result: any = await query(withAllColumns(model, args))
+          const record = columnsOf(model, result)
+          await writeAuditEntries(client, model, [{ action: 'CREATE', record, newValues: record }])
+          return asSelected(args, result)
+        },
+
+        async update({ model, args, query }) {
+          if (!isAuditedModel(model)) return query(args)
+
+          const oldRecord = await delegateFor(client, model).findUnique({ where: args.where })
+          const result: any = await query(withAllColumns(model, args))
+          const newRecord = columnsOf(model, result)
+
+          // A record created earlier in the same transaction has no committed version to diff against
+          const entry = oldRecord
+            ? updateEntry(oldRecord, newRecord)
+            : { action: 'UPDATE' as const, record: newRecord, newValues: newRecord }
+          if (entry) await writeAuditEntries(client, model, [entry])
+          return asSelected(args, result)
+        },
+
+        async upsert({ model, args, query }) {
+          if (!isAuditedModel(model)) return query(args)
+
+          const oldRecord = await delegateFor(client, model).findUnique({ where: args.where })
+          const result: any = await query(withAllColumns(model, args))
+          const newRecord = columnsOf(model, result)
+
+          const entry = oldRecord
+            ? updateEntry(oldRecord, newRecord)
+            : { action: 'CREATE' as const, record: newRecord, newValues: newRecord }
+          if (entry) await writeAuditEntries(client, model, [entry])
+          return asSelected(args, result)
+        },
+
+        async delete({ model, args, query }) {
+          if (!isAuditedModel(model)) return query(args)
+
+          // Delete returns the removed row; its parents are still there to resolve the project
+          const result: any = await query(withAllColumns(model, args))
+          const oldRecord = columnsOf(model, result)
+          await writeAuditEntries(client, model, [{ action: 'DELETE', record: oldRecord, oldValues: oldRecord }])
+          return asSelected(args, result)
+        },
+
+        async updateMany({ model, args, query }) {
+          if (!isAuditedModel(model)) return query(args)
+
+          // The new values come from args.data rather than a second read, which would go
+          // through the base client and miss a write made inside an interactive transaction
+          const oldRecords: AuditRecord[] = await delegateFor(client, model).findMany({ where: args.where })
+          const result = await query(args)
+
+          if (result.count > 0) {
+            const entries = oldRecords
+              .map(oldRecord => updateEntry(oldRecord, applyUpdateData(model, oldRecord, args.data as Record<string, any>)))
+              .filter((entry): entry is AuditEntry => entry !== null)
+
+            await writeAuditEntries(client, model, entries)
+          }
+          return result
+        },
+
+        async deleteMany({ model, args, query }) {
+          if (!isAuditedModel(model)) return query(args)
+
+          const oldRecords: AuditRecord[] = await delegateFor(client, model).findMany({ where: args.where })
+          const projectIds = new Map(await Promise.all(
+            oldRecords.map(async r => [r.id, await resolveProjectId(client, model, r)] as const)
+          ))
+          const result = await query(args)
+
+          await writeAuditEntries(
+            client,
+            model,
+            oldRecords.map(record => ({ action: 'DELETE' as const, record, oldValues: record })),
+            projectIds
+          )
+          return result
+        }
+      }
+    }
+  })
+}
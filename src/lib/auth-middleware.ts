@@ -2,6 +2,7 @@ import { NextRequest } from 'next/server'
 import { getServerSession } from 'next-auth/next'
 import { authOptions } from './auth'
 import { db } from './db'
+import { beginAuditContext } from './audit'
 import { Role, RoleInProject } from '@prisma/client'
 
 export interface AuthenticatedRequest extends NextRequest {
@@ -17,6 +18,9 @@ export interface AuthenticatedRequest extends NextRequest {
  * Middleware to authenticate API requests
  */
 export async function authenticate(request: NextRequest) {
+  // Started before the first await so the caller's later queries are attributed
+  const auditContext = beginAuditContext()
+
   const session = await getServerSession(authOptions)
   
   if (!session || !session.user?.email) {
@@ -32,6 +36,8 @@ export async function authenticate(request: NextRequest) {
     return { error: 'User not found', status: 401 }
   }
 
+  auditContext.userId = user.id
+
   return { user }
 }
 
@@ -74,6 +80,31 @@ export async function checkProjectAccess(
   return userRoleIndex >= requiredRoleIndex
 }
 
+/**
+ * Check if user belongs to an organization, through membership in any of its projects
+ */
+export async function checkOrganizationAccess(userId: string, orgId: string) {
+  const membership = await db.membership.findFirst({
+    where: { userId, project: { orgId } },
+    select: { id: true }
+  })
+
+  return membership !== null
+}
+
+/**
+ * Organizations the user belongs to through their project memberships
+ */
+export async function getUserOrganizationIds(userId: string): Promise<string[]> {
+  const projects = await db.project.findMany({
+    where: { memberships: { some: { userId } } },
+    select: { orgId: true },
+    distinct: ['orgId']
+  })
+
+  return projects.map(project => project.orgId)
+}
+
 /**
  * Get user's projects with their roles
  */
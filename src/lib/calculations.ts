@@ -3,28 +3,19 @@
  * Implements engineering calculations for commissioning tests
  */
 
+import { dewPointFromVaporPressure, getPsychrometricState, moistAirEnthalpy, saturationPressure } from './psychrometrics'
+import { DEFAULT_REFRIGERANT, getSaturationTemperature } from './refrigerants'
+import { DEFAULT_CRITERIA, type RangeLimit } from './criteria'
+
 /**
- * Calculate dew point temperature using Magnus formula
+ * Calculate dew point temperature from dry bulb and relative humidity
+ * Uses the Hyland-Wexler saturation curve (see psychrometrics.ts)
  * @param tempF - Dry bulb temperature in °F
  * @param rh - Relative humidity as percentage (0-100)
  * @returns Dew point temperature in °F
  */
 export function calculateDewPoint(tempF: number, rh: number): number {
-  // Convert °F to °C
-  const tempC = (tempF - 32) * 5/9
-  
-  // Magnus formula constants
-  const a = 17.625
-  const b = 243.04
-  
-  // Calculate gamma
-  const gamma = Math.log(rh / 100) + (a * tempC) / (b + tempC)
-  
-  // Calculate dew point in °C
-  const dewPointC = (b * gamma) / (a - gamma)
-  
-  // Convert back to °F
-  return (dewPointC * 9/5) + 32
+  return dewPointFromVaporPressure((rh / 100) * saturationPressure(tempF))
 }
 
 /**
@@ -40,6 +31,7 @@ export function calculateCfmPerTon(cfm: number, tons: number): number {
 
 /**
  * Calculate superheat (SH) for refrigeration circuit
+ * Referenced to the dew point for zeotropic blends
  * @param suctionLineTemp - Suction line temperature in °F
  * @param suctionPressure - Suction pressure in PSIG
  * @param refrigerant - Refrigerant type (default R-410A)
@@ -48,16 +40,15 @@ export function calculateCfmPerTon(cfm: number, tons: number): number {
 export function calculateSuperheat(
   suctionLineTemp: number, 
   suctionPressure: number,
-  refrigerant: string = 'R-410A'
+  refrigerant: string = DEFAULT_REFRIGERANT
 ): number {
-  // Simplified R-410A saturation temperature lookup
-  // In production, use proper refrigerant property tables
-  const satTemp = getSaturationTemp(suctionPressure, refrigerant)
+  const satTemp = getSaturationTemperature(suctionPressure, refrigerant, 'dew')
   return suctionLineTemp - satTemp
 }
 
 /**
  * Calculate subcooling (SC) for refrigeration circuit
+ * Referenced to the bubble point for zeotropic blends
  * @param liquidLineTemp - Liquid line temperature in °F
  * @param liquidPressure - Liquid pressure in PSIG
  * @param refrigerant - Refrigerant type (default R-410A)
@@ -66,38 +57,20 @@ export function calculateSuperheat(
 export function calculateSubcooling(
   liquidLineTemp: number,
   liquidPressure: number,
-  refrigerant: string = 'R-410A'
+  refrigerant: string = DEFAULT_REFRIGERANT
 ): number {
-  const satTemp = getSaturationTemp(liquidPressure, refrigerant)
+  const satTemp = getSaturationTemperature(liquidPressure, refrigerant, 'bubble')
   return satTemp - liquidLineTemp
 }
 
-/**
- * Simplified saturation temperature lookup for R-410A
- * In production, use proper refrigerant property database
- */
-function getSaturationTemp(pressure: number, refrigerant: string): number {
-  if (refrigerant === 'R-410A') {
-    // Simplified linear approximation for R-410A
-    // Actual implementation should use proper property tables
-    if (pressure <= 50) return -20 + (pressure * 1.6)
-    if (pressure <= 100) return 60 + ((pressure - 50) * 1.2)
-    if (pressure <= 200) return 120 + ((pressure - 100) * 0.8)
-    return 200 + ((pressure - 200) * 0.4)
-  }
-  
-  // Default for other refrigerants - should implement proper tables
-  return 32 + (pressure * 0.5)
-}
-
 /**
  * Check if building pressure is within acceptable range
  * @param deltaP - Pressure difference in inches w.c.
+ * @param limits - Acceptable range (defaults to 0.02 - 0.05 in. w.c.)
  * @returns Pass/fail result with details
  */
-export function checkBuildingPressure(deltaP: number) {
-  const min = 0.02
-  const max = 0.05
+export function checkBuildingPressure(deltaP: number, limits: RangeLimit = DEFAULT_CRITERIA.buildingPressure_inwc) {
+  const { min, max } = limits
   const pass = deltaP >= min && deltaP <= max
   
   return {
@@ -115,11 +88,11 @@ export function checkBuildingPressure(deltaP: number) {
 /**
  * Check if CFM/ton is within acceptable range for dehumidification
  * @param cfmPerTon - CFM per ton ratio
+ * @param limits - Acceptable range (defaults to 350 - 400 CFM/ton)
  * @returns Pass/fail result with details
  */
-export function checkCfmPerTon(cfmPerTon: number) {
-  const min = 350
-  const max = 400
+export function checkCfmPerTon(cfmPerTon: number, limits: RangeLimit = DEFAULT_CRITERIA.cfmPerTon) {
+  const { min, max } = limits
   const pass = cfmPerTon >= min && cfmPerTon <= max
   
   return {
@@ -137,11 +110,11 @@ export function checkCfmPerTon(cfmPerTon: number) {
 /**
  * Check if supply air dew point is within acceptable range
  * @param supplyDP - Supply air dew point in °F
+ * @param limits - Acceptable range (defaults to 50 - 55°F)
  * @returns Pass/fail result with details
  */
-export function checkSupplyDewPoint(supplyDP: number) {
-  const min = 50
-  const max = 55
+export function checkSupplyDewPoint(supplyDP: number, limits: RangeLimit = DEFAULT_CRITERIA.supplyDewPoint_F) {
+  const { min, max } = limits
   const pass = supplyDP >= min && supplyDP <= max
   
   return {
@@ -244,27 +217,13 @@ export function calculateEconomizerEffectiveness(
 
 /**
  * Calculate enthalpy from dry bulb temperature and relative humidity
- * Simplified calculation - use proper psychrometric libraries in production
  * @param tempF - Dry bulb temperature in °F
  * @param rh - Relative humidity as percentage
- * @returns Enthalpy in BTU/lb
+ * @param pressurePsia - Site barometric pressure in psia (default sea level)
+ * @returns Enthalpy in BTU/lb dry air
  */
-export function calculateEnthalpy(tempF: number, rh: number): number {
-  // This is a simplified approximation
-  // Use proper psychrometric calculations in production
-  const dewPointF = calculateDewPoint(tempF, rh)
-  const humidityRatio = 0.622 * (getSaturationPressure(dewPointF) / (14.696 - getSaturationPressure(dewPointF)))
-  
-  return 0.24 * tempF + humidityRatio * (1061 + 0.444 * tempF)
-}
-
-/**
- * Simplified saturation pressure calculation (psia)
- */
-function getSaturationPressure(tempF: number): number {
-  const tempR = tempF + 459.67 // Convert to Rankine
-  // Simplified Antoine equation approximation
-  return Math.exp(18.3036 - 3816.44 / tempR - 46.13 * Math.log(tempR))
+export function calculateEnthalpy(tempF: number, rh: number, pressurePsia?: number): number {
+  return getPsychrometricState({ dryBulb_F: tempF, rh_pct: rh }, { pressure_psia: pressurePsia }).enthalpy_btu_lb
 }
 
 /**
@@ -284,6 +243,79 @@ export function calculatePressureDecayRate(
   return (decayAmount / timeSeconds) * 60 // Convert to per minute
 }
 
+// Weight of one US pint of water, lb
+const LB_PER_PINT = 1.043
+
+// Latent heat of vaporization in the moist air enthalpy equation, BTU/lb
+const LATENT_HEAT_BTU_PER_LB = 1061
+
+/**
+ * Calculate dry air mass flow from volumetric airflow
+ * @param cfm - Air flow in cubic feet per minute
+ * @param specificVolume - Specific volume of the air where flow was measured, ft³/lb dry air
+ * @returns Mass flow in lb dry air per hour
+ */
+export function calculateMassFlow(cfm: number, specificVolume: number): number {
+  return cfm * 60 / specificVolume
+}
+
+/**
+ * Calculate moisture removed from an air stream
+ * @param massFlow - Dry air mass flow in lb/hr
+ * @param inletHumidityRatio - Entering humidity ratio in lb water/lb dry air
+ * @param outletHumidityRatio - Leaving humidity ratio in lb water/lb dry air
+ * @returns Water removed (lb/hr and pints/day) and the latent capacity it represents (BTU/h)
+ */
+export function calculateMoistureRemoval(
+  massFlow: number,
+  inletHumidityRatio: number,
+  outletHumidityRatio: number
+) {
+  const lbPerHour = massFlow * (inletHumidityRatio - outletHumidityRatio)
+
+  return {
+    lbPerHour,
+    pintsPerDay: lbPerHour * 24 / LB_PER_PINT,
+    latentBtuPerHour: lbPerHour * LATENT_HEAT_BTU_PER_LB
+  }
+}
+
+/**
+ * Split the heat removed by a cooling coil into sensible and latent parts
+ * Sensible is the dry bulb drop at the leaving humidity ratio; the rest of the
+ * enthalpy drop is moisture condensed out of the air.
+ * @param entering - Entering (return) air dry bulb °F and humidity ratio lb/lb
+ * @param leaving - Leaving (supply) air dry bulb °F and humidity ratio lb/lb
+ * @returns Enthalpy drops in Btu/lb dry air and the sensible heat ratio (null unless the air was cooled)
+ */
+export function calculateCoilLoad(
+  entering: { dryBulb_F: number; humidityRatio: number },
+  leaving: { dryBulb_F: number; humidityRatio: number }
+) {
+  const leavingEnthalpy = moistAirEnthalpy(leaving.dryBulb_F, leaving.humidityRatio)
+  const total = moistAirEnthalpy(entering.dryBulb_F, entering.humidityRatio) - leavingEnthalpy
+  const sensible = moistAirEnthalpy(entering.dryBulb_F, leaving.humidityRatio) - leavingEnthalpy
+
+  return {
+    total,
+    sensible,
+    latent: total - sensible,
+    sensibleHeatRatio: total > 0 && sensible > 0 ? sensible / total : null
+  }
+}
+
+/**
+ * Calculate coil bypass factor from the apparatus dew point
+ * @param enteringDB - Entering air dry bulb in °F
+ * @param leavingDB - Leaving air dry bulb in °F
+ * @param adp - Apparatus dew point in °F
+ * @returns Share of air passing the coil unconditioned (0-1)
+ */
+export function calculateBypassFactor(enteringDB: number, leavingDB: number, adp: number): number {
+  if (enteringDB === adp) return 0
+  return (leavingDB - adp) / (enteringDB - adp)
+}
+
 /**
  * Calculate statistical values for a dataset
  * @param values - Array of numbers
@@ -0,0 +1,56 @@
+/**
+ * Condensation risk
+ * Compares IR surface temperatures with the indoor dew point measured during
+ * a session. Kept free of server-only imports so the gallery can use it.
+ */
+
+// Surfaces within this many degrees above the dew point are flagged as at risk
+export const CONDENSATION_MARGIN_F = 3
+
+export type CondensationRisk = 'CONDENSING' | 'AT_RISK' | 'OK'
+
+export interface IndoorDewPoint {
+  dewPoint_F: number
+  testType: string // Test the value came from
+}
+
+// Computed values that describe indoor air, by test type
+const INDOOR_DEW_POINT_SOURCES: Record<string, string> = {
+  DISTRIBUTION_MIXING: 'dp_max_F',
+  COIL_PERFORMANCE: 'return_dew_point_F',
+  FAN_EVAP_RECHECK: 'return_dew_point_F',
+}
+
+/**
+ * Highest indoor dew point computed by a session's tests
+ * The highest reading is used so borderline surfaces are flagged rather than missed.
+ */
+export function getIndoorDewPoint(
+  tests: Array<{ testType: string; computed?: any }>
+): IndoorDewPoint | null {
+  let highest: IndoorDewPoint | null = null
+
+  for (const test of tests) {
+    const field = INDOOR_DEW_POINT_SOURCES[test.testType]
+    const value = field ? test.computed?.calculations?.[field] : undefined
+
+    if (typeof value === 'number' && Number.isFinite(value) && (!highest || value > highest.dewPoint_F)) {
+      highest = { dewPoint_F: value, testType: test.testType }
+    }
+  }
+
+  return highest
+}
+
+/**
+ * Classify a surface by how close its coldest point is to the dew point
+ */
+export function assessCondensationRisk(surfaceTemp_F: number, dewPoint_F: number): CondensationRisk {
+  if (surfaceTemp_F <= dewPoint_F) {
+    return 'CONDENSING'
+  }
+  if (surfaceTemp_F <= dewPoint_F + CONDENSATION_MARGIN_F) {
+    return 'AT_RISK'
+  }
+  return 'OK'
+}
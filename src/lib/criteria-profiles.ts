@@ -0,0 +1,21 @@
+import { db } from './db'
+import { DEFAULT_CRITERIA_PROFILE, toCriteriaSnapshot, type CriteriaProfileSnapshot } from './criteria'
+
+/**
+ * Resolve the criteria profile in force for a project: the project's own
+ * profile, then the organization default, then the built-in limits
+ */
+export async function getActiveCriteria(projectId: string): Promise<CriteriaProfileSnapshot> {
+  const project = await db.project.findUnique({
+    where: { id: projectId },
+    select: {
+      criteriaProfile: true,
+      organization: {
+        select: { criteriaProfile: true }
+      }
+    }
+  })
+
+  const profile = project?.criteriaProfile ?? project?.organization.criteriaProfile
+  return profile ? toCriteriaSnapshot(profile) : DEFAULT_CRITERIA_PROFILE
+}
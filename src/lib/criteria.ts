@@ -0,0 +1,150 @@
+/**
+ * Pass/Fail Criteria
+ * Acceptance limits used by test computations. Organizations and projects can
+ * override any subset of these through a stored criteria profile.
+ */
+
+import { CriteriaLimitsSchema } from './schemas'
+
+export interface RangeLimit {
+  min: number
+  max: number
+}
+
+export interface CriteriaLimits {
+  buildingPressure_inwc: RangeLimit
+  pressureDecayMaxRate_inwc_per_min: number
+  returnSupplyMaxDiff_inwc: number
+  cfmPerTon: RangeLimit
+  externalStatic_inwc: RangeLimit
+  supplyDewPoint_F: RangeLimit
+  coilTempDrop_F: RangeLimit
+  coilMaxShr?: number // Sensible heat ratio ceiling for humid climates; SHR is informational unless a profile sets it
+  economizerMaxCommanded_pct: number
+  mixingMaxTempVariation_F: number
+  mixingMaxRhVariation_pct: number
+  dehumidifierMinRated_pct: number // Measured moisture removal as a share of the rated pints/day
+  indoorMaxRh_pct: number // Logged space conditions above these count as exceedance
+  indoorMaxDewPoint_F: number
+}
+
+/**
+ * Profile snapshot recorded on every computed result so that old results can be
+ * re-evaluated against exactly the limits that were in force at the time
+ */
+export interface CriteriaProfileSnapshot {
+  profileId: string | null
+  name: string
+  version: number
+  limits: CriteriaLimits
+}
+
+export const DEFAULT_CRITERIA: CriteriaLimits = {
+  buildingPressure_inwc: { min: 0.02, max: 0.05 },
+  pressureDecayMaxRate_inwc_per_min: 0.01,
+  returnSupplyMaxDiff_inwc: 0.1,
+  cfmPerTon: { min: 350, max: 400 },
+  externalStatic_inwc: { min: 0.3, max: 1.5 },
+  supplyDewPoint_F: { min: 50, max: 55 },
+  coilTempDrop_F: { min: 8, max: 25 },
+  economizerMaxCommanded_pct: 5,
+  mixingMaxTempVariation_F: 5,
+  mixingMaxRhVariation_pct: 10,
+  dehumidifierMinRated_pct: 80,
+  indoorMaxRh_pct: 60,
+  indoorMaxDewPoint_F: 55
+}
+
+// Limits without a default; their checks only apply when a profile sets them
+const OPTIONAL_LIMITS: Array<keyof CriteriaLimits> = ['coilMaxShr']
+
+export const DEFAULT_CRITERIA_PROFILE: CriteriaProfileSnapshot = {
+  profileId: null,
+  name: 'Default',
+  version: 0,
+  limits: DEFAULT_CRITERIA
+}
+
+function overrideLimit<K extends keyof CriteriaLimits>(
+  limits: CriteriaLimits,
+  overrides: Partial<CriteriaLimits>,
+  key: K
+) {
+  const value = overrides[key]
+  if (value !== undefined && value !== null) {
+    limits[key] = value
+  }
+}
+
+/**
+ * Merge stored profile overrides onto the default limits
+ * @param overrides - Partial limits as stored in CriteriaProfile.criteria
+ * @returns Complete set of limits
+ */
+export function resolveCriteria(overrides?: Partial<CriteriaLimits> | null): CriteriaLimits {
+  if (!overrides) return DEFAULT_CRITERIA
+
+  const resolved: CriteriaLimits = { ...DEFAULT_CRITERIA }
+  const keys = [...Object.keys(DEFAULT_CRITERIA), ...OPTIONAL_LIMITS] as Array<keyof CriteriaLimits>
+  for (const key of keys) {
+    overrideLimit(resolved, overrides, key)
+  }
+
+  return resolved
+}
+
+/**
+ * Read the overrides stored in CriteriaProfile.criteria; stored JSON that no
+ * longer matches the profile schema falls back to the default limits
+ */
+export function parseCriteriaOverrides(criteria: unknown): Partial<CriteriaLimits> {
+  const parsed = CriteriaLimitsSchema.safeParse(criteria)
+  return parsed.success ? parsed.data : {}
+}
+
+// Key order is not significant when comparing stored overrides
+function normalizeCriteria(value: unknown): unknown {
+  if (!value || typeof value !== 'object' || Array.isArray(value)) return value
+
+  const normalized: Record<string, unknown> = {}
+  for (const key of Object.keys(value).sort()) {
+    normalized[key] = normalizeCriteria((value as Record<string, unknown>)[key])
+  }
+  return normalized
+}
+
+/**
+ * Whether two sets of stored overrides are the same, regardless of key order
+ */
+export function sameCriteria(a: unknown, b: unknown): boolean {
+  return JSON.stringify(normalizeCriteria(a)) === JSON.stringify(normalizeCriteria(b))
+}
+
+/**
+ * Build a profile snapshot from a stored CriteriaProfile row
+ */
+export function toCriteriaSnapshot(profile: {
+  id: string
+  name: string
+  version: number
+  criteria: unknown
+}): CriteriaProfileSnapshot {
+  return {
+    profileId: profile.id,
+    name: profile.name,
+    version: profile.version,
+    limits: resolveCriteria(parseCriteriaOverrides(profile.criteria))
+  }
+}
+
+/**
+ * Criteria a stored result was evaluated against, so refreshes and edits keep
+ * grading it by the same profile version; limits added since are defaulted
+ * @returns undefined when the result was never computed
+ */
+export function getRecordedCriteria(computed: unknown): CriteriaProfileSnapshot | undefined {
+  const snapshot = (computed as { criteria?: CriteriaProfileSnapshot } | null)?.criteria
+  return snapshot
+    ? { ...snapshot, limits: resolveCriteria(snapshot.limits) }
+    : undefined
+}
@@ -1,9 +1,15 @@
 import { PrismaClient } from '@prisma/client'
+import { createAuditExtension } from './audit'
+
+function createClient() {
+  const client = new PrismaClient()
+  return client.$extends(createAuditExtension(client))
+}
 
 const globalForPrisma = globalThis as unknown as {
-  prisma: PrismaClient | undefined
+  prisma: ReturnType<typeof createClient> | undefined
 }
 
-export const db = globalForPrisma.prisma ?? new PrismaClient()
+export const db = globalForPrisma.prisma ?? createClient()
 
 if (process.env.NODE_ENV !== 'production') globalForPrisma.prisma = db
@@ -0,0 +1,88 @@
+import { describe, expect, it } from 'vitest'
+import {
+  MAX_EXPRESSION_LENGTH,
+  evaluateExpression,
+  getExpressionReferences,
+  parseExpression,
+  type ExpressionFunction,
+  type ExpressionValue
+} from './expression'
+
+const run = (
+  source: string,
+  scope: Record<string, ExpressionValue | undefined> = {},
+  functions: Record<string, ExpressionFunction> = {}
+) => evaluateExpression(parseExpression(source), scope, functions)
+
+describe('evaluateExpression', () => {
+  it.each([
+    ['1 + 2 * 3', 7],
+    ['(1 + 2) * 3', 9],
+    ['10 - 4 - 3', 3],
+    ['7 % 4', 3],
+    ['2 ^ 3 ^ 2', 512],
+    ['-2 ^ 2', -4],
+    ['1.5e2 + .5', 150.5]
+  ])('evaluates %s', (source, value) => {
+    expect(run(source)).toBe(value)
+  })
+
+  it('compares and combines booleans', () => {
+    expect(run('a >= 3 && a < 5', { a: 4 })).toBe(true)
+    expect(run('!(a == 4) || b != \'x\'', { a: 4, b: 'x' })).toBe(false)
+    expect(run("label == 'supply'", { label: 'supply' })).toBe(true)
+  })
+
+  it('evaluates only the chosen branch of a conditional', () => {
+    expect(run('x > 0 ? 100 / x : 0', { x: 0 })).toBe(0)
+    expect(run('x > 0 ? 100 / x : 0', { x: 4 })).toBe(25)
+  })
+
+  it('short-circuits && and ||', () => {
+    expect(run('x > 0 && 10 / x > 2', { x: 0 })).toBe(false)
+    expect(run('x == 0 || 10 / x > 2', { x: 0 })).toBe(true)
+  })
+
+  it('calls whitelisted functions', () => {
+    expect(run('max(a, 2) + abs(-3)', { a: 1 }, { max: Math.max, abs: Math.abs })).toBe(5)
+  })
+
+  it('rejects unknown names and functions', () => {
+    expect(() => run('a + 1')).toThrow("No value for 'a'")
+    expect(() => run('a + 1', { a: undefined })).toThrow("No value for 'a'")
+    expect(() => run('constructor')).toThrow("No value for 'constructor'")
+    expect(() => run('eval(1)')).toThrow("Unknown function 'eval'")
+  })
+
+  it('rejects type mismatches and non-finite results', () => {
+    expect(() => run("1 + 'a'")).toThrow("'+' expects a number")
+    expect(() => run('1 ? 2 : 3')).toThrow("'?' expects true/false")
+    expect(() => run('1 / 0')).toThrow("'/' did not produce a finite number")
+    expect(() => run('sqrt(-1)', {}, { sqrt: Math.sqrt })).toThrow('sqrt() did not produce a finite number')
+  })
+})
+
+describe('parseExpression', () => {
+  it('reports the position of syntax errors', () => {
+    expect(() => parseExpression('1 + * 2')).toThrow("Unexpected '*' at position 5")
+    expect(() => parseExpression('(1 + 2')).toThrow("Expected ')' at position 7")
+    expect(() => parseExpression('1 2')).toThrow("Unexpected '2' at position 3")
+    expect(() => parseExpression('1 +')).toThrow('Unexpected end of expression')
+    expect(() => parseExpression('a $ b')).toThrow("Unexpected character '$' at position 3")
+    expect(() => parseExpression("'open")).toThrow('Unterminated string at position 1')
+  })
+
+  it('limits length and nesting', () => {
+    expect(() => parseExpression('1'.repeat(MAX_EXPRESSION_LENGTH + 1))).toThrow('longer than')
+    expect(() => parseExpression(`${'('.repeat(50)}1${')'.repeat(50)}`)).toThrow('nested too deeply')
+  })
+})
+
+describe('getExpressionReferences', () => {
+  it('lists each identifier and function once', () => {
+    const references = getExpressionReferences(parseExpression('a > 0 ? max(a, b) : min(b, c) + a'))
+
+    expect(references.identifiers).toEqual(['a', 'b', 'c'])
+    expect(references.functions).toEqual(['max', 'min'])
+  })
+})
@@ -0,0 +1,350 @@
+/**
+ * Safe expression evaluator for organization-defined test formulas
+ *
+ * Expressions are tokenized and parsed into a small syntax tree and evaluated
+ * against an explicit scope and function table. Nothing is passed to eval or
+ * the Function constructor, and only whitelisted functions can be called.
+ *
+ * Supported syntax: numbers, 'strings', true/false, identifiers, function calls,
+ * + - * / % ^ (power, right associative), unary - and !, comparisons
+ * (< <= > >= == !=), && ||, the ternary `a ? b : c` and parentheses.
+ */
+
+export type ExpressionValue = number | boolean | string
+
+export type ExpressionNode =
+  | { type: 'literal'; value: ExpressionValue }
+  | { type: 'identifier'; name: string }
+  | { type: 'unary'; operator: '-' | '!'; operand: ExpressionNode }
+  | { type: 'binary'; operator: string; left: ExpressionNode; right: ExpressionNode }
+  | { type: 'conditional'; test: ExpressionNode; consequent: ExpressionNode; alternate: ExpressionNode }
+  | { type: 'call'; name: string; args: ExpressionNode[] }
+
+export type ExpressionFunction = (...args: number[]) => number
+
+export const MAX_EXPRESSION_LENGTH = 500
+const MAX_DEPTH = 40
+
+type Token =
+  | { kind: 'number'; value: number; position: number }
+  | { kind: 'string'; value: string; position: number }
+  | { kind: 'identifier'; value: string; position: number }
+  | { kind: 'operator'; value: string; position: number }
+  | { kind: 'end'; position: number }
+
+const OPERATORS = ['<=', '>=', '==', '!=', '&&', '||', '+', '-', '*', '/', '%', '^', '<', '>', '!', '?', ':', '(', ')', ',']
+
+function tokenize(source: string): Token[] {
+  const tokens: Token[] = []
+  let i = 0
+
+  while (i < source.length) {
+    const char = source[i]
+
+    if (/\s/.test(char)) {
+      i++
+      continue
+    }
+
+    const number = /^(\d+\.?\d*|\.\d+)([eE][+-]?\d+)?/.exec(source.slice(i))
+    if (number) {
+      tokens.push({ kind: 'number', value: parseFloat(number[0]), position: i })
+      i += number[0].length
+      continue
+    }
+
+    const identifier = /^[A-Za-z_][A-Za-z0-9_]*/.exec(source.slice(i))
+    if (identifier) {
+      tokens.push({ kind: 'identifier', value: identifier[0], position: i })
+      i += identifier[0].length
+      continue
+    }
+
+    if (char === "'" || char === '"') {
+      const end = source.indexOf(char, i + 1)
+      if (end === -1) {
+        throw new Error(`Unterminated string at position ${i + 1}`)
+      }
+      tokens.push({ kind: 'string', value: source.slice(i + 1, end), position: i })
+      i = end + 1
+      continue
+    }
+
+    const operator = OPERATORS.find(op => source.substr(i, op.length) === op)
+    if (!operator) {
+      throw new Error(`Unexpected character '${char}' at position ${i + 1}`)
+    }
+    tokens.push({ kind: 'operator', value: operator, position: i })
+    i += operator.length
+  }
+
+  tokens.push({ kind: 'end', position: source.length })
+  return tokens
+}
+
+/**
+ * Parse an expression into a syntax tree
+ * @throws Error describing the first syntax problem
+ */
+export function parseExpression(source: string): ExpressionNode {
+  if (source.length > MAX_EXPRESSION_LENGTH) {
+    throw new Error(`Expression is longer than ${MAX_EXPRESSION_LENGTH} characters`)
+  }
+
+  const tokens = tokenize(source)
+  let index = 0
+  let depth = 0
+
+  const peek = () => tokens[index]
+  const isOperator = (...values: string[]) => {
+    const token = peek()
+    return token.kind === 'operator' && values.indexOf(token.value) !== -1
+  }
+  const next = () => tokens[index++]
+  const expect = (value: string) => {
+    if (!isOperator(value)) {
+      throw new Error(`Expected '${value}' at position ${peek().position + 1}`)
+    }
+    next()
+  }
+
+  const binaryLevel = (operators: string[], operand: () => ExpressionNode) => (): ExpressionNode => {
+    let left = operand()
+    while (isOperator(...operators)) {
+      const operator = (next() as { value: string }).value
+      left = { type: 'binary', operator, left, right: operand() }
+    }
+    return left
+  }
+
+  const primary = (): ExpressionNode => {
+    const token = next()
+
+    if (token.kind === 'number' || token.kind === 'string') {
+      return { type: 'literal', value: token.value }
+    }
+
+    if (token.kind === 'identifier') {
+      if (token.value === 'true' || token.value === 'false') {
+        return { type: 'literal', value: token.value === 'true' }
+      }
+      if (!isOperator('(')) {
+        return { type: 'identifier', name: token.value }
+      }
+      next()
+      const args: ExpressionNode[] = []
+      if (!isOperator(')')) {
+        args.push(expression())
+        while (isOperator(',')) {
+          next()
+          args.push(expression())
+        }
+      }
+      expect(')')
+      return { type: 'call', name: token.value, args }
+    }
+
+    if (token.kind === 'operator' && token.value === '(') {
+      const inner = expression()
+      expect(')')
+      return inner
+    }
+
+    throw new Error(token.kind === 'end'
+      ? 'Unexpected end of expression'
+      : `Unexpected '${token.value}' at position ${token.position + 1}`)
+  }
+
+  const unary = (): ExpressionNode => {
+    if (isOperator('-', '!')) {
+      const operator = (next() as { value: string }).value as '-' | '!'
+      return { type: 'unary', operator, operand: unary() }
+    }
+    return power()
+  }
+
+  const power = (): ExpressionNode => {
+    const base = primary()
+    if (isOperator('^')) {
+      next()
+      return { type: 'binary', operator: '^', left: base, right: unary() }
+    }
+    return base
+  }
+
+  const multiplicative = binaryLevel(['*', '/', '%'], unary)
+  const additive = binaryLevel(['+', '-'], multiplicative)
+  const comparison = binaryLevel(['<', '<=', '>', '>='], additive)
+  const equality = binaryLevel(['==', '!='], comparison)
+  const and = binaryLevel(['&&'], equality)
+  const or = binaryLevel(['||'], and)
+
+  function expression(): ExpressionNode {
+    if (++depth > MAX_DEPTH) {
+      throw new Error('Expression is nested too deeply')
+    }
+    const test = or()
+    let node = test
+    if (isOperator('?')) {
+      next()
+      const consequent = expression()
+      expect(':')
+      node = { type: 'conditional', test, consequent, alternate: expression() }
+    }
+    depth--
+    return node
+  }
+
+  const tree = expression()
+  if (peek().kind !== 'end') {
+    const token = peek() as { value: string; position: number }
+    throw new Error(`Unexpected '${token.value}' at position ${token.position + 1}`)
+  }
+  return tree
+}
+
+/**
+ * Identifiers and function names an expression refers to
+ */
+export function getExpressionReferences(node: ExpressionNode): { identifiers: string[]; functions: string[] } {
+  const identifiers: string[] = []
+  const functions: string[] = []
+
+  const visit = (current: ExpressionNode) => {
+    switch (current.type) {
+      case 'identifier':
+        if (identifiers.indexOf(current.name) === -1) identifiers.push(current.name)
+        break
+      case 'unary':
+        visit(current.operand)
+        break
+      case 'binary':
+        visit(current.left)
+        visit(current.right)
+        break
+      case 'conditional':
+        visit(current.test)
+        visit(current.consequent)
+        visit(current.alternate)
+        break
+      case 'call':
+        if (functions.indexOf(current.name) === -1) functions.push(current.name)
+        current.args.forEach(visit)
+        break
+    }
+  }
+
+  visit(node)
+  return { identifiers, functions }
+}
+
+const has = (object: object, key: string) => Object.prototype.hasOwnProperty.call(object, key)
+
+function asNumber(value: ExpressionValue, context: string): number {
+  if (typeof value !== 'number') {
+    throw new Error(`${context} expects a number, got ${JSON.stringify(value)}`)
+  }
+  return value
+}
+
+function asBoolean(value: ExpressionValue, context: string): boolean {
+  if (typeof value !== 'boolean') {
+    throw new Error(`${context} expects true/false, got ${JSON.stringify(value)}`)
+  }
+  return value
+}
+
+function finite(value: number, context: string): number {
+  if (!isFinite(value)) {
+    throw new Error(`${context} did not produce a finite number`)
+  }
+  return value
+}
+
+/**
+ * Evaluate a parsed expression
+ * @param scope - Values available to identifiers; missing values are errors
+ * @param functions - Functions the expression may call (numeric arguments only)
+ * @throws Error for unknown names, type mismatches and non-finite results
+ */
+export function evaluateExpression(
+  node: ExpressionNode,
+  scope: Record<string, ExpressionValue | undefined>,
+  functions: Record<string, ExpressionFunction> = {}
+): ExpressionValue {
+  const evaluate = (current: ExpressionNode): ExpressionValue => {
+    switch (current.type) {
+      case 'literal':
+        return current.value
+
+      case 'identifier': {
+        const value = has(scope, current.name) ? scope[current.name] : undefined
+        if (value === undefined) {
+          throw new Error(`No value for '${current.name}'`)
+        }
+        return value
+      }
+
+      case 'unary': {
+        const operand = evaluate(current.operand)
+        return current.operator === '-'
+          ? -asNumber(operand, "'-'")
+          : !asBoolean(operand, "'!'")
+      }
+
+      case 'conditional':
+        return asBoolean(evaluate(current.test), "'?'")
+          ? evaluate(current.consequent)
+          : evaluate(current.alternate)
+
+      case 'call': {
+        if (!has(functions, current.name)) {
+          throw new Error(`Unknown function '${current.name}'`)
+        }
+        const args = current.args.map(arg => asNumber(evaluate(arg), `${current.name}()`))
+        return finite(functions[current.name].apply(null, args), `${current.name}()`)
+      }
+
+      case 'binary':
+        return evaluateBinary(current.operator, current.left, current.right)
+    }
+  }
+
+  const evaluateBinary = (operator: string, leftNode: ExpressionNode, rightNode: ExpressionNode): ExpressionValue => {
+    const label = `'${operator}'`
+
+    // Short-circuit so guards like `x > 0 && y / x > 2` are safe
+    if (operator === '&&') {
+      return asBoolean(evaluate(leftNode), label) && asBoolean(evaluate(rightNode), label)
+    }
+    if (operator === '||') {
+      return asBoolean(evaluate(leftNode), label) || asBoolean(evaluate(rightNode), label)
+    }
+
+    const left = evaluate(leftNode)
+    const right = evaluate(rightNode)
+
+    if (operator === '==') return left === right
+    if (operator === '!=') return left !== right
+
+    const a = asNumber(left, label)
+    const b = asNumber(right, label)
+
+    switch (operator) {
+      case '+': return finite(a + b, label)
+      case '-': return finite(a - b, label)
+      case '*': return finite(a * b, label)
+      case '/': return finite(a / b, label)
+      case '%': return finite(a % b, label)
+      case '^': return finite(Math.pow(a, b), label)
+      case '<': return a < b
+      case '<=': return a <= b
+      case '>': return a > b
+      case '>=': return a >= b
+      default:
+        throw new Error(`Unknown operator ${label}`)
+    }
+  }
+
+  return evaluate(node)
+}
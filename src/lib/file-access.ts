@@ -0,0 +1,88 @@
+/**
+ * File access
+ * Files may only be linked to a project through their area, unit, session or
+ * test, so access checks resolve the project through those relations.
+ */
+
+import { Role } from '@prisma/client'
+import { checkProjectAccess } from './auth-middleware'
+import { db } from './db'
+
+/**
+ * Relations to select alongside a file so its project can be resolved
+ */
+export const fileProjectSelect = {
+  projectId: true,
+  area: { select: { projectId: true } },
+  unit: { select: { area: { select: { projectId: true } } } },
+  session: { select: { area: { select: { projectId: true } } } },
+  testResult: { select: { session: { select: { area: { select: { projectId: true } } } } } }
+} as const
+
+interface FileProjectRelations {
+  projectId: string | null
+  area: { projectId: string } | null
+  unit: { area: { projectId: string } } | null
+  session: { area: { projectId: string } } | null
+  testResult: { session: { area: { projectId: string } } } | null
+}
+
+export function getFileProjectId(file: FileProjectRelations): string | null {
+  return file.projectId
+    ?? file.area?.projectId
+    ?? file.unit?.area.projectId
+    ?? file.session?.area.projectId
+    ?? file.testResult?.session.area.projectId
+    ?? null
+}
+
+/**
+ * Whether a user can view a file; files outside any project are admin-only
+ */
+export async function canViewFile(user: { id: string; role: Role }, file: FileProjectRelations): Promise<boolean> {
+  const projectId = getFileProjectId(file)
+
+  return projectId
+    ? checkProjectAccess(user.id, projectId, 'VIEWER')
+    : user.role === 'ADMIN'
+}
+
+/**
+ * Project and session an upload is for, resolved from its most specific target
+ * (test, session, area, then project) rather than trusting the client's ids
+ * @returns null when the target doesn't exist
+ */
+export async function resolveUploadTarget(target: {
+  projectId?: string
+  areaId?: string
+  sessionId?: string
+  testResultId?: string
+}): Promise<{ projectId: string | null; sessionId?: string } | null> {
+  if (target.testResultId) {
+    const testResult = await db.testResult.findUnique({
+      where: { id: target.testResultId },
+      select: { sessionId: true, session: { select: { area: { select: { projectId: true } } } } }
+    })
+    return testResult
+      ? { projectId: testResult.session.area.projectId, sessionId: testResult.sessionId }
+      : null
+  }
+
+  if (target.sessionId) {
+    const session = await db.session.findUnique({
+      where: { id: target.sessionId },
+      select: { area: { select: { projectId: true } } }
+    })
+    return session ? { projectId: session.area.projectId, sessionId: target.sessionId } : null
+  }
+
+  if (target.areaId) {
+    const area = await db.area.findUnique({
+      where: { id: target.areaId },
+      select: { projectId: true }
+    })
+    return area ? { projectId: area.projectId } : null
+  }
+
+  return { projectId: target.projectId ?? null }
+}
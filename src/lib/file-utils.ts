@@ -0,0 +1,175 @@
+/**
+ * File helpers shared by the upload UI and the storage API routes.
+ * Kept free of server-only imports so client components can use them.
+ */
+
+/**
+ * Get folder path based on context
+ */
+export function getUploadFolder(context: {
+  projectId?: string
+  areaId?: string
+  sessionId?: string
+  testResultId?: string
+  category?: string
+}): string {
+  const { projectId, areaId, sessionId, testResultId, category } = context
+  
+  let folder = 'general'
+  
+  if (testResultId) {
+    folder = `projects/${projectId}/sessions/${sessionId}/tests/${testResultId}`
+  } else if (sessionId) {
+    folder = `projects/${projectId}/sessions/${sessionId}`
+  } else if (areaId) {
+    folder = `projects/${projectId}/areas/${areaId}`
+  } else if (projectId) {
+    folder = `projects/${projectId}`
+  }
+  
+  if (category) {
+    folder += `/${category.toLowerCase()}`
+  }
+  
+  return folder
+}
+
+/**
+ * Project a storage key belongs to, following the folder layout above
+ */
+export function getProjectIdFromKey(key: string): string | null {
+  const match = /^projects\/([^/]+)\//.exec(key)
+  return match ? match[1] : null
+}
+
+export type FileRendition = 'thumbnail' | 'preview'
+
+/**
+ * Route that checks project access before serving a stored file.
+ * Clients use this rather than the storage location kept in FileAsset.url.
+ */
+export function getFileDownloadPath(fileId: string, rendition?: FileRendition): string {
+  const path = `/api/files/${fileId}/download`
+  return rendition ? `${path}?size=${rendition}` : path
+}
+
+/**
+ * Swap the stored location for the download route in API responses,
+ * adding rendition URLs where the server has generated them. Storage keys
+ * stay on the server.
+ */
+export function withDownloadUrl<T extends {
+  id: string
+  url: string
+  filename: string
+  thumbnailKey: string | null
+  previewKey: string | null
+  thermalKey: string | null
+}>(file: T) {
+  const { filename, thumbnailKey, previewKey, thermalKey, ...rest } = file
+  return {
+    ...rest,
+    url: getFileDownloadPath(file.id),
+    thumbnailUrl: thumbnailKey ? getFileDownloadPath(file.id, 'thumbnail') : null,
+    previewUrl: previewKey ? getFileDownloadPath(file.id, 'preview') : null,
+  }
+}
+
+// Photos taken further than this from every test aren't matched to one; capture times are
+// already resolved to UTC from the EXIF offset or project time zone, so this only absorbs clock drift
+const TEST_SUGGESTION_WINDOW_MS = 2 * 60 * 60 * 1000
+
+/**
+ * Test recorded closest in time to when a photo was taken
+ */
+export function findClosestTest<T extends { createdAt: string | Date }>(
+  takenAt: string | Date | null | undefined,
+  tests: T[]
+): T | null {
+  if (!takenAt) {
+    return null
+  }
+
+  const takenTime = new Date(takenAt).getTime()
+  let closest: T | null = null
+  let closestGap = TEST_SUGGESTION_WINDOW_MS
+
+  for (const test of tests) {
+    const gap = Math.abs(new Date(test.createdAt).getTime() - takenTime)
+    if (gap <= closestGap) {
+      closest = test
+      closestGap = gap
+    }
+  }
+
+  return closest
+}
+
+// Maximum file size: 50MB
+export const MAX_FILE_SIZE = 50 * 1024 * 1024
+
+/**
+ * Validate file type and size
+ */
+export interface FileValidationResult {
+  valid: boolean
+  error?: string
+}
+
+export function validateFile(file: File): FileValidationResult {
+  // Allowed file types
+  const ALLOWED_TYPES = [
+    'image/jpeg',
+    'image/jpg', 
+    'image/png',
+    'image/webp',
+    'image/tiff',
+    'application/pdf',
+    'text/plain',
+    'text/csv',
+    'application/vnd.ms-excel',
+    'application/vnd.openxmlformats-officedocument.spreadsheetml.sheet',
+  ]
+
+  if (file.size > MAX_FILE_SIZE) {
+    return {
+      valid: false,
+      error: 'File size must be less than 50MB'
+    }
+  }
+
+  if (!ALLOWED_TYPES.includes(file.type)) {
+    return {
+      valid: false,
+      error: 'File type not allowed. Please use images, PDF, or spreadsheet files.'
+    }
+  }
+
+  return { valid: true }
+}
+
+const IR_FILENAME_PATTERN = /^(FLIR|IR_|IR-)/i
+
+/**
+ * Get file category based on MIME type and camera filename patterns
+ */
+export function categorizeFile(mimeType: string, filename?: string): string {
+  if (mimeType.startsWith('image/')) {
+    // Thermal cameras name files FLIR0001.jpg, IR_0001.jpg etc. Radiometric
+    // images are also recognised from their contents once uploaded.
+    if (filename && IR_FILENAME_PATTERN.test(filename)) {
+      return 'IR_IMAGE'
+    }
+    return 'PHOTO'
+  }
+  
+  if (mimeType === 'application/pdf') {
+    return 'DOCUMENT'
+  }
+  
+  if (mimeType.includes('spreadsheet') || mimeType.includes('excel') || mimeType === 'text/csv') {
+    return 'DOCUMENT'
+  }
+  
+  return 'OTHER'
+}
@@ -0,0 +1,131 @@
+/**
+ * Image metadata
+ *
+ * Reads EXIF capture details from evidence photos so they can be placed in
+ * time and space: when the photo was taken, where, and with which camera.
+ */
+
+import exifr from 'exifr'
+
+export interface ImageMetadata {
+  takenAt: Date | null
+  latitude: number | null
+  longitude: number | null
+  cameraMake: string | null
+  cameraModel: string | null
+  orientation: number | null // EXIF orientation tag, 1-8
+}
+
+const EMPTY_METADATA: ImageMetadata = {
+  takenAt: null,
+  latitude: null,
+  longitude: null,
+  cameraMake: null,
+  cameraModel: null,
+  orientation: null,
+}
+
+function validDate(value: unknown): Date | null {
+  return value instanceof Date && !isNaN(value.getTime()) ? value : null
+}
+
+function finiteNumber(value: unknown): number | null {
+  return typeof value === 'number' && Number.isFinite(value) ? value : null
+}
+
+function trimmedString(value: unknown): string | null {
+  return typeof value === 'string' && value.trim() ? value.trim() : null
+}
+
+// EXIF offset tags look like "+02:00" or "-05:00"
+function offsetMinutes(value: unknown): number | null {
+  const match = typeof value === 'string' ? value.trim().match(/^([+-])(\d{2}):(\d{2})$/) : null
+  if (!match) return null
+
+  const minutes = Number(match[2]) * 60 + Number(match[3])
+  return match[1] === '-' ? -minutes : minutes
+}
+
+/**
+ * UTC offset of a time zone at an instant, in minutes
+ */
+function zoneOffsetMinutes(instant: number, timeZone: string): number {
+  const formatted = new Intl.DateTimeFormat('en-US', {
+    timeZone,
+    hour12: false,
+    year: 'numeric',
+    month: '2-digit',
+    day: '2-digit',
+    hour: '2-digit',
+    minute: '2-digit',
+    second: '2-digit',
+  }).format(new Date(instant))
+  const [month, day, year, hour, minute, second] = (formatted.match(/\d+/g) || []).map(Number)
+
+  return Math.round((Date.UTC(year, month - 1, day, hour % 24, minute, second) - instant) / 60000)
+}
+
+/**
+ * Capture instant of an EXIF date, which is the camera's wall-clock time
+ * The offset tag is applied when the camera wrote one; otherwise the time is
+ * read in the project's time zone.
+ */
+function captureTime(value: unknown, offset: unknown, timeZone: string): Date | null {
+  const date = validDate(value)
+  if (!date) return null
+
+  // exifr revives EXIF dates in the server's local time, so its local fields are the wall clock
+  const wallClock = Date.UTC(
+    date.getFullYear(), date.getMonth(), date.getDate(),
+    date.getHours(), date.getMinutes(), date.getSeconds()
+  )
+
+  const recordedOffset = offsetMinutes(offset)
+  if (recordedOffset !== null) {
+    return new Date(wallClock - recordedOffset * 60000)
+  }
+
+  // Re-check the zone offset at the first estimate so times near a DST change land correctly
+  const estimate = wallClock - zoneOffsetMinutes(wallClock, timeZone) * 60000
+  return new Date(wallClock - zoneOffsetMinutes(estimate, timeZone) * 60000)
+}
+
+/**
+ * Extract capture metadata from an image's EXIF block
+ * Images without EXIF, or that fail to parse, yield all-null metadata.
+ * @param timeZone - IANA time zone for capture times without an EXIF offset
+ */
+export async function extractImageMetadata(body: Uint8Array, timeZone = 'UTC'): Promise<ImageMetadata> {
+  try {
+    const exif = await exifr.parse(Buffer.from(body), {
+      tiff: true,
+      exif: true,
+      gps: true,
+      translateValues: false, // Keep Orientation numeric
+      reviveValues: true, // Dates as Date objects
+    })
+
+    if (!exif) {
+      return EMPTY_METADATA
+    }
+
+    // Cameras without a GPS fix write 0/0
+    const latitude = finiteNumber(exif.latitude)
+    const longitude = finiteNumber(exif.longitude)
+    const hasLocation = latitude !== null && longitude !== null && !(latitude === 0 && longitude === 0)
+
+    return {
+      takenAt: captureTime(exif.DateTimeOriginal, exif.OffsetTimeOriginal ?? exif.OffsetTime, timeZone) ??
+        captureTime(exif.CreateDate, exif.OffsetTimeDigitized ?? exif.OffsetTime, timeZone) ??
+        captureTime(exif.ModifyDate, exif.OffsetTime, timeZone),
+      latitude: hasLocation ? latitude : null,
+      longitude: hasLocation ? longitude : null,
+      cameraMake: trimmedString(exif.Make),
+      cameraModel: trimmedString(exif.Model),
+      orientation: finiteNumber(exif.Orientation),
+    }
+  } catch (error) {
+    console.error('EXIF parse error:', error)
+    return EMPTY_METADATA
+  }
+}
@@ -0,0 +1,62 @@
+/**
+ * Uploaded image processing
+ *
+ * Runs once an image upload is confirmed: reads EXIF capture details,
+ * stores thumbnail and preview renditions, and for radiometric IR images
+ * stores the temperature grid and marks the file as IR_IMAGE. Each step is
+ * best-effort; a failure leaves the upload in place without that data.
+ */
+
+import { Prisma } from '@prisma/client'
+import { db } from './db'
+import { getFileContents, uploadFile } from './storage'
+import { extractImageMetadata } from './image-metadata'
+import { createImageRenditions } from './image-renditions'
+import { encodeTemperatureGrid, extractThermalImage } from './ir-radiometric'
+
+/**
+ * Storage key for an IR image's temperature grid, stored alongside the original
+ */
+function getThermalKey(originalKey: string): string {
+  return `${originalKey.replace(/\.[^./]+$/, '')}-thermal.bin`
+}
+
+async function storeThermalData(originalKey: string, original: Uint8Array) {
+  const thermal = await extractThermalImage(original)
+  if (!thermal) {
+    return {}
+  }
+
+  const thermalKey = getThermalKey(originalKey)
+  await uploadFile(thermalKey, encodeTemperatureGrid(thermal.temperatures_F), 'application/octet-stream')
+
+  return {
+    thermal: thermal.summary as unknown as Prisma.InputJsonValue,
+    thermalKey,
+    category: 'IR_IMAGE' as const
+  }
+}
+
+/**
+ * Process an uploaded image and record the results on its FileAsset
+ * @param timeZone - Project time zone for capture times the camera recorded without an offset
+ * @returns the updated FileAsset fields
+ */
+export async function processUploadedImage(file: { id: string; filename: string }, timeZone?: string | null) {
+  const original = await getFileContents(file.filename)
+
+  const metadata = await extractImageMetadata(original, timeZone ?? undefined)
+  const renditions = await createImageRenditions(file.filename, original).catch(error => {
+    console.error('Image rendition error:', error)
+    return {}
+  })
+  const thermal = await storeThermalData(file.filename, original).catch(error => {
+    console.error('Radiometric IR error:', error)
+    return {}
+  })
+
+  return db.fileAsset.update({
+    where: { id: file.id },
+    data: { ...metadata, ...renditions, ...thermal }
+  })
+}
@@ -0,0 +1,56 @@
+/**
+ * Image renditions
+ *
+ * Uploaded photos can be up to 50 MB, so once an upload is confirmed the
+ * server stores smaller JPEG copies next to the original: a thumbnail for
+ * gallery grids and a preview for viewers and PDF reports. JPEG is also
+ * what makes TIFF images from IR cameras viewable in the browser.
+ */
+
+import sharp from 'sharp'
+import { uploadFile } from './storage'
+import type { FileRendition } from './file-utils'
+
+const RENDITIONS: Record<FileRendition, { maxPx: number; quality: number }> = {
+  thumbnail: { maxPx: 320, quality: 70 },
+  preview: { maxPx: 1600, quality: 80 },
+}
+
+/**
+ * Whether renditions can be generated for this MIME type
+ */
+export function supportsRenditions(mimeType: string): boolean {
+  return mimeType.startsWith('image/')
+}
+
+/**
+ * Storage key for a rendition, stored alongside the original
+ */
+function getRenditionKey(originalKey: string, rendition: FileRendition): string {
+  return `${originalKey.replace(/\.[^./]+$/, '')}-${rendition}.jpg`
+}
+
+async function renderJpeg(original: Uint8Array, rendition: FileRendition) {
+  const { maxPx, quality } = RENDITIONS[rendition]
+
+  return sharp(original) // First page only for multi-page TIFFs
+    .rotate() // Apply EXIF orientation before it is stripped
+    .resize(maxPx, maxPx, { fit: 'inside', withoutEnlargement: true })
+    .flatten({ background: '#FFFFFF' })
+    .jpeg({ quality })
+    .toBuffer()
+}
+
+/**
+ * Generate and store the thumbnail and preview for an image file
+ * @returns the rendition keys to record on the FileAsset
+ */
+export async function createImageRenditions(originalKey: string, original: Uint8Array) {
+  const thumbnailKey = getRenditionKey(originalKey, 'thumbnail')
+  const previewKey = getRenditionKey(originalKey, 'preview')
+
+  await uploadFile(thumbnailKey, new Uint8Array(await renderJpeg(original, 'thumbnail')), 'image/jpeg')
+  await uploadFile(previewKey, new Uint8Array(await renderJpeg(original, 'preview')), 'image/jpeg')
+
+  return { thumbnailKey, previewKey }
+}
@@ -0,0 +1,172 @@
+/**
+ * Project invitations
+ *
+ * Invitations are VerificationToken rows whose identifier encodes the project,
+ * role and invited email: "project-invite:<projectId>:<role>:<email>".
+ * NextAuth's own tokens use bare email identifiers, so the prefix keeps them apart.
+ */
+
+import { randomBytes } from 'crypto'
+import { RoleInProject } from '@prisma/client'
+import { db } from './db'
+import { sendMail } from './mail'
+
+const INVITE_PREFIX = 'project-invite'
+export const INVITATION_TTL_DAYS = 7
+
+export interface ProjectInvitation {
+  projectId: string
+  role: RoleInProject
+  email: string
+  token: string
+  expires: Date
+}
+
+function invitationIdentifier(projectId: string, role: RoleInProject, email: string) {
+  return `${INVITE_PREFIX}:${projectId}:${role}:${email.toLowerCase()}`
+}
+
+function parseInvitation(row: { identifier: string; token: string; expires: Date }): ProjectInvitation | null {
+  const [prefix, projectId, role, ...emailParts] = row.identifier.split(':')
+  if (prefix !== INVITE_PREFIX || !projectId || !role || emailParts.length === 0) {
+    return null
+  }
+
+  return {
+    projectId,
+    role: role as RoleInProject,
+    email: emailParts.join(':'),
+    token: row.token,
+    expires: row.expires
+  }
+}
+
+/**
+ * Link for the invited user to register with
+ */
+export function getInvitationUrl(invitation: ProjectInvitation) {
+  const baseUrl = process.env.NEXTAUTH_URL || ''
+  return `${baseUrl}/register?invite=${invitation.token}&email=${encodeURIComponent(invitation.email)}`
+}
+
+/**
+ * Email the invitation link to the invited address
+ * @param invitedBy - Name or email of the owner who sent the invitation
+ * @returns Whether the email was sent rather than only logged
+ */
+export async function sendInvitationEmail(invitation: ProjectInvitation, invitedBy: string) {
+  const project = await db.project.findUnique({
+    where: { id: invitation.projectId },
+    select: { name: true }
+  })
+
+  return sendMail({
+    to: invitation.email,
+    subject: `You're invited to ${project?.name ?? 'a project'} on Humidity Investigation Logger`,
+    text: [
+      `${invitedBy} invited you to join ${project?.name ?? 'a project'} as ${invitation.role.toLowerCase()}.`,
+      '',
+      `Create your account with this link to join: ${getInvitationUrl(invitation)}`,
+      '',
+      `The link expires on ${invitation.expires.toUTCString()}.`
+    ].join('\n')
+  })
+}
+
+/**
+ * Create (or replace) a pending invitation for an email address
+ */
+export async function createInvitation(
+  projectId: string,
+  email: string,
+  role: RoleInProject
+): Promise<ProjectInvitation> {
+  await revokeInvitation(projectId, email)
+
+  const row = await db.verificationToken.create({
+    data: {
+      identifier: invitationIdentifier(projectId, role, email),
+      token: randomBytes(32).toString('hex'),
+      expires: new Date(Date.now() + INVITATION_TTL_DAYS * 24 * 60 * 60 * 1000)
+    }
+  })
+
+  return parseInvitation(row)!
+}
+
+/**
+ * Pending, unexpired invitations for a project
+ */
+export async function getProjectInvitations(projectId: string) {
+  const rows = await db.verificationToken.findMany({
+    where: {
+      identifier: { startsWith: `${INVITE_PREFIX}:${projectId}:` },
+      expires: { gt: new Date() }
+    },
+    orderBy: { expires: 'desc' }
+  })
+
+  return rows
+    .map(parseInvitation)
+    .filter((invitation): invitation is ProjectInvitation => invitation !== null)
+}
+
+/**
+ * Remove any pending invitation for an email on a project
+ * @returns Number of invitations removed
+ */
+export async function revokeInvitation(projectId: string, email: string) {
+  const { count } = await db.verificationToken.deleteMany({
+    where: {
+      identifier: {
+        startsWith: `${INVITE_PREFIX}:${projectId}:`,
+        endsWith: `:${email.toLowerCase()}`
+      }
+    }
+  })
+
+  return count
+}
+
+/**
+ * Join a newly registered user to every project they were invited to.
+ * The token from the invitation link must belong to the same email, which
+ * shows the user received the invitation.
+ * @returns Ids of the projects joined
+ */
+export async function acceptInvitations(userId: string, email: string, token: string) {
+  const invited = await db.verificationToken.findUnique({ where: { token } })
+  const invitation = invited && parseInvitation(invited)
+
+  if (!invitation || invitation.email !== email.toLowerCase() || invitation.expires < new Date()) {
+    return []
+  }
+
+  const rows = await db.verificationToken.findMany({
+    where: {
+      identifier: {
+        startsWith: `${INVITE_PREFIX}:`,
+        endsWith: `:${email.toLowerCase()}`
+      },
+      expires: { gt: new Date() }
+    }
+  })
+
+  const invitations = rows
+    .map(parseInvitation)
+    .filter((i): i is ProjectInvitation => i !== null && i.email === email.toLowerCase())
+
+  for (const { projectId, role } of invitations) {
+    await db.membership.upsert({
+      where: { userId_projectId: { userId, projectId } },
+      update: {},
+      create: { userId, projectId, role }
+    })
+  }
+
+  await db.verificationToken.deleteMany({
+    where: { token: { in: rows.map(row => row.token) } }
+  })
+
+  return invitations.map(i => i.projectId)
+}
@@ -0,0 +1,351 @@
+/**
+ * Radiometric IR images
+ *
+ * FLIR-style radiometric JPEGs carry the raw sensor frame and the camera's
+ * calibration in APP1 segments (an "FFF" container split into chunks). This
+ * reads both and converts raw values to surface temperatures with the
+ * camera's Planck constants and the emissivity, reflected temperature and
+ * atmosphere recorded at capture, following the conversion used by ExifTool
+ * and the Thermimage package.
+ */
+
+import sharp from 'sharp'
+
+export interface ThermalSummary {
+  width: number
+  height: number
+  minTemp_F: number
+  maxTemp_F: number
+  avgTemp_F: number
+  spotTemp_F: number | null // Centre pixel, as the camera's default spot meter; null when it has no reading
+  emissivity: number
+  reflectedTemp_F: number
+  camera: string | null
+}
+
+export interface ThermalImage {
+  summary: ThermalSummary
+  temperatures_F: Float32Array // Row-major, width x height
+}
+
+interface CameraCalibration {
+  emissivity: number
+  objectDistance_m: number
+  reflectedTemp_K: number
+  atmosphericTemp_K: number
+  irWindowTemp_K: number
+  irWindowTransmission: number
+  relativeHumidity: number // 0-1
+  planckR1: number
+  planckB: number
+  planckF: number
+  planckO: number
+  planckR2: number
+  alpha1: number
+  alpha2: number
+  beta1: number
+  beta2: number
+  atmosphericTransX: number
+  camera: string | null
+}
+
+const FLIR_SEGMENT_HEADER = 'FLIR\0'
+const RECORD_RAW_DATA = 0x0001
+const RECORD_CAMERA_INFO = 0x0020
+const PNG_SIGNATURE = [0x89, 0x50, 0x4e, 0x47]
+
+const celsiusToFahrenheit = (celsius: number) => celsius * 9 / 5 + 32
+
+/**
+ * Reassemble the FFF container from a JPEG's FLIR APP1 segments
+ */
+function readFlirSegments(jpeg: Uint8Array): Buffer | null {
+  const data = Buffer.from(jpeg.buffer, jpeg.byteOffset, jpeg.byteLength)
+  if (data.length < 4 || data[0] !== 0xff || data[1] !== 0xd8) {
+    return null
+  }
+
+  const chunks: Array<{ index: number; body: Buffer }> = []
+  let offset = 2
+
+  while (offset + 4 <= data.length && data[offset] === 0xff) {
+    const marker = data[offset + 1]
+    // APP segments all come before the scan data
+    if (marker === 0xda || marker === 0xd9) {
+      break
+    }
+
+    const length = data.readUInt16BE(offset + 2)
+    const payload = data.subarray(offset + 4, offset + 2 + length)
+
+    if (marker === 0xe1 && payload.toString('latin1', 0, 5) === FLIR_SEGMENT_HEADER) {
+      chunks.push({ index: payload[6], body: payload.subarray(8) })
+    }
+
+    offset += 2 + length
+  }
+
+  if (chunks.length === 0) {
+    return null
+  }
+
+  return Buffer.concat(chunks.sort((a, b) => a.index - b.index).map(chunk => chunk.body))
+}
+
+/**
+ * Locate records in an FFF container by type
+ */
+function readFffRecords(fff: Buffer): Map<number, Buffer> {
+  const records = new Map<number, Buffer>()
+  const magic = fff.toString('latin1', 0, 3)
+  if (fff.length < 0x40 || (magic !== 'FFF' && magic !== 'AFF')) {
+    return records
+  }
+
+  // Version 100-199 in the header's byte order tells us which that is
+  const versionBE = fff.readUInt32BE(0x14)
+  const bigEndian = versionBE >= 100 && versionBE < 200
+  const read32 = (at: number) => bigEndian ? fff.readUInt32BE(at) : fff.readUInt32LE(at)
+  const read16 = (at: number) => bigEndian ? fff.readUInt16BE(at) : fff.readUInt16LE(at)
+
+  const directoryOffset = read32(0x18)
+  const entryCount = read32(0x1c)
+
+  for (let i = 0; i < entryCount; i++) {
+    const entry = directoryOffset + i * 0x20
+    if (entry + 0x20 > fff.length) {
+      break
+    }
+
+    const type = read16(entry)
+    const recordOffset = read32(entry + 0x0c)
+    const recordLength = read32(entry + 0x10)
+
+    if (type !== 0 && recordOffset + recordLength <= fff.length && !records.has(type)) {
+      records.set(type, fff.subarray(recordOffset, recordOffset + recordLength))
+    }
+  }
+
+  return records
+}
+
+/**
+ * Records start with the value 2, which tells us their byte order
+ */
+function isLittleEndianRecord(record: Buffer): boolean {
+  return record.readUInt16BE(0) >= 0x0100
+}
+
+function readCameraInfo(record: Buffer): CameraCalibration | null {
+  if (record.length < 0x310) {
+    return null
+  }
+
+  const le = isLittleEndianRecord(record)
+  const float = (at: number) => le ? record.readFloatLE(at) : record.readFloatBE(at)
+  const int32 = (at: number) => le ? record.readInt32LE(at) : record.readInt32BE(at)
+  const text = (at: number, length: number) => record.toString('latin1', at, at + length).split('\0')[0].trim()
+
+  const humidity = float(0x3c)
+
+  return {
+    emissivity: float(0x20),
+    objectDistance_m: float(0x24),
+    reflectedTemp_K: float(0x28),
+    atmosphericTemp_K: float(0x2c),
+    irWindowTemp_K: float(0x30),
+    irWindowTransmission: float(0x34),
+    relativeHumidity: humidity > 2 ? humidity / 100 : humidity,
+    planckR1: float(0x58),
+    planckB: float(0x5c),
+    planckF: float(0x60),
+    alpha1: float(0x70),
+    alpha2: float(0x74),
+    beta1: float(0x78),
+    beta2: float(0x7c),
+    atmosphericTransX: float(0x80),
+    camera: text(0xd4, 32) || null,
+    planckO: int32(0x308),
+    planckR2: float(0x30c),
+  }
+}
+
+async function readRawData(record: Buffer): Promise<{ width: number; height: number; raw: Uint16Array } | null> {
+  if (record.length < 0x20) {
+    return null
+  }
+
+  const le = isLittleEndianRecord(record)
+  const width = le ? record.readUInt16LE(2) : record.readUInt16BE(2)
+  const height = le ? record.readUInt16LE(4) : record.readUInt16BE(4)
+  const pixels = width * height
+  const image = record.subarray(0x20)
+
+  if (pixels === 0) {
+    return null
+  }
+
+  if (PNG_SIGNATURE.every((byte, i) => image[i] === byte)) {
+    const { data, info } = await sharp(image)
+      .extractChannel(0)
+      .raw({ depth: 'ushort' })
+      .toBuffer({ resolveWithObject: true })
+
+    if (info.width !== width || info.height !== height) {
+      return null
+    }
+
+    // FLIR writes its 16-bit PNGs little-endian, against the PNG spec
+    const decoded = new Uint16Array(data.buffer, data.byteOffset, pixels)
+    const raw = new Uint16Array(pixels)
+    for (let i = 0; i < pixels; i++) {
+      raw[i] = ((decoded[i] & 0xff) << 8) | (decoded[i] >> 8)
+    }
+    return { width, height, raw }
+  }
+
+  if (image.length < pixels * 2) {
+    return null
+  }
+
+  const raw = new Uint16Array(pixels)
+  for (let i = 0; i < pixels; i++) {
+    raw[i] = le ? image.readUInt16LE(i * 2) : image.readUInt16BE(i * 2)
+  }
+  return { width, height, raw }
+}
+
+/**
+ * Build a raw-value-to-temperature converter for a camera's calibration
+ */
+function createRawConverter(cal: CameraCalibration): (raw: number) => number {
+  const { planckR1: R1, planckR2: R2, planckB: B, planckF: F, planckO: O } = cal
+  const E = cal.emissivity
+  const IRT = cal.irWindowTransmission > 0 ? cal.irWindowTransmission : 1
+
+  // Water vapour content and atmospheric transmission over half the distance
+  // on either side of the (optional) IR window
+  const atmC = cal.atmosphericTemp_K - 273.15
+  const h2o = cal.relativeHumidity * Math.exp(1.5587 + 0.06939 * atmC - 0.00027816 * atmC ** 2 + 0.00000068455 * atmC ** 3)
+  const halfDistance = Math.sqrt(Math.max(cal.objectDistance_m, 0) / 2)
+  const tau = cal.atmosphericTransX * Math.exp(-halfDistance * (cal.alpha1 + cal.beta1 * Math.sqrt(h2o)))
+    + (1 - cal.atmosphericTransX) * Math.exp(-halfDistance * (cal.alpha2 + cal.beta2 * Math.sqrt(h2o)))
+
+  const radiance = (kelvin: number) => R1 / (R2 * (Math.exp(B / kelvin) - F)) - O
+
+  const rawReflected = radiance(cal.reflectedTemp_K)
+  const rawAtmosphere = radiance(cal.atmosphericTemp_K)
+  const rawWindow = radiance(cal.irWindowTemp_K)
+
+  const reflectedAttn = (1 - E) / E * rawReflected
+  const atmosphere1Attn = (1 - tau) / E / tau * rawAtmosphere
+  const windowAttn = (1 - IRT) / E / tau / IRT * rawWindow
+  const atmosphere2Attn = (1 - tau) / E / tau / IRT / tau * rawAtmosphere
+
+  return (raw: number) => {
+    const rawObject = raw / E / tau / IRT / tau
+      - atmosphere1Attn - atmosphere2Attn - windowAttn - reflectedAttn
+    return B / Math.log(R1 / (R2 * (rawObject + O)) + F) - 273.15
+  }
+}
+
+function isUsableCalibration(cal: CameraCalibration): boolean {
+  return [cal.planckR1, cal.planckR2, cal.planckB, cal.planckF, cal.emissivity, cal.atmosphericTransX]
+    .every(Number.isFinite)
+    && cal.planckR1 > 0 && cal.planckR2 > 0 && cal.planckB > 0
+    && cal.emissivity > 0 && cal.emissivity <= 1
+}
+
+/**
+ * Read the temperature frame from a radiometric IR JPEG
+ * @returns null for images without usable radiometric data
+ */
+export async function extractThermalImage(jpeg: Uint8Array): Promise<ThermalImage | null> {
+  const fff = readFlirSegments(jpeg)
+  if (!fff) {
+    return null
+  }
+
+  const records = readFffRecords(fff)
+  const cameraInfo = records.get(RECORD_CAMERA_INFO)
+  const rawData = records.get(RECORD_RAW_DATA)
+  if (!cameraInfo || !rawData) {
+    return null
+  }
+
+  const calibration = readCameraInfo(cameraInfo)
+  const frame = await readRawData(rawData)
+  if (!calibration || !frame || !isUsableCalibration(calibration)) {
+    return null
+  }
+
+  const toCelsius = createRawConverter(calibration)
+  const temperatures_F = new Float32Array(frame.raw.length)
+  let min = Infinity
+  let max = -Infinity
+  let sum = 0
+  let count = 0
+
+  for (let i = 0; i < frame.raw.length; i++) {
+    const temp = celsiusToFahrenheit(toCelsius(frame.raw[i]))
+    temperatures_F[i] = temp
+    if (Number.isFinite(temp)) {
+      min = Math.min(min, temp)
+      max = Math.max(max, temp)
+      sum += temp
+      count++
+    }
+  }
+
+  if (!Number.isFinite(min)) {
+    return null
+  }
+
+  const centre = Math.floor(frame.height / 2) * frame.width + Math.floor(frame.width / 2)
+
+  return {
+    summary: {
+      width: frame.width,
+      height: frame.height,
+      minTemp_F: min,
+      maxTemp_F: max,
+      avgTemp_F: sum / count,
+      spotTemp_F: Number.isFinite(temperatures_F[centre]) ? temperatures_F[centre] : null,
+      emissivity: calibration.emissivity,
+      reflectedTemp_F: celsiusToFahrenheit(calibration.reflectedTemp_K - 273.15),
+      camera: calibration.camera,
+    },
+    temperatures_F,
+  }
+}
+
+// Stored for pixels without a reading; finite temperatures are clamped above it
+const NO_READING = -32768
+
+/**
+ * Pack temperatures as little-endian int16 tenths of a degree for storage
+ */
+export function encodeTemperatureGrid(temperatures_F: Float32Array): Uint8Array {
+  const packed = Buffer.alloc(temperatures_F.length * 2)
+  temperatures_F.forEach((temp, i) => {
+    const tenths = Number.isFinite(temp)
+      ? Math.max(NO_READING + 1, Math.min(32767, Math.round(temp * 10)))
+      : NO_READING
+    packed.writeInt16LE(tenths, i * 2)
+  })
+  return new Uint8Array(packed)
+}
+
+/**
+ * Unpack a stored grid to temperatures in °F, rounded to 0.1
+ * Pixels without a reading are null.
+ */
+export function decodeTemperatureGrid(packed: Uint8Array): Array<number | null> {
+  const data = Buffer.from(packed.buffer, packed.byteOffset, packed.byteLength)
+  const temperatures: Array<number | null> = []
+  for (let i = 0; i + 1 < data.length; i += 2) {
+    const tenths = data.readInt16LE(i)
+    temperatures.push(tenths === NO_READING ? null : tenths / 10)
+  }
+  return temperatures
+}
@@ -0,0 +1,215 @@
+/**
+ * Data logger CSV parsing
+ *
+ * Reads temperature/RH exports from HOBO, Onset, Govee and similar loggers.
+ * Exports differ in preamble lines, column names, units and date formats, so
+ * parsing is split into detecting the header and suggesting a column mapping
+ * (shown to the user for confirmation) and converting rows with that mapping.
+ * Kept free of server-only imports so the import form can preview rows.
+ */
+
+import type { LoggerColumnMap } from './schemas'
+
+export interface LoggerCsvTable {
+  headers: string[]
+  rows: string[][]
+}
+
+export interface LoggerReading {
+  recordedAt: Date
+  temperature_F: number
+  rh_pct: number
+}
+
+export interface LoggerParseResult {
+  readings: LoggerReading[]
+  skippedRows: number // Blank, unparseable or out-of-range rows
+}
+
+/**
+ * Split CSV text into rows, honouring quoted fields
+ */
+export function parseCsv(text: string): string[][] {
+  const rows: string[][] = []
+  let row: string[] = []
+  let field = ''
+  let quoted = false
+
+  // Some exports are tab- or semicolon-separated
+  const firstLine = text.slice(0, text.indexOf('\n') === -1 ? undefined : text.indexOf('\n'))
+  const delimiter = [',', ';', '\t']
+    .reduce((best, d) => firstLine.split(d).length > firstLine.split(best).length ? d : best, ',')
+
+  for (let i = 0; i < text.length; i++) {
+    const char = text[i]
+
+    if (quoted) {
+      if (char === '"' && text[i + 1] === '"') {
+        field += '"'
+        i++
+      } else if (char === '"') {
+        quoted = false
+      } else {
+        field += char
+      }
+    } else if (char === '"') {
+      quoted = true
+    } else if (char === delimiter) {
+      row.push(field.trim())
+      field = ''
+    } else if (char === '\n' || char === '\r') {
+      if (char === '\r' && text[i + 1] === '\n') i++
+      row.push(field.trim())
+      rows.push(row)
+      row = []
+      field = ''
+    } else {
+      field += char
+    }
+  }
+
+  if (field || row.length > 0) {
+    row.push(field.trim())
+    rows.push(row)
+  }
+
+  return rows.filter(r => r.some(cell => cell !== ''))
+}
+
+const isNumeric = (value: string) => value !== '' && !isNaN(Number(value))
+
+/**
+ * Find the header row, skipping preamble lines such as HOBO's "Plot Title"
+ * The header is the first row followed by a data row of the same width.
+ */
+export function detectLoggerTable(rows: string[][]): LoggerCsvTable | null {
+  for (let i = 0; i < rows.length - 1; i++) {
+    const header = rows[i]
+    const next = rows[i + 1]
+    if (header.length >= 2 && next.length >= header.length
+      && header.some(cell => cell && !isNumeric(cell))
+      && next.some(isNumeric)) {
+      return { headers: header, rows: rows.slice(i + 1) }
+    }
+  }
+  return null
+}
+
+/**
+ * Guess the column mapping from header names and the first data row
+ */
+export function suggestColumnMap(table: LoggerCsvTable, fallbackOffsetMinutes = 0): Partial<LoggerColumnMap> {
+  const find = (pattern: RegExp, exclude?: RegExp) =>
+    table.headers.findIndex(h => pattern.test(h) && !(exclude && exclude.test(h)))
+
+  const time = find(/date|time|timestamp/i)
+  const temperature = find(/temp/i, /dew/i)
+  const rh = find(/\bRH\b|humid/i)
+  const suggestion: Partial<LoggerColumnMap> = { utcOffsetMinutes: fallbackOffsetMinutes }
+
+  if (time >= 0) {
+    suggestion.time = time
+
+    // HOBO puts the clock offset in the header, e.g. "Date Time, GMT-04:00"
+    const offset = /GMT\s*([+-])(\d{1,2}):?(\d{2})/i.exec(table.headers[time])
+    if (offset) {
+      const minutes = parseInt(offset[2], 10) * 60 + parseInt(offset[3], 10)
+      suggestion.utcOffsetMinutes = offset[1] === '-' ? -minutes : minutes
+    }
+
+    const sample = table.rows[0]?.[time] ?? ''
+    suggestion.dateOrder = /^\d{4}/.test(sample) ? 'YMD' : 'MDY'
+  }
+
+  if (temperature >= 0) {
+    suggestion.temperature = temperature
+    suggestion.temperatureUnit = /°\s*C|\bC\b|celsius/i.test(table.headers[temperature]) ? 'C' : 'F'
+  }
+
+  if (rh >= 0) {
+    suggestion.rh = rh
+  }
+
+  return suggestion
+}
+
+/**
+ * Parse a logger timestamp as local logger time with the given offset from UTC
+ * Accepts ISO timestamps and the numeric date formats loggers export, with
+ * optional seconds and AM/PM.
+ */
+export function parseLoggerTimestamp(
+  value: string,
+  dateOrder: LoggerColumnMap['dateOrder'],
+  utcOffsetMinutes: number
+): Date | null {
+  const trimmed = value.trim()
+
+  // ISO timestamps with an explicit zone need no offset
+  if (/^\d{4}-\d{2}-\d{2}T.*(Z|[+-]\d{2}:?\d{2})$/.test(trimmed)) {
+    const date = new Date(trimmed)
+    return isNaN(date.getTime()) ? null : date
+  }
+
+  const match = /^(\d{1,4})[-/.](\d{1,2})[-/.](\d{1,4})[ T]+(\d{1,2}):(\d{2})(?::(\d{2}(?:\.\d+)?))?\s*([AaPp][Mm])?$/.exec(trimmed)
+  if (!match) {
+    return null
+  }
+
+  const [, a, b, c, h, min, sec, meridiem] = match
+  const parts = dateOrder === 'YMD'
+    ? { year: a, month: b, day: c }
+    : dateOrder === 'DMY'
+      ? { year: c, month: b, day: a }
+      : { year: c, month: a, day: b }
+
+  let year = parseInt(parts.year, 10)
+  if (year < 100) year += 2000
+  const month = parseInt(parts.month, 10)
+  const day = parseInt(parts.day, 10)
+
+  let hour = parseInt(h, 10)
+  if (meridiem) {
+    const pm = meridiem.toUpperCase() === 'PM'
+    if (hour === 12) hour = pm ? 12 : 0
+    else if (pm) hour += 12
+  }
+
+  if (month < 1 || month > 12 || day < 1 || day > 31 || hour > 23) {
+    return null
+  }
+
+  const seconds = sec ? parseFloat(sec) : 0
+  const utc = Date.UTC(year, month - 1, day, hour, parseInt(min, 10), Math.floor(seconds))
+  return new Date(utc - utcOffsetMinutes * 60 * 1000)
+}
+
+/**
+ * Convert table rows to readings using a confirmed column mapping
+ * Readings are returned in time order with duplicate timestamps dropped.
+ */
+export function parseLoggerRows(table: LoggerCsvTable, map: LoggerColumnMap): LoggerParseResult {
+  const readings: LoggerReading[] = []
+  let skippedRows = 0
+
+  for (const row of table.rows) {
+    const recordedAt = parseLoggerTimestamp(row[map.time] ?? '', map.dateOrder, map.utcOffsetMinutes)
+    const rawTemp = parseFloat(row[map.temperature] ?? '')
+    const rh = parseFloat(row[map.rh] ?? '')
+    const temperature_F = map.temperatureUnit === 'C' ? rawTemp * 9 / 5 + 32 : rawTemp
+
+    // Loggers log blanks or sentinel values while disconnected
+    if (!recordedAt || !Number.isFinite(temperature_F) || !Number.isFinite(rh)
+      || temperature_F < -40 || temperature_F > 150 || rh <= 0 || rh > 100) {
+      skippedRows++
+      continue
+    }
+
+    readings.push({ recordedAt, temperature_F, rh_pct: rh })
+  }
+
+  readings.sort((a, b) => a.recordedAt.getTime() - b.recordedAt.getTime())
+  const unique = readings.filter((r, i) => i === 0 || r.recordedAt.getTime() !== readings[i - 1].recordedAt.getTime())
+
+  return { readings: unique, skippedRows: skippedRows + readings.length - unique.length }
+}
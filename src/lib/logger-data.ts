@@ -0,0 +1,298 @@
+/**
+ * Logger dataset analysis
+ * Dew point series, exceedance summaries and occupied/overnight statistics for
+ * long-term temperature/RH readings. Kept free of server-only imports so
+ * charts can reuse it.
+ */
+
+import { calculateDewPoint, calculateStats } from './calculations'
+import type { LoggerReading } from './logger-csv'
+
+// calculateStats spreads its input, so very long series are refused on import
+export const MAX_LOGGER_SAMPLES = 50000
+
+export interface LoggerSamplePoint {
+  recordedAt: Date | string
+  temperature_F: number
+  rh_pct: number
+  dewPoint_F: number
+}
+
+type Stats = ReturnType<typeof calculateStats>
+
+export interface LoggerSummary {
+  temperature_F: Stats
+  rh_pct: Stats
+  dewPoint_F: Stats
+  hoursLogged: number
+}
+
+export interface LoggerThresholds {
+  rh_pct: number
+  dewPoint_F: number
+}
+
+export interface LoggerExceedance {
+  thresholds: LoggerThresholds
+  hoursLogged: number
+  hoursAboveRh: number
+  percentAboveRh: number
+  hoursAboveDewPoint: number
+  percentAboveDewPoint: number
+}
+
+export interface OccupiedSchedule {
+  startHour: number // Local logger time, 0-23
+  endHour: number
+  weekdaysOnly: boolean
+}
+
+export const DEFAULT_OCCUPIED_SCHEDULE: OccupiedSchedule = {
+  startHour: 8,
+  endHour: 18,
+  weekdaysOnly: false
+}
+
+// Overnight window for humidity rise; readings must cover both ends of it
+const NIGHT_START_HOUR = 22
+const NIGHT_END_HOUR = 6
+
+export interface LoggerAnalysis {
+  exceedance: LoggerExceedance
+  occupied: {
+    schedule: OccupiedSchedule
+    hoursLogged: number
+    hoursOutOfRange: number // RH or dew point above its limit
+    percentOutOfRange: number
+    rh_pct: Stats
+    dewPoint_F: Stats
+  }
+  overnight: {
+    nights: number
+    rhRise_pct: Stats
+    dewPointRise_F: Stats
+  }
+}
+
+export interface ExceedancePeriod {
+  start: number // Epoch ms
+  end: number
+}
+
+const time = (sample: { recordedAt: Date | string }) => new Date(sample.recordedAt).getTime()
+
+/**
+ * Add the dew point to each reading
+ */
+export function withDewPoint(readings: LoggerReading[]): Array<LoggerReading & { dewPoint_F: number }> {
+  return readings.map(reading => ({
+    ...reading,
+    dewPoint_F: calculateDewPoint(reading.temperature_F, reading.rh_pct)
+  }))
+}
+
+/**
+ * Median gap between readings, in seconds
+ */
+export function getTypicalInterval(samples: Array<{ recordedAt: Date | string }>): number | null {
+  if (samples.length < 2) {
+    return null
+  }
+
+  const gaps = samples.slice(1).map((sample, i) => time(sample) - time(samples[i])).sort((a, b) => a - b)
+  return Math.round(gaps[Math.floor(gaps.length / 2)] / 1000)
+}
+
+/**
+ * Hours each reading stands for: the time until the next reading, capped at
+ * twice the typical interval so logger downtime isn't counted
+ */
+function readingDurations(samples: Array<{ recordedAt: Date | string }>): number[] {
+  const interval = getTypicalInterval(samples) ?? 0
+  const maxGap = interval * 2
+
+  return samples.map((sample, i) => {
+    const next = samples[i + 1]
+    const gap = next ? (time(next) - time(sample)) / 1000 : interval
+    return Math.min(gap, maxGap) / 3600
+  })
+}
+
+/**
+ * Local logger time as a UTC date, so getUTC* reads the logger's wall clock
+ */
+function localTime(sample: { recordedAt: Date | string }, utcOffsetMinutes: number): Date {
+  return new Date(time(sample) + utcOffsetMinutes * 60 * 1000)
+}
+
+function isOccupied(local: Date, schedule: OccupiedSchedule): boolean {
+  const day = local.getUTCDay()
+  if (schedule.weekdaysOnly && (day === 0 || day === 6)) {
+    return false
+  }
+
+  const hour = local.getUTCHours()
+  return schedule.startHour <= schedule.endHour
+    ? hour >= schedule.startHour && hour < schedule.endHour
+    : hour >= schedule.startHour || hour < schedule.endHour
+}
+
+const isOutOfRange = (sample: LoggerSamplePoint, thresholds: LoggerThresholds) =>
+  sample.rh_pct > thresholds.rh_pct || sample.dewPoint_F > thresholds.dewPoint_F
+
+export function summarizeLoggerSamples(samples: LoggerSamplePoint[]): LoggerSummary {
+  return {
+    temperature_F: calculateStats(samples.map(s => s.temperature_F)),
+    rh_pct: calculateStats(samples.map(s => s.rh_pct)),
+    dewPoint_F: calculateStats(samples.map(s => s.dewPoint_F)),
+    hoursLogged: readingDurations(samples).reduce((sum, hours) => sum + hours, 0)
+  }
+}
+
+/**
+ * Hours above the RH and dew point limits
+ */
+export function summarizeExceedance(samples: LoggerSamplePoint[], thresholds: LoggerThresholds): LoggerExceedance {
+  const durations = readingDurations(samples)
+  let hoursLogged = 0
+  let hoursAboveRh = 0
+  let hoursAboveDewPoint = 0
+
+  samples.forEach((sample, i) => {
+    hoursLogged += durations[i]
+    if (sample.rh_pct > thresholds.rh_pct) hoursAboveRh += durations[i]
+    if (sample.dewPoint_F > thresholds.dewPoint_F) hoursAboveDewPoint += durations[i]
+  })
+
+  const percent = (hours: number) => hoursLogged > 0 ? (hours / hoursLogged) * 100 : 0
+
+  return {
+    thresholds,
+    hoursLogged,
+    hoursAboveRh,
+    percentAboveRh: percent(hoursAboveRh),
+    hoursAboveDewPoint,
+    percentAboveDewPoint: percent(hoursAboveDewPoint)
+  }
+}
+
+/**
+ * RH and dew point change from the start to the end of each complete night
+ * A rise in dew point means moisture is being added overnight rather than RH
+ * climbing only because the space cooled down.
+ */
+function overnightRise(samples: LoggerSamplePoint[], utcOffsetMinutes: number) {
+  const nights = new Map<string, LoggerSamplePoint[]>()
+
+  for (const sample of samples) {
+    const local = localTime(sample, utcOffsetMinutes)
+    const hour = local.getUTCHours()
+    if (hour < NIGHT_START_HOUR && hour >= NIGHT_END_HOUR) continue
+
+    // Readings after midnight belong to the previous evening's night
+    const evening = new Date(local.getTime() - (hour < NIGHT_END_HOUR ? 24 * 3600 * 1000 : 0))
+    const key = evening.toISOString().slice(0, 10)
+    const night = nights.get(key)
+    if (night) night.push(sample)
+    else nights.set(key, [sample])
+  }
+
+  const complete = Array.from(nights.values()).filter(night =>
+    localTime(night[0], utcOffsetMinutes).getUTCHours() === NIGHT_START_HOUR
+    && localTime(night[night.length - 1], utcOffsetMinutes).getUTCHours() === NIGHT_END_HOUR - 1
+  )
+
+  return {
+    nights: complete.length,
+    rhRise_pct: calculateStats(complete.map(night => night[night.length - 1].rh_pct - night[0].rh_pct)),
+    dewPointRise_F: calculateStats(complete.map(night => night[night.length - 1].dewPoint_F - night[0].dewPoint_F))
+  }
+}
+
+/**
+ * Exceedance, occupied-hours and overnight statistics for a dataset
+ * @param utcOffsetMinutes - Logger clock offset, used to find local hours
+ */
+export function analyzeLoggerSamples(
+  samples: LoggerSamplePoint[],
+  thresholds: LoggerThresholds,
+  utcOffsetMinutes: number,
+  schedule: OccupiedSchedule = DEFAULT_OCCUPIED_SCHEDULE
+): LoggerAnalysis {
+  const durations = readingDurations(samples)
+  const occupied = samples
+    .map((sample, i) => ({ sample, hours: durations[i] }))
+    .filter(({ sample }) => isOccupied(localTime(sample, utcOffsetMinutes), schedule))
+
+  const hoursLogged = occupied.reduce((sum, { hours }) => sum + hours, 0)
+  const hoursOutOfRange = occupied
+    .filter(({ sample }) => isOutOfRange(sample, thresholds))
+    .reduce((sum, { hours }) => sum + hours, 0)
+
+  return {
+    exceedance: summarizeExceedance(samples, thresholds),
+    occupied: {
+      schedule,
+      hoursLogged,
+      hoursOutOfRange,
+      percentOutOfRange: hoursLogged > 0 ? (hoursOutOfRange / hoursLogged) * 100 : 0,
+      rh_pct: calculateStats(occupied.map(({ sample }) => sample.rh_pct)),
+      dewPoint_F: calculateStats(occupied.map(({ sample }) => sample.dewPoint_F))
+    },
+    overnight: overnightRise(samples, utcOffsetMinutes)
+  }
+}
+
+/**
+ * Periods with RH or dew point above its limit, for shading charts
+ * Periods closer together than mergeGapMinutes are joined.
+ */
+export function getExceedancePeriods(
+  samples: LoggerSamplePoint[],
+  thresholds: LoggerThresholds,
+  mergeGapMinutes = 30
+): ExceedancePeriod[] {
+  const durations = readingDurations(samples)
+  const periods: ExceedancePeriod[] = []
+
+  samples.forEach((sample, i) => {
+    if (!isOutOfRange(sample, thresholds)) return
+
+    const start = time(sample)
+    const end = start + durations[i] * 3600 * 1000
+    const last = periods[periods.length - 1]
+
+    if (last && start - last.end <= mergeGapMinutes * 60 * 1000) {
+      last.end = end
+    } else {
+      periods.push({ start, end })
+    }
+  })
+
+  return periods
+}
+
+/**
+ * Reduce a series to at most maxPoints by averaging equal-sized buckets
+ */
+export function downsampleSamples(samples: LoggerSamplePoint[], maxPoints = 1000): LoggerSamplePoint[] {
+  if (samples.length <= maxPoints) {
+    return samples
+  }
+
+  const size = Math.ceil(samples.length / maxPoints)
+  const result: LoggerSamplePoint[] = []
+
+  for (let i = 0; i < samples.length; i += size) {
+    const bucket = samples.slice(i, i + size)
+    const avg = (values: number[]) => values.reduce((sum, v) => sum + v, 0) / values.length
+    result.push({
+      recordedAt: new Date(avg(bucket.map(time))),
+      temperature_F: avg(bucket.map(s => s.temperature_F)),
+      rh_pct: avg(bucket.map(s => s.rh_pct)),
+      dewPoint_F: avg(bucket.map(s => s.dewPoint_F))
+    })
+  }
+
+  return result
+}
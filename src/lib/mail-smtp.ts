@@ -0,0 +1,33 @@
+/**
+ * SMTP mail transport
+ * Sends through any SMTP relay (SES, Postmark, Mailgun, an internal relay).
+ * Port 465 uses implicit TLS; other ports upgrade with STARTTLS when offered.
+ */
+
+import nodemailer from 'nodemailer'
+import type { MailTransport } from './mail'
+
+export function createSmtpTransport(): MailTransport {
+  const host = process.env.SMTP_HOST
+  const from = process.env.MAIL_FROM
+  if (!host || !from) {
+    throw new Error('SMTP_HOST and MAIL_FROM must be set for SMTP mail')
+  }
+
+  const port = Number(process.env.SMTP_PORT || 587)
+  const transporter = nodemailer.createTransport({
+    host,
+    port,
+    secure: port === 465,
+    ...(process.env.SMTP_USER && {
+      auth: { user: process.env.SMTP_USER, pass: process.env.SMTP_PASSWORD }
+    })
+  })
+
+  return {
+    delivers: true,
+    async send(message) {
+      await transporter.sendMail({ from, ...message })
+    }
+  }
+}
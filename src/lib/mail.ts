@@ -0,0 +1,82 @@
+/**
+ * Outgoing mail
+ * Transport-agnostic sending of notification emails. The transport is chosen
+ * with MAIL_DRIVER:
+ *   - "console" (default outside production): only recipient and subject are
+ *     logged, since bodies carry invitation links
+ *   - "smtp": sent through SMTP_HOST with nodemailer
+ * Production servers must set MAIL_DRIVER; checkMailConfig() fails startup otherwise.
+ */
+
+import { createSmtpTransport } from './mail-smtp'
+
+export interface MailMessage {
+  to: string
+  subject: string
+  text: string
+}
+
+export interface MailTransport {
+  delivers: boolean // Whether messages actually reach the recipient
+  send(message: MailMessage): Promise<void>
+}
+
+function createConsoleTransport(): MailTransport {
+  return {
+    delivers: false,
+    async send(message) {
+      console.info(`Mail to ${message.to} not sent (MAIL_DRIVER is console): ${message.subject}`)
+    }
+  }
+}
+
+function getMailDriver(): string {
+  const driver = process.env.MAIL_DRIVER
+  if (driver) return driver
+
+  if (process.env.NODE_ENV === 'production') {
+    throw new Error('MAIL_DRIVER must be set in production ("smtp", or "console" to not send mail)')
+  }
+  return 'console'
+}
+
+let transport: MailTransport | undefined
+
+/**
+ * Configured mail transport (created once per server process)
+ */
+export function getMailTransport(): MailTransport {
+  if (!transport) {
+    const driver = getMailDriver()
+
+    switch (driver) {
+      case 'console':
+        transport = createConsoleTransport()
+        break
+      case 'smtp':
+        transport = createSmtpTransport()
+        break
+      default:
+        throw new Error(`Unknown MAIL_DRIVER: ${driver}`)
+    }
+  }
+
+  return transport
+}
+
+/**
+ * Fail fast on missing or invalid mail settings; called when the server starts
+ */
+export function checkMailConfig() {
+  getMailTransport()
+}
+
+/**
+ * Send a message with the configured transport
+ * @returns Whether the message was delivered rather than only logged
+ */
+export async function sendMail(message: MailMessage): Promise<boolean> {
+  const mailTransport = getMailTransport()
+  await mailTransport.send(message)
+  return mailTransport.delivers
+}
@@ -0,0 +1,361 @@
+/**
+ * PDF Report Charts
+ * Vector charts drawn with @react-pdf SVG primitives so they render on the
+ * server without a browser and stay sharp at any zoom level.
+ */
+
+import React from 'react'
+import { Svg, G, Rect, Line, Circle, Polyline, Text } from '@react-pdf/renderer'
+import {
+  STANDARD_PRESSURE_PSIA,
+  saturationPressure,
+  humidityRatioFromVaporPressure
+} from './psychrometrics'
+import type { RangeLimit } from './criteria'
+
+const CHART_WIDTH = 515 // A4 width less page padding
+const GRAINS_PER_LB = 7000
+
+const COLORS = {
+  pass: '#10B981',
+  fail: '#EF4444',
+  pending: '#9CA3AF',
+  band: '#D1FAE5',
+  bandEdge: '#059669',
+  grid: '#E5E7EB',
+  axis: '#6B7280',
+  text: '#374151',
+  returnAir: '#2563EB',
+  supplyAir: '#0891B2'
+}
+
+export interface BarDatum {
+  label: string
+  value: number
+  pass?: boolean | null
+}
+
+export interface MixingSample {
+  point: string
+  db_F: number
+  rh_pct: number
+}
+
+export interface PsychrometricPoint {
+  label: string
+  returnDB_F: number
+  returnGrains: number
+  supplyDB_F: number
+  supplyGrains: number
+}
+
+/**
+ * SVG text with a font size (the SVG attribute typings omit fontSize)
+ */
+function ChartText({
+  x,
+  y,
+  size = 7,
+  anchor = 'middle',
+  color = COLORS.text,
+  children
+}: {
+  x: number
+  y: number
+  size?: number
+  anchor?: 'start' | 'middle' | 'end'
+  color?: string
+  children: React.ReactNode
+}) {
+  return (
+    <Text x={x} y={y} fill={color} textAnchor={anchor} style={{ fontSize: size } as any}>
+      {children}
+    </Text>
+  )
+}
+
+/**
+ * Evenly spaced round tick values covering [min, max]
+ */
+function niceTicks(min: number, max: number, count: number = 5): number[] {
+  const rawStep = (max - min) / count
+  const magnitude = Math.pow(10, Math.floor(Math.log10(rawStep)))
+  const step = [1, 2, 2.5, 5, 10].map(m => m * magnitude).find(s => s >= rawStep) ?? rawStep
+
+  const ticks: number[] = []
+  for (let tick = Math.ceil(min / step) * step; tick <= max + step * 1e-6; tick += step) {
+    ticks.push(Number(tick.toFixed(6)))
+  }
+  return ticks
+}
+
+function barColor(pass?: boolean | null) {
+  if (pass === true) return COLORS.pass
+  if (pass === false) return COLORS.fail
+  return COLORS.pending
+}
+
+/**
+ * Bar per item with the acceptance band shaded behind the bars
+ */
+export function RangeBarChart({
+  bars,
+  band,
+  unit,
+  digits = 0,
+  height = 180
+}: {
+  bars: BarDatum[]
+  band: RangeLimit
+  unit: string
+  digits?: number
+  height?: number
+}) {
+  const margin = { top: 12, right: 10, bottom: 28, left: 40 }
+  const plotWidth = CHART_WIDTH - margin.left - margin.right
+  const plotHeight = height - margin.top - margin.bottom
+
+  const values = bars.map(bar => bar.value)
+  const dataMin = Math.min(band.min, ...values)
+  const dataMax = Math.max(band.max, ...values)
+  const padding = (dataMax - dataMin) * 0.15 || 1
+  const ticks = niceTicks(dataMin - padding, dataMax + padding)
+  const yMin = ticks[0]
+  const yMax = ticks[ticks.length - 1]
+
+  const y = (value: number) => margin.top + plotHeight - ((value - yMin) / (yMax - yMin)) * plotHeight
+  const slot = plotWidth / bars.length
+  const barWidth = Math.min(40, slot * 0.6)
+
+  return (
+    <Svg width={CHART_WIDTH} height={height}>
+      {/* Gridlines and axis labels */}
+      {ticks.map(tick => (
+        <G key={tick}>
+          <Line x1={margin.left} x2={margin.left + plotWidth} y1={y(tick)} y2={y(tick)} stroke={COLORS.grid} strokeWidth={0.5} />
+          <ChartText x={margin.left - 4} y={y(tick) + 2} anchor="end">{tick.toString()}</ChartText>
+        </G>
+      ))}
+
+      {/* Acceptance band */}
+      <Rect
+        x={margin.left}
+        y={y(band.max)}
+        width={plotWidth}
+        height={y(band.min) - y(band.max)}
+        fill={COLORS.band}
+        fillOpacity={0.6}
+      />
+      <Line x1={margin.left} x2={margin.left + plotWidth} y1={y(band.max)} y2={y(band.max)} stroke={COLORS.bandEdge} strokeWidth={0.75} strokeDasharray="3,2" />
+      <Line x1={margin.left} x2={margin.left + plotWidth} y1={y(band.min)} y2={y(band.min)} stroke={COLORS.bandEdge} strokeWidth={0.75} strokeDasharray="3,2" />
+
+      {/* Bars rise from the bottom of the axis */}
+      {bars.map((bar, index) => {
+        const cx = margin.left + slot * index + slot / 2
+        return (
+          <G key={index}>
+            <Rect
+              x={cx - barWidth / 2}
+              y={y(bar.value)}
+              width={barWidth}
+              height={y(yMin) - y(bar.value)}
+              fill={barColor(bar.pass)}
+            />
+            <ChartText x={cx} y={y(bar.value) - 3}>{bar.value.toFixed(digits)}</ChartText>
+            <ChartText x={cx} y={margin.top + plotHeight + 10}>{bar.label}</ChartText>
+          </G>
+        )
+      })}
+
+      <Line x1={margin.left} x2={margin.left} y1={margin.top} y2={margin.top + plotHeight} stroke={COLORS.axis} strokeWidth={0.75} />
+      <Line x1={margin.left} x2={margin.left + plotWidth} y1={margin.top + plotHeight} y2={margin.top + plotHeight} stroke={COLORS.axis} strokeWidth={0.75} />
+      <ChartText x={margin.left + plotWidth} y={height - 4} anchor="end" color={COLORS.axis}>
+        {`Target ${band.min} - ${band.max} ${unit}`.trim()}
+      </ChartText>
+    </Svg>
+  )
+}
+
+/**
+ * Lay sample points out on a grid. Point IDs like "A1" or "B-3" place
+ * themselves by row letter and column number; anything else fills row by row.
+ */
+function layoutGrid(samples: MixingSample[]) {
+  const parsed = samples.map(sample => /^([A-Za-z])\s*-?\s*(\d+)$/.exec(sample.point.trim()))
+
+  if (parsed.every(Boolean)) {
+    return samples.map((sample, index) => ({
+      sample,
+      row: parsed[index]![1].toUpperCase().charCodeAt(0) - 65,
+      col: parseInt(parsed[index]![2], 10) - 1
+    }))
+  }
+
+  const columns = Math.ceil(Math.sqrt(samples.length))
+  return samples.map((sample, index) => ({
+    sample,
+    row: Math.floor(index / columns),
+    col: index % columns
+  }))
+}
+
+/**
+ * Interpolate from cool blue (coldest sample) to warm red (warmest sample)
+ */
+function heatColor(fraction: number) {
+  const from = [59, 130, 246]
+  const to = [239, 68, 68]
+  const channel = (i: number) => Math.round(from[i] + (to[i] - from[i]) * fraction).toString(16).padStart(2, '0')
+  return `#${channel(0)}${channel(1)}${channel(2)}`
+}
+
+/**
+ * Temperature heat map of distribution grid samples
+ */
+export function MixingHeatMap({
+  samples,
+  maxVariation_F
+}: {
+  samples: MixingSample[]
+  maxVariation_F: number
+}) {
+  const cells = layoutGrid(samples)
+  const rows = Math.max(...cells.map(cell => cell.row)) + 1
+  const columns = Math.max(...cells.map(cell => cell.col)) + 1
+  const cellSize = Math.min(70, (CHART_WIDTH - 20) / columns)
+  const legendHeight = 18
+  const height = rows * cellSize + legendHeight
+
+  const temps = samples.map(sample => sample.db_F)
+  const minTemp = Math.min(...temps)
+  const maxTemp = Math.max(...temps)
+  const spread = maxTemp - minTemp
+
+  return (
+    <Svg width={CHART_WIDTH} height={height}>
+      {cells.map(({ sample, row, col }) => {
+        const x = col * cellSize
+        const y = row * cellSize
+        const fraction = spread > 0 ? (sample.db_F - minTemp) / spread : 0.5
+        return (
+          <G key={`${sample.point}-${row}-${col}`}>
+            <Rect x={x} y={y} width={cellSize - 2} height={cellSize - 2} fill={heatColor(fraction)} />
+            <ChartText x={x + cellSize / 2 - 1} y={y + cellSize / 2 - 8} color="#FFFFFF" size={7}>{sample.point}</ChartText>
+            <ChartText x={x + cellSize / 2 - 1} y={y + cellSize / 2 + 2} color="#FFFFFF" size={9}>{`${sample.db_F.toFixed(1)}°F`}</ChartText>
+            <ChartText x={x + cellSize / 2 - 1} y={y + cellSize / 2 + 11} color="#FFFFFF" size={7}>{`${sample.rh_pct.toFixed(0)}% RH`}</ChartText>
+          </G>
+        )
+      })}
+      <ChartText x={0} y={height - 5} anchor="start" color={spread > maxVariation_F ? COLORS.fail : COLORS.text}>
+        {`Range ${minTemp.toFixed(1)} - ${maxTemp.toFixed(1)}°F, spread ${spread.toFixed(1)}°F (max ${maxVariation_F}°F)`}
+      </ChartText>
+    </Svg>
+  )
+}
+
+function saturationGrains(dryBulbF: number, rhFraction: number = 1, pressure: number = STANDARD_PRESSURE_PSIA) {
+  return humidityRatioFromVaporPressure(saturationPressure(dryBulbF) * rhFraction, pressure) * GRAINS_PER_LB
+}
+
+/**
+ * Psychrometric chart (dry bulb vs. humidity ratio) with a return → supply
+ * process line per coil test and the target supply dew point band shaded
+ */
+export function PsychrometricChart({
+  points,
+  supplyDewPoint,
+  pressure = STANDARD_PRESSURE_PSIA,
+  height = 260
+}: {
+  points: PsychrometricPoint[]
+  supplyDewPoint: RangeLimit
+  pressure?: number
+  height?: number
+}) {
+  const margin = { top: 10, right: 40, bottom: 24, left: 10 }
+  const plotWidth = CHART_WIDTH - margin.left - margin.right
+  const plotHeight = height - margin.top - margin.bottom
+
+  const xMin = 40
+  const xMax = 100
+  const yMax = Math.max(160, ...points.map(p => Math.max(p.returnGrains, p.supplyGrains) + 10))
+
+  const x = (dryBulb: number) => margin.left + ((dryBulb - xMin) / (xMax - xMin)) * plotWidth
+  const y = (grains: number) => margin.top + plotHeight - (Math.min(grains, yMax) / yMax) * plotHeight
+
+  const curve = (rhFraction: number) => {
+    const coords: string[] = []
+    for (let t = xMin; t <= xMax; t += 1) {
+      const grains = saturationGrains(t, rhFraction, pressure)
+      if (grains > yMax) break
+      coords.push(`${x(t).toFixed(1)},${y(grains).toFixed(1)}`)
+    }
+    return coords.join(' ')
+  }
+
+  // At a given dew point the humidity ratio is the saturation value at that temperature
+  const bandLow = saturationGrains(supplyDewPoint.min, 1, pressure)
+  const bandHigh = saturationGrains(supplyDewPoint.max, 1, pressure)
+
+  return (
+    <Svg width={CHART_WIDTH} height={height}>
+      {/* Dry bulb gridlines */}
+      {niceTicks(xMin, xMax, 6).map(t => (
+        <G key={`x${t}`}>
+          <Line x1={x(t)} x2={x(t)} y1={margin.top} y2={margin.top + plotHeight} stroke={COLORS.grid} strokeWidth={0.5} />
+          <ChartText x={x(t)} y={margin.top + plotHeight + 10}>{`${t}°F`}</ChartText>
+        </G>
+      ))}
+
+      {/* Humidity ratio gridlines (right-hand axis, as on ASHRAE charts) */}
+      {niceTicks(0, yMax, 8).map(grains => (
+        <G key={`y${grains}`}>
+          <Line x1={margin.left} x2={margin.left + plotWidth} y1={y(grains)} y2={y(grains)} stroke={COLORS.grid} strokeWidth={0.5} />
+          <ChartText x={margin.left + plotWidth + 4} y={y(grains) + 2} anchor="start">{grains.toString()}</ChartText>
+        </G>
+      ))}
+      <ChartText x={CHART_WIDTH} y={height - 4} anchor="end" color={COLORS.axis}>gr/lb</ChartText>
+
+      {/* Target supply dew point band */}
+      <Rect
+        x={margin.left}
+        y={y(bandHigh)}
+        width={plotWidth}
+        height={y(bandLow) - y(bandHigh)}
+        fill={COLORS.band}
+        fillOpacity={0.6}
+      />
+      <ChartText x={margin.left + 4} y={y(bandHigh) - 2} anchor="start" color={COLORS.bandEdge}>
+        {`Target supply DP ${supplyDewPoint.min} - ${supplyDewPoint.max}°F`}
+      </ChartText>
+
+      {/* Relative humidity curves */}
+      {[0.2, 0.4, 0.6, 0.8].map(rh => (
+        <Polyline key={rh} points={curve(rh)} fill="none" stroke={COLORS.axis} strokeWidth={0.4} strokeDasharray="2,2" />
+      ))}
+      <Polyline points={curve(1)} fill="none" stroke={COLORS.axis} strokeWidth={1} />
+
+      {/* Process lines: return (circle) to supply (square) */}
+      {points.map((point, index) => (
+        <G key={index}>
+          <Line
+            x1={x(point.returnDB_F)}
+            y1={y(point.returnGrains)}
+            x2={x(point.supplyDB_F)}
+            y2={y(point.supplyGrains)}
+            stroke={COLORS.text}
+            strokeWidth={0.75}
+          />
+          <Circle cx={x(point.returnDB_F)} cy={y(point.returnGrains)} r={3} fill={COLORS.returnAir} />
+          <Rect x={x(point.supplyDB_F) - 3} y={y(point.supplyGrains) - 3} width={6} height={6} fill={COLORS.supplyAir} />
+          <ChartText x={x(point.supplyDB_F) - 5} y={y(point.supplyGrains) + 2} anchor="end">{point.label}</ChartText>
+        </G>
+      ))}
+
+      <Circle cx={margin.left + 8} cy={margin.top + 8} r={3} fill={COLORS.returnAir} />
+      <ChartText x={margin.left + 14} y={margin.top + 10} anchor="start">Return</ChartText>
+      <Rect x={margin.left + 45} y={margin.top + 5} width={6} height={6} fill={COLORS.supplyAir} />
+      <ChartText x={margin.left + 54} y={margin.top + 10} anchor="start">Supply</ChartText>
+    </Svg>
+  )
+}
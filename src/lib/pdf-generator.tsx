@@ -1,5 +1,10 @@
 import React from 'react'
 import { Document, Page, Text, View, StyleSheet, Image, Font } from '@react-pdf/renderer'
+import type { ComparisonPoint, MonitoringSummary, ProjectReportData, UnitComparison } from './report-data'
+import type { ReportImage } from './report-images'
+import { DEFAULT_CRITERIA, type CriteriaLimits } from './criteria'
+import { RangeBarChart, MixingHeatMap, PsychrometricChart, type BarDatum, type PsychrometricPoint } from './pdf-charts'
+import { formatTemplateValue, type TestTemplateDefinition } from './test-templates'
 
 // Register fonts (if you have custom fonts)
 // Font.register({
@@ -153,9 +158,74 @@ const styles = StyleSheet.create({
     borderTopColor: '#E5E7EB',
     fontSize: 8,
     color: '#6B7280',
+  },
+  thumbnailRow: {
+    flexDirection: 'row',
+    flexWrap: 'wrap',
+    padding: 4,
+    borderStyle: 'solid',
+    borderWidth: 1,
+    borderLeftWidth: 0,
+    borderTopWidth: 0,
+    borderColor: '#E5E7EB',
+  },
+  thumbnail: {
+    width: 72,
+    height: 54,
+    objectFit: 'cover',
+    marginRight: 4,
+    marginBottom: 2,
+  },
+  evidenceGroup: {
+    marginBottom: 15,
+  },
+  evidenceGroupTitle: {
+    fontSize: 11,
+    fontWeight: 'bold',
+    color: '#1F2937',
+    marginBottom: 6,
+  },
+  evidenceGrid: {
+    flexDirection: 'row',
+    flexWrap: 'wrap',
+    justifyContent: 'space-between',
+  },
+  evidenceItem: {
+    width: '48%',
+    marginBottom: 10,
+  },
+  evidenceImage: {
+    width: '100%',
+    maxHeight: 190,
+    objectFit: 'contain',
+    backgroundColor: '#F9FAFB',
+  },
+  evidenceCaption: {
+    flexDirection: 'row',
+    alignItems: 'center',
+    marginTop: 3,
+  },
+  categoryBadge: {
+    fontSize: 7,
+    paddingHorizontal: 3,
+    paddingVertical: 1,
+    borderRadius: 2,
+    marginRight: 4,
+  },
+  captionText: {
+    fontSize: 8,
+    color: '#374151',
+    flex: 1,
   }
 })
 
+// Custom test template as loaded for reports
+interface ReportTestTemplate {
+  name: string
+  category: string
+  definition: unknown
+}
+
 interface ReportData {
   session: {
     id: string
@@ -166,6 +236,7 @@ interface ReportData {
     weatherOADryBulb?: number | null
     weatherOARH?: number | null
     weatherNotes?: string | null
+    weatherSource?: string | null
     notes?: string | null
     area: {
       name: string
@@ -206,6 +277,7 @@ interface ReportData {
         make?: string | null
         model?: string | null
       } | null
+      template?: ReportTestTemplate | null
     }>
     statistics: {
       testsByType: Record<string, number>
@@ -217,6 +289,8 @@ interface ReportData {
       completionRate: number
     }
   }
+  images?: ReportImage[]
+  monitoring?: MonitoringSummary[]
 }
 
 const TEST_TYPE_NAMES: Record<string, string> = {
@@ -229,55 +303,466 @@ const TEST_TYPE_NAMES: Record<string, string> = {
   'COIL_PERFORMANCE': 'Coil Performance',
   'FAN_EVAP_RECHECK': 'Fan/Evap Recheck',
   'ECONOMIZER_SEAL': 'Economizer Seal',
-  'DISTRIBUTION_MIXING': 'Distribution & Mixing'
+  'DISTRIBUTION_MIXING': 'Distribution & Mixing',
+  'DEHUMIDIFIER_PERFORMANCE': 'Dehumidifier / DOAS'
 }
 
-export function CommissioningReport({ data }: { data: ReportData }) {
-  const { session } = data
-  
-  const formatDate = (dateString: string) => {
-    return new Date(dateString).toLocaleDateString('en-US', {
-      year: 'numeric',
-      month: 'long',
-      day: 'numeric'
-    })
+// Custom tests are named by their template
+function testTypeName(testType: string, templateName?: string | null) {
+  return templateName ?? TEST_TYPE_NAMES[testType] ?? testType
+}
+
+function formatDate(dateString: string) {
+  return new Date(dateString).toLocaleDateString('en-US', {
+    year: 'numeric',
+    month: 'long',
+    day: 'numeric'
+  })
+}
+
+function formatTime(dateString: string) {
+  return new Date(dateString).toLocaleTimeString('en-US', {
+    hour: 'numeric',
+    minute: '2-digit',
+    hour12: true
+  })
+}
+
+function getPassFailIndicator(pass?: boolean | null) {
+  if (pass === true) return <Text style={styles.passIndicator}>PASS</Text>
+  if (pass === false) return <Text style={styles.failIndicator}>FAIL</Text>
+  return <Text style={styles.pendingIndicator}>PENDING</Text>
+}
+
+const CATEGORY_BADGES: Record<string, { label: string; color: string; backgroundColor: string }> = {
+  PHOTO: { label: 'PHOTO', color: '#1E40AF', backgroundColor: '#DBEAFE' },
+  IR_IMAGE: { label: 'IR', color: '#9A3412', backgroundColor: '#FFEDD5' },
+  NAMEPLATE: { label: 'NAMEPLATE', color: '#3730A3', backgroundColor: '#E0E7FF' },
+  DOCUMENT: { label: 'DOCUMENT', color: '#374151', backgroundColor: '#F3F4F6' },
+  OTHER: { label: 'OTHER', color: '#374151', backgroundColor: '#F3F4F6' }
+}
+
+function CategoryBadge({ category }: { category: string }) {
+  const badge = CATEGORY_BADGES[category] || CATEGORY_BADGES.OTHER
+  return (
+    <Text style={[styles.categoryBadge, { color: badge.color, backgroundColor: badge.backgroundColor }]}>
+      {badge.label}
+    </Text>
+  )
+}
+
+/**
+ * Thumbnails shown under a failing test's row in the results table
+ */
+function FailingTestThumbnails({ test, images }: { test: { id: string; pass?: boolean | null }; images: ReportImage[] }) {
+  const testImages = images.filter(image => image.testResultId === test.id)
+
+  if (test.pass !== false || testImages.length === 0) {
+    return null
+  }
+
+  return (
+    <View style={styles.thumbnailRow} wrap={false}>
+      {testImages.map(image => (
+        <Image key={image.id} src={image.thumbnailSrc} style={styles.thumbnail} />
+      ))}
+    </View>
+  )
+}
+
+/**
+ * Group evidence images for the appendix: by test, then by unit, then session-wide
+ */
+function groupEvidence(
+  images: ReportImage[],
+  tests: Array<{ id: string; testType: string; unit?: { label: string } | null; template?: { name: string } | null }>
+) {
+  const groups: Array<{ key: string; title: string; images: ReportImage[] }> = []
+
+  for (const test of tests) {
+    const testImages = images.filter(image => image.testResultId === test.id)
+    if (testImages.length > 0) {
+      groups.push({
+        key: test.id,
+        title: `${testTypeName(test.testType, test.template?.name)}${test.unit ? ` - ${test.unit.label}` : ''}`,
+        images: testImages
+      })
+    }
   }
 
-  const formatTime = (dateString: string) => {
-    return new Date(dateString).toLocaleTimeString('en-US', {
-      hour: 'numeric',
-      minute: '2-digit',
-      hour12: true
+  const unitImages = images.filter(image => !image.testResultId && image.unitId)
+  const unitIds = Array.from(new Set(unitImages.map(image => image.unitId)))
+  for (const unitId of unitIds) {
+    const imagesForUnit = unitImages.filter(image => image.unitId === unitId)
+    groups.push({
+      key: `unit:${unitId}`,
+      title: `Unit ${imagesForUnit[0].unitLabel}`,
+      images: imagesForUnit
     })
   }
 
-  const getPassFailIndicator = (pass?: boolean | null) => {
-    if (pass === true) return <Text style={styles.passIndicator}>PASS</Text>
-    if (pass === false) return <Text style={styles.failIndicator}>FAIL</Text>
-    return <Text style={styles.pendingIndicator}>PENDING</Text>
+  const sessionImages = images.filter(image => !image.testResultId && !image.unitId)
+  if (sessionImages.length > 0) {
+    groups.push({ key: 'session', title: 'General Site Photos', images: sessionImages })
   }
 
-  const formatTestReading = (testType: string, reading: any, computed: any) => {
-    switch (testType) {
-      case 'BUILDING_PRESSURE':
-        return `${reading.deltaP_inwc}" w.c. (Target: 0.02-0.05)`
-      case 'AIRFLOW_STATIC':
-        return `${reading.supplyCFM} CFM, ${computed?.calculations?.cfm_per_ton?.toFixed(0) || 'N/A'} CFM/ton`
-      case 'REFRIGERANT_CIRCUIT':
-        return `SH: ${computed?.calculations?.superheat_F?.toFixed(1) || 'N/A'}°F, SC: ${computed?.calculations?.subcooling_F?.toFixed(1) || 'N/A'}°F`
-      case 'COIL_PERFORMANCE':
-        return `Supply DP: ${computed?.calculations?.supply_dew_point_F?.toFixed(1) || 'N/A'}°F, ΔT: ${computed?.calculations?.temperature_drop_F?.toFixed(1) || 'N/A'}°F`
-      default:
-        return 'See detailed results'
+  return groups
+}
+
+type ChartTest = ReportData['session']['tests'][number]
+
+/**
+ * Limits the test was evaluated against, falling back to the defaults for older results
+ */
+function testLimits(test?: ChartTest): CriteriaLimits {
+  return test?.computed?.criteria?.limits ?? DEFAULT_CRITERIA
+}
+
+function chartLabel(test: ChartTest, index: number) {
+  return test.unit?.label || test.reading?.unitLabel || `#${index + 1}`
+}
+
+/**
+ * Chart series for the performance charts page
+ */
+function buildChartData(tests: ChartTest[]) {
+  const calc = (test: ChartTest, key: string): number | undefined => {
+    const value = test.computed?.calculations?.[key]
+    return typeof value === 'number' ? value : undefined
+  }
+
+  const coilTests = tests.filter(t => t.testType === 'COIL_PERFORMANCE' && calc(t, 'supply_dew_point_F') !== undefined)
+  const airflowTests = tests.filter(t => t.testType === 'AIRFLOW_STATIC' && calc(t, 'cfm_per_ton') !== undefined)
+  const mixingTests = tests.filter(t => t.testType === 'DISTRIBUTION_MIXING' && t.reading?.gridSamples?.length > 0)
+
+  const dewPointBars: BarDatum[] = coilTests.map((test, index) => ({
+    label: chartLabel(test, index),
+    value: calc(test, 'supply_dew_point_F')!,
+    pass: test.computed?.checks?.supply_dew_point?.pass ?? test.pass
+  }))
+
+  const cfmPerTonBars: BarDatum[] = airflowTests.map((test, index) => ({
+    label: chartLabel(test, index),
+    value: calc(test, 'cfm_per_ton')!,
+    pass: test.computed?.checks?.cfm_per_ton?.pass ?? test.pass
+  }))
+
+  const psychrometricPoints: PsychrometricPoint[] = coilTests
+    .filter(test => calc(test, 'return_grains_per_lb') !== undefined && calc(test, 'supply_grains_per_lb') !== undefined)
+    .map((test, index) => ({
+      label: chartLabel(test, index),
+      returnDB_F: test.reading.returnDB_F,
+      returnGrains: calc(test, 'return_grains_per_lb')!,
+      supplyDB_F: test.reading.supplyDB_F,
+      supplyGrains: calc(test, 'supply_grains_per_lb')!
+    }))
+
+  return {
+    dewPointBars,
+    dewPointBand: testLimits(coilTests[0]).supplyDewPoint_F,
+    cfmPerTonBars,
+    cfmPerTonBand: testLimits(airflowTests[0]).cfmPerTon,
+    psychrometricPoints,
+    mixingMaps: mixingTests.map(test => ({
+      id: test.id,
+      zone: test.reading.zone as string,
+      samples: test.reading.gridSamples,
+      maxVariation_F: testLimits(test).mixingMaxTempVariation_F
+    }))
+  }
+}
+
+function formatTestReading(testType: string, reading: any, computed: any, template?: ReportTestTemplate | null) {
+  switch (testType) {
+    case 'BUILDING_PRESSURE':
+      return `${reading.deltaP_inwc}" w.c. (Target: ${computed?.checks?.building_pressure?.target || '0.02 - 0.05 in. w.c.'})`
+    case 'AIRFLOW_STATIC':
+      return `${reading.supplyCFM} CFM, ${computed?.calculations?.cfm_per_ton?.toFixed(0) || 'N/A'} CFM/ton`
+    case 'REFRIGERANT_CIRCUIT':
+      return `SH: ${computed?.calculations?.superheat_F?.toFixed(1) || 'N/A'}°F, SC: ${computed?.calculations?.subcooling_F?.toFixed(1) || 'N/A'}°F`
+    case 'COIL_PERFORMANCE':
+      return `Supply DP: ${computed?.calculations?.supply_dew_point_F?.toFixed(1) || 'N/A'}°F (${computed?.calculations?.supply_grains_per_lb?.toFixed(0) || 'N/A'} gr/lb), ΔT: ${computed?.calculations?.temperature_drop_F?.toFixed(1) || 'N/A'}°F, SHR: ${computed?.calculations?.sensible_heat_ratio?.toFixed(2) || 'N/A'}`
+    case 'DEHUMIDIFIER_PERFORMANCE':
+      return `${computed?.calculations?.moisture_removal_pints_day?.toFixed(0) || 'N/A'} pints/day (${computed?.calculations?.percent_of_rated?.toFixed(0) || 'N/A'}% of ${reading.ratedPintsPerDay} rated), latent ${computed?.calculations?.latent_capacity_btuh?.toFixed(0) || 'N/A'} BTU/h`
+    case 'CUSTOM': {
+      const formulas = (template?.definition as TestTemplateDefinition | undefined)?.formulas ?? []
+      const values = formulas
+        .filter(formula => typeof computed?.calculations?.[formula.key] === 'number')
+        .map(formula => `${formula.label}: ${formatTemplateValue(computed.calculations[formula.key], formula.digits, formula.unit)}`)
+      return values.length > 0 ? values.join(', ') : computed?.summary || 'See detailed results'
     }
+    default:
+      return 'See detailed results'
   }
+}
+
+function formatHours(hours: number) {
+  return hours >= 48 ? `${(hours / 24).toFixed(1)} d` : `${hours.toFixed(1)} h`
+}
+
+function formatRise(value: number, unit: string) {
+  return `${value >= 0 ? '+' : ''}${value.toFixed(1)}${unit}`
+}
+
+// Dry bulb / RH with humidity ratio when computed
+function formatAirState(dryBulb_F: number, rh_pct: number, grains?: number) {
+  return `${dryBulb_F.toFixed(1)}°F / ${rh_pct.toFixed(0)}%${grains !== undefined ? ` (${grains.toFixed(0)} gr/lb)` : ''}`
+}
+
+/**
+ * Coil capacity breakdown: total, sensible and latent BTU/h with SHR, apparatus dew point and bypass factor
+ */
+function CoilCapacityTable({ tests }: { tests: Array<{ id: string; reading: any; computed: any; unit?: { label: string } | null }> }) {
+  const columns = [
+    { label: 'Unit', width: '11%' },
+    { label: 'Return', width: '17%' },
+    { label: 'Supply', width: '17%' },
+    { label: 'Airflow', width: '9%' },
+    { label: 'Total', width: '10%' },
+    { label: 'Sensible', width: '10%' },
+    { label: 'Latent', width: '10%' },
+    { label: 'SHR', width: '6%' },
+    { label: 'ADP / BF', width: '10%' }
+  ]
+  const btuh = (value?: number) => value !== undefined ? `${value.toFixed(0)} BTU/h` : 'N/A'
+
+  return (
+    <View style={styles.section} wrap={false}>
+      <Text style={styles.sectionTitle}>Coil Capacity</Text>
+      <View style={styles.table}>
+        <View style={[styles.tableRow, styles.tableHeader]}>
+          {columns.map(column => (
+            <View key={column.label} style={[styles.tableCol, { width: column.width }]}>
+              <Text style={styles.tableCellHeader}>{column.label}</Text>
+            </View>
+          ))}
+        </View>
+        {tests.map(test => {
+          const calculations = test.computed?.calculations || {}
+          const shr: number | undefined = calculations.sensible_heat_ratio
+          const shrFailed = test.computed?.checks?.sensible_heat_ratio?.pass === false
+          const cells = [
+            test.unit?.label || test.reading.unitLabel,
+            formatAirState(test.reading.returnDB_F, test.reading.returnRH_pct, calculations.return_grains_per_lb),
+            formatAirState(test.reading.supplyDB_F, test.reading.supplyRH_pct, calculations.supply_grains_per_lb),
+            calculations.airflow_cfm !== undefined ? `${calculations.airflow_cfm.toFixed(0)} CFM` : 'N/A',
+            btuh(calculations.total_capacity_btuh),
+            btuh(calculations.sensible_capacity_btuh),
+            btuh(calculations.latent_capacity_btuh),
+            shr !== undefined ? shr.toFixed(2) : 'N/A',
+            calculations.apparatus_dew_point_F !== undefined
+              ? `${calculations.apparatus_dew_point_F.toFixed(1)}°F / ${calculations.bypass_factor.toFixed(2)}`
+              : 'N/A'
+          ]
+          return (
+            <View key={test.id} style={styles.tableRow} wrap={false}>
+              {cells.map((cell, index) => (
+                <View key={columns[index].label} style={[styles.tableCol, { width: columns[index].width }]}>
+                  <Text style={[
+                    styles.tableCell,
+                    columns[index].label === 'SHR' && shrFailed ? { color: '#DC2626' } : {}
+                  ]}>
+                    {cell}
+                  </Text>
+                </View>
+              ))}
+            </View>
+          )
+        })}
+      </View>
+      <Text style={[styles.infoValue, { marginTop: 4 }]}>
+        Capacities use airflow entered with the test or from the unit&apos;s latest Airflow &amp; Static test taken before it. An SHR above target means the coil is doing mostly sensible cooling and removing little moisture.
+      </Text>
+    </View>
+  )
+}
+
+/**
+ * Dehumidifier/DOAS results: entering and leaving air, moisture removal against rating, latent capacity
+ */
+function DehumidifierTable({ tests }: { tests: Array<{ id: string; reading: any; computed: any; pass?: boolean | null; unit?: { label: string } | null }> }) {
+  return (
+    <View style={styles.section} wrap={false}>
+      <Text style={styles.sectionTitle}>Dehumidifier / DOAS Performance</Text>
+      <View style={styles.table}>
+        <View style={[styles.tableRow, styles.tableHeader]}>
+          <View style={[styles.tableCol, { width: '12%' }]}>
+            <Text style={styles.tableCellHeader}>Unit</Text>
+          </View>
+          <View style={[styles.tableCol, { width: '19%' }]}>
+            <Text style={styles.tableCellHeader}>Inlet</Text>
+          </View>
+          <View style={[styles.tableCol, { width: '19%' }]}>
+            <Text style={styles.tableCellHeader}>Outlet</Text>
+          </View>
+          <View style={[styles.tableCol, { width: '10%' }]}>
+            <Text style={styles.tableCellHeader}>Airflow</Text>
+          </View>
+          <View style={[styles.tableCol, { width: '16%' }]}>
+            <Text style={styles.tableCellHeader}>Removal</Text>
+          </View>
+          <View style={[styles.tableCol, { width: '12%' }]}>
+            <Text style={styles.tableCellHeader}>vs. Rating</Text>
+          </View>
+          <View style={[styles.tableCol, { width: '12%' }]}>
+            <Text style={styles.tableCellHeader}>Latent</Text>
+          </View>
+        </View>
+        {tests.map(test => {
+          const calculations = test.computed?.calculations || {}
+          return (
+            <View key={test.id} style={styles.tableRow} wrap={false}>
+              <View style={[styles.tableCol, { width: '12%' }]}>
+                <Text style={styles.tableCell}>{test.unit?.label || test.reading.unitLabel}</Text>
+              </View>
+              <View style={[styles.tableCol, { width: '19%' }]}>
+                <Text style={styles.tableCell}>
+                  {formatAirState(test.reading.inletDB_F, test.reading.inletRH_pct, calculations.inlet_grains_per_lb)}
+                </Text>
+              </View>
+              <View style={[styles.tableCol, { width: '19%' }]}>
+                <Text style={styles.tableCell}>
+                  {formatAirState(test.reading.outletDB_F, test.reading.outletRH_pct, calculations.outlet_grains_per_lb)}
+                </Text>
+              </View>
+              <View style={[styles.tableCol, { width: '10%' }]}>
+                <Text style={styles.tableCell}>{test.reading.airflowCFM} CFM</Text>
+              </View>
+              <View style={[styles.tableCol, { width: '16%' }]}>
+                <Text style={styles.tableCell}>
+                  {calculations.moisture_removal_lb_hr !== undefined
+                    ? `${calculations.moisture_removal_lb_hr.toFixed(2)} lb/hr (${calculations.moisture_removal_pints_day.toFixed(0)} pints/day)`
+                    : 'N/A'}
+                </Text>
+              </View>
+              <View style={[styles.tableCol, { width: '12%' }]}>
+                <Text style={[styles.tableCell, test.pass === false ? { color: '#DC2626' } : {}]}>
+                  {calculations.percent_of_rated !== undefined
+                    ? `${calculations.percent_of_rated.toFixed(0)}% of ${test.reading.ratedPintsPerDay}`
+                    : 'N/A'}
+                </Text>
+              </View>
+              <View style={[styles.tableCol, { width: '12%' }]}>
+                <Text style={styles.tableCell}>
+                  {calculations.latent_capacity_btuh !== undefined
+                    ? `${calculations.latent_capacity_btuh.toFixed(0)} BTU/h`
+                    : 'N/A'}
+                </Text>
+              </View>
+            </View>
+          )
+        })}
+      </View>
+      <Text style={[styles.infoValue, { marginTop: 4 }]}>
+        Removal is the humidity ratio drop times dry air mass flow. Ratings are usually at 80°F / 60% RH; drier inlet air lowers the achievable removal.
+      </Text>
+    </View>
+  )
+}
+
+/**
+ * Long-term logger exceedance table, one row per indoor logger
+ */
+function MonitoringTable({ monitoring }: { monitoring: MonitoringSummary[] }) {
+  const thresholds = monitoring[0].analysis.exceedance.thresholds
+  const schedule = monitoring[0].analysis.occupied.schedule
+
+  return (
+    <View style={styles.section}>
+      <Text style={styles.sectionTitle}>Logged Conditions</Text>
+      <Text style={[styles.infoValue, { marginBottom: 8 }]}>
+        Limits: {thresholds.rh_pct}% RH, {thresholds.dewPoint_F}°F dew point. Occupied hours {schedule.startHour}:00-{schedule.endHour}:00
+        {schedule.weekdaysOnly ? ' weekdays' : ''}; overnight rise is from 22:00 to 06:00 logger time.
+      </Text>
+      <View style={styles.table}>
+        <View style={[styles.tableRow, styles.tableHeader]}>
+          <View style={[styles.tableCol, { width: '24%' }]}>
+            <Text style={styles.tableCellHeader}>Logger</Text>
+          </View>
+          <View style={[styles.tableCol, { width: '18%' }]}>
+            <Text style={styles.tableCellHeader}>Period</Text>
+          </View>
+          <View style={[styles.tableCol, { width: '15%' }]}>
+            <Text style={styles.tableCellHeader}>Above RH limit</Text>
+          </View>
+          <View style={[styles.tableCol, { width: '15%' }]}>
+            <Text style={styles.tableCellHeader}>Above DP limit</Text>
+          </View>
+          <View style={[styles.tableCol, { width: '13%' }]}>
+            <Text style={styles.tableCellHeader}>Occupied out of range</Text>
+          </View>
+          <View style={[styles.tableCol, { width: '15%' }]}>
+            <Text style={styles.tableCellHeader}>Overnight rise (avg)</Text>
+          </View>
+        </View>
+        {monitoring.map((summary, index) => {
+          const { exceedance, occupied, overnight } = summary.analysis
+          return (
+            <View key={index} style={styles.tableRow} wrap={false}>
+              <View style={[styles.tableCol, { width: '24%' }]}>
+                <Text style={styles.tableCell}>
+                  {summary.areaName}{summary.unitLabel && ` / ${summary.unitLabel}`} - {summary.name}
+                  {summary.location && ` (${summary.location})`}
+                </Text>
+              </View>
+              <View style={[styles.tableCol, { width: '18%' }]}>
+                <Text style={styles.tableCell}>
+                  {new Date(summary.startedAt).toLocaleDateString()} - {new Date(summary.endedAt).toLocaleDateString()}
+                  {' '}({formatHours(exceedance.hoursLogged)})
+                </Text>
+              </View>
+              <View style={[styles.tableCol, { width: '15%' }]}>
+                <Text style={styles.tableCell}>
+                  {formatHours(exceedance.hoursAboveRh)} ({exceedance.percentAboveRh.toFixed(1)}%)
+                </Text>
+              </View>
+              <View style={[styles.tableCol, { width: '15%' }]}>
+                <Text style={styles.tableCell}>
+                  {formatHours(exceedance.hoursAboveDewPoint)} ({exceedance.percentAboveDewPoint.toFixed(1)}%)
+                </Text>
+              </View>
+              <View style={[styles.tableCol, { width: '13%' }]}>
+                <Text style={[styles.tableCell, occupied.percentOutOfRange > 0 ? { color: '#DC2626' } : {}]}>
+                  {occupied.percentOutOfRange.toFixed(1)}%
+                </Text>
+              </View>
+              <View style={[styles.tableCol, { width: '15%' }]}>
+                <Text style={styles.tableCell}>
+                  {overnight.nights > 0
+                    ? `${formatRise(overnight.rhRise_pct.avg, '% RH')}, ${formatRise(overnight.dewPointRise_F.avg, '°F DP')}`
+                    : 'N/A'}
+                </Text>
+              </View>
+            </View>
+          )
+        })}
+      </View>
+    </View>
+  )
+}
+
+/**
+ * Single-session commissioning report
+ */
+export function CommissioningReport({ data }: { data: ReportData }) {
+  const { session } = data
+  const images = data.images || []
+  const monitoring = data.monitoring || []
+  const evidenceGroups = groupEvidence(images, session.tests)
+  const charts = buildChartData(session.tests)
+  const hasCharts = charts.dewPointBars.length > 0 || charts.cfmPerTonBars.length > 0 || charts.mixingMaps.length > 0
 
   const envelopeTests = session.tests.filter(t => 
-    ['BUILDING_PRESSURE', 'PRESSURE_DECAY', 'RETURN_CURB_LEAKAGE', 'SLAB_WALL_MOISTURE'].includes(t.testType)
+    ['BUILDING_PRESSURE', 'PRESSURE_DECAY', 'RETURN_CURB_LEAKAGE', 'SLAB_WALL_MOISTURE'].includes(t.testType) ||
+    t.template?.category === 'ENVELOPE'
   )
   
+  const coilTests = session.tests.filter(t => t.testType === 'COIL_PERFORMANCE' && t.computed)
+  const dehumidifierTests = session.tests.filter(t => t.testType === 'DEHUMIDIFIER_PERFORMANCE')
+
   const hvacTests = session.tests.filter(t => 
-    ['AIRFLOW_STATIC', 'REFRIGERANT_CIRCUIT', 'COIL_PERFORMANCE', 'FAN_EVAP_RECHECK', 'ECONOMIZER_SEAL', 'DISTRIBUTION_MIXING'].includes(t.testType)
+    ['AIRFLOW_STATIC', 'REFRIGERANT_CIRCUIT', 'COIL_PERFORMANCE', 'FAN_EVAP_RECHECK', 'ECONOMIZER_SEAL', 'DISTRIBUTION_MIXING', 'DEHUMIDIFIER_PERFORMANCE'].includes(t.testType) ||
+    t.template?.category === 'HVAC'
   )
 
   return (
@@ -357,6 +842,7 @@ export function CommissioningReport({ data }: { data: ReportData }) {
                 <Text style={styles.infoLabel}>Outdoor Conditions</Text>
                 <Text style={styles.infoValue}>
                   {session.weatherOADryBulb}°F, {session.weatherOARH}% RH
+                  {session.weatherSource && ` (${session.weatherSource}, hourly)`}
                 </Text>
               </View>
               <View style={styles.infoItem}>
@@ -398,7 +884,7 @@ export function CommissioningReport({ data }: { data: ReportData }) {
                 .filter(test => test.pass === false)
                 .map((test, index) => (
                   <Text key={index} style={styles.infoValue}>
-                    • {TEST_TYPE_NAMES[test.testType]} {test.unit && `(${test.unit.label})`}
+                    • {testTypeName(test.testType, test.template?.name)} {test.unit && `(${test.unit.label})`}
                   </Text>
                 ))
               }
@@ -476,28 +962,78 @@ export function CommissioningReport({ data }: { data: ReportData }) {
                 </View>
               </View>
               {hvacTests.map((test, index) => (
-                <View key={index} style={styles.tableRow}>
-                  <View style={styles.tableCol}>
-                    <Text style={styles.tableCell}>{TEST_TYPE_NAMES[test.testType]}</Text>
-                  </View>
-                  <View style={styles.tableCol}>
-                    <Text style={styles.tableCell}>{test.unit?.label || 'N/A'}</Text>
-                  </View>
-                  <View style={styles.tableColWide}>
-                    <Text style={styles.tableCell}>
-                      {formatTestReading(test.testType, test.reading, test.computed)}
-                    </Text>
-                  </View>
-                  <View style={styles.tableCol}>
-                    <View style={styles.tableCell}>
-                      {getPassFailIndicator(test.pass)}
+                <React.Fragment key={index}>
+                  <View style={styles.tableRow}>
+                    <View style={styles.tableCol}>
+                      <Text style={styles.tableCell}>{testTypeName(test.testType, test.template?.name)}</Text>
+                    </View>
+                    <View style={styles.tableCol}>
+                      <Text style={styles.tableCell}>{test.unit?.label || 'N/A'}</Text>
+                    </View>
+                    <View style={styles.tableColWide}>
+                      <Text style={styles.tableCell}>
+                        {formatTestReading(test.testType, test.reading, test.computed, test.template)}
+                      </Text>
+                    </View>
+                    <View style={styles.tableCol}>
+                      <View style={styles.tableCell}>
+                        {getPassFailIndicator(test.pass)}
+                      </View>
                     </View>
                   </View>
-                </View>
+                  <FailingTestThumbnails test={test} images={images} />
+                </React.Fragment>
               ))}
             </View>
           </View>
 
+          {coilTests.length > 0 && <CoilCapacityTable tests={coilTests} />}
+
+          {dehumidifierTests.length > 0 && <DehumidifierTable tests={dehumidifierTests} />}
+
+          <Text
+            style={styles.pageNumber}
+            render={({ pageNumber, totalPages }) => `Page ${pageNumber} of ${totalPages}`}
+            fixed
+          />
+        </Page>
+      )}
+
+      {/* Performance Charts */}
+      {hasCharts && (
+        <Page size="A4" style={styles.page}>
+          <View style={styles.header}>
+            <Text style={styles.title}>Performance Charts</Text>
+          </View>
+
+          {charts.dewPointBars.length > 0 && (
+            <View style={styles.section} wrap={false}>
+              <Text style={styles.sectionTitle}>Supply Dew Point by Unit</Text>
+              <RangeBarChart bars={charts.dewPointBars} band={charts.dewPointBand} unit="°F" digits={1} />
+            </View>
+          )}
+
+          {charts.cfmPerTonBars.length > 0 && (
+            <View style={styles.section} wrap={false}>
+              <Text style={styles.sectionTitle}>Airflow (CFM/ton) by Unit</Text>
+              <RangeBarChart bars={charts.cfmPerTonBars} band={charts.cfmPerTonBand} unit="CFM/ton" />
+            </View>
+          )}
+
+          {charts.psychrometricPoints.length > 0 && (
+            <View style={styles.section} wrap={false}>
+              <Text style={styles.sectionTitle}>Coil Process (Psychrometric Chart)</Text>
+              <PsychrometricChart points={charts.psychrometricPoints} supplyDewPoint={charts.dewPointBand} />
+            </View>
+          )}
+
+          {charts.mixingMaps.map(map => (
+            <View key={map.id} style={styles.section} wrap={false}>
+              <Text style={styles.sectionTitle}>Distribution Grid - {map.zone}</Text>
+              <MixingHeatMap samples={map.samples} maxVariation_F={map.maxVariation_F} />
+            </View>
+          ))}
+
           <Text
             style={styles.pageNumber}
             render={({ pageNumber, totalPages }) => `Page ${pageNumber} of ${totalPages}`}
@@ -531,26 +1067,29 @@ export function CommissioningReport({ data }: { data: ReportData }) {
                 </View>
               </View>
               {envelopeTests.map((test, index) => (
-                <View key={index} style={styles.tableRow}>
-                  <View style={styles.tableCol}>
-                    <Text style={styles.tableCell}>{TEST_TYPE_NAMES[test.testType]}</Text>
-                  </View>
-                  <View style={styles.tableColWide}>
-                    <Text style={styles.tableCell}>
-                      {formatTestReading(test.testType, test.reading, test.computed)}
-                    </Text>
-                  </View>
-                  <View style={styles.tableCol}>
-                    <View style={styles.tableCell}>
-                      {getPassFailIndicator(test.pass)}
+                <React.Fragment key={index}>
+                  <View style={styles.tableRow}>
+                    <View style={styles.tableCol}>
+                      <Text style={styles.tableCell}>{testTypeName(test.testType, test.template?.name)}</Text>
+                    </View>
+                    <View style={styles.tableColWide}>
+                      <Text style={styles.tableCell}>
+                        {formatTestReading(test.testType, test.reading, test.computed, test.template)}
+                      </Text>
+                    </View>
+                    <View style={styles.tableCol}>
+                      <View style={styles.tableCell}>
+                        {getPassFailIndicator(test.pass)}
+                      </View>
+                    </View>
+                    <View style={styles.tableCol}>
+                      <Text style={styles.tableCell}>
+                        {new Date(test.createdAt).toLocaleDateString()}
+                      </Text>
                     </View>
                   </View>
-                  <View style={styles.tableCol}>
-                    <Text style={styles.tableCell}>
-                      {new Date(test.createdAt).toLocaleDateString()}
-                    </Text>
-                  </View>
-                </View>
+                  <FailingTestThumbnails test={test} images={images} />
+                </React.Fragment>
               ))}
             </View>
           </View>
@@ -573,7 +1112,7 @@ export function CommissioningReport({ data }: { data: ReportData }) {
                     .filter(test => test.pass === false && test.computed?.summary)
                     .map((test, index) => (
                       <Text key={index} style={styles.infoValue}>
-                        • {TEST_TYPE_NAMES[test.testType]}: {test.computed.summary}
+                        • {testTypeName(test.testType, test.template?.name)}: {test.computed.summary}
                       </Text>
                     ))
                   }
@@ -590,6 +1129,55 @@ export function CommissioningReport({ data }: { data: ReportData }) {
         </Page>
       )}
 
+      {/* Long-term Monitoring */}
+      {monitoring.length > 0 && (
+        <Page size="A4" style={styles.page}>
+          <View style={styles.header}>
+            <Text style={styles.title}>Long-term Monitoring</Text>
+          </View>
+
+          <MonitoringTable monitoring={monitoring} />
+
+          <Text
+            style={styles.pageNumber}
+            render={({ pageNumber, totalPages }) => `Page ${pageNumber} of ${totalPages}`}
+            fixed
+          />
+        </Page>
+      )}
+
+      {/* Evidence Appendix */}
+      {evidenceGroups.length > 0 && (
+        <Page size="A4" style={styles.page}>
+          <View style={styles.header}>
+            <Text style={styles.title}>Appendix: Photo Evidence</Text>
+          </View>
+
+          {evidenceGroups.map((group) => (
+            <View key={group.key} style={styles.evidenceGroup}>
+              <Text style={styles.evidenceGroupTitle} minPresenceAhead={200}>{group.title}</Text>
+              <View style={styles.evidenceGrid}>
+                {group.images.map((image) => (
+                  <View key={image.id} style={styles.evidenceItem} wrap={false}>
+                    <Image src={image.src} style={styles.evidenceImage} />
+                    <View style={styles.evidenceCaption}>
+                      <CategoryBadge category={image.category} />
+                      <Text style={styles.captionText}>{image.label || image.originalName}</Text>
+                    </View>
+                  </View>
+                ))}
+              </View>
+            </View>
+          ))}
+
+          <Text
+            style={styles.pageNumber}
+            render={({ pageNumber, totalPages }) => `Page ${pageNumber} of ${totalPages}`}
+            fixed
+          />
+        </Page>
+      )}
+
       {/* Sign-off Page */}
       <Page size="A4" style={styles.page}>
         <View style={styles.header}>
@@ -661,3 +1249,363 @@ export function CommissioningReport({ data }: { data: ReportData }) {
     </Document>
   )
 }
+
+const OUTCOME_LABELS: Record<UnitComparison['outcome'], string> = {
+  RESOLVED: 'RESOLVED',
+  REGRESSED: 'REGRESSED',
+  STILL_FAILING: 'STILL FAILING',
+  PASSING: 'PASSING'
+}
+
+function formatComparisonPoint(point: ComparisonPoint) {
+  const values = point.values
+    .map(v => `${v.label}: ${v.value !== null ? v.value.toFixed(v.digits) : 'N/A'}${v.unit ? ` ${v.unit}` : ''}`)
+    .join(', ')
+  return `${new Date(point.date).toLocaleDateString()} - ${values || (point.pass ? 'Pass' : 'Fail')}`
+}
+
+function PageNumber() {
+  return (
+    <Text
+      style={styles.pageNumber}
+      render={({ pageNumber, totalPages }) => `Page ${pageNumber} of ${totalPages}`}
+      fixed
+    />
+  )
+}
+
+/**
+ * Project-level report combining several sessions across areas
+ */
+export function ProjectCommissioningReport({ data, title }: { data: ProjectReportData; title?: string }) {
+  const { project, areas, sessions, statistics, comparisons, findings, monitoring } = data
+
+  const firstDate = sessions[0]?.startedAt
+  const lastDate = sessions[sessions.length - 1]?.startedAt
+
+  return (
+    <Document>
+      {/* Cover Page */}
+      <Page size="A4" style={styles.page}>
+        <View style={styles.header}>
+          <Text style={styles.title}>{title || 'HVAC Commissioning Report'}</Text>
+          <Text style={styles.subtitle}>{project.name}</Text>
+          <Text style={styles.subtitle}>
+            {areas.length} area(s), {sessions.length} session(s)
+            {firstDate && ` • ${formatDate(firstDate)}`}
+            {lastDate && lastDate !== firstDate && ` - ${formatDate(lastDate)}`}
+          </Text>
+        </View>
+
+        {/* Project Information */}
+        <View style={styles.section}>
+          <Text style={styles.sectionTitle}>Project Information</Text>
+          <View style={styles.infoGrid}>
+            <View style={styles.infoItem}>
+              <Text style={styles.infoLabel}>Organization</Text>
+              <Text style={styles.infoValue}>{project.organization.name}</Text>
+            </View>
+            <View style={styles.infoItem}>
+              <Text style={styles.infoLabel}>Project</Text>
+              <Text style={styles.infoValue}>{project.name}</Text>
+            </View>
+          </View>
+          {project.address && (
+            <View style={{ marginTop: 10 }}>
+              <Text style={styles.infoLabel}>Address</Text>
+              <Text style={styles.infoValue}>{project.address}</Text>
+            </View>
+          )}
+        </View>
+
+        {/* Project Summary */}
+        <View style={styles.section}>
+          <Text style={styles.sectionTitle}>Project Summary</Text>
+          <View style={styles.summaryBox}>
+            <View style={styles.infoGrid}>
+              <View style={styles.infoItem}>
+                <Text style={styles.infoLabel}>Total Tests</Text>
+                <Text style={styles.infoValue}>{sessions.reduce((sum, s) => sum + s.tests.length, 0)}</Text>
+              </View>
+              <View style={styles.infoItem}>
+                <Text style={styles.infoLabel}>Open Findings</Text>
+                <Text style={styles.infoValue}>{findings.open.length}</Text>
+              </View>
+              <View style={styles.infoItem}>
+                <Text style={styles.infoLabel}>Resolved</Text>
+                <Text style={styles.infoValue}>{findings.resolved.length}</Text>
+              </View>
+              <View style={styles.infoItem}>
+                <Text style={styles.infoLabel}>Completion</Text>
+                <Text style={styles.infoValue}>{statistics.completionRate}%</Text>
+              </View>
+            </View>
+          </View>
+
+          <View style={styles.table}>
+            <View style={[styles.tableRow, styles.tableHeader]}>
+              <View style={styles.tableCol}>
+                <Text style={styles.tableCellHeader}>Area</Text>
+              </View>
+              <View style={styles.tableCol}>
+                <Text style={styles.tableCellHeader}>Units</Text>
+              </View>
+              <View style={styles.tableCol}>
+                <Text style={styles.tableCellHeader}>Passed</Text>
+              </View>
+              <View style={styles.tableCol}>
+                <Text style={styles.tableCellHeader}>Failed</Text>
+              </View>
+            </View>
+            {areas.map((area) => (
+              <View key={area.id} style={styles.tableRow}>
+                <View style={styles.tableCol}>
+                  <Text style={styles.tableCell}>{area.name}</Text>
+                </View>
+                <View style={styles.tableCol}>
+                  <Text style={styles.tableCell}>{area.units.map(u => u.label).join(', ') || 'N/A'}</Text>
+                </View>
+                <View style={styles.tableCol}>
+                  <Text style={styles.tableCell}>{area.statistics.passFailStats.pass}</Text>
+                </View>
+                <View style={styles.tableCol}>
+                  <Text style={styles.tableCell}>{area.statistics.passFailStats.fail}</Text>
+                </View>
+              </View>
+            ))}
+          </View>
+        </View>
+
+        <PageNumber />
+      </Page>
+
+      {/* Findings Page */}
+      <Page size="A4" style={styles.page}>
+        <View style={styles.header}>
+          <Text style={styles.title}>Findings</Text>
+        </View>
+
+        <View style={styles.section}>
+          <Text style={styles.sectionTitle}>Open Findings ({findings.open.length})</Text>
+          {findings.open.length === 0 ? (
+            <Text style={styles.infoValue}>
+              All systems tested are performing within acceptable parameters as of their latest test.
+            </Text>
+          ) : (
+            findings.open.map((finding, index) => (
+              <Text key={index} style={[styles.infoValue, { marginBottom: 4 }]}>
+                • {finding.areaName}{finding.unitLabel && ` / ${finding.unitLabel}`} - {testTypeName(finding.testType, finding.templateName)}
+                {finding.summary && `: ${finding.summary}`} ({formatDate(finding.date)})
+              </Text>
+            ))
+          )}
+        </View>
+
+        {findings.resolved.length > 0 && (
+          <View style={styles.section}>
+            <Text style={styles.sectionTitle}>Resolved Findings ({findings.resolved.length})</Text>
+            {findings.resolved.map((finding, index) => (
+              <Text key={index} style={[styles.infoValue, { marginBottom: 4 }]}>
+                • {finding.areaName}{finding.unitLabel && ` / ${finding.unitLabel}`} - {testTypeName(finding.testType, finding.templateName)}
+                {' '}passed on retest ({formatDate(finding.date)})
+              </Text>
+            ))}
+          </View>
+        )}
+
+        {comparisons.length > 0 && (
+          <View style={styles.section}>
+            <Text style={styles.sectionTitle}>Before / After Comparison</Text>
+            <View style={styles.table}>
+              <View style={[styles.tableRow, styles.tableHeader]}>
+                <View style={[styles.tableCol, { width: '15%' }]}>
+                  <Text style={styles.tableCellHeader}>Unit</Text>
+                </View>
+                <View style={[styles.tableCol, { width: '15%' }]}>
+                  <Text style={styles.tableCellHeader}>Test</Text>
+                </View>
+                <View style={[styles.tableCol, { width: '28%' }]}>
+                  <Text style={styles.tableCellHeader}>Before</Text>
+                </View>
+                <View style={[styles.tableCol, { width: '28%' }]}>
+                  <Text style={styles.tableCellHeader}>After</Text>
+                </View>
+                <View style={[styles.tableCol, { width: '14%' }]}>
+                  <Text style={styles.tableCellHeader}>Outcome</Text>
+                </View>
+              </View>
+              {comparisons.map((comparison, index) => (
+                <View key={index} style={styles.tableRow} wrap={false}>
+                  <View style={[styles.tableCol, { width: '15%' }]}>
+                    <Text style={styles.tableCell}>{comparison.unitLabel}</Text>
+                  </View>
+                  <View style={[styles.tableCol, { width: '15%' }]}>
+                    <Text style={styles.tableCell}>{testTypeName(comparison.testType, comparison.templateName)}</Text>
+                  </View>
+                  <View style={[styles.tableCol, { width: '28%' }]}>
+                    <Text style={styles.tableCell}>{formatComparisonPoint(comparison.before)}</Text>
+                  </View>
+                  <View style={[styles.tableCol, { width: '28%' }]}>
+                    <Text style={styles.tableCell}>{formatComparisonPoint(comparison.after)}</Text>
+                  </View>
+                  <View style={[styles.tableCol, { width: '14%' }]}>
+                    <View style={styles.tableCell}>
+                      <Text style={comparison.outcome === 'RESOLVED' || comparison.outcome === 'PASSING'
+                        ? styles.passIndicator
+                        : styles.failIndicator}
+                      >
+                        {OUTCOME_LABELS[comparison.outcome]}
+                      </Text>
+                    </View>
+                  </View>
+                </View>
+              ))}
+            </View>
+          </View>
+        )}
+
+        <PageNumber />
+      </Page>
+
+      {/* Long-term Monitoring */}
+      {monitoring.length > 0 && (
+        <Page size="A4" style={styles.page}>
+          <View style={styles.header}>
+            <Text style={styles.title}>Long-term Monitoring</Text>
+          </View>
+
+          <MonitoringTable monitoring={monitoring} />
+
+          <PageNumber />
+        </Page>
+      )}
+
+      {/* Session Pages */}
+      {sessions.map((session) => (
+        <Page key={session.id} size="A4" style={styles.page}>
+          <View style={styles.header}>
+            <Text style={styles.title}>{session.title}</Text>
+            <Text style={styles.subtitle}>
+              {session.areaName} • {formatDate(session.startedAt)} • {session.author.name}
+            </Text>
+          </View>
+
+          {(session.weatherOADryBulb || session.weatherOARH) && (
+            <View style={styles.infoGrid}>
+              <View style={styles.infoItem}>
+                <Text style={styles.infoLabel}>Outdoor Conditions</Text>
+                <Text style={styles.infoValue}>
+                  {session.weatherOADryBulb}°F, {session.weatherOARH}% RH
+                </Text>
+              </View>
+              <View style={styles.infoItem}>
+                <Text style={styles.infoLabel}>Status</Text>
+                <Text style={styles.infoValue}>{session.status}</Text>
+              </View>
+            </View>
+          )}
+
+          <View style={styles.section}>
+            <Text style={styles.sectionTitle}>Test Results</Text>
+            <View style={styles.table}>
+              <View style={[styles.tableRow, styles.tableHeader]}>
+                <View style={styles.tableCol}>
+                  <Text style={styles.tableCellHeader}>Test Type</Text>
+                </View>
+                <View style={styles.tableCol}>
+                  <Text style={styles.tableCellHeader}>Unit</Text>
+                </View>
+                <View style={styles.tableColWide}>
+                  <Text style={styles.tableCellHeader}>Results</Text>
+                </View>
+                <View style={styles.tableCol}>
+                  <Text style={styles.tableCellHeader}>Status</Text>
+                </View>
+              </View>
+              {session.tests.map((test) => (
+                <View key={test.id} style={styles.tableRow} wrap={false}>
+                  <View style={styles.tableCol}>
+                    <Text style={styles.tableCell}>{testTypeName(test.testType, test.template?.name)}</Text>
+                  </View>
+                  <View style={styles.tableCol}>
+                    <Text style={styles.tableCell}>{test.unit?.label || 'N/A'}</Text>
+                  </View>
+                  <View style={styles.tableColWide}>
+                    <Text style={styles.tableCell}>
+                      {formatTestReading(test.testType, test.reading, test.computed, test.template)}
+                    </Text>
+                  </View>
+                  <View style={styles.tableCol}>
+                    <View style={styles.tableCell}>
+                      {getPassFailIndicator(test.pass)}
+                    </View>
+                  </View>
+                </View>
+              ))}
+            </View>
+          </View>
+
+          {session.tests.some(test => test.testType === 'COIL_PERFORMANCE' && test.computed) && (
+            <CoilCapacityTable tests={session.tests.filter(test => test.testType === 'COIL_PERFORMANCE' && test.computed)} />
+          )}
+
+          {session.tests.some(test => test.testType === 'DEHUMIDIFIER_PERFORMANCE') && (
+            <DehumidifierTable tests={session.tests.filter(test => test.testType === 'DEHUMIDIFIER_PERFORMANCE')} />
+          )}
+
+          {session.notes && (
+            <View style={styles.section}>
+              <Text style={styles.infoLabel}>Session Notes:</Text>
+              <Text style={styles.infoValue}>{session.notes}</Text>
+            </View>
+          )}
+
+          <PageNumber />
+        </Page>
+      ))}
+
+      {/* Sign-off Page */}
+      <Page size="A4" style={styles.page}>
+        <View style={styles.header}>
+          <Text style={styles.title}>Report Sign-off</Text>
+        </View>
+
+        <View style={styles.section}>
+          <Text style={styles.sectionTitle}>Signatures</Text>
+
+          <View style={{ marginBottom: 40 }}>
+            <Text style={styles.infoLabel}>Commissioning Engineer(s):</Text>
+            {Array.from(new Set(sessions.map(s => s.author.name || s.author.email))).map((name) => (
+              <Text key={name} style={styles.infoValue}>{name}</Text>
+            ))}
+            <View style={{ marginTop: 20, borderBottomWidth: 1, borderBottomColor: '#000', width: '50%' }}>
+              <Text style={{ fontSize: 8, marginBottom: 2 }}>Signature</Text>
+            </View>
+            <Text style={styles.infoValue}>Date: _________________</Text>
+          </View>
+
+          <View style={{ marginBottom: 40 }}>
+            <Text style={styles.infoLabel}>Reviewer:</Text>
+            <View style={{ marginTop: 30, borderBottomWidth: 1, borderBottomColor: '#000', width: '50%' }}>
+              <Text style={{ fontSize: 8, marginBottom: 2 }}>Signature</Text>
+            </View>
+            <Text style={styles.infoValue}>Date: _________________</Text>
+          </View>
+        </View>
+
+        <View style={styles.footer}>
+          <Text>
+            Report generated by HVAC Commissioning Logger on {new Date().toLocaleDateString()}
+          </Text>
+          <Text>
+            {project.organization.name}
+            {project.organization.email && ` • ${project.organization.email}`}
+            {project.organization.phone && ` • ${project.organization.phone}`}
+          </Text>
+        </View>
+
+        <PageNumber />
+      </Page>
+    </Document>
+  )
+}
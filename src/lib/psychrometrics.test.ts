@@ -0,0 +1,102 @@
+import { describe, expect, it } from 'vitest'
+import {
+  STANDARD_PRESSURE_PSIA,
+  apparatusDewPoint,
+  dewPointFromVaporPressure,
+  getPsychrometricState,
+  pressureAtElevation,
+  resolvePressure,
+  saturationPressure
+} from './psychrometrics'
+
+describe('saturationPressure', () => {
+  // ASHRAE Fundamentals (2017) Chapter 1, Table 3
+  it.each([
+    [0, 0.018502],
+    [32, 0.088650],
+    [70, 0.36334],
+    [212, 14.7089]
+  ])('matches the ASHRAE table at %s°F', (tempF, psia) => {
+    expect(Math.abs(saturationPressure(tempF) / psia - 1)).toBeLessThan(5e-4)
+  })
+})
+
+describe('site pressure', () => {
+  it('drops with elevation', () => {
+    expect(pressureAtElevation(0)).toBeCloseTo(STANDARD_PRESSURE_PSIA, 6)
+    expect(pressureAtElevation(5000)).toBeCloseTo(12.23, 2)
+  })
+
+  it('prefers a measured pressure over elevation', () => {
+    expect(resolvePressure({ pressure_psia: 14.2, elevation_ft: 5000 })).toBe(14.2)
+    expect(resolvePressure({ elevation_ft: 5000 })).toBeCloseTo(12.23, 2)
+    expect(resolvePressure()).toBe(STANDARD_PRESSURE_PSIA)
+  })
+})
+
+describe('getPsychrometricState', () => {
+  it('computes a state from dry bulb and RH', () => {
+    const state = getPsychrometricState({ dryBulb_F: 75, rh_pct: 50 })
+
+    expect(state.dewPoint_F).toBeCloseTo(55.1, 1)
+    expect(state.wetBulb_F).toBeCloseTo(62.6, 1)
+    expect(state.humidityRatio_gr_lb).toBeCloseTo(64.6, 1)
+    expect(state.enthalpy_btu_lb).toBeCloseTo(28.1, 1)
+    expect(state.specificVolume_ft3_lb).toBeCloseTo(13.68, 2)
+  })
+
+  it('gives the same state from any second property', () => {
+    const reference = getPsychrometricState({ dryBulb_F: 75, rh_pct: 50 })
+
+    for (const input of [
+      { dryBulb_F: 75, dewPoint_F: reference.dewPoint_F },
+      { dryBulb_F: 75, wetBulb_F: reference.wetBulb_F },
+      { dryBulb_F: 75, humidityRatio: reference.humidityRatio },
+      { dryBulb_F: 75, enthalpy_btu_lb: reference.enthalpy_btu_lb },
+      { humidityRatio: reference.humidityRatio, enthalpy_btu_lb: reference.enthalpy_btu_lb }
+    ]) {
+      const state = getPsychrometricState(input)
+      expect(state.dryBulb_F).toBeCloseTo(75, 3)
+      expect(state.rh_pct).toBeCloseTo(50, 2)
+    }
+  })
+
+  it('holds more moisture at the same RH at altitude', () => {
+    const seaLevel = getPsychrometricState({ dryBulb_F: 75, rh_pct: 50 })
+    const altitude = getPsychrometricState({ dryBulb_F: 75, rh_pct: 50 }, { elevation_ft: 5000 })
+
+    expect(altitude.pressure_psia).toBeCloseTo(12.23, 2)
+    expect(altitude.humidityRatio).toBeGreaterThan(seaLevel.humidityRatio)
+    expect(altitude.specificVolume_ft3_lb).toBeGreaterThan(seaLevel.specificVolume_ft3_lb)
+  })
+
+  it('requires a second property', () => {
+    expect(() => getPsychrometricState({ dryBulb_F: 75 })).toThrow('second psychrometric property')
+    expect(() => getPsychrometricState({ rh_pct: 50 })).toThrow('Dry bulb temperature is required')
+  })
+})
+
+describe('dewPointFromVaporPressure', () => {
+  it('inverts the saturation pressure', () => {
+    expect(dewPointFromVaporPressure(saturationPressure(55))).toBeCloseTo(55, 3)
+    expect(dewPointFromVaporPressure(saturationPressure(20))).toBeCloseTo(20, 3)
+  })
+})
+
+describe('apparatusDewPoint', () => {
+  it('finds where the coil process line meets saturation', () => {
+    const entering = getPsychrometricState({ dryBulb_F: 80, rh_pct: 50 })
+    const leaving = getPsychrometricState({ dryBulb_F: 58, rh_pct: 90 })
+    const adp = apparatusDewPoint(entering, leaving)!
+
+    expect(adp).toBeLessThan(leaving.dryBulb_F)
+    expect(adp).toBeGreaterThan(leaving.dewPoint_F - 5)
+  })
+
+  it('is null when the air was not cooled and dried', () => {
+    const entering = getPsychrometricState({ dryBulb_F: 80, rh_pct: 50 })
+    const leaving = getPsychrometricState({ dryBulb_F: 58, rh_pct: 90 })
+
+    expect(apparatusDewPoint(leaving, entering)).toBeNull()
+  })
+})
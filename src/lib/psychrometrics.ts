@@ -0,0 +1,296 @@
+/**
+ * Psychrometric Engine
+ * Moist air properties per ASHRAE Handbook - Fundamentals (2017), Chapter 1,
+ * using the Hyland-Wexler saturation pressure formulation. All values are in IP units.
+ */
+
+/** Standard atmospheric pressure at sea level (psia) */
+export const STANDARD_PRESSURE_PSIA = 14.696
+
+/** Ratio of molecular masses of water vapor and dry air */
+const MOLECULAR_WEIGHT_RATIO = 0.621945
+
+/** Conversion factor from lb water / lb dry air to grains / lb dry air */
+const GRAINS_PER_LB = 7000
+
+const RANKINE_OFFSET = 459.67
+const TRIPLE_POINT_F = 32
+
+export interface PsychrometricConditions {
+  /** Site barometric pressure (psia). Takes precedence over elevation. */
+  pressure_psia?: number
+  /** Site elevation above sea level (ft). Used when pressure is not given. */
+  elevation_ft?: number
+}
+
+/**
+ * Known properties used to fix a state point. Dry bulb plus any one of the
+ * other properties is required, or humidity ratio plus enthalpy.
+ */
+export interface PsychrometricInput {
+  dryBulb_F?: number
+  rh_pct?: number
+  wetBulb_F?: number
+  dewPoint_F?: number
+  humidityRatio?: number // lb water / lb dry air
+  enthalpy_btu_lb?: number
+}
+
+export interface PsychrometricState {
+  dryBulb_F: number
+  wetBulb_F: number
+  dewPoint_F: number
+  rh_pct: number
+  humidityRatio: number // lb water / lb dry air
+  humidityRatio_gr_lb: number // grains / lb dry air
+  enthalpy_btu_lb: number // Btu / lb dry air
+  specificVolume_ft3_lb: number // ft³ / lb dry air
+  vaporPressure_psia: number
+  saturationPressure_psia: number
+  pressure_psia: number
+}
+
+/**
+ * Barometric pressure at elevation (ASHRAE Fundamentals Eq. 3)
+ * @param elevationFt - Elevation above sea level in feet
+ * @returns Barometric pressure in psia
+ */
+export function pressureAtElevation(elevationFt: number): number {
+  return STANDARD_PRESSURE_PSIA * Math.pow(1 - 6.8754e-6 * elevationFt, 5.2559)
+}
+
+/**
+ * Resolve the site barometric pressure from pressure or elevation
+ */
+export function resolvePressure(conditions: PsychrometricConditions = {}): number {
+  if (conditions.pressure_psia !== undefined && conditions.pressure_psia > 0) {
+    return conditions.pressure_psia
+  }
+  if (conditions.elevation_ft !== undefined) {
+    return pressureAtElevation(conditions.elevation_ft)
+  }
+  return STANDARD_PRESSURE_PSIA
+}
+
+/**
+ * Saturation vapor pressure over ice (below 32°F) or liquid water
+ * (Hyland-Wexler, ASHRAE Fundamentals Eq. 5 and 6)
+ * @param tempF - Temperature in °F (-148 to 392)
+ * @returns Saturation pressure in psia
+ */
+export function saturationPressure(tempF: number): number {
+  const T = tempF + RANKINE_OFFSET
+
+  if (tempF < TRIPLE_POINT_F) {
+    return Math.exp(
+      -1.0214165e4 / T
+      - 4.8932428
+      - 5.3765794e-3 * T
+      + 1.9202377e-7 * T * T
+      + 3.5575832e-10 * Math.pow(T, 3)
+      - 9.0344688e-14 * Math.pow(T, 4)
+      + 4.1635019 * Math.log(T)
+    )
+  }
+
+  return Math.exp(
+    -1.0440397e4 / T
+    - 1.1294650e1
+    - 2.7022355e-2 * T
+    + 1.2890360e-5 * T * T
+    - 2.4780681e-9 * Math.pow(T, 3)
+    + 6.5459673 * Math.log(T)
+  )
+}
+
+/**
+ * Humidity ratio from partial pressure of water vapor (Eq. 20)
+ */
+export function humidityRatioFromVaporPressure(vaporPressure: number, pressure: number): number {
+  return MOLECULAR_WEIGHT_RATIO * vaporPressure / (pressure - vaporPressure)
+}
+
+/**
+ * Partial pressure of water vapor from humidity ratio (inverse of Eq. 20)
+ */
+export function vaporPressureFromHumidityRatio(humidityRatio: number, pressure: number): number {
+  return pressure * humidityRatio / (MOLECULAR_WEIGHT_RATIO + humidityRatio)
+}
+
+/**
+ * Moist air enthalpy (Eq. 32)
+ * @returns Enthalpy in Btu/lb dry air
+ */
+export function moistAirEnthalpy(dryBulbF: number, humidityRatio: number): number {
+  return 0.240 * dryBulbF + humidityRatio * (1061 + 0.444 * dryBulbF)
+}
+
+/**
+ * Moist air specific volume (Eq. 28)
+ * @returns Specific volume in ft³/lb dry air
+ */
+export function moistAirSpecificVolume(dryBulbF: number, humidityRatio: number, pressure: number): number {
+  return 0.370486 * (dryBulbF + RANKINE_OFFSET) * (1 + 1.607858 * humidityRatio) / pressure
+}
+
+/**
+ * Dew point temperature from vapor pressure, found by inverting the
+ * saturation pressure curve
+ * @returns Dew point in °F
+ */
+export function dewPointFromVaporPressure(vaporPressure: number): number {
+  if (vaporPressure <= 0) return -Infinity
+
+  return solve(t => saturationPressure(t) - vaporPressure, -148, 392)
+}
+
+/**
+ * Humidity ratio implied by a wet bulb reading (Eq. 33 and 35)
+ */
+export function humidityRatioFromWetBulb(dryBulbF: number, wetBulbF: number, pressure: number): number {
+  const satW = humidityRatioFromVaporPressure(saturationPressure(wetBulbF), pressure)
+
+  if (wetBulbF >= TRIPLE_POINT_F) {
+    return ((1093 - 0.556 * wetBulbF) * satW - 0.240 * (dryBulbF - wetBulbF)) /
+      (1093 + 0.444 * dryBulbF - wetBulbF)
+  }
+
+  return ((1220 - 0.04 * wetBulbF) * satW - 0.240 * (dryBulbF - wetBulbF)) /
+    (1220 + 0.444 * dryBulbF - 0.48 * wetBulbF)
+}
+
+/**
+ * Thermodynamic wet bulb temperature for a known humidity ratio
+ * @returns Wet bulb in °F
+ */
+export function wetBulbFromHumidityRatio(dryBulbF: number, humidityRatio: number, pressure: number): number {
+  const dewPoint = dewPointFromVaporPressure(vaporPressureFromHumidityRatio(humidityRatio, pressure))
+  const lower = Number.isFinite(dewPoint) ? dewPoint : -148
+
+  return solve(
+    t => humidityRatioFromWetBulb(dryBulbF, t, pressure) - humidityRatio,
+    lower,
+    dryBulbF
+  )
+}
+
+/**
+ * Compute a complete moist air state from any two independent properties
+ * @param input - Known properties (see PsychrometricInput)
+ * @param conditions - Site barometric pressure or elevation (defaults to sea level)
+ * @returns Full psychrometric state point
+ */
+export function getPsychrometricState(
+  input: PsychrometricInput,
+  conditions: PsychrometricConditions = {}
+): PsychrometricState {
+  const pressure = resolvePressure(conditions)
+  const { rh_pct, wetBulb_F, dewPoint_F, humidityRatio, enthalpy_btu_lb } = input
+  let dryBulb = input.dryBulb_F
+  let W: number
+
+  if (dryBulb === undefined) {
+    if (humidityRatio === undefined || enthalpy_btu_lb === undefined) {
+      throw new Error('Dry bulb temperature is required unless humidity ratio and enthalpy are given')
+    }
+    // Invert Eq. 32 for dry bulb
+    dryBulb = (enthalpy_btu_lb - 1061 * humidityRatio) / (0.240 + 0.444 * humidityRatio)
+    W = humidityRatio
+  } else if (rh_pct !== undefined) {
+    W = humidityRatioFromVaporPressure(rh_pct / 100 * saturationPressure(dryBulb), pressure)
+  } else if (dewPoint_F !== undefined) {
+    W = humidityRatioFromVaporPressure(saturationPressure(dewPoint_F), pressure)
+  } else if (wetBulb_F !== undefined) {
+    W = humidityRatioFromWetBulb(dryBulb, wetBulb_F, pressure)
+  } else if (humidityRatio !== undefined) {
+    W = humidityRatio
+  } else if (enthalpy_btu_lb !== undefined) {
+    W = (enthalpy_btu_lb - 0.240 * dryBulb) / (1061 + 0.444 * dryBulb)
+  } else {
+    throw new Error('A second psychrometric property is required to fix the state point')
+  }
+
+  W = Math.max(0, W)
+
+  const vaporPressure = vaporPressureFromHumidityRatio(W, pressure)
+  const satPressure = saturationPressure(dryBulb)
+
+  return {
+    dryBulb_F: dryBulb,
+    wetBulb_F: wetBulb_F ?? wetBulbFromHumidityRatio(dryBulb, W, pressure),
+    dewPoint_F: dewPoint_F ?? dewPointFromVaporPressure(vaporPressure),
+    rh_pct: rh_pct ?? (vaporPressure / satPressure) * 100,
+    humidityRatio: W,
+    humidityRatio_gr_lb: W * GRAINS_PER_LB,
+    enthalpy_btu_lb: moistAirEnthalpy(dryBulb, W),
+    specificVolume_ft3_lb: moistAirSpecificVolume(dryBulb, W, pressure),
+    vaporPressure_psia: vaporPressure,
+    saturationPressure_psia: satPressure,
+    pressure_psia: pressure
+  }
+}
+
+/**
+ * Apparatus dew point of a cooling coil: where the straight line from the entering
+ * through the leaving state, extended past the leaving state, meets saturation
+ * @returns ADP in °F, or null when the coil didn't cool and dehumidify the air
+ */
+export function apparatusDewPoint(
+  entering: { dryBulb_F: number; humidityRatio: number },
+  leaving: { dryBulb_F: number; humidityRatio: number },
+  conditions: PsychrometricConditions = {}
+): number | null {
+  const pressure = resolvePressure(conditions)
+  const tempDrop = entering.dryBulb_F - leaving.dryBulb_F
+  const moistureDrop = entering.humidityRatio - leaving.humidityRatio
+
+  if (tempDrop <= 0 || moistureDrop <= 0) return null
+
+  // Distance along the process line in multiples of the measured change (1 = leaving state)
+  const pointAt = (t: number) => ({
+    dryBulb: entering.dryBulb_F - t * tempDrop,
+    humidityRatio: entering.humidityRatio - t * moistureDrop
+  })
+  const aboveSaturation = (t: number) => {
+    const point = pointAt(t)
+    return point.humidityRatio - humidityRatioFromVaporPressure(saturationPressure(point.dryBulb), pressure)
+  }
+
+  if (aboveSaturation(1) >= 0) return leaving.dryBulb_F
+
+  // Step out to the first crossing, stopping before the line runs out of moisture
+  const end = entering.humidityRatio / moistureDrop
+  const steps = 200
+  let lower = 1
+  for (let i = 1; i <= steps; i++) {
+    const t = 1 + (end - 1) * i / steps
+    if (aboveSaturation(t) >= 0) {
+      return pointAt(solve(aboveSaturation, lower, t)).dryBulb
+    }
+    lower = t
+  }
+
+  return null
+}
+
+/**
+ * Bisection root finder for monotonic property relations
+ */
+function solve(fn: (x: number) => number, lower: number, upper: number): number {
+  let lo = lower
+  let hi = upper
+  let fLo = fn(lo)
+
+  for (let i = 0; i < 100 && hi - lo > 1e-6; i++) {
+    const mid = (lo + hi) / 2
+    const fMid = fn(mid)
+    if ((fMid < 0) === (fLo < 0)) {
+      lo = mid
+      fLo = fMid
+    } else {
+      hi = mid
+    }
+  }
+
+  return (lo + hi) / 2
+}
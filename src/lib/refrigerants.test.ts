@@ -0,0 +1,74 @@
+import { describe, expect, it } from 'vitest'
+import {
+  DEFAULT_REFRIGERANT,
+  getRefrigerant,
+  getSaturationPressure,
+  getSaturationTemperature,
+  isSupportedRefrigerant,
+  normalizeRefrigerant
+} from './refrigerants'
+
+describe('normalizeRefrigerant', () => {
+  it.each([
+    ['R-410A', 'R-410A'],
+    ['r410a', 'R-410A'],
+    ['410A', 'R-410A'],
+    ['R 22', 'R-22'],
+    ['r-134A', 'R-134a'],
+    ['R454B', 'R-454B']
+  ])('maps %s to %s', (input, key) => {
+    expect(normalizeRefrigerant(input)).toBe(key)
+  })
+
+  it('rejects unknown and empty names', () => {
+    expect(normalizeRefrigerant('R-12')).toBeNull()
+    expect(normalizeRefrigerant('')).toBeNull()
+    expect(normalizeRefrigerant(null)).toBeNull()
+    expect(isSupportedRefrigerant('R-12')).toBe(false)
+    expect(isSupportedRefrigerant('r32')).toBe(true)
+  })
+})
+
+describe('getRefrigerant', () => {
+  it('defaults to R-410A', () => {
+    expect(getRefrigerant().name).toBe(DEFAULT_REFRIGERANT)
+  })
+
+  it('throws for unsupported refrigerants', () => {
+    expect(() => getRefrigerant('R-12')).toThrow('Unsupported refrigerant: R-12')
+  })
+})
+
+describe('saturation lookups', () => {
+  it('reads table points exactly', () => {
+    expect(getSaturationTemperature(118.4, 'R-410A')).toBeCloseTo(40, 6)
+    expect(getSaturationPressure(40, 'R-410A')).toBeCloseTo(118.4, 6)
+    expect(getSaturationTemperature(68.5, 'R-22')).toBeCloseTo(40, 6)
+  })
+
+  it('interpolates between table points', () => {
+    expect(getSaturationPressure(45, 'R-410A')).toBeCloseTo((118.4 + 142.7) / 2, 6)
+    expect(getSaturationTemperature(130.55, 'R-410A')).toBeCloseTo(45, 6)
+  })
+
+  it('extrapolates beyond the table', () => {
+    expect(getSaturationPressure(160, 'R-410A')).toBeGreaterThan(610.5)
+    expect(getSaturationTemperature(5, 'R-410A')).toBeLessThan(-40)
+  })
+
+  it('round-trips pressure and temperature', () => {
+    for (const refrigerant of ['R-22', 'R-134a', 'R-32', 'R-410A', 'R-454B', 'R-407C']) {
+      const pressure = getSaturationPressure(47.5, refrigerant, 'dew')
+      expect(getSaturationTemperature(pressure, refrigerant, 'dew')).toBeCloseTo(47.5, 6)
+    }
+  })
+
+  it('separates bubble and dew points for zeotropic blends', () => {
+    const dew = getSaturationTemperature(100, 'R-407C', 'dew')
+    const bubble = getSaturationTemperature(100, 'R-407C', 'bubble')
+
+    // The liquid starts boiling below the temperature at which the last of it evaporates
+    expect(dew - bubble).toBeGreaterThan(8)
+    expect(getSaturationTemperature(100, 'R-22', 'dew')).toBe(getSaturationTemperature(100, 'R-22', 'bubble'))
+  })
+})
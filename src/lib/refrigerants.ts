@@ -0,0 +1,114 @@
+/**
+ * Refrigerant Property Tables
+ * Saturated pressure-temperature data for common HVAC refrigerants.
+ * Zeotropic blends carry separate bubble (liquid) and dew (vapor) curves:
+ * superheat is referenced to the dew point, subcooling to the bubble point.
+ */
+
+export type SaturationPoint = 'dew' | 'bubble'
+
+export interface RefrigerantProperties {
+  name: string
+  type: 'PURE' | 'AZEOTROPIC' | 'ZEOTROPIC'
+  /** Approximate temperature glide at evaporator conditions (°F) */
+  glide_F: number
+  /** Saturation pressure (PSIG) at each entry of TABLE_TEMPS_F */
+  bubble: number[]
+  dew: number[]
+}
+
+/** Table temperatures in °F, shared by all refrigerants */
+const TABLE_TEMPS_F = [-40, -30, -20, -10, 0, 10, 20, 30, 40, 50, 60, 70, 80, 90, 100, 110, 120, 130, 140, 150]
+
+// Negative values are below atmospheric pressure (vacuum)
+const R22 = [0.5, 4.9, 10.2, 16.5, 23.9, 32.8, 43.0, 54.9, 68.5, 84.0, 101.6, 121.4, 143.6, 168.4, 195.9, 226.3, 259.9, 296.8, 337.3, 381.3]
+const R134A = [-7.3, -4.8, -1.8, 1.9, 6.5, 11.9, 18.4, 26.1, 35.0, 45.4, 57.4, 71.1, 86.7, 104.3, 124.1, 146.4, 171.2, 198.7, 229.2, 262.9]
+const R32 = [11.0, 18.1, 26.7, 37.1, 49.3, 63.5, 80.0, 99.1, 121.0, 145.9, 174.1, 205.8, 241.5, 281.3, 325.7, 374.9, 429.3, 489.4, 555.3, 627.2]
+const R410A = [10.8, 18.0, 26.6, 36.5, 48.3, 62.3, 78.4, 97.1, 118.4, 142.7, 170.2, 201.3, 236.0, 274.9, 318.0, 365.8, 418.5, 476.9, 540.8, 610.5]
+const R454B_BUBBLE = [10.2, 17.2, 25.6, 35.3, 46.7, 60.3, 76.1, 94.3, 115.1, 138.8, 165.6, 195.9, 229.8, 267.6, 309.7, 356.3, 407.7, 464.6, 526.9, 594.9]
+const R454B_DEW = [9.2, 15.9, 23.9, 33.2, 44.2, 57.3, 72.4, 89.8, 109.8, 132.5, 158.2, 187.2, 219.7, 256.0, 296.4, 341.1, 390.4, 444.9, 504.7, 569.9]
+const R407C_BUBBLE = [2.7, 7.6, 13.5, 20.5, 28.8, 38.6, 49.9, 63.0, 77.9, 94.9, 114.0, 135.5, 159.4, 186.1, 215.6, 248.0, 283.7, 322.8, 365.4, 411.7]
+const R407C_DEW = [-1.4, 2.4, 7.2, 12.8, 19.6, 27.6, 37.1, 48.0, 60.6, 75.1, 91.6, 110.4, 131.5, 155.2, 181.6, 211.1, 243.7, 279.9, 319.7, 363.3]
+
+export const REFRIGERANTS: Record<string, RefrigerantProperties> = {
+  'R-22': { name: 'R-22', type: 'PURE', glide_F: 0, bubble: R22, dew: R22 },
+  'R-134a': { name: 'R-134a', type: 'PURE', glide_F: 0, bubble: R134A, dew: R134A },
+  'R-32': { name: 'R-32', type: 'PURE', glide_F: 0, bubble: R32, dew: R32 },
+  'R-410A': { name: 'R-410A', type: 'AZEOTROPIC', glide_F: 0.2, bubble: R410A, dew: R410A },
+  'R-454B': { name: 'R-454B', type: 'ZEOTROPIC', glide_F: 2.5, bubble: R454B_BUBBLE, dew: R454B_DEW },
+  'R-407C': { name: 'R-407C', type: 'ZEOTROPIC', glide_F: 10, bubble: R407C_BUBBLE, dew: R407C_DEW }
+}
+
+export const DEFAULT_REFRIGERANT = 'R-410A'
+
+/**
+ * Normalize user-entered refrigerant names ("r410a", "R 22", "410A") to table keys
+ * @returns Table key, or null if the refrigerant is not supported
+ */
+export function normalizeRefrigerant(refrigerant?: string | null): string | null {
+  if (!refrigerant) return null
+
+  const compact = refrigerant.toUpperCase().replace(/[\s-]/g, '').replace(/^R/, '')
+  const match = Object.keys(REFRIGERANTS).find(key => key.toUpperCase().replace(/^R-/, '') === compact)
+
+  return match || null
+}
+
+export function isSupportedRefrigerant(refrigerant?: string | null): boolean {
+  return normalizeRefrigerant(refrigerant) !== null
+}
+
+/**
+ * Look up refrigerant properties, throwing for unsupported refrigerants
+ */
+export function getRefrigerant(refrigerant: string = DEFAULT_REFRIGERANT): RefrigerantProperties {
+  const key = normalizeRefrigerant(refrigerant)
+  if (!key) {
+    throw new Error(`Unsupported refrigerant: ${refrigerant}`)
+  }
+  return REFRIGERANTS[key]
+}
+
+/**
+ * Saturation temperature at a gauge pressure
+ * @param pressurePsig - Pressure in PSIG
+ * @param refrigerant - Refrigerant name (default R-410A)
+ * @param point - 'dew' for vapor (superheat), 'bubble' for liquid (subcooling)
+ * @returns Saturation temperature in °F
+ */
+export function getSaturationTemperature(
+  pressurePsig: number,
+  refrigerant: string = DEFAULT_REFRIGERANT,
+  point: SaturationPoint = 'dew'
+): number {
+  const curve = getRefrigerant(refrigerant)[point]
+  return interpolate(curve, TABLE_TEMPS_F, pressurePsig)
+}
+
+/**
+ * Saturation pressure at a temperature
+ * @param tempF - Temperature in °F
+ * @param refrigerant - Refrigerant name (default R-410A)
+ * @param point - 'dew' or 'bubble'
+ * @returns Saturation pressure in PSIG
+ */
+export function getSaturationPressure(
+  tempF: number,
+  refrigerant: string = DEFAULT_REFRIGERANT,
+  point: SaturationPoint = 'dew'
+): number {
+  const curve = getRefrigerant(refrigerant)[point]
+  return interpolate(TABLE_TEMPS_F, curve, tempF)
+}
+
+/**
+ * Piecewise-linear interpolation over a monotonic table, extrapolating
+ * from the end segments outside the table range
+ */
+function interpolate(xs: number[], ys: number[], x: number): number {
+  let i = 0
+  while (i < xs.length - 2 && x > xs[i + 1]) i++
+
+  const fraction = (x - xs[i]) / (xs[i + 1] - xs[i])
+  return ys[i] + fraction * (ys[i + 1] - ys[i])
+}
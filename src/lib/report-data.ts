@@ -0,0 +1,415 @@
+/**
+ * Report data assembly
+ *
+ * Loads the sessions that go into a commissioning report and derives the
+ * cross-session views: pass/fail statistics, before/after comparisons for
+ * units tested more than once, open vs resolved findings, and long-term
+ * logger exceedance for the areas covered.
+ */
+
+import { db } from './db'
+import { getActiveCriteria } from './criteria-profiles'
+import { analyzeLoggerSamples, type LoggerAnalysis } from './logger-data'
+import type { LoggerColumnMap } from './schemas'
+import { recordedTemplate, type TestTemplateDefinition } from './test-templates'
+
+export interface TestStatistics {
+  testsByType: Record<string, number>
+  passFailStats: {
+    pass: number
+    fail: number
+    pending: number
+  }
+  completionRate: number
+}
+
+export interface ComparisonMetric {
+  key: string
+  label: string
+  unit: string
+  digits: number
+}
+
+export interface ComparisonPoint {
+  sessionLabel: string
+  date: string
+  pass: boolean | null
+  values: Array<ComparisonMetric & { value: number | null }>
+}
+
+export interface UnitComparison {
+  areaName: string
+  unitLabel: string
+  testType: string
+  templateName: string | null
+  testCount: number
+  before: ComparisonPoint
+  after: ComparisonPoint
+  outcome: 'RESOLVED' | 'REGRESSED' | 'STILL_FAILING' | 'PASSING'
+}
+
+export interface ReportFinding {
+  areaName: string
+  unitLabel: string | null
+  testType: string
+  templateName: string | null
+  sessionLabel: string
+  date: string
+  summary: string | null
+}
+
+export interface MonitoringSummary {
+  areaName: string
+  unitLabel: string | null
+  name: string
+  location: string | null
+  startedAt: string
+  endedAt: string
+  analysis: LoggerAnalysis
+}
+
+export interface ProjectReportOptions {
+  sessionIds?: string[]
+  areaIds?: string[]
+}
+
+// Headline values compared between the first and latest test of a unit
+export const COMPARISON_METRICS: Record<string, ComparisonMetric[]> = {
+  AIRFLOW_STATIC: [
+    { key: 'cfm_per_ton', label: 'CFM/ton', unit: '', digits: 0 },
+    { key: 'external_static_inwc', label: 'Ext. static', unit: 'in. w.c.', digits: 2 }
+  ],
+  REFRIGERANT_CIRCUIT: [
+    { key: 'superheat_F', label: 'SH', unit: '°F', digits: 1 },
+    { key: 'subcooling_F', label: 'SC', unit: '°F', digits: 1 }
+  ],
+  COIL_PERFORMANCE: [
+    { key: 'supply_dew_point_F', label: 'Supply DP', unit: '°F', digits: 1 },
+    { key: 'temperature_drop_F', label: 'ΔT', unit: '°F', digits: 1 },
+    { key: 'sensible_heat_ratio', label: 'SHR', unit: '', digits: 2 }
+  ],
+  FAN_EVAP_RECHECK: [
+    { key: 'supply_dew_point_F', label: 'Supply DP', unit: '°F', digits: 1 },
+    { key: 'airflow_cfm', label: 'Airflow', unit: 'CFM', digits: 0 }
+  ],
+  ECONOMIZER_SEAL: [
+    { key: 'commanded_position_pct', label: 'Commanded', unit: '%', digits: 0 }
+  ],
+  DISTRIBUTION_MIXING: [
+    { key: 'temp_variation_F', label: 'Temp spread', unit: '°F', digits: 1 },
+    { key: 'rh_variation_pct', label: 'RH spread', unit: '%', digits: 1 }
+  ],
+  DEHUMIDIFIER_PERFORMANCE: [
+    { key: 'moisture_removal_pints_day', label: 'Removal', unit: 'pints/day', digits: 0 },
+    { key: 'percent_of_rated', label: 'Of rating', unit: '%', digits: 0 }
+  ]
+}
+
+/**
+ * Pass/fail counts and completion rate for a set of tests
+ */
+export function getTestStatistics(tests: Array<{ testType: string; pass?: boolean | null }>): TestStatistics {
+  const testsByType = tests.reduce((acc, test) => {
+    acc[test.testType] = (acc[test.testType] || 0) + 1
+    return acc
+  }, {} as Record<string, number>)
+
+  const passFailStats = tests.reduce((acc, test) => {
+    if (test.pass === true) acc.pass++
+    else if (test.pass === false) acc.fail++
+    else acc.pending++
+    return acc
+  }, { pass: 0, fail: 0, pending: 0 })
+
+  const completionRate = tests.length > 0
+    ? Math.round((passFailStats.pass + passFailStats.fail) / tests.length * 100)
+    : 0
+
+  return { testsByType, passFailStats, completionRate }
+}
+
+const reportSessionInclude = {
+  area: {
+    select: { id: true, name: true }
+  },
+  author: {
+    select: { id: true, name: true, email: true }
+  },
+  tests: {
+    include: {
+      unit: {
+        select: {
+          id: true,
+          label: true,
+          make: true,
+          model: true,
+          tons: true,
+          refrigerant: true
+        }
+      },
+      template: {
+        select: { id: true, name: true, category: true, definition: true }
+      },
+      templateVersion: {
+        select: { version: true, definition: true }
+      }
+    },
+    orderBy: { createdAt: 'asc' as const }
+  }
+}
+
+type ReportSessionRecord = NonNullable<Awaited<ReturnType<typeof loadSessions>>>[number]
+
+function loadSessions(projectId: string, options: ProjectReportOptions) {
+  return db.session.findMany({
+    where: {
+      area: { projectId },
+      ...(options.sessionIds?.length && { id: { in: options.sessionIds } }),
+      ...(options.areaIds?.length && { areaId: { in: options.areaIds } })
+    },
+    include: reportSessionInclude,
+    orderBy: { startedAt: 'asc' }
+  })
+}
+
+function sessionLabel(session: { id: string; title: string | null }) {
+  return session.title || `Session ${session.id.slice(-8)}`
+}
+
+/**
+ * Flatten session tests in chronological order with their session context
+ */
+function chronologicalTests(sessions: ReportSessionRecord[]) {
+  return sessions.flatMap(session =>
+    session.tests.map(test => ({ test, session }))
+  )
+}
+
+/**
+ * Headline values for a test: fixed per built-in type, the first formulas of a custom template
+ */
+function comparisonMetrics(test: ReportSessionRecord['tests'][number]): ComparisonMetric[] {
+  const template = recordedTemplate(test.template, test.templateVersion)
+  if (template) {
+    const { formulas } = template.definition as unknown as TestTemplateDefinition
+    return formulas.slice(0, 2).map(({ key, label, unit, digits }) => ({ key, label, unit: unit ?? '', digits }))
+  }
+  return COMPARISON_METRICS[test.testType] || []
+}
+
+function comparisonPoint(entry: ReturnType<typeof chronologicalTests>[number]): ComparisonPoint {
+  const metrics = comparisonMetrics(entry.test)
+  const calculations = (entry.test.computed as any)?.calculations || {}
+
+  return {
+    sessionLabel: sessionLabel(entry.session),
+    date: entry.session.startedAt.toISOString(),
+    pass: entry.test.pass,
+    values: metrics.map(metric => ({
+      ...metric,
+      value: typeof calculations[metric.key] === 'number' ? calculations[metric.key] : null
+    }))
+  }
+}
+
+/**
+ * Compare the first and latest result of each unit/test type tested more than once
+ */
+export function buildUnitComparisons(sessions: ReportSessionRecord[]): UnitComparison[] {
+  const groups = new Map<string, ReturnType<typeof chronologicalTests>>()
+
+  for (const entry of chronologicalTests(sessions)) {
+    if (!entry.test.unit) continue
+    const key = `${entry.test.unit.id}:${entry.test.testType}:${entry.test.templateId ?? '-'}`
+    groups.set(key, [...(groups.get(key) || []), entry])
+  }
+
+  return Array.from(groups.values())
+    .filter(entries => entries.length > 1)
+    .map(entries => {
+      const first = entries[0]
+      const latest = entries[entries.length - 1]
+      const beforePass = first.test.pass
+      const afterPass = latest.test.pass
+
+      const outcome: UnitComparison['outcome'] =
+        afterPass === false
+          ? (beforePass === false ? 'STILL_FAILING' : 'REGRESSED')
+          : (beforePass === false ? 'RESOLVED' : 'PASSING')
+
+      return {
+        areaName: latest.session.area.name,
+        unitLabel: latest.test.unit!.label,
+        testType: latest.test.testType,
+        templateName: latest.test.template?.name ?? null,
+        testCount: entries.length,
+        before: comparisonPoint(first),
+        after: comparisonPoint(latest),
+        outcome
+      }
+    })
+    .sort((a, b) =>
+      a.unitLabel.localeCompare(b.unitLabel) ||
+      a.testType.localeCompare(b.testType) ||
+      (a.templateName ?? '').localeCompare(b.templateName ?? '')
+    )
+}
+
+/**
+ * Open findings are failing latest results; resolved findings failed earlier but now pass.
+ * Tests without a unit are grouped per area.
+ */
+export function buildFindings(sessions: ReportSessionRecord[]) {
+  const latest = new Map<string, { entry: ReturnType<typeof chronologicalTests>[number]; failedBefore: boolean }>()
+
+  for (const entry of chronologicalTests(sessions)) {
+    const key = `${entry.session.area.id}:${entry.test.unit?.id ?? '-'}:${entry.test.testType}:${entry.test.templateId ?? '-'}`
+    const previous = latest.get(key)
+    const failedBefore = Boolean(previous && (previous.failedBefore || previous.entry.test.pass === false))
+    latest.set(key, { entry, failedBefore })
+  }
+
+  const toFinding = ({ entry }: { entry: ReturnType<typeof chronologicalTests>[number] }): ReportFinding => ({
+    areaName: entry.session.area.name,
+    unitLabel: entry.test.unit?.label ?? null,
+    testType: entry.test.testType,
+    templateName: entry.test.template?.name ?? null,
+    sessionLabel: sessionLabel(entry.session),
+    date: entry.session.startedAt.toISOString(),
+    summary: (entry.test.computed as any)?.summary ?? null
+  })
+
+  const results = Array.from(latest.values())
+
+  return {
+    open: results.filter(r => r.entry.test.pass === false).map(toFinding),
+    resolved: results.filter(r => r.entry.test.pass === true && r.failedBefore).map(toFinding)
+  }
+}
+
+/**
+ * Exceedance and occupied/overnight statistics for the indoor loggers in the given areas,
+ * evaluated against the project's active criteria
+ */
+export async function getMonitoringSummaries(projectId: string, areaIds: string[]): Promise<MonitoringSummary[]> {
+  const datasets = await db.loggerDataset.findMany({
+    where: { projectId, areaId: { in: areaIds }, outdoor: false },
+    include: {
+      area: { select: { name: true } },
+      unit: { select: { label: true } },
+      samples: {
+        select: { recordedAt: true, temperature_F: true, rh_pct: true, dewPoint_F: true },
+        orderBy: { recordedAt: 'asc' }
+      }
+    },
+    orderBy: [{ area: { name: 'asc' } }, { startedAt: 'asc' }]
+  })
+
+  if (datasets.length === 0) {
+    return []
+  }
+
+  const { limits } = await getActiveCriteria(projectId)
+  const thresholds = { rh_pct: limits.indoorMaxRh_pct, dewPoint_F: limits.indoorMaxDewPoint_F }
+
+  return datasets.map(dataset => ({
+    areaName: dataset.area?.name ?? '',
+    unitLabel: dataset.unit?.label ?? null,
+    name: dataset.name,
+    location: dataset.location,
+    startedAt: dataset.startedAt.toISOString(),
+    endedAt: dataset.endedAt.toISOString(),
+    analysis: analyzeLoggerSamples(
+      dataset.samples,
+      thresholds,
+      (dataset.columnMap as unknown as LoggerColumnMap).utcOffsetMinutes
+    )
+  }))
+}
+
+/**
+ * Load everything needed for a project-level report
+ * @returns null when the project doesn't exist
+ */
+export async function getProjectReportData(projectId: string, options: ProjectReportOptions = {}) {
+  const project = await db.project.findUnique({
+    where: { id: projectId },
+    include: {
+      organization: true,
+      areas: {
+        include: {
+          units: { orderBy: { label: 'asc' } }
+        },
+        orderBy: { name: 'asc' }
+      }
+    }
+  })
+
+  if (!project) {
+    return null
+  }
+
+  const sessions = await loadSessions(projectId, options)
+  const includedAreaIds = new Set(sessions.map(s => s.area.id))
+
+  return {
+    project: {
+      name: project.name,
+      address: project.address,
+      organization: {
+        name: project.organization.name,
+        address: project.organization.address,
+        email: project.organization.email,
+        phone: project.organization.phone
+      }
+    },
+    areas: project.areas
+      .filter(area => includedAreaIds.has(area.id))
+      .map(area => ({
+        id: area.id,
+        name: area.name,
+        sqft: area.sqft,
+        units: area.units.map(unit => ({
+          id: unit.id,
+          label: unit.label,
+          make: unit.make,
+          model: unit.model,
+          tons: unit.tons,
+          refrigerant: unit.refrigerant
+        })),
+        statistics: getTestStatistics(
+          sessions.filter(s => s.area.id === area.id).flatMap(s => s.tests)
+        )
+      })),
+    sessions: sessions.map(session => ({
+      id: session.id,
+      title: sessionLabel(session),
+      status: session.status,
+      startedAt: session.startedAt.toISOString(),
+      endedAt: session.endedAt?.toISOString() || null,
+      weatherOADryBulb: session.weatherOADryBulb,
+      weatherOARH: session.weatherOARH,
+      notes: session.notes,
+      areaName: session.area.name,
+      author: session.author,
+      tests: session.tests.map(test => ({
+        id: test.id,
+        testType: test.testType,
+        reading: test.reading,
+        computed: test.computed,
+        pass: test.pass,
+        notes: test.notes,
+        createdAt: test.createdAt.toISOString(),
+        unit: test.unit,
+        template: recordedTemplate(test.template, test.templateVersion)
+      })),
+      statistics: getTestStatistics(session.tests)
+    })),
+    statistics: getTestStatistics(sessions.flatMap(s => s.tests)),
+    comparisons: buildUnitComparisons(sessions),
+    findings: buildFindings(sessions),
+    monitoring: await getMonitoringSummaries(projectId, Array.from(includedAreaIds))
+  }
+}
+
+export type ProjectReportData = NonNullable<Awaited<ReturnType<typeof getProjectReportData>>>
@@ -0,0 +1,106 @@
+/**
+ * Report evidence images
+ *
+ * Loads image FileAssets for a session from storage and downscales them to
+ * JPEG data URIs for embedding in the PDF. Originals can be 10+ MB phone
+ * photos, so each image is resized before it reaches the renderer.
+ */
+
+import sharp from 'sharp'
+import { db } from './db'
+import { getFileContents } from './storage'
+
+// Appendix images render at most ~250pt wide; 900px keeps them sharp when zoomed
+const IMAGE_MAX_PX = 900
+const IMAGE_QUALITY = 70
+const THUMBNAIL_MAX_PX = 240
+const THUMBNAIL_QUALITY = 60
+
+// Upper bound so a session with hundreds of photos can't produce a huge PDF
+const MAX_REPORT_IMAGES = 60
+
+export interface ReportImage {
+  id: string
+  label: string | null
+  originalName: string
+  category: string
+  testResultId: string | null
+  testType: string | null
+  unitId: string | null
+  unitLabel: string | null
+  src: string // JPEG data URI
+  thumbnailSrc: string
+}
+
+async function toJpegDataUri(input: Uint8Array, maxPx: number, quality: number) {
+  const buffer = await sharp(input)
+    .rotate() // Apply EXIF orientation before it is stripped
+    .resize(maxPx, maxPx, { fit: 'inside', withoutEnlargement: true })
+    .flatten({ background: '#FFFFFF' })
+    .jpeg({ quality })
+    .toBuffer()
+
+  return `data:image/jpeg;base64,${buffer.toString('base64')}`
+}
+
+/**
+ * Images attached to a session, its tests, or (for nameplates etc.) its area's units
+ * Images that fail to download or decode are skipped rather than failing the report.
+ */
+export async function loadSessionReportImages(
+  sessionId: string,
+  unitIds: string[]
+): Promise<ReportImage[]> {
+  const files = await db.fileAsset.findMany({
+    where: {
+      mimeType: { startsWith: 'image/' },
+      OR: [
+        { sessionId },
+        { testResult: { sessionId } },
+        { unitId: { in: unitIds }, sessionId: null, testResultId: null }
+      ]
+    },
+    include: {
+      testResult: {
+        select: {
+          id: true,
+          testType: true,
+          unit: { select: { id: true, label: true } }
+        }
+      },
+      unit: {
+        select: { id: true, label: true }
+      }
+    },
+    orderBy: { createdAt: 'asc' },
+    take: MAX_REPORT_IMAGES
+  })
+
+  const images: ReportImage[] = []
+
+  // Sequential to keep memory bounded while decoding large photos
+  for (const file of files) {
+    try {
+      // The stored preview is already small and browser-safe; older files only have the original
+      const original = await getFileContents(file.previewKey ?? file.filename)
+      const unit = file.testResult?.unit ?? file.unit
+
+      images.push({
+        id: file.id,
+        label: file.label,
+        originalName: file.originalName,
+        category: file.category,
+        testResultId: file.testResult?.id ?? null,
+        testType: file.testResult?.testType ?? null,
+        unitId: unit?.id ?? null,
+        unitLabel: unit?.label ?? null,
+        src: await toJpegDataUri(original, IMAGE_MAX_PX, IMAGE_QUALITY),
+        thumbnailSrc: await toJpegDataUri(original, THUMBNAIL_MAX_PX, THUMBNAIL_QUALITY)
+      })
+    } catch (error) {
+      console.error(`Failed to load report image ${file.id}:`, error)
+    }
+  }
+
+  return images
+}
@@ -0,0 +1,151 @@
+/**
+ * Stored report versions
+ *
+ * Each generation uploads the rendered PDF and records a new Report row with
+ * the next version number. Stored PDFs are served as-is and never re-rendered,
+ * so an APPROVED version stays exactly what the client received.
+ */
+
+import { Prisma, ReportStatus } from '@prisma/client'
+import { v4 as uuidv4 } from 'uuid'
+import { db } from './db'
+import { uploadFile, getFileContents, deleteFile } from './storage'
+
+// Concurrent generations for the same session or project conflict on the version number
+const VERSION_ATTEMPTS = 3
+
+export interface StoreReportInput {
+  projectId: string
+  areaId?: string | null
+  sessionId?: string | null // null for project reports
+  sessionIds: string[]
+  title: string
+  summary?: string
+  generatedById: string
+  pdf: Uint8Array
+}
+
+export const reportVersionInclude = {
+  generatedBy: {
+    select: { id: true, name: true, email: true }
+  },
+  approvedBy: {
+    select: { id: true, name: true, email: true }
+  },
+  sessions: {
+    select: { id: true, title: true }
+  }
+}
+
+/**
+ * Approved reports can't be regenerated over, edited or deleted
+ */
+export function isReportFrozen(status: ReportStatus): boolean {
+  return status === 'APPROVED'
+}
+
+/**
+ * Report fields safe to return from the API; storage keys and locations stay server-side
+ */
+export function toReportPayload<T extends { pdfKey: string | null; pdfUrl: string | null }>(report: T) {
+  const { pdfKey, pdfUrl, ...payload } = report
+  return payload
+}
+
+function isSerializationFailure(error: unknown) {
+  return error instanceof Prisma.PrismaClientKnownRequestError && error.code === 'P2034'
+}
+
+/**
+ * Download path for a stored report version
+ */
+export function getReportDownloadUrl(report: { id: string; projectId: string }): string {
+  return `/api/projects/${report.projectId}/reports/${report.id}`
+}
+
+export function getReportFilename(report: { title: string; version: number; createdAt: Date }): string {
+  const date = report.createdAt.toISOString().split('T')[0]
+  return `${report.title.replace(/[^a-zA-Z0-9-_]/g, '-')}-v${report.version}-${date}.pdf`
+}
+
+/**
+ * Upload a rendered PDF and record it as the next version.
+ * Session reports are versioned per session, project reports per project. The
+ * version is allocated in a serializable transaction, retried when a concurrent
+ * generation takes the same number.
+ */
+export async function storeReportVersion(input: StoreReportInput) {
+  const sessionId = input.sessionId ?? null
+  const key = `projects/${input.projectId}/reports/${sessionId ?? 'project'}/${Date.now()}-${uuidv4()}.pdf`
+
+  const { publicUrl } = await uploadFile(key, input.pdf, 'application/pdf')
+
+  for (let attempt = 1; ; attempt++) {
+    try {
+      return await db.$transaction(async (tx) => {
+        const latest = await tx.report.findFirst({
+          where: { projectId: input.projectId, sessionId },
+          orderBy: { version: 'desc' },
+          select: { version: true }
+        })
+
+        return tx.report.create({
+          data: {
+            projectId: input.projectId,
+            areaId: input.areaId ?? null,
+            sessionId,
+            version: (latest?.version ?? 0) + 1,
+            title: input.title,
+            summary: input.summary,
+            pdfKey: key,
+            pdfUrl: publicUrl,
+            fileSize: input.pdf.length,
+            status: 'GENERATED',
+            generatedById: input.generatedById,
+            sessions: {
+              connect: input.sessionIds.map(id => ({ id }))
+            }
+          },
+          include: reportVersionInclude
+        })
+      }, { isolationLevel: Prisma.TransactionIsolationLevel.Serializable })
+    } catch (error) {
+      if (isSerializationFailure(error) && attempt < VERSION_ATTEMPTS) {
+        continue
+      }
+
+      await deleteFile(key).catch(storageError => console.error('Storage delete error:', storageError))
+      throw error
+    }
+  }
+}
+
+/**
+ * Read a stored version's PDF
+ * @returns null for legacy reports that were never uploaded
+ */
+export async function getReportPdf(report: { pdfKey: string | null }) {
+  if (!report.pdfKey) {
+    return null
+  }
+
+  return getFileContents(report.pdfKey)
+}
+
+/**
+ * Delete a non-approved version and its stored PDF
+ */
+export async function deleteReportVersion(report: { id: string; pdfKey: string | null }) {
+  if (report.pdfKey) {
+    try {
+      await deleteFile(report.pdfKey)
+    } catch (storageError) {
+      console.error('Storage delete error:', storageError)
+      // Continue with database deletion even if storage delete fails
+    }
+  }
+
+  await db.report.delete({
+    where: { id: report.id }
+  })
+}
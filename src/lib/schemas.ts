@@ -1,4 +1,7 @@
 import { z } from 'zod'
+import { MAX_EXPRESSION_LENGTH } from './expression'
+import { checkTemplateDefinition } from './test-templates'
+import { REFRIGERANTS, isSupportedRefrigerant, normalizeRefrigerant } from './refrigerants'
 
 // Base schemas for common field types
 export const temperatureSchema = z.number().min(-40).max(150) // °F
@@ -23,7 +26,7 @@ export const BuildingPressureSchema = z.object({
 export const PressureDecaySchema = z.object({
   startDeltaP: pressureSchema, // e.g. 0.05
   endDeltaP: pressureSchema,   // e.g. 0.01
-  decaySeconds: z.number().min(0).max(3600), // max 1 hour
+  decaySeconds: z.number().positive().max(3600), // max 1 hour
   notes: z.string().optional()
 })
 
@@ -73,6 +76,7 @@ export const CoilPerformanceSchema = z.object({
   returnRH_pct: humiditySchema,
   supplyDB_F: temperatureSchema,
   supplyRH_pct: humiditySchema,
+  airflowCFM: cfmSchema.optional(), // Falls back to the unit's latest Airflow & Static test
   condensateVolume_oz_per_30min: z.number().min(0).max(1000).optional(),
   notes: z.string().optional()
 })
@@ -109,6 +113,18 @@ export const DistributionMixingSchema = z.object({
   notes: z.string().optional()
 })
 
+// B7 - Dehumidifier / DOAS Performance
+export const DehumidifierPerformanceSchema = z.object({
+  unitLabel: z.string().min(1, "Unit label is required"),
+  inletDB_F: temperatureSchema,
+  inletRH_pct: humiditySchema,
+  outletDB_F: temperatureSchema,
+  outletRH_pct: humiditySchema,
+  airflowCFM: z.number().positive().max(50000), // CFM through the unit
+  ratedPintsPerDay: z.number().positive().max(5000), // Nameplate rating (AHAM 80°F/60% RH for portable and ducted units)
+  notes: z.string().optional()
+})
+
 // Union type for all test schemas
 export const TestReadingSchema = z.discriminatedUnion('testType', [
   z.object({ testType: z.literal('BUILDING_PRESSURE'), data: BuildingPressureSchema }),
@@ -120,14 +136,90 @@ export const TestReadingSchema = z.discriminatedUnion('testType', [
   z.object({ testType: z.literal('COIL_PERFORMANCE'), data: CoilPerformanceSchema }),
   z.object({ testType: z.literal('FAN_EVAP_RECHECK'), data: FanEvapRecheckSchema }),
   z.object({ testType: z.literal('ECONOMIZER_SEAL'), data: EconomizerSealSchema }),
-  z.object({ testType: z.literal('DISTRIBUTION_MIXING'), data: DistributionMixingSchema })
+  z.object({ testType: z.literal('DISTRIBUTION_MIXING'), data: DistributionMixingSchema }),
+  z.object({ testType: z.literal('DEHUMIDIFIER_PERFORMANCE'), data: DehumidifierPerformanceSchema })
 ])
 
+// Reading schema for each test type
+export const TEST_READING_SCHEMAS = {
+  BUILDING_PRESSURE: BuildingPressureSchema,
+  PRESSURE_DECAY: PressureDecaySchema,
+  RETURN_CURB_LEAKAGE: ReturnCurbLeakageSchema,
+  SLAB_WALL_MOISTURE: SlabWallMoistureSchema,
+  AIRFLOW_STATIC: AirflowStaticSchema,
+  REFRIGERANT_CIRCUIT: RefrigerantCircuitSchema,
+  COIL_PERFORMANCE: CoilPerformanceSchema,
+  FAN_EVAP_RECHECK: FanEvapRecheckSchema,
+  ECONOMIZER_SEAL: EconomizerSealSchema,
+  DISTRIBUTION_MIXING: DistributionMixingSchema,
+  DEHUMIDIFIER_PERFORMANCE: DehumidifierPerformanceSchema
+} as const
+
+export type ReadingTestType = keyof typeof TEST_READING_SCHEMAS
+
+export interface ReadingValidationErrors {
+  formErrors: string[]
+  fieldErrors: Record<string, string[]>
+}
+
+/**
+ * Validate a reading against the schema for its test type.
+ * Shared by the test API routes and the test forms so both apply the same rules.
+ * Field errors are keyed by dotted path (e.g. "gridSamples.0.db_F") to match form field names.
+ */
+export function validateTestReading(
+  testType: ReadingTestType,
+  reading: unknown
+): ReadingValidationResult {
+  return validateReading(TEST_READING_SCHEMAS[testType], reading)
+}
+
+export type ReadingValidationResult =
+  | { success: true; data: Record<string, unknown> }
+  | { success: false; errors: ReadingValidationErrors }
+
+/**
+ * Validate a reading against any reading schema (e.g. one built from a test template)
+ */
+export function validateReading(schema: z.ZodTypeAny, reading: unknown): ReadingValidationResult {
+  const result = schema.safeParse(reading)
+
+  if (result.success) {
+    return { success: true, data: result.data }
+  }
+
+  const errors: ReadingValidationErrors = { formErrors: [], fieldErrors: {} }
+  for (const issue of result.error.issues) {
+    if (issue.path.length === 0) {
+      errors.formErrors.push(issue.message)
+      continue
+    }
+    const field = issue.path.join('.')
+    errors.fieldErrors[field] = [...(errors.fieldErrors[field] ?? []), issue.message]
+  }
+
+  return { success: false, errors }
+}
+
+function isTimeZone(value: string): boolean {
+  try {
+    new Intl.DateTimeFormat('en-US', { timeZone: value })
+    return true
+  } catch (error) {
+    return false
+  }
+}
+
 // API Schemas
+
 export const CreateProjectSchema = z.object({
   name: z.string().min(1, "Project name is required"),
   orgId: z.string().cuid("Invalid organization ID"),
   address: z.string().optional(),
+  elevationFt: z.number().min(-1000).max(15000).optional(), // ft above sea level
+  latitude: z.number().min(-90).max(90).optional(), // Geocoded from the address for weather lookup when omitted
+  longitude: z.number().min(-180).max(180).optional(),
+  timeZone: z.string().refine(isTimeZone, "Invalid time zone").optional(), // IANA name, e.g. America/New_York
   notes: z.string().optional()
 })
 
@@ -146,7 +238,11 @@ export const CreateHvacUnitSchema = z.object({
   serialNum: z.string().optional(),
   stages: z.number().int().min(1).max(6).optional(),
   tons: z.number().min(0.5).max(200).optional(),
-  refrigerant: z.string().optional(),
+  // Stored under its table name so refrigerant circuit tests can look up saturation data
+  refrigerant: z.string()
+    .refine(isSupportedRefrigerant, `Unsupported refrigerant (use one of ${Object.keys(REFRIGERANTS).join(', ')})`)
+    .transform(value => normalizeRefrigerant(value) as string)
+    .optional(),
   notes: z.string().optional()
 })
 
@@ -159,6 +255,11 @@ export const CreateSessionSchema = z.object({
   notes: z.string().optional()
 })
 
+export const SessionTransitionSchema = z.object({
+  status: z.enum(['DRAFT', 'SUBMITTED', 'APPROVED', 'REJECTED']),
+  comment: z.string().max(2000).optional()
+})
+
 export const CreateTestResultSchema = z.object({
   sessionId: z.string().cuid("Invalid session ID"),
   unitId: z.string().cuid("Invalid unit ID").optional(),
@@ -172,17 +273,189 @@ export const CreateTestResultSchema = z.object({
     'COIL_PERFORMANCE',
     'FAN_EVAP_RECHECK',
     'ECONOMIZER_SEAL',
-    'DISTRIBUTION_MIXING'
+    'DISTRIBUTION_MIXING',
+    'DEHUMIDIFIER_PERFORMANCE',
+    'CUSTOM'
   ]),
-  reading: z.any(), // Will be validated against specific test schema based on testType
+  templateId: z.string().cuid("Invalid template ID").optional(), // Required for CUSTOM tests
+  reading: z.unknown(), // Validated with validateTestReading, or the template's schema for CUSTOM
+  notes: z.string().optional()
+}).refine(data => (data.testType === 'CUSTOM') === !!data.templateId, {
+  message: "A template is required for custom tests and only allowed for them",
+  path: ['templateId']
+})
+
+export const UpdateTestResultSchema = z.object({
+  unitId: z.string().cuid("Invalid unit ID").nullable().optional(),
+  reading: z.unknown().optional(), // Validated with validateTestReading for the stored test type
   notes: z.string().optional()
 })
 
+// Criteria profile schemas (limits mirror CriteriaLimits in criteria.ts)
+const rangeLimitSchema = z.object({
+  min: z.number(),
+  max: z.number()
+}).refine(range => range.min <= range.max, { message: "Minimum must not exceed maximum" })
+
+export const CriteriaLimitsSchema = z.object({
+  buildingPressure_inwc: rangeLimitSchema,
+  pressureDecayMaxRate_inwc_per_min: z.number().positive(),
+  returnSupplyMaxDiff_inwc: z.number().positive(),
+  cfmPerTon: rangeLimitSchema,
+  externalStatic_inwc: rangeLimitSchema,
+  supplyDewPoint_F: rangeLimitSchema,
+  coilTempDrop_F: rangeLimitSchema,
+  coilMaxShr: z.number().gt(0).max(1),
+  economizerMaxCommanded_pct: z.number().min(0).max(100),
+  mixingMaxTempVariation_F: z.number().positive(),
+  mixingMaxRhVariation_pct: z.number().positive(),
+  dehumidifierMinRated_pct: z.number().min(0).max(200),
+  indoorMaxRh_pct: z.number().min(0).max(100),
+  indoorMaxDewPoint_F: temperatureSchema
+}).partial()
+
+export const CreateCriteriaProfileSchema = z.object({
+  orgId: z.string().cuid("Invalid organization ID"),
+  name: z.string().min(1, "Profile name is required"),
+  description: z.string().optional(),
+  criteria: CriteriaLimitsSchema
+})
+
+export const UpdateCriteriaProfileSchema = z.object({
+  name: z.string().min(1, "Profile name is required").optional(),
+  description: z.string().optional(),
+  criteria: CriteriaLimitsSchema.optional()
+})
+
+export const AssignCriteriaProfileSchema = z.object({
+  projectId: z.string().cuid("Invalid project ID").optional(),
+  orgId: z.string().cuid("Invalid organization ID").optional()
+}).refine(data => !!data.projectId !== !!data.orgId, {
+  message: "Provide either projectId or orgId"
+})
+
+// Test template schemas (definitions are evaluated by test-templates.ts)
+const templateKeySchema = z.string()
+  .regex(/^[A-Za-z_][A-Za-z0-9_]*$/, "Keys must start with a letter or underscore and use only letters, digits and underscores")
+  .max(40)
+
+export const TemplateFieldSchema = z.object({
+  key: templateKeySchema,
+  label: z.string().min(1, "Field label is required"),
+  type: z.enum(['number', 'boolean', 'text', 'select']).default('number'),
+  unit: z.string().max(20).optional(), // Display unit, e.g. "°F"
+  min: z.number().optional(),
+  max: z.number().optional(),
+  step: z.number().positive().optional(),
+  required: z.boolean().default(true),
+  options: z.array(z.string().min(1)).optional(), // Choices for select fields
+  placeholder: z.string().optional(),
+  help: z.string().optional()
+})
+
+export const TemplateFormulaSchema = z.object({
+  key: templateKeySchema,
+  label: z.string().min(1, "Formula label is required"),
+  unit: z.string().max(20).optional(),
+  expression: z.string().min(1, "Expression is required").max(MAX_EXPRESSION_LENGTH),
+  digits: z.number().int().min(0).max(6).default(1) // Decimal places shown in forms and reports
+})
+
+export const TemplateCheckSchema = z.object({
+  key: templateKeySchema,
+  label: z.string().min(1, "Check label is required"),
+  expression: z.string().min(1, "Expression is required").max(MAX_EXPRESSION_LENGTH),
+  unit: z.string().max(20).optional(),
+  min: z.number().optional(), // Numeric results pass within min/max; true/false results pass when true
+  max: z.number().optional(),
+  target: z.string().optional(), // Shown instead of the generated min/max target
+  passMessage: z.string().optional(),
+  failMessage: z.string().optional()
+})
+
+export const TestTemplateDefinitionSchema = z.object({
+  unit: z.enum(['required', 'optional', 'none']).default('optional'), // Whether tests are recorded against an HVAC unit
+  fields: z.array(TemplateFieldSchema).min(1, "At least one field is required").max(50),
+  formulas: z.array(TemplateFormulaSchema).max(50).default([]),
+  checks: z.array(TemplateCheckSchema).max(50).default([]),
+  guidelines: z.array(z.string().min(1)).max(20).default([])
+}).superRefine((definition, ctx) => {
+  for (const issue of checkTemplateDefinition(definition)) {
+    ctx.addIssue({ code: z.ZodIssueCode.custom, path: issue.path, message: issue.message })
+  }
+})
+
+export const CreateTestTemplateSchema = z.object({
+  orgId: z.string().cuid("Invalid organization ID"),
+  name: z.string().min(1, "Template name is required"),
+  description: z.string().optional(),
+  category: z.enum(['ENVELOPE', 'HVAC']),
+  definition: TestTemplateDefinitionSchema
+})
+
+export const UpdateTestTemplateSchema = z.object({
+  name: z.string().min(1, "Template name is required").optional(),
+  description: z.string().optional(),
+  category: z.enum(['ENVELOPE', 'HVAC']).optional(),
+  definition: TestTemplateDefinitionSchema.optional(),
+  archived: z.boolean().optional()
+})
+
+export const AddProjectMemberSchema = z.object({
+  email: z.string().email("Invalid email address"),
+  role: z.enum(['OWNER', 'EDITOR', 'VIEWER']).default('EDITOR')
+})
+
+export const UpdateProjectMemberSchema = z.object({
+  role: z.enum(['OWNER', 'EDITOR', 'VIEWER'])
+})
+
+export const RevokeInvitationSchema = z.object({
+  email: z.string().email("Invalid email address")
+})
+
+export const ProjectReportSchema = z.object({
+  projectId: z.string().cuid("Invalid project ID"),
+  sessionIds: z.array(z.string().cuid("Invalid session ID")).optional(), // Defaults to all sessions
+  areaIds: z.array(z.string().cuid("Invalid area ID")).optional(),
+  title: z.string().optional(),
+  summary: z.string().max(5000).optional()
+})
+
+export const GenerateSessionReportSchema = z.object({
+  title: z.string().optional(),
+  summary: z.string().max(5000).optional()
+})
+
+export const ReportDownloadQuerySchema = z.object({
+  version: z.coerce.number().int().positive().optional() // Latest stored version when omitted
+})
+
+export const ReportListQuerySchema = z.object({
+  sessionId: z.string().optional(),
+  scope: z.enum(['session', 'project']).optional() // project = multi-session reports
+})
+
+export const UpdateReportSchema = z.object({
+  status: z.literal('APPROVED') // Approval freezes the stored PDF
+})
+
+export const AuditQuerySchema = z.object({
+  projectId: z.string().optional(),
+  entityType: z.enum(['Project', 'Area', 'HvacUnit', 'Session', 'SessionTransition', 'TestResult', 'FileAsset', 'Report', 'Membership', 'LoggerDataset']).optional(),
+  entityId: z.string().optional(),
+  userId: z.string().optional(),
+  from: z.coerce.date().optional(),
+  to: z.coerce.date().optional(),
+  limit: z.coerce.number().int().min(1).max(500).default(100)
+})
+
 // User schemas
 export const RegisterUserSchema = z.object({
   name: z.string().min(1, "Name is required"),
   email: z.string().email("Invalid email address"),
-  password: z.string().min(8, "Password must be at least 8 characters")
+  password: z.string().min(8, "Password must be at least 8 characters"),
+  inviteToken: z.string().optional() // From a project invitation link
 })
 
 export const LoginUserSchema = z.object({
@@ -190,6 +463,36 @@ export const LoginUserSchema = z.object({
   password: z.string().min(1, "Password is required")
 })
 
+// Logger dataset schemas
+export const LoggerColumnMapSchema = z.object({
+  time: z.number().int().min(0),
+  temperature: z.number().int().min(0),
+  rh: z.number().int().min(0),
+  temperatureUnit: z.enum(['F', 'C']),
+  dateOrder: z.enum(['MDY', 'DMY', 'YMD']),
+  utcOffsetMinutes: z.number().int().min(-14 * 60).max(14 * 60) // Logger clock offset from UTC
+})
+
+export const CreateLoggerDatasetSchema = z.object({
+  areaId: z.string().cuid("Invalid area ID").optional(),
+  unitId: z.string().cuid("Invalid unit ID").optional(),
+  name: z.string().min(1, "Dataset name is required"),
+  loggerType: z.string().optional(), // e.g. HOBO MX1101, Govee H5075
+  location: z.string().optional(),
+  outdoor: z.boolean().default(false),
+  sourceFilename: z.string().min(1, "Source filename is required"),
+  csv: z.string().min(1, "CSV contents are required").max(10 * 1024 * 1024, "CSV must be less than 10MB"),
+  columnMap: LoggerColumnMapSchema
+}).refine(data => !!data.areaId || !!data.unitId, {
+  message: "Attach the dataset to an area or a unit"
+})
+
+export const LoggerListQuerySchema = z.object({
+  projectId: z.string().optional(),
+  areaId: z.string().optional(),
+  unitId: z.string().optional()
+})
+
 // File upload schema
 export const FileUploadSchema = z.object({
   filename: z.string().min(1, "Filename is required"),
@@ -210,13 +513,27 @@ export type CoilPerformanceData = z.infer<typeof CoilPerformanceSchema>
 export type FanEvapRecheckData = z.infer<typeof FanEvapRecheckSchema>
 export type EconomizerSealData = z.infer<typeof EconomizerSealSchema>
 export type DistributionMixingData = z.infer<typeof DistributionMixingSchema>
+export type DehumidifierPerformanceData = z.infer<typeof DehumidifierPerformanceSchema>
 
 export type TestReadingData = z.infer<typeof TestReadingSchema>
 export type CreateProjectData = z.infer<typeof CreateProjectSchema>
 export type CreateAreaData = z.infer<typeof CreateAreaSchema>
 export type CreateHvacUnitData = z.infer<typeof CreateHvacUnitSchema>
 export type CreateSessionData = z.infer<typeof CreateSessionSchema>
+export type SessionTransitionData = z.infer<typeof SessionTransitionSchema>
 export type CreateTestResultData = z.infer<typeof CreateTestResultSchema>
+export type UpdateTestResultData = z.infer<typeof UpdateTestResultSchema>
+export type CriteriaLimitsData = z.infer<typeof CriteriaLimitsSchema>
+export type CreateCriteriaProfileData = z.infer<typeof CreateCriteriaProfileSchema>
+export type CreateTestTemplateData = z.infer<typeof CreateTestTemplateSchema>
+export type AddProjectMemberData = z.infer<typeof AddProjectMemberSchema>
+export type UpdateProjectMemberData = z.infer<typeof UpdateProjectMemberSchema>
+export type ProjectReportRequest = z.infer<typeof ProjectReportSchema>
+export type GenerateSessionReportData = z.infer<typeof GenerateSessionReportSchema>
+export type UpdateReportData = z.infer<typeof UpdateReportSchema>
+export type AuditQueryData = z.infer<typeof AuditQuerySchema>
 export type RegisterUserData = z.infer<typeof RegisterUserSchema>
 export type LoginUserData = z.infer<typeof LoginUserSchema>
 export type FileUploadData = z.infer<typeof FileUploadSchema>
+export type LoggerColumnMap = z.infer<typeof LoggerColumnMapSchema>
+export type CreateLoggerDatasetData = z.infer<typeof CreateLoggerDatasetSchema>
@@ -0,0 +1,146 @@
+/**
+ * Session review workflow
+ *
+ * DRAFT → SUBMITTED → APPROVED
+ *             ↓
+ *          REJECTED → DRAFT / SUBMITTED
+ *
+ * Editors submit and withdraw, project owners or administrators review,
+ * and only administrators can reopen an approved session. Nobody approves a
+ * session they submitted themselves.
+ */
+
+import { Role, SessionStatus } from '@prisma/client'
+import { checkProjectAccess, requireRole } from './auth-middleware'
+
+export type WorkflowPermission = 'EDITOR' | 'REVIEWER' | 'ADMIN'
+
+export interface SessionTransitionRule {
+  from: SessionStatus
+  to: SessionStatus
+  action: string
+  requires: WorkflowPermission
+  commentRequired: boolean
+}
+
+export interface WorkflowActor {
+  userId: string
+  isEditor: boolean
+  isReviewer: boolean // project OWNER or global ADMIN
+  isAdmin: boolean
+}
+
+export const SESSION_TRANSITIONS: SessionTransitionRule[] = [
+  { from: 'DRAFT', to: 'SUBMITTED', action: 'Submit for Review', requires: 'EDITOR', commentRequired: false },
+  { from: 'SUBMITTED', to: 'DRAFT', action: 'Withdraw', requires: 'EDITOR', commentRequired: false },
+  { from: 'SUBMITTED', to: 'APPROVED', action: 'Approve', requires: 'REVIEWER', commentRequired: false },
+  { from: 'SUBMITTED', to: 'REJECTED', action: 'Reject', requires: 'REVIEWER', commentRequired: true },
+  { from: 'REJECTED', to: 'SUBMITTED', action: 'Resubmit', requires: 'EDITOR', commentRequired: false },
+  { from: 'REJECTED', to: 'DRAFT', action: 'Return to Draft', requires: 'EDITOR', commentRequired: false },
+  { from: 'APPROVED', to: 'DRAFT', action: 'Reopen', requires: 'ADMIN', commentRequired: true }
+]
+
+// Tests, files and session details cannot change while under review or once approved
+export const LOCKED_SESSION_STATUSES: SessionStatus[] = ['SUBMITTED', 'APPROVED']
+
+export function isSessionLocked(status: SessionStatus) {
+  return LOCKED_SESSION_STATUSES.includes(status)
+}
+
+export function getSessionLockedMessage(status: SessionStatus) {
+  return `Session is ${status.toLowerCase()} and locked for editing`
+}
+
+/**
+ * Resolve what a user may do in the workflow for a project
+ */
+export async function getWorkflowActor(
+  user: { id: string; role: Role },
+  projectId: string
+): Promise<WorkflowActor> {
+  const isAdmin = requireRole(user.role, 'ADMIN')
+  const [isEditor, isOwner] = await Promise.all([
+    checkProjectAccess(user.id, projectId, 'EDITOR'),
+    checkProjectAccess(user.id, projectId, 'OWNER')
+  ])
+
+  return {
+    userId: user.id,
+    isEditor: isEditor || isAdmin,
+    isReviewer: isOwner || isAdmin,
+    isAdmin
+  }
+}
+
+function hasPermission(actor: WorkflowActor, requires: WorkflowPermission) {
+  switch (requires) {
+    case 'EDITOR': return actor.isEditor
+    case 'REVIEWER': return actor.isReviewer
+    case 'ADMIN': return actor.isAdmin
+  }
+}
+
+/**
+ * Who submitted the session for its current review. Sessions submitted before
+ * transitions were recorded have none, so their author counts as the submitter.
+ * @param session - The session with its transitions, newest first
+ */
+export function getSubmitterId(session: {
+  authorId: string
+  transitions: Array<{ actorId: string; toStatus: SessionStatus }>
+}) {
+  return session.transitions.find(transition => transition.toStatus === 'SUBMITTED')?.actorId ?? session.authorId
+}
+
+function isSelfApproval(rule: SessionTransitionRule, actor: WorkflowActor, submitterId?: string | null) {
+  return rule.to === 'APPROVED' && submitterId === actor.userId
+}
+
+/**
+ * Transitions the actor can take from the current status
+ */
+export function getAvailableTransitions(
+  status: SessionStatus,
+  actor: WorkflowActor,
+  submitterId?: string | null
+) {
+  return SESSION_TRANSITIONS.filter(rule =>
+    rule.from === status &&
+    hasPermission(actor, rule.requires) &&
+    !isSelfApproval(rule, actor, submitterId)
+  )
+}
+
+/**
+ * Check a requested status change against the workflow rules
+ */
+export function validateTransition(
+  from: SessionStatus,
+  to: SessionStatus,
+  actor: WorkflowActor,
+  comment?: string,
+  submitterId?: string | null
+): { valid: true; rule: SessionTransitionRule } | { valid: false; error: string; status: number } {
+  const rule = SESSION_TRANSITIONS.find(r => r.from === from && r.to === to)
+
+  if (!rule) {
+    return { valid: false, error: `Cannot change session from ${from} to ${to}`, status: 400 }
+  }
+
+  if (!hasPermission(actor, rule.requires)) {
+    const who = rule.requires === 'REVIEWER'
+      ? 'project owners or administrators'
+      : rule.requires === 'ADMIN' ? 'administrators' : 'project editors'
+    return { valid: false, error: `Only ${who} can ${rule.action.toLowerCase()} this session`, status: 403 }
+  }
+
+  if (isSelfApproval(rule, actor, submitterId)) {
+    return { valid: false, error: 'A session cannot be approved by the user who submitted it', status: 403 }
+  }
+
+  if (rule.commentRequired && !comment?.trim()) {
+    return { valid: false, error: `A comment is required to ${rule.action.toLowerCase()} this session`, status: 400 }
+  }
+
+  return { valid: true, rule }
+}
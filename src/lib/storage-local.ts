@@ -0,0 +1,120 @@
+/**
+ * Local disk storage backend
+ * For development, on-prem and air-gapped installs. Files live under
+ * LOCAL_STORAGE_ROOT and are read and written through /api/storage, which
+ * requires a signed-in user. Upload and download URLs carry an HMAC signature
+ * with an expiry, like S3 presigned URLs.
+ */
+
+import { createHmac, timingSafeEqual } from 'crypto'
+import { mkdir, readFile, writeFile, rm } from 'fs/promises'
+import path from 'path'
+import { UPLOAD_EXPIRES_IN, DOWNLOAD_EXPIRES_IN, type StorageBackend } from './storage'
+
+export type StorageOperation = 'GET' | 'PUT'
+
+function getSigningSecret() {
+  const secret = process.env.STORAGE_SIGNING_SECRET || process.env.NEXTAUTH_SECRET
+  if (!secret) {
+    throw new Error('STORAGE_SIGNING_SECRET or NEXTAUTH_SECRET must be set for local storage')
+  }
+  return secret
+}
+
+function sign(operation: StorageOperation, key: string, expires: number) {
+  return createHmac('sha256', getSigningSecret())
+    .update(`${operation}:${key}:${expires}`)
+    .digest('hex')
+}
+
+function signedPath(operation: StorageOperation, key: string, expiresIn: number) {
+  const expires = Math.floor(Date.now() / 1000) + expiresIn
+  const signature = sign(operation, key, expires)
+  return `/api/storage/${key}?expires=${expires}&signature=${signature}`
+}
+
+/**
+ * Check a signature issued for this operation and key has not expired or been altered
+ */
+export function verifyStorageSignature(
+  operation: StorageOperation,
+  key: string,
+  expires: string | null,
+  signature: string | null
+): boolean {
+  if (!expires || !signature) {
+    return false
+  }
+
+  const expiresAt = parseInt(expires, 10)
+  if (!Number.isInteger(expiresAt) || expiresAt < Date.now() / 1000) {
+    return false
+  }
+
+  const expected = Buffer.from(sign(operation, key, expiresAt), 'hex')
+  const actual = Buffer.from(signature, 'hex')
+
+  return expected.length === actual.length && timingSafeEqual(expected, actual)
+}
+
+export function createLocalBackend(): StorageBackend {
+  const root = path.resolve(process.env.LOCAL_STORAGE_ROOT || './storage')
+  const baseUrl = (process.env.NEXTAUTH_URL || '').replace(/\/$/, '')
+
+  // Keys come from URLs, so refuse anything that would escape the storage root
+  const resolveKey = (key: string) => {
+    const filePath = path.resolve(root, key)
+    if (!filePath.startsWith(root + path.sep)) {
+      throw new Error(`Invalid storage key: ${key}`)
+    }
+    return filePath
+  }
+
+  // Content type is kept next to the file, as S3 keeps it with the object
+  const metadataPath = (filePath: string) => `${filePath}.meta.json`
+
+  return {
+    async createUploadUrl(key) {
+      resolveKey(key)
+      return signedPath('PUT', key, UPLOAD_EXPIRES_IN)
+    },
+
+    async createDownloadUrl(key) {
+      resolveKey(key)
+      return signedPath('GET', key, DOWNLOAD_EXPIRES_IN)
+    },
+
+    getPublicUrl(key) {
+      return `${baseUrl}/api/storage/${key}`
+    },
+
+    async putObject(key, body, mimeType) {
+      const filePath = resolveKey(key)
+      await mkdir(path.dirname(filePath), { recursive: true })
+      await writeFile(filePath, body)
+      await writeFile(metadataPath(filePath), JSON.stringify({
+        contentType: mimeType,
+        uploadedAt: new Date().toISOString(),
+      }))
+    },
+
+    async getObject(key) {
+      const filePath = resolveKey(key)
+      const body = await readFile(filePath)
+      const metadata = await readFile(metadataPath(filePath), 'utf8')
+        .then(contents => JSON.parse(contents) as { contentType?: string })
+        .catch(() => ({} as { contentType?: string }))
+
+      return {
+        body: new Uint8Array(body),
+        contentType: metadata.contentType,
+      }
+    },
+
+    async deleteObject(key) {
+      const filePath = resolveKey(key)
+      await rm(filePath, { force: true })
+      await rm(metadataPath(filePath), { force: true })
+    },
+  }
+}
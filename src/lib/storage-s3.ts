@@ -0,0 +1,95 @@
+/**
+ * S3 storage backend
+ * Works with AWS S3 and S3-compatible services. For MinIO and similar, set
+ * S3_ENDPOINT (e.g. http://minio:9000) and S3_FORCE_PATH_STYLE=true.
+ */
+
+import { S3Client, PutObjectCommand, GetObjectCommand, DeleteObjectCommand } from '@aws-sdk/client-s3'
+import { getSignedUrl } from '@aws-sdk/s3-request-presigner'
+import { UPLOAD_EXPIRES_IN, DOWNLOAD_EXPIRES_IN, type StorageBackend } from './storage'
+
+export function createS3Backend(): StorageBackend {
+  const region = process.env.AWS_REGION || 'us-east-1'
+  const bucket = process.env.AWS_S3_BUCKET || 'hvac-logger-files'
+  const endpoint = process.env.S3_ENDPOINT || undefined
+  const forcePathStyle = process.env.S3_FORCE_PATH_STYLE === 'true'
+
+  const client = new S3Client({
+    region,
+    endpoint,
+    forcePathStyle,
+    credentials: {
+      accessKeyId: process.env.AWS_ACCESS_KEY_ID || '',
+      secretAccessKey: process.env.AWS_SECRET_ACCESS_KEY || '',
+    },
+  })
+
+  // Explicit base wins; otherwise mirror the addressing style the client uses
+  const publicBaseUrl = process.env.S3_PUBLIC_URL
+    || (endpoint
+      ? (forcePathStyle
+        ? `${endpoint.replace(/\/$/, '')}/${bucket}`
+        : endpoint.replace(/^(https?:\/\/)/, `$1${bucket}.`).replace(/\/$/, ''))
+      : `https://${bucket}.s3.${region}.amazonaws.com`)
+
+  return {
+    async createUploadUrl(key, mimeType, metadata) {
+      const command = new PutObjectCommand({
+        Bucket: bucket,
+        Key: key,
+        ContentType: mimeType,
+        Metadata: metadata,
+      })
+
+      return getSignedUrl(client, command, { expiresIn: UPLOAD_EXPIRES_IN })
+    },
+
+    async createDownloadUrl(key) {
+      const command = new GetObjectCommand({
+        Bucket: bucket,
+        Key: key,
+      })
+
+      return getSignedUrl(client, command, { expiresIn: DOWNLOAD_EXPIRES_IN })
+    },
+
+    getPublicUrl(key) {
+      return `${publicBaseUrl}/${key}`
+    },
+
+    async putObject(key, body, mimeType) {
+      await client.send(new PutObjectCommand({
+        Bucket: bucket,
+        Key: key,
+        Body: body,
+        ContentType: mimeType,
+        Metadata: {
+          'upload-timestamp': new Date().toISOString(),
+        },
+      }))
+    },
+
+    async getObject(key) {
+      const response = await client.send(new GetObjectCommand({
+        Bucket: bucket,
+        Key: key,
+      }))
+
+      if (!response.Body) {
+        throw new Error(`Empty object: ${key}`)
+      }
+
+      return {
+        body: await response.Body.transformToByteArray(),
+        contentType: response.ContentType,
+      }
+    },
+
+    async deleteObject(key) {
+      await client.send(new DeleteObjectCommand({
+        Bucket: bucket,
+        Key: key,
+      }))
+    },
+  }
+}
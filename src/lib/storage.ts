@@ -0,0 +1,123 @@
+/**
+ * File Storage
+ * Backend-agnostic access to uploaded files and generated reports. The backend
+ * is chosen with STORAGE_DRIVER:
+ *   - "s3" (default): AWS S3, or any S3-compatible service (MinIO etc.) via S3_ENDPOINT
+ *   - "local": files on disk under LOCAL_STORAGE_ROOT, served through /api/storage
+ */
+
+import { v4 as uuidv4 } from 'uuid'
+import { createS3Backend } from './storage-s3'
+import { createLocalBackend } from './storage-local'
+
+export const UPLOAD_EXPIRES_IN = 15 * 60 // 15 minutes
+export const DOWNLOAD_EXPIRES_IN = 60 * 60 // 1 hour
+
+export interface StoredObject {
+  body: Uint8Array
+  contentType?: string
+}
+
+export interface StorageBackend {
+  /** URL the browser PUTs the file body to */
+  createUploadUrl(key: string, mimeType: string, metadata: Record<string, string>): Promise<string>
+  /** Short-lived URL for reading an object */
+  createDownloadUrl(key: string): Promise<string>
+  /** Storage location recorded on FileAsset/Report rows (not handed to clients) */
+  getPublicUrl(key: string): string
+  putObject(key: string, body: Uint8Array, mimeType: string): Promise<void>
+  getObject(key: string): Promise<StoredObject>
+  deleteObject(key: string): Promise<void>
+}
+
+export interface UploadUrlResponse {
+  uploadUrl: string
+  key: string
+  publicUrl: string
+}
+
+let backend: StorageBackend | undefined
+
+/**
+ * Configured storage backend (created once per server process)
+ */
+export function getStorage(): StorageBackend {
+  if (!backend) {
+    const driver = process.env.STORAGE_DRIVER || 's3'
+
+    switch (driver) {
+      case 's3':
+        backend = createS3Backend()
+        break
+      case 'local':
+        backend = createLocalBackend()
+        break
+      default:
+        throw new Error(`Unknown STORAGE_DRIVER: ${driver}`)
+    }
+  }
+
+  return backend
+}
+
+/**
+ * Generate a short-lived URL the client can upload a new file to
+ */
+export async function generateUploadUrl(
+  filename: string,
+  mimeType: string,
+  folder: string = 'general'
+): Promise<UploadUrlResponse> {
+  // Generate unique key with folder structure
+  const extension = filename.split('.').pop() || ''
+  const uniqueId = uuidv4()
+  const key = `${folder}/${Date.now()}-${uniqueId}.${extension}`
+
+  const storage = getStorage()
+  const uploadUrl = await storage.createUploadUrl(key, mimeType, {
+    'original-filename': filename,
+    'upload-timestamp': new Date().toISOString(),
+  })
+
+  return {
+    uploadUrl,
+    key,
+    publicUrl: storage.getPublicUrl(key),
+  }
+}
+
+/**
+ * Generate a short-lived URL for downloading/viewing a file
+ */
+export async function generateDownloadUrl(key: string): Promise<string> {
+  return getStorage().createDownloadUrl(key)
+}
+
+/**
+ * Store server-generated content (e.g. rendered reports)
+ */
+export async function uploadFile(
+  key: string,
+  body: Uint8Array,
+  mimeType: string
+): Promise<{ key: string; publicUrl: string }> {
+  const storage = getStorage()
+  await storage.putObject(key, body, mimeType)
+
+  return { key, publicUrl: storage.getPublicUrl(key) }
+}
+
+/**
+ * Read a stored file's contents
+ */
+export async function getFileContents(key: string): Promise<Uint8Array> {
+  const { body } = await getStorage().getObject(key)
+  return body
+}
+
+/**
+ * Delete a stored file
+ */
+export async function deleteFile(key: string): Promise<void> {
+  await getStorage().deleteObject(key)
+}
@@ -0,0 +1,118 @@
+import { describe, expect, it } from 'vitest'
+import { computeTestResult } from './test-computations'
+import { DEFAULT_CRITERIA_PROFILE, resolveCriteria, type CriteriaLimits, type CriteriaProfileSnapshot } from './criteria'
+
+const profile = (limits: Partial<CriteriaLimits>): CriteriaProfileSnapshot => ({
+  profileId: 'profile-1',
+  name: 'Humid climate',
+  version: 3,
+  limits: resolveCriteria(limits)
+})
+
+const COIL_READING = { returnDB_F: 76, returnRH_pct: 55, supplyDB_F: 56, supplyRH_pct: 92 }
+
+describe('computeTestResult', () => {
+  it('records the criteria profile the checks used', () => {
+    const result = computeTestResult('BUILDING_PRESSURE', { deltaP_inwc: 0.03 })
+
+    expect(result.pass).toBe(true)
+    expect(result.criteria).toEqual(DEFAULT_CRITERIA_PROFILE)
+  })
+
+  it('grades against the given profile limits', () => {
+    const strict = profile({ buildingPressure_inwc: { min: 0.04, max: 0.05 } })
+    const result = computeTestResult('BUILDING_PRESSURE', { deltaP_inwc: 0.03 }, undefined, undefined, strict)
+
+    expect(result.pass).toBe(false)
+    expect(result.criteria).toMatchObject({ profileId: 'profile-1', version: 3 })
+  })
+
+  it('computes the pressure decay rate per minute', () => {
+    const result = computeTestResult('PRESSURE_DECAY', { startDeltaP: 0.05, endDeltaP: 0.04, decaySeconds: 120 })
+
+    expect(result.calculations.decay_rate_per_min).toBeCloseTo(0.005, 6)
+    expect(result.calculations.decay_percentage).toBeCloseTo(20, 6)
+    expect(result.pass).toBe(true)
+  })
+
+  it('checks airflow per ton and external static', () => {
+    const result = computeTestResult('AIRFLOW_STATIC', { supplyCFM: 1500, tons: 3, extStatic_inwc: 0.6 })
+
+    expect(result.calculations.cfm_per_ton).toBe(500)
+    expect(result.checks.cfm_per_ton.pass).toBe(false)
+    expect(result.checks.external_static.pass).toBe(true)
+    expect(result.pass).toBe(false)
+  })
+
+  it('uses the unit refrigerant for superheat and subcooling', () => {
+    const reading = { suctionPSI: 118.4, suctionLineTemp_F: 50, liquidPSI: 318, liquidLineTemp_F: 90, outdoorDB_F: 85 }
+    const r410a = computeTestResult('REFRIGERANT_CIRCUIT', reading, undefined, { refrigerant: 'R-410A' })
+    const r22 = computeTestResult('REFRIGERANT_CIRCUIT', reading, undefined, { refrigerant: 'R-22' })
+
+    expect(r410a.calculations.superheat_F).toBeCloseTo(10, 6)
+    expect(r410a.calculations.subcooling_F).toBeCloseTo(10, 6)
+    expect(r22.calculations.suction_sat_temp_F).toBeGreaterThan(r410a.calculations.suction_sat_temp_F)
+    expect(r410a.summary).toContain('R-410A')
+  })
+
+  it('throws for unknown test types', () => {
+    expect(() => computeTestResult('UNKNOWN' as any, {})).toThrow('Unknown test type')
+  })
+})
+
+describe('coil performance', () => {
+  it('reports SHR without grading it unless the profile sets a ceiling', () => {
+    const result = computeTestResult('COIL_PERFORMANCE', COIL_READING)
+
+    expect(result.calculations.sensible_heat_ratio).toBeCloseTo(0.72, 2)
+    expect(result.checks.sensible_heat_ratio).toBeUndefined()
+    expect(result.pass).toBe(true)
+  })
+
+  it('grades SHR against the profile ceiling', () => {
+    const result = computeTestResult('COIL_PERFORMANCE', COIL_READING, undefined, undefined, profile({ coilMaxShr: 0.7 }))
+
+    expect(result.checks.sensible_heat_ratio).toMatchObject({ pass: false, target: '≤ 0.7' })
+    expect(result.pass).toBe(false)
+  })
+
+  it('does not grade SHR when the coil is not cooling', () => {
+    const reading = { returnDB_F: 72, returnRH_pct: 50, supplyDB_F: 90, supplyRH_pct: 25 }
+    const result = computeTestResult('COIL_PERFORMANCE', reading, undefined, undefined, profile({ coilMaxShr: 0.7 }))
+
+    expect(result.calculations.sensible_heat_ratio).toBeUndefined()
+    expect(result.checks.sensible_heat_ratio).toBeUndefined()
+  })
+
+  it('computes capacities from entered or measured airflow', () => {
+    const withoutAirflow = computeTestResult('COIL_PERFORMANCE', COIL_READING)
+    const measured = computeTestResult('COIL_PERFORMANCE', COIL_READING, undefined, { airflowCFM: 1200 })
+    const entered = computeTestResult('COIL_PERFORMANCE', { ...COIL_READING, airflowCFM: 1000 }, undefined, { airflowCFM: 1200 })
+
+    expect(withoutAirflow.calculations.total_capacity_btuh).toBeUndefined()
+    expect(measured.calculations.airflow_cfm).toBe(1200)
+    expect(entered.calculations.airflow_cfm).toBe(1000)
+    expect(measured.calculations.total_capacity_btuh).toBeCloseTo(
+      measured.calculations.sensible_capacity_btuh + measured.calculations.latent_capacity_btuh,
+      6
+    )
+  })
+})
+
+describe('slab/wall moisture', () => {
+  it('flags IR surfaces near the indoor dew point', () => {
+    const moisture = {
+      indoorDewPoint_F: 60,
+      surfaces: [
+        { fileId: 'f1', label: 'North wall', minTemp_F: 68 },
+        { fileId: 'f2', label: 'Slab corner', minTemp_F: 61 }
+      ]
+    }
+    const result = computeTestResult('SLAB_WALL_MOISTURE', { plasticTest: 'DRY' }, undefined, undefined, undefined, moisture)
+
+    expect(result.calculations.min_surface_temp_F).toBe(61)
+    expect(result.calculations.condensation_risk_surfaces).toBe(1)
+    expect(result.checks.ir_condensation.message).toContain('Slab corner')
+    expect(result.pass).toBe(false)
+  })
+})
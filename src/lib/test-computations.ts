@@ -5,7 +5,6 @@
 
 import { TestType } from '@prisma/client'
 import {
-  calculateDewPoint,
   calculateCfmPerTon, 
   calculateSuperheat,
   calculateSubcooling,
@@ -15,8 +14,16 @@ import {
   checkSuperheat,
   checkSubcooling,
   calculatePressureDecayRate,
-  calculateStats
+  calculateStats,
+  calculateMassFlow,
+  calculateMoistureRemoval,
+  calculateCoilLoad,
+  calculateBypassFactor
 } from './calculations'
+import { apparatusDewPoint, getPsychrometricState, type PsychrometricConditions } from './psychrometrics'
+import { DEFAULT_REFRIGERANT, getRefrigerant, getSaturationTemperature } from './refrigerants'
+import { DEFAULT_CRITERIA_PROFILE, type CriteriaLimits, type CriteriaProfileSnapshot } from './criteria'
+import { assessCondensationRisk, CONDENSATION_MARGIN_F } from './condensation-risk'
 import type {
   BuildingPressureData,
   PressureDecayData,
@@ -27,7 +34,8 @@ import type {
   CoilPerformanceData,
   FanEvapRecheckData,
   EconomizerSealData,
-  DistributionMixingData
+  DistributionMixingData,
+  DehumidifierPerformanceData
 } from './schemas'
 
 export interface ComputedResult {
@@ -40,6 +48,20 @@ export interface ComputedResult {
   }>
   pass: boolean
   summary: string
+  criteria?: CriteriaProfileSnapshot // Profile and version the checks were evaluated against
+  template?: { id: string; name: string; version: number } // Template version a custom test was computed with
+}
+
+/**
+ * IR surface temperatures and indoor dew point for slab/wall moisture checks
+ */
+export interface MoistureContext {
+  indoorDewPoint_F: number
+  surfaces: Array<{
+    fileId: string
+    label: string
+    minTemp_F: number
+  }>
 }
 
 /**
@@ -48,47 +70,59 @@ export interface ComputedResult {
 export function computeTestResult(
   testType: TestType,
   reading: any,
-  weatherData?: { outdoorTemp?: number; outdoorRH?: number }
+  weatherData?: { outdoorTemp?: number; outdoorRH?: number; barometricPressure?: number },
+  unitData?: { refrigerant?: string | null; airflowCFM?: number },
+  criteria: CriteriaProfileSnapshot = DEFAULT_CRITERIA_PROFILE,
+  moisture?: MoistureContext
 ): ComputedResult {
+  const site = { pressure_psia: weatherData?.barometricPressure }
+  const limits = criteria.limits
   
-  switch (testType) {
-    case 'BUILDING_PRESSURE':
-      return computeBuildingPressure(reading as BuildingPressureData)
-      
-    case 'PRESSURE_DECAY':
-      return computePressureDecay(reading as PressureDecayData)
-      
-    case 'RETURN_CURB_LEAKAGE':
-      return computeReturnCurbLeakage(reading as ReturnCurbLeakageData)
-      
-    case 'SLAB_WALL_MOISTURE':
-      return computeSlabWallMoisture(reading as SlabWallMoistureData)
-      
-    case 'AIRFLOW_STATIC':
-      return computeAirflowStatic(reading as AirflowStaticData)
-      
-    case 'REFRIGERANT_CIRCUIT':
-      return computeRefrigerantCircuit(reading as RefrigerantCircuitData, weatherData?.outdoorTemp)
-      
-    case 'COIL_PERFORMANCE':
-      return computeCoilPerformance(reading as CoilPerformanceData)
-      
-    case 'FAN_EVAP_RECHECK':
-      return computeFanEvapRecheck(reading as FanEvapRecheckData)
-      
-    case 'ECONOMIZER_SEAL':
-      return computeEconomizerSeal(reading as EconomizerSealData)
-      
-    case 'DISTRIBUTION_MIXING':
-      return computeDistributionMixing(reading as DistributionMixingData)
-      
-    default:
-      throw new Error(`Unknown test type: ${testType}`)
-  }
+  const result = (() => {
+    switch (testType) {
+      case 'BUILDING_PRESSURE':
+        return computeBuildingPressure(reading as BuildingPressureData, limits)
+        
+      case 'PRESSURE_DECAY':
+        return computePressureDecay(reading as PressureDecayData, limits)
+        
+      case 'RETURN_CURB_LEAKAGE':
+        return computeReturnCurbLeakage(reading as ReturnCurbLeakageData, limits)
+        
+      case 'SLAB_WALL_MOISTURE':
+        return computeSlabWallMoisture(reading as SlabWallMoistureData, moisture)
+        
+      case 'AIRFLOW_STATIC':
+        return computeAirflowStatic(reading as AirflowStaticData, limits)
+        
+      case 'REFRIGERANT_CIRCUIT':
+        return computeRefrigerantCircuit(reading as RefrigerantCircuitData, weatherData?.outdoorTemp, unitData?.refrigerant)
+        
+      case 'COIL_PERFORMANCE':
+        return computeCoilPerformance(reading as CoilPerformanceData, site, limits, unitData?.airflowCFM)
+        
+      case 'FAN_EVAP_RECHECK':
+        return computeFanEvapRecheck(reading as FanEvapRecheckData, site, limits)
+        
+      case 'ECONOMIZER_SEAL':
+        return computeEconomizerSeal(reading as EconomizerSealData, limits)
+        
+      case 'DISTRIBUTION_MIXING':
+        return computeDistributionMixing(reading as DistributionMixingData, site, limits)
+
+      case 'DEHUMIDIFIER_PERFORMANCE':
+        return computeDehumidifierPerformance(reading as DehumidifierPerformanceData, site, limits)
+        
+      default:
+        throw new Error(`Unknown test type: ${testType}`)
+    }
+  })()
+
+  return { ...result, criteria }
 }
 
-function computeBuildingPressure(data: BuildingPressureData): ComputedResult {
-  const check = checkBuildingPressure(data.deltaP_inwc)
+function computeBuildingPressure(data: BuildingPressureData, limits: CriteriaLimits): ComputedResult {
+  const check = checkBuildingPressure(data.deltaP_inwc, limits.buildingPressure_inwc)
   
   return {
     calculations: {
@@ -102,12 +136,11 @@ function computeBuildingPressure(data: BuildingPressureData): ComputedResult {
   }
 }
 
-function computePressureDecay(data: PressureDecayData): ComputedResult {
+function computePressureDecay(data: PressureDecayData, limits: CriteriaLimits): ComputedResult {
   const decayRate = calculatePressureDecayRate(data.startDeltaP, data.endDeltaP, data.decaySeconds)
   const totalDecay = data.startDeltaP - data.endDeltaP
   
-  // Typical acceptable decay rate is < 0.01 in. w.c. per minute
-  const acceptableDecayRate = 0.01
+  const acceptableDecayRate = limits.pressureDecayMaxRate_inwc_per_min
   const pass = decayRate <= acceptableDecayRate
   
   return {
@@ -133,11 +166,11 @@ function computePressureDecay(data: PressureDecayData): ComputedResult {
   }
 }
 
-function computeReturnCurbLeakage(data: ReturnCurbLeakageData): ComputedResult {
+function computeReturnCurbLeakage(data: ReturnCurbLeakageData, limits: CriteriaLimits): ComputedResult {
   const pressureDiff = Math.abs(data.returnStatic_inwc - data.supplyStatic_inwc)
   
-  // Check for significant pressure imbalance (> 0.1 in. w.c.)
-  const maxDiff = 0.1
+  // Check for significant pressure imbalance
+  const maxDiff = limits.returnSupplyMaxDiff_inwc
   const pressurePass = pressureDiff <= maxDiff
   const leakPass = !data.smokeLeaksFound
   const overallPass = pressurePass && leakPass
@@ -173,34 +206,64 @@ function computeReturnCurbLeakage(data: ReturnCurbLeakageData): ComputedResult {
   }
 }
 
-function computeSlabWallMoisture(data: SlabWallMoistureData): ComputedResult {
-  const pass = data.plasticTest === 'DRY'
+function computeSlabWallMoisture(data: SlabWallMoistureData, moisture?: MoistureContext): ComputedResult {
+  const plasticPass = data.plasticTest === 'DRY'
+  const calculations: Record<string, number> = {}
+  const checks: ComputedResult['checks'] = {
+    plastic_test: {
+      pass: plasticPass,
+      value: data.plasticTest,
+      target: 'DRY',
+      message: plasticPass 
+        ? 'No moisture issues detected under plastic test'
+        : `Moisture detected: ${data.plasticTest.toLowerCase()}`
+    }
+  }
+
+  // IR images of the slab and walls, compared with the session's indoor dew point
+  let irPass = true
+  if (moisture && moisture.surfaces.length > 0) {
+    const dewPoint = moisture.indoorDewPoint_F
+    const atRisk = moisture.surfaces.filter(s => assessCondensationRisk(s.minTemp_F, dewPoint) !== 'OK')
+    const coldest = moisture.surfaces.reduce((a, b) => b.minTemp_F < a.minTemp_F ? b : a)
+    irPass = atRisk.length === 0
+
+    calculations.indoor_dew_point_F = dewPoint
+    calculations.min_surface_temp_F = coldest.minTemp_F
+    calculations.surface_dew_point_margin_F = coldest.minTemp_F - dewPoint
+    calculations.condensation_risk_surfaces = atRisk.length
+
+    checks.ir_condensation = {
+      pass: irPass,
+      value: coldest.minTemp_F,
+      target: `> ${(dewPoint + CONDENSATION_MARGIN_F).toFixed(1)}°F (dew point + ${CONDENSATION_MARGIN_F}°F)`,
+      message: irPass
+        ? 'IR surface temperatures are above the indoor dew point'
+        : `Condensation risk on ${atRisk.map(s => s.label).join(', ')}`
+    }
+  }
+
+  const pass = plasticPass && irPass
   
   return {
-    calculations: {},
-    checks: {
-      plastic_test: {
-        pass,
-        value: data.plasticTest,
-        target: 'DRY',
-        message: pass 
-          ? 'No moisture issues detected under plastic test'
-          : `Moisture detected: ${data.plasticTest.toLowerCase()}`
-      }
-    },
+    calculations,
+    checks,
     pass,
     summary: pass 
       ? 'No moisture issues detected'
-      : `Moisture issues detected: ${data.plasticTest.toLowerCase()}`
+      : !plasticPass
+        ? `Moisture issues detected: ${data.plasticTest.toLowerCase()}`
+        : 'Condensation risk on surfaces below or near the indoor dew point'
   }
 }
 
-function computeAirflowStatic(data: AirflowStaticData): ComputedResult {
+function computeAirflowStatic(data: AirflowStaticData, limits: CriteriaLimits): ComputedResult {
   const cfmPerTon = calculateCfmPerTon(data.supplyCFM, data.tons)
-  const cfmCheck = checkCfmPerTon(cfmPerTon)
+  const cfmCheck = checkCfmPerTon(cfmPerTon, limits.cfmPerTon)
   
-  // Check static pressure (typical range 0.5-1.2 in. w.c.)
-  const staticPass = data.extStatic_inwc >= 0.3 && data.extStatic_inwc <= 1.5
+  // Check external static pressure against the profile range (0.3-1.5 in. w.c. by default)
+  const staticLimits = limits.externalStatic_inwc
+  const staticPass = data.extStatic_inwc >= staticLimits.min && data.extStatic_inwc <= staticLimits.max
   
   return {
     calculations: {
@@ -214,10 +277,10 @@ function computeAirflowStatic(data: AirflowStaticData): ComputedResult {
       external_static: {
         pass: staticPass,
         value: data.extStatic_inwc,
-        target: '0.3 - 1.5 in. w.c.',
+        target: `${staticLimits.min} - ${staticLimits.max} in. w.c.`,
         message: staticPass 
           ? 'External static pressure within normal range'
-          : data.extStatic_inwc < 0.3 
+          : data.extStatic_inwc < staticLimits.min 
             ? 'External static pressure too low'
             : 'External static pressure too high - check for restrictions'
       }
@@ -227,9 +290,14 @@ function computeAirflowStatic(data: AirflowStaticData): ComputedResult {
   }
 }
 
-function computeRefrigerantCircuit(data: RefrigerantCircuitData, outdoorTemp?: number): ComputedResult {
-  const superheat = calculateSuperheat(data.suctionLineTemp_F, data.suctionPSI)
-  const subcooling = calculateSubcooling(data.liquidLineTemp_F, data.liquidPSI)
+function computeRefrigerantCircuit(
+  data: RefrigerantCircuitData,
+  outdoorTemp?: number,
+  refrigerantName?: string | null
+): ComputedResult {
+  const refrigerant = getRefrigerant(refrigerantName || DEFAULT_REFRIGERANT)
+  const superheat = calculateSuperheat(data.suctionLineTemp_F, data.suctionPSI, refrigerant.name)
+  const subcooling = calculateSubcooling(data.liquidLineTemp_F, data.liquidPSI, refrigerant.name)
   
   const shCheck = checkSuperheat(superheat, outdoorTemp || data.outdoorDB_F)
   const scCheck = checkSubcooling(subcooling, outdoorTemp || data.outdoorDB_F)
@@ -241,27 +309,53 @@ function computeRefrigerantCircuit(data: RefrigerantCircuitData, outdoorTemp?: n
       suction_psi: data.suctionPSI,
       liquid_psi: data.liquidPSI,
       suction_temp_F: data.suctionLineTemp_F,
-      liquid_temp_F: data.liquidLineTemp_F
+      liquid_temp_F: data.liquidLineTemp_F,
+      suction_sat_temp_F: getSaturationTemperature(data.suctionPSI, refrigerant.name, 'dew'),
+      liquid_sat_temp_F: getSaturationTemperature(data.liquidPSI, refrigerant.name, 'bubble')
     },
     checks: {
       superheat: shCheck,
       subcooling: scCheck
     },
     pass: shCheck.pass && scCheck.pass,
-    summary: `SH: ${superheat.toFixed(1)}°F, SC: ${subcooling.toFixed(1)}°F`
+    summary: `${refrigerant.name} - SH: ${superheat.toFixed(1)}°F, SC: ${subcooling.toFixed(1)}°F`
   }
 }
 
-function computeCoilPerformance(data: CoilPerformanceData): ComputedResult {
-  const returnDP = calculateDewPoint(data.returnDB_F, data.returnRH_pct)
-  const supplyDP = calculateDewPoint(data.supplyDB_F, data.supplyRH_pct)
+function computeCoilPerformance(
+  data: CoilPerformanceData,
+  site: PsychrometricConditions,
+  limits: CriteriaLimits,
+  measuredAirflowCFM?: number
+): ComputedResult {
+  const returnAir = getPsychrometricState({ dryBulb_F: data.returnDB_F, rh_pct: data.returnRH_pct }, site)
+  const supplyAir = getPsychrometricState({ dryBulb_F: data.supplyDB_F, rh_pct: data.supplyRH_pct }, site)
+  const returnDP = returnAir.dewPoint_F
+  const supplyDP = supplyAir.dewPoint_F
   const dewPointDrop = returnDP - supplyDP
   const tempDrop = data.returnDB_F - data.supplyDB_F
   
-  const supplyDPCheck = checkSupplyDewPoint(supplyDP)
+  const supplyDPCheck = checkSupplyDewPoint(supplyDP, limits.supplyDewPoint_F)
   
   // Check for reasonable temperature drop (8-25°F typical)
-  const tempDropPass = tempDrop >= 8 && tempDrop <= 25
+  const tempDropLimits = limits.coilTempDrop_F
+  const tempDropPass = tempDrop >= tempDropLimits.min && tempDrop <= tempDropLimits.max
+
+  const load = calculateCoilLoad(returnAir, supplyAir)
+  const adp = apparatusDewPoint(returnAir, supplyAir, site)
+
+  // Capacities need airflow, entered with the reading or from the unit's latest Airflow & Static
+  // test taken before it; that is measured at the supply, so mass flow uses the supply air density
+  const airflowCFM = data.airflowCFM ?? measuredAirflowCFM
+  const massFlow = airflowCFM !== undefined
+    ? calculateMassFlow(airflowCFM, supplyAir.specificVolume_ft3_lb)
+    : undefined
+
+  // SHR only grades the coil when the profile sets a ceiling and the coil is cooling
+  const maxShr = limits.coilMaxShr
+  const shr = load.sensibleHeatRatio
+  const shrChecked = maxShr !== undefined && shr !== null
+  const shrPass = !shrChecked || shr <= maxShr
   
   return {
     calculations: {
@@ -269,37 +363,73 @@ function computeCoilPerformance(data: CoilPerformanceData): ComputedResult {
       supply_dew_point_F: supplyDP,
       dew_point_drop_F: dewPointDrop,
       temperature_drop_F: tempDrop,
-      condensate_oz_per_30min: data.condensateVolume_oz_per_30min || 0
+      return_grains_per_lb: returnAir.humidityRatio_gr_lb,
+      supply_grains_per_lb: supplyAir.humidityRatio_gr_lb,
+      moisture_removed_grains_per_lb: returnAir.humidityRatio_gr_lb - supplyAir.humidityRatio_gr_lb,
+      return_enthalpy_btu_lb: returnAir.enthalpy_btu_lb,
+      supply_enthalpy_btu_lb: supplyAir.enthalpy_btu_lb,
+      enthalpy_drop_btu_lb: load.total,
+      condensate_oz_per_30min: data.condensateVolume_oz_per_30min || 0,
+      ...(shr !== null && { sensible_heat_ratio: shr }),
+      ...(adp !== null && {
+        apparatus_dew_point_F: adp,
+        bypass_factor: calculateBypassFactor(data.returnDB_F, data.supplyDB_F, adp)
+      }),
+      ...(massFlow !== undefined && {
+        airflow_cfm: airflowCFM!,
+        total_capacity_btuh: massFlow * load.total,
+        sensible_capacity_btuh: massFlow * load.sensible,
+        latent_capacity_btuh: massFlow * load.latent
+      })
     },
     checks: {
       supply_dew_point: supplyDPCheck,
       temperature_drop: {
         pass: tempDropPass,
         value: tempDrop,
-        target: '8 - 25°F',
+        target: `${tempDropLimits.min} - ${tempDropLimits.max}°F`,
         message: tempDropPass 
           ? 'Temperature drop within normal range'
-          : tempDrop < 8 
+          : tempDrop < tempDropLimits.min 
             ? 'Insufficient cooling - check refrigerant charge'
             : 'Excessive temperature drop - check airflow'
-      }
+      },
+      ...(shrChecked && {
+        sensible_heat_ratio: {
+          pass: shrPass,
+          value: shr,
+          target: `≤ ${maxShr}`,
+          message: shrPass
+            ? `SHR ${shr.toFixed(2)} - coil is removing enough moisture`
+            : `SHR ${shr.toFixed(2)} - mostly sensible cooling; reduce airflow or check coil temperature`
+        }
+      })
     },
-    pass: supplyDPCheck.pass && tempDropPass,
-    summary: `Supply DP: ${supplyDP.toFixed(1)}°F, ΔT: ${tempDrop.toFixed(1)}°F`
+    pass: supplyDPCheck.pass && tempDropPass && shrPass,
+    summary: `Supply DP: ${supplyDP.toFixed(1)}°F, ΔT: ${tempDrop.toFixed(1)}°F` +
+      (shr !== null ? `, SHR: ${shr.toFixed(2)}` : '') +
+      (massFlow !== undefined ? `, ${(massFlow * load.total).toFixed(0)} BTU/h total` : '')
   }
 }
 
-function computeFanEvapRecheck(data: FanEvapRecheckData): ComputedResult {
-  const returnDP = calculateDewPoint(data.returnDB_F, data.returnRH_pct)
-  const supplyDP = calculateDewPoint(data.supplyDB_F, data.supplyRH_pct)
+function computeFanEvapRecheck(data: FanEvapRecheckData, site: PsychrometricConditions, limits: CriteriaLimits): ComputedResult {
+  const returnAir = getPsychrometricState({ dryBulb_F: data.returnDB_F, rh_pct: data.returnRH_pct }, site)
+  const supplyAir = getPsychrometricState({ dryBulb_F: data.supplyDB_F, rh_pct: data.supplyRH_pct }, site)
+  const returnDP = returnAir.dewPoint_F
+  const supplyDP = supplyAir.dewPoint_F
   
-  const supplyDPCheck = checkSupplyDewPoint(supplyDP)
-  const staticPass = data.staticPressure_inwc >= 0.3 && data.staticPressure_inwc <= 1.5
+  const supplyDPCheck = checkSupplyDewPoint(supplyDP, limits.supplyDewPoint_F)
+  const staticLimits = limits.externalStatic_inwc
+  const staticPass = data.staticPressure_inwc >= staticLimits.min && data.staticPressure_inwc <= staticLimits.max
   
   return {
     calculations: {
       return_dew_point_F: returnDP,
       supply_dew_point_F: supplyDP,
+      return_grains_per_lb: returnAir.humidityRatio_gr_lb,
+      supply_grains_per_lb: supplyAir.humidityRatio_gr_lb,
+      return_enthalpy_btu_lb: returnAir.enthalpy_btu_lb,
+      supply_enthalpy_btu_lb: supplyAir.enthalpy_btu_lb,
       airflow_cfm: data.airflowCFM,
       static_pressure_inwc: data.staticPressure_inwc
     },
@@ -308,7 +438,7 @@ function computeFanEvapRecheck(data: FanEvapRecheckData): ComputedResult {
       static_pressure: {
         pass: staticPass,
         value: data.staticPressure_inwc,
-        target: '0.3 - 1.5 in. w.c.',
+        target: `${staticLimits.min} - ${staticLimits.max} in. w.c.`,
         message: staticPass ? 'Static pressure acceptable' : 'Static pressure out of range'
       }
     },
@@ -317,9 +447,9 @@ function computeFanEvapRecheck(data: FanEvapRecheckData): ComputedResult {
   }
 }
 
-function computeEconomizerSeal(data: EconomizerSealData): ComputedResult {
+function computeEconomizerSeal(data: EconomizerSealData, limits: CriteriaLimits): ComputedResult {
   // Economizer should be fully closed (0%) and have no leakage
-  const positionPass = data.commandedPct <= 5 // Allow small tolerance
+  const positionPass = data.commandedPct <= limits.economizerMaxCommanded_pct // Allow small tolerance
   const leakPass = !data.leakageObserved
   
   return {
@@ -330,7 +460,7 @@ function computeEconomizerSeal(data: EconomizerSealData): ComputedResult {
       damper_position: {
         pass: positionPass,
         value: data.commandedPct,
-        target: '0%',
+        target: `≤ ${limits.economizerMaxCommanded_pct}%`,
         message: positionPass 
           ? 'Economizer damper properly closed'
           : 'Economizer damper not fully closed'
@@ -349,18 +479,25 @@ function computeEconomizerSeal(data: EconomizerSealData): ComputedResult {
   }
 }
 
-function computeDistributionMixing(data: DistributionMixingData): ComputedResult {
+function computeDistributionMixing(data: DistributionMixingData, site: PsychrometricConditions, limits: CriteriaLimits): ComputedResult {
   const temperatures = data.gridSamples.map(s => s.db_F)
   const humidities = data.gridSamples.map(s => s.rh_pct)
-  const dewPoints = data.gridSamples.map(s => calculateDewPoint(s.db_F, s.rh_pct))
+  const states = data.gridSamples.map(s => getPsychrometricState({ dryBulb_F: s.db_F, rh_pct: s.rh_pct }, site))
+  const dewPoints = states.map(s => s.dewPoint_F)
+  const grains = states.map(s => s.humidityRatio_gr_lb)
+  const enthalpies = states.map(s => s.enthalpy_btu_lb)
   
   const tempStats = calculateStats(temperatures)
   const rhStats = calculateStats(humidities)
   const dpStats = calculateStats(dewPoints)
+  const grainStats = calculateStats(grains)
+  const enthalpyStats = calculateStats(enthalpies)
   
-  // Check for good mixing (temperature variation < 5°F, RH variation < 10%)
-  const tempVariationPass = (tempStats.max - tempStats.min) <= 5
-  const rhVariationPass = (rhStats.max - rhStats.min) <= 10
+  // Check for good mixing (temperature and RH spread across the grid)
+  const maxTempVariation = limits.mixingMaxTempVariation_F
+  const maxRhVariation = limits.mixingMaxRhVariation_pct
+  const tempVariationPass = (tempStats.max - tempStats.min) <= maxTempVariation
+  const rhVariationPass = (rhStats.max - rhStats.min) <= maxRhVariation
   
   return {
     calculations: {
@@ -375,13 +512,17 @@ function computeDistributionMixing(data: DistributionMixingData): ComputedResult
       dp_min_F: dpStats.min,
       dp_max_F: dpStats.max,
       dp_avg_F: dpStats.avg,
+      grains_min_per_lb: grainStats.min,
+      grains_max_per_lb: grainStats.max,
+      grains_avg_per_lb: grainStats.avg,
+      enthalpy_avg_btu_lb: enthalpyStats.avg,
       return_dp_F: data.returnDewPoint_F
     },
     checks: {
       temperature_mixing: {
         pass: tempVariationPass,
         value: tempStats.max - tempStats.min,
-        target: '≤ 5°F variation',
+        target: `≤ ${maxTempVariation}°F variation`,
         message: tempVariationPass 
           ? 'Good temperature mixing achieved'
           : 'Poor temperature mixing - check airflow distribution'
@@ -389,7 +530,7 @@ function computeDistributionMixing(data: DistributionMixingData): ComputedResult
       humidity_mixing: {
         pass: rhVariationPass,
         value: rhStats.max - rhStats.min,
-        target: '≤ 10% RH variation',
+        target: `≤ ${maxRhVariation}% RH variation`,
         message: rhVariationPass 
           ? 'Good humidity mixing achieved'
           : 'Poor humidity mixing - check airflow distribution'
@@ -399,3 +540,52 @@ function computeDistributionMixing(data: DistributionMixingData): ComputedResult
     summary: `Zone mixing - ΔT: ${(tempStats.max - tempStats.min).toFixed(1)}°F, ΔRH: ${(rhStats.max - rhStats.min).toFixed(1)}%`
   }
 }
+
+function computeDehumidifierPerformance(
+  data: DehumidifierPerformanceData,
+  site: PsychrometricConditions,
+  limits: CriteriaLimits
+): ComputedResult {
+  const inletAir = getPsychrometricState({ dryBulb_F: data.inletDB_F, rh_pct: data.inletRH_pct }, site)
+  const outletAir = getPsychrometricState({ dryBulb_F: data.outletDB_F, rh_pct: data.outletRH_pct }, site)
+
+  // Airflow is taken as measured at the inlet, so mass flow uses the inlet air density
+  const massFlow = calculateMassFlow(data.airflowCFM, inletAir.specificVolume_ft3_lb)
+  const removal = calculateMoistureRemoval(massFlow, inletAir.humidityRatio, outletAir.humidityRatio)
+  const percentOfRated = removal.pintsPerDay / data.ratedPintsPerDay * 100
+
+  const minPercent = limits.dehumidifierMinRated_pct
+  const removing = removal.lbPerHour > 0
+  const capacityPass = removing && percentOfRated >= minPercent
+
+  return {
+    calculations: {
+      inlet_dew_point_F: inletAir.dewPoint_F,
+      outlet_dew_point_F: outletAir.dewPoint_F,
+      inlet_grains_per_lb: inletAir.humidityRatio_gr_lb,
+      outlet_grains_per_lb: outletAir.humidityRatio_gr_lb,
+      moisture_removed_grains_per_lb: inletAir.humidityRatio_gr_lb - outletAir.humidityRatio_gr_lb,
+      temperature_rise_F: data.outletDB_F - data.inletDB_F,
+      mass_flow_lb_hr: massFlow,
+      moisture_removal_lb_hr: removal.lbPerHour,
+      moisture_removal_pints_day: removal.pintsPerDay,
+      rated_pints_day: data.ratedPintsPerDay,
+      percent_of_rated: percentOfRated,
+      latent_capacity_btuh: removal.latentBtuPerHour
+    },
+    checks: {
+      moisture_removal: {
+        pass: capacityPass,
+        value: percentOfRated,
+        target: `≥ ${minPercent}% of rated ${data.ratedPintsPerDay} pints/day`,
+        message: !removing
+          ? 'No moisture removed - confirm the unit is running and dehumidifying'
+          : capacityPass
+            ? `Removing ${removal.pintsPerDay.toFixed(0)} pints/day (${percentOfRated.toFixed(0)}% of rated)`
+            : `Removing only ${removal.pintsPerDay.toFixed(0)} pints/day (${percentOfRated.toFixed(0)}% of rated) - check airflow, coil and inlet conditions`
+      }
+    },
+    pass: capacityPass,
+    summary: `Removal: ${removal.pintsPerDay.toFixed(0)} pints/day (${percentOfRated.toFixed(0)}% of rated), latent ${removal.latentBtuPerHour.toFixed(0)} BTU/h`
+  }
+}
@@ -0,0 +1,274 @@
+import { Prisma, TestType } from '@prisma/client'
+import { db } from './db'
+import { computeTestResult, type ComputedResult, type MoistureContext } from './test-computations'
+import { pressureAtElevation } from './psychrometrics'
+import { getActiveCriteria } from './criteria-profiles'
+import { getIndoorDewPoint } from './condensation-risk'
+import { isSupportedRefrigerant } from './refrigerants'
+import { isSessionLocked } from './session-workflow'
+import { getWeatherAt } from './weather'
+import { validateReading, validateTestReading, type ReadingValidationResult } from './schemas'
+import {
+  buildTemplateReadingSchema,
+  computeTemplateResult,
+  recordedTemplate,
+  type TestTemplateDefinition,
+  type TestTemplateSnapshot
+} from './test-templates'
+import { getRecordedCriteria, type CriteriaProfileSnapshot } from './criteria'
+import type { ThermalSummary } from './ir-radiometric'
+
+/**
+ * Session fields needed to evaluate a test (weather and site elevation)
+ */
+export interface EvaluationSession {
+  id: string
+  weatherOADryBulb: number | null
+  weatherOARH: number | null
+  weatherSource: string | null
+  weatherObservations?: Array<{ observedAt: Date; dryBulb_F: number; rh_pct: number }>
+  area: {
+    project: {
+      id: string
+      elevationFt: number | null
+    }
+  }
+}
+
+export interface TestEvaluation {
+  computed?: ComputedResult
+  pass?: boolean
+}
+
+/**
+ * Build weather data for computations from a session
+ * Retrieved hourly history gives the conditions when the test was taken; hand-entered
+ * session weather (or a test outside the history) uses the session values.
+ */
+export function getSessionWeatherData(session: EvaluationSession, takenAt: Date = new Date()) {
+  const hourly = session.weatherSource && session.weatherObservations
+    ? getWeatherAt(session.weatherObservations, takenAt)
+    : null
+
+  return {
+    outdoorTemp: hourly?.dryBulb_F ?? session.weatherOADryBulb ?? undefined,
+    outdoorRH: hourly?.rh_pct ?? session.weatherOARH ?? undefined,
+    barometricPressure: session.area.project.elevationFt != null
+      ? pressureAtElevation(session.area.project.elevationFt)
+      : undefined
+  }
+}
+
+/**
+ * IR surfaces and indoor dew point for a session's slab/wall moisture tests
+ * Uses radiometric images attached to the session itself or to its moisture
+ * tests; IR images of equipment linked to other tests are left out.
+ */
+export async function getMoistureContext(sessionId: string): Promise<MoistureContext | undefined> {
+  const [tests, files] = await Promise.all([
+    db.testResult.findMany({
+      where: { sessionId },
+      select: { testType: true, computed: true }
+    }),
+    db.fileAsset.findMany({
+      where: {
+        thermalKey: { not: null },
+        OR: [
+          { sessionId, testResultId: null },
+          { testResult: { sessionId, testType: 'SLAB_WALL_MOISTURE' } }
+        ]
+      },
+      select: { id: true, label: true, originalName: true, thermal: true }
+    })
+  ])
+
+  const dewPoint = getIndoorDewPoint(tests)
+  if (!dewPoint || files.length === 0) {
+    return undefined
+  }
+
+  return {
+    indoorDewPoint_F: dewPoint.dewPoint_F,
+    surfaces: files.map(file => ({
+      fileId: file.id,
+      label: file.label || file.originalName,
+      minTemp_F: (file.thermal as unknown as ThermalSummary).minTemp_F
+    }))
+  }
+}
+
+/**
+ * Supply airflow from a unit's latest Airflow & Static test taken at or before a coil test, for coil capacities
+ */
+export async function getUnitAirflow(unitId: string, takenAt: Date = new Date()): Promise<number | undefined> {
+  const test = await db.testResult.findFirst({
+    where: { unitId, testType: 'AIRFLOW_STATIC', createdAt: { lte: takenAt } },
+    orderBy: { createdAt: 'desc' },
+    select: { reading: true }
+  })
+
+  const supplyCFM = (test?.reading as { supplyCFM?: unknown } | undefined)?.supplyCFM
+  return typeof supplyCFM === 'number' ? supplyCFM : undefined
+}
+
+/**
+ * Validate a reading for its test type, or against its template's fields for CUSTOM tests
+ */
+export function validateReadingForTest(
+  testType: TestType,
+  reading: unknown,
+  template?: TestTemplateSnapshot | null
+): ReadingValidationResult {
+  if (testType !== 'CUSTOM') {
+    return validateTestReading(testType, reading)
+  }
+
+  if (!template) {
+    return { success: false, errors: { formErrors: ['Custom tests require a template'], fieldErrors: {} } }
+  }
+
+  return validateReading(buildTemplateReadingSchema(template.definition as TestTemplateDefinition), reading)
+}
+
+/**
+ * Why a unit can't be used for a test, e.g. a refrigerant saved before refrigerants
+ * were validated that has no saturation data for superheat and subcooling
+ */
+export function getUnitError(
+  testType: TestType,
+  unit?: { refrigerant?: string | null } | null
+): string | null {
+  if (testType === 'REFRIGERANT_CIRCUIT' && unit?.refrigerant && !isSupportedRefrigerant(unit.refrigerant)) {
+    return `Unsupported refrigerant: ${unit.refrigerant}`
+  }
+
+  return null
+}
+
+/**
+ * Run computations for a reading in the context of its session and unit.
+ * Computation failures are logged and leave the result uncomputed.
+ * @param criteria - Active criteria profile; looked up from the project when omitted
+ * @param takenAt - When the test was taken, for hourly outdoor conditions; defaults to now
+ * @param template - Template for CUSTOM tests
+ */
+export async function evaluateTestResult(
+  testType: TestType,
+  reading: unknown,
+  session: EvaluationSession,
+  unit?: { id?: string; refrigerant?: string | null; tons?: number | null } | null,
+  criteria?: CriteriaProfileSnapshot,
+  takenAt?: Date,
+  template?: TestTemplateSnapshot | null
+): Promise<TestEvaluation> {
+  if (testType === 'CUSTOM') {
+    if (!template) {
+      return {}
+    }
+
+    try {
+      const computed = computeTemplateResult(
+        template,
+        reading as Record<string, unknown>,
+        getSessionWeatherData(session, takenAt),
+        unit ?? undefined
+      )
+      return { computed, pass: computed.pass }
+    } catch (error) {
+      console.error('Computation error:', error)
+      return {}
+    }
+  }
+
+  const activeCriteria = criteria ?? await getActiveCriteria(session.area.project.id)
+  const moisture = testType === 'SLAB_WALL_MOISTURE'
+    ? await getMoistureContext(session.id)
+    : undefined
+  const airflowCFM = testType === 'COIL_PERFORMANCE' && unit?.id
+    ? await getUnitAirflow(unit.id, takenAt)
+    : undefined
+
+  try {
+    const computed = computeTestResult(
+      testType,
+      reading,
+      getSessionWeatherData(session, takenAt),
+      { refrigerant: unit?.refrigerant, airflowCFM },
+      activeCriteria,
+      moisture
+    )
+    return { computed, pass: computed.pass }
+  } catch (error) {
+    console.error('Computation error:', error)
+    return {}
+  }
+}
+
+/**
+ * Re-evaluate a session's tests of the given types; locked sessions keep their results
+ * Each test keeps the criteria version it was graded with; re-grading against the
+ * current profile is left to an explicit session recompute.
+ */
+async function refreshSessionTests(sessionId: string, testTypes: TestType[]): Promise<void> {
+  const session = await db.session.findUnique({
+    where: { id: sessionId },
+    include: {
+      area: {
+        include: { project: true }
+      },
+      tests: {
+        where: { testType: { in: testTypes } },
+        include: { unit: true, template: true, templateVersion: true }
+      },
+      weatherObservations: {
+        orderBy: { observedAt: 'asc' }
+      }
+    }
+  })
+
+  if (!session || session.tests.length === 0 || isSessionLocked(session.status)) {
+    return
+  }
+
+  for (const test of session.tests) {
+    const { computed, pass } = await evaluateTestResult(
+      test.testType,
+      test.reading,
+      session,
+      test.unit,
+      getRecordedCriteria(test.computed),
+      test.createdAt,
+      recordedTemplate(test.template, test.templateVersion)
+    )
+
+    await db.testResult.update({
+      where: { id: test.id },
+      data: {
+        computed: computed ? (computed as any) : Prisma.DbNull,
+        pass: pass ?? null
+      }
+    })
+  }
+}
+
+/**
+ * Re-evaluate a session's slab/wall moisture tests after its IR images change
+ */
+export async function refreshMoistureTests(sessionId: string): Promise<void> {
+  return refreshSessionTests(sessionId, ['SLAB_WALL_MOISTURE'])
+}
+
+/**
+ * Re-evaluate a session's coil tests after an Airflow & Static test changes the airflow they use
+ */
+export async function refreshCoilTests(sessionId: string): Promise<void> {
+  return refreshSessionTests(sessionId, ['COIL_PERFORMANCE'])
+}
+
+/**
+ * Re-evaluate tests that depend on outdoor conditions after session weather is retrieved
+ * Custom tests are included since their formulas can use outdoor conditions.
+ */
+export async function refreshWeatherTests(sessionId: string): Promise<void> {
+  return refreshSessionTests(sessionId, ['REFRIGERANT_CIRCUIT', 'CUSTOM'])
+}
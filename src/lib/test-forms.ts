@@ -0,0 +1,609 @@
+/**
+ * Test Entry Forms
+ * Field metadata for each test type. The generic form reads field types,
+ * ranges and choices from the reading's Zod schema and labels, units and
+ * help text from here, so a new test type needs a schema in schemas.ts, a
+ * computation in test-computations.ts and an entry in TEST_FORMS.
+ */
+
+import { z } from 'zod'
+import { calculateDewPoint } from './calculations'
+import { TEST_READING_SCHEMAS, type ReadingTestType } from './schemas'
+import {
+  buildTemplateReadingSchema,
+  unitSuffix,
+  type TestTemplateDefinition,
+  type TestTemplateSnapshot
+} from './test-templates'
+
+/**
+ * Unit and session values a form can start from
+ */
+export interface FormPrefillContext {
+  unit?: { label: string; tons?: number | null; refrigerant?: string | null } | null
+  session: { weatherOADryBulb?: number | null; weatherOARH?: number | null }
+}
+
+export interface FieldMetadata {
+  label: string
+  /** Display unit appended to the label, e.g. "°F" */
+  unit?: string
+  step?: number
+  placeholder?: string
+  help?: string
+  /** Render a string field as a textarea */
+  multiline?: boolean
+  /** Display labels for enum values */
+  options?: Record<string, string>
+  /** Kept in the reading but not shown (e.g. filled from the selected unit) */
+  hidden?: boolean
+  /** Initial value, refreshed when the selected unit changes */
+  prefill?: (context: FormPrefillContext) => unknown
+  /** Only shown when this returns true for the current values */
+  showWhen?: (values: Record<string, any>) => boolean
+  /** Columns of an array-of-objects field */
+  columns?: Record<string, FieldMetadata>
+  /** For a grid column: number new rows with this prefix (P1, P2, ...) */
+  autoNumber?: string
+  /** For a grid: a read-only value derived from each row */
+  rowSummary?: { label: string; compute: (row: Record<string, any>) => string | null }
+}
+
+export interface TestFormMetadata {
+  name: string
+  description: string
+  priority: 'high' | 'medium' | 'low'
+  estimatedTime: string
+  /** Whether the test is recorded against an HVAC unit */
+  unit: 'required' | 'optional' | 'none'
+  fields: Record<string, FieldMetadata>
+  /** Calculations listed in the live preview */
+  preview?: Array<{ key: string; label: string; unit?: string; digits?: number }>
+  guidelines?: string[]
+}
+
+export type FormFieldKind = 'number' | 'text' | 'boolean' | 'select' | 'list' | 'grid' | 'constant'
+
+export interface FormFieldSpec {
+  name: string
+  kind: FormFieldKind
+  required: boolean
+  meta: FieldMetadata
+  min?: number
+  max?: number
+  options?: Array<{ value: string; label: string }>
+  constant?: unknown
+  columns?: FormFieldSpec[]
+}
+
+const NOTES_FIELD: FieldMetadata = {
+  label: 'Notes',
+  multiline: true,
+  placeholder: 'Equipment used, testing conditions, observations...'
+}
+
+const unitLabelField: FieldMetadata = {
+  label: 'Unit Label',
+  hidden: true,
+  prefill: ({ unit }) => unit?.label ?? ''
+}
+
+const airFields = (position: 'Return' | 'Supply' | 'Inlet' | 'Outlet', db: string, rh: string): Record<string, FieldMetadata> => ({
+  [`${position.toLowerCase()}DB_F`]: { label: `${position} Air Dry Bulb`, unit: '°F', step: 0.1, placeholder: db },
+  [`${position.toLowerCase()}RH_pct`]: { label: `${position} Air RH`, unit: '%', step: 0.1, placeholder: rh }
+})
+
+export const TEST_FORMS: Record<ReadingTestType, TestFormMetadata> = {
+  BUILDING_PRESSURE: {
+    name: 'Building Pressure',
+    description: 'Measure building pressurization (target 0.02-0.05 in. w.c.)',
+    priority: 'high',
+    estimatedTime: '10 min',
+    unit: 'none',
+    fields: {
+      location: { label: 'Test Location', placeholder: 'e.g., Main corridor, Classroom 101' },
+      deltaP_inwc: {
+        label: 'Pressure Difference',
+        unit: 'in. w.c.',
+        step: 0.001,
+        placeholder: '0.035',
+        help: 'Measure inside pressure minus outside pressure'
+      },
+      exhaustOn: { label: 'Exhaust fans running during test' },
+      notes: NOTES_FIELD
+    },
+    preview: [
+      { key: 'pressure_inwc', label: 'Measured Pressure', unit: '" w.c.', digits: 3 }
+    ],
+    guidelines: [
+      'Ensure all doors and windows are closed',
+      'Allow building pressure to stabilize before reading',
+      'Take multiple readings and use average if needed',
+      'Note any unusual weather conditions'
+    ]
+  },
+  PRESSURE_DECAY: {
+    name: 'Pressure Decay',
+    description: 'Test envelope tightness over time',
+    priority: 'medium',
+    estimatedTime: '15 min',
+    unit: 'none',
+    fields: {
+      startDeltaP: { label: 'Starting Pressure', unit: 'in. w.c.', step: 0.001, placeholder: '0.050' },
+      endDeltaP: { label: 'Ending Pressure', unit: 'in. w.c.', step: 0.001, placeholder: '0.010' },
+      decaySeconds: {
+        label: 'Decay Time',
+        unit: 'seconds',
+        placeholder: '120',
+        help: 'Time between the starting and ending readings (up to one hour)'
+      },
+      notes: NOTES_FIELD
+    },
+    preview: [
+      { key: 'decay_rate_per_min', label: 'Decay Rate', unit: '" w.c./min', digits: 4 },
+      { key: 'total_decay_inwc', label: 'Total Decay', unit: '" w.c.', digits: 3 },
+      { key: 'decay_percentage', label: 'Pressure Lost', unit: '%', digits: 0 }
+    ],
+    guidelines: [
+      'Close exterior doors, windows and outdoor air dampers',
+      'Pressurize to about 0.05 in. w.c. before starting the timer',
+      'Record the ending pressure at a fixed interval, such as two minutes',
+      'Avoid testing in high wind'
+    ]
+  },
+  RETURN_CURB_LEAKAGE: {
+    name: 'Return/Curb Leakage',
+    description: 'Smoke testing for return air leaks',
+    priority: 'high',
+    estimatedTime: '20 min',
+    unit: 'none',
+    fields: {
+      returnStatic_inwc: { label: 'Return Static', unit: 'in. w.c.', step: 0.01, placeholder: '-0.45' },
+      supplyStatic_inwc: { label: 'Supply Static', unit: 'in. w.c.', step: 0.01, placeholder: '0.35' },
+      smokeLeaksFound: { label: 'Smoke test found leaks' },
+      leakLocations: {
+        label: 'Leak Locations',
+        placeholder: 'e.g., Curb seam at NE corner',
+        showWhen: values => values.smokeLeaksFound === true
+      },
+      notes: NOTES_FIELD
+    },
+    preview: [
+      { key: 'return_static_inwc', label: 'Return Static', unit: '" w.c.' },
+      { key: 'supply_static_inwc', label: 'Supply Static', unit: '" w.c.' },
+      { key: 'pressure_difference_inwc', label: 'Pressure Difference', unit: '" w.c.' }
+    ],
+    guidelines: [
+      'Run the supply fan at normal speed with the economizer closed',
+      'Read return static upstream of the filter and supply static after the coil',
+      'Smoke the curb perimeter, return plenum seams and panel joints',
+      'Record each location where smoke is drawn in'
+    ]
+  },
+  SLAB_WALL_MOISTURE: {
+    name: 'Slab/Wall Moisture',
+    description: 'Plastic sheet test and IR imaging',
+    priority: 'medium',
+    estimatedTime: '30 min',
+    unit: 'none',
+    fields: {
+      plasticTest: {
+        label: 'Plastic Sheet Result',
+        options: {
+          DRY: 'Dry - no change under the sheet',
+          CONDENSATION: 'Condensation under the sheet',
+          DARKENING: 'Darkening of the surface'
+        }
+      },
+      irFindings: {
+        label: 'IR Findings',
+        multiline: true,
+        placeholder: 'Cool spots, wet patterns, locations imaged...',
+        help: 'Radiometric IR images attached to this session are checked against the indoor dew point when the test is saved'
+      },
+      notes: NOTES_FIELD
+    },
+    guidelines: [
+      'Tape an 18" × 18" clear plastic sheet to the slab or wall on all edges',
+      'Leave it in place for at least 16 hours before inspecting',
+      'Scan slab edges and exterior walls with an IR camera',
+      'Attach IR images to the session for dew point comparison'
+    ]
+  },
+  AIRFLOW_STATIC: {
+    name: 'Airflow & Static',
+    description: 'CFM measurements and static pressure',
+    priority: 'high',
+    estimatedTime: '15 min',
+    unit: 'required',
+    fields: {
+      unitLabel: unitLabelField,
+      tons: {
+        label: 'Nominal Capacity',
+        unit: 'tons',
+        step: 0.5,
+        prefill: ({ unit }) => unit?.tons ?? undefined
+      },
+      supplyCFM: { label: 'Supply CFM', placeholder: '4500' },
+      returnCFM: { label: 'Return CFM', placeholder: '4200', help: 'Optional - for reference' },
+      extStatic_inwc: { label: 'External Static', unit: 'in. w.c.', step: 0.01, placeholder: '0.8' },
+      mode: { label: 'Operating Mode', options: { COOL: 'Cooling', DEHUM: 'Dehumidification' } },
+      notes: NOTES_FIELD
+    },
+    preview: [
+      { key: 'cfm_per_ton', label: 'CFM/Ton', digits: 0 },
+      { key: 'supply_cfm', label: 'Supply CFM', digits: 0 },
+      { key: 'external_static_inwc', label: 'External Static', unit: '" w.c.' }
+    ],
+    guidelines: [
+      'Ensure unit is running in steady-state condition',
+      'Use calibrated airflow measuring equipment',
+      'For dehumidification mode, CFM/ton should be 350-400',
+      'Take measurements at multiple points if needed'
+    ]
+  },
+  REFRIGERANT_CIRCUIT: {
+    name: 'Refrigerant Circuit',
+    description: 'Superheat and subcooling measurements',
+    priority: 'high',
+    estimatedTime: '20 min',
+    unit: 'required',
+    fields: {
+      unitLabel: unitLabelField,
+      outdoorDB_F: {
+        label: 'Outdoor Dry Bulb',
+        unit: '°F',
+        step: 0.1,
+        prefill: ({ session }) => session.weatherOADryBulb ?? undefined,
+        help: 'Defaults to the session outdoor conditions'
+      },
+      suctionPSI: { label: 'Suction Pressure', unit: 'psig', step: 0.1, placeholder: '130' },
+      suctionLineTemp_F: { label: 'Suction Line Temperature', unit: '°F', step: 0.1, placeholder: '55' },
+      liquidPSI: { label: 'Liquid Pressure', unit: 'psig', step: 0.1, placeholder: '380' },
+      liquidLineTemp_F: { label: 'Liquid Line Temperature', unit: '°F', step: 0.1, placeholder: '100' },
+      txvPresent: { label: 'TXV metering device' },
+      notes: NOTES_FIELD
+    },
+    preview: [
+      { key: 'superheat_F', label: 'Superheat', unit: '°F', digits: 1 },
+      { key: 'subcooling_F', label: 'Subcooling', unit: '°F', digits: 1 },
+      { key: 'suction_sat_temp_F', label: 'Suction Saturation', unit: '°F', digits: 1 },
+      { key: 'liquid_sat_temp_F', label: 'Liquid Saturation', unit: '°F', digits: 1 }
+    ],
+    guidelines: [
+      'Run the unit at least 15 minutes before taking readings',
+      'Measure line temperatures within 6" of the service ports',
+      'Insulate temperature clamps from ambient air',
+      'Saturation temperatures use the refrigerant recorded for the unit'
+    ]
+  },
+  COIL_PERFORMANCE: {
+    name: 'Coil Performance',
+    description: 'Temperature/humidity across coils',
+    priority: 'high',
+    estimatedTime: '15 min',
+    unit: 'required',
+    fields: {
+      unitLabel: unitLabelField,
+      ...airFields('Return', '75', '55'),
+      ...airFields('Supply', '58', '85'),
+      airflowCFM: {
+        label: 'Airflow',
+        unit: 'CFM',
+        placeholder: '1200',
+        help: "Optional - leave blank to use the unit's latest Airflow & Static test for capacities"
+      },
+      condensateVolume_oz_per_30min: {
+        label: 'Condensate Volume',
+        unit: 'oz per 30 min',
+        placeholder: '32',
+        help: 'Optional - measure condensate production rate if accessible'
+      },
+      notes: NOTES_FIELD
+    },
+    preview: [
+      { key: 'return_dew_point_F', label: 'Return Dew Point', unit: '°F', digits: 1 },
+      { key: 'supply_dew_point_F', label: 'Supply Dew Point', unit: '°F', digits: 1 },
+      { key: 'temperature_drop_F', label: 'Temperature Drop', unit: '°F', digits: 1 },
+      { key: 'dew_point_drop_F', label: 'Dew Point Drop', unit: '°F', digits: 1 },
+      { key: 'sensible_heat_ratio', label: 'Sensible Heat Ratio', digits: 2 },
+      { key: 'apparatus_dew_point_F', label: 'Apparatus Dew Point', unit: '°F', digits: 1 },
+      { key: 'bypass_factor', label: 'Bypass Factor', digits: 2 },
+      { key: 'total_capacity_btuh', label: 'Total Capacity', unit: ' BTU/h', digits: 0 },
+      { key: 'sensible_capacity_btuh', label: 'Sensible Capacity', unit: ' BTU/h', digits: 0 },
+      { key: 'latent_capacity_btuh', label: 'Latent Capacity', unit: ' BTU/h', digits: 0 }
+    ],
+    guidelines: [
+      'Allow unit to run in cooling mode for at least 15 minutes',
+      'Use calibrated temperature and humidity sensors',
+      'Take return air measurements in mixed air plenum if possible',
+      'Take supply air measurements in supply duct after unit',
+      'Supply dew point should be 50-55°F for good dehumidification',
+      'In humid climates the sensible heat ratio should be 0.75 or lower; set a ceiling in the criteria profile to grade it'
+    ]
+  },
+  FAN_EVAP_RECHECK: {
+    name: 'Fan/Evap Recheck',
+    description: 'Post-adjustment verification',
+    priority: 'medium',
+    estimatedTime: '10 min',
+    unit: 'required',
+    fields: {
+      unitLabel: unitLabelField,
+      ...airFields('Return', '75', '55'),
+      ...airFields('Supply', '56', '90'),
+      airflowCFM: { label: 'Airflow', unit: 'CFM', placeholder: '4000' },
+      staticPressure_inwc: { label: 'External Static', unit: 'in. w.c.', step: 0.01, placeholder: '0.8' },
+      notes: NOTES_FIELD
+    },
+    preview: [
+      { key: 'return_dew_point_F', label: 'Return Dew Point', unit: '°F', digits: 1 },
+      { key: 'supply_dew_point_F', label: 'Supply Dew Point', unit: '°F', digits: 1 },
+      { key: 'return_grains_per_lb', label: 'Return Grains', unit: ' gr/lb', digits: 1 },
+      { key: 'supply_grains_per_lb', label: 'Supply Grains', unit: ' gr/lb', digits: 1 }
+    ],
+    guidelines: [
+      'Let the unit run at least 15 minutes after any adjustment',
+      'Measure at the same points as the original coil test',
+      'Supply dew point should stay at or below 55°F'
+    ]
+  },
+  ECONOMIZER_SEAL: {
+    name: 'Economizer Seal',
+    description: 'Damper leakage testing',
+    priority: 'medium',
+    estimatedTime: '15 min',
+    unit: 'required',
+    fields: {
+      commandedPct: { label: 'Commanded Position', unit: '% open', placeholder: '0', help: 'Expect 0% (fully closed)' },
+      method: { label: 'Test Method', options: { SMOKE: 'Smoke', VISUAL: 'Visual' } },
+      leakageObserved: { label: 'Leakage observed at the damper' },
+      notes: NOTES_FIELD
+    },
+    preview: [
+      { key: 'commanded_position_pct', label: 'Commanded Position', unit: '%', digits: 0 }
+    ],
+    guidelines: [
+      'Override the economizer to minimum/closed from the controller',
+      'Confirm the actuator has fully stroked before testing',
+      'With the supply fan running, smoke the blade edges and frame',
+      'Check for gaps at jamb seals and blade overlaps'
+    ]
+  },
+  DISTRIBUTION_MIXING: {
+    name: 'Distribution & Mixing',
+    description: 'Zone temperature/humidity uniformity',
+    priority: 'low',
+    estimatedTime: '25 min',
+    unit: 'optional',
+    fields: {
+      zone: { label: 'Zone', placeholder: 'e.g., Gym, Classrooms 101-104' },
+      gridSamples: {
+        label: 'Grid Samples',
+        columns: {
+          point: { label: 'Point', autoNumber: 'P' },
+          db_F: { label: 'Dry Bulb', unit: '°F', step: 0.1, placeholder: '74' },
+          rh_pct: { label: 'RH', unit: '%', step: 0.1, placeholder: '52' }
+        },
+        rowSummary: {
+          label: 'Dew Point',
+          compute: row => Number.isFinite(row.db_F) && row.rh_pct > 0
+            ? `${calculateDewPoint(row.db_F, row.rh_pct).toFixed(1)}°F`
+            : null
+        }
+      },
+      returnDewPoint_F: { label: 'Return Air Dew Point', unit: '°F', step: 0.1, placeholder: '55' },
+      notes: NOTES_FIELD
+    },
+    preview: [
+      { key: 'temp_avg_F', label: 'Average Temperature', unit: '°F', digits: 1 },
+      { key: 'temp_variation_F', label: 'Temperature Spread', unit: '°F', digits: 1 },
+      { key: 'rh_avg_pct', label: 'Average RH', unit: '%', digits: 1 },
+      { key: 'rh_variation_pct', label: 'RH Spread', unit: '%', digits: 1 },
+      { key: 'dp_avg_F', label: 'Average Dew Point', unit: '°F', digits: 1 },
+      { key: 'grains_avg_per_lb', label: 'Average Grains', unit: ' gr/lb', digits: 1 }
+    ],
+    guidelines: [
+      'Lay out points evenly across the zone, including corners and near exterior walls',
+      'Hold the sensor at breathing height (about 4 ft) and let it settle at each point',
+      'Measure return dew point at the return grille or unit',
+      'Large spreads point to short-circuiting or poor diffuser throw'
+    ]
+  },
+  DEHUMIDIFIER_PERFORMANCE: {
+    name: 'Dehumidifier / DOAS',
+    description: 'Moisture removal against the rated capacity',
+    priority: 'medium',
+    estimatedTime: '20 min',
+    unit: 'required',
+    fields: {
+      unitLabel: unitLabelField,
+      ...airFields('Inlet', '80', '60'),
+      ...airFields('Outlet', '95', '30'),
+      airflowCFM: {
+        label: 'Airflow',
+        unit: 'CFM',
+        placeholder: '250',
+        help: 'Measured process airflow through the unit (nameplate airflow if not measurable)'
+      },
+      ratedPintsPerDay: {
+        label: 'Rated Capacity',
+        unit: 'pints/day',
+        placeholder: '70',
+        help: 'Nameplate rating; most units are rated at 80°F / 60% RH, so drier inlet air removes less'
+      },
+      notes: NOTES_FIELD
+    },
+    preview: [
+      { key: 'moisture_removed_grains_per_lb', label: 'Moisture Removed', unit: ' gr/lb', digits: 1 },
+      { key: 'moisture_removal_lb_hr', label: 'Removal Rate', unit: ' lb/hr', digits: 2 },
+      { key: 'moisture_removal_pints_day', label: 'Removal Rate', unit: ' pints/day', digits: 0 },
+      { key: 'percent_of_rated', label: 'Share of Rating', unit: '%', digits: 0 },
+      { key: 'latent_capacity_btuh', label: 'Latent Capacity', unit: ' BTU/h', digits: 0 },
+      { key: 'temperature_rise_F', label: 'Temperature Rise', unit: '°F', digits: 1 }
+    ],
+    guidelines: [
+      'Run the unit in dehumidification for at least 15 minutes before measuring',
+      'Measure inlet air at the return/process air intake and outlet air in the supply duct',
+      'Keep the outlet sensor out of direct reheat coil radiation',
+      'Record inlet conditions; compare the result with the rating at similar conditions'
+    ]
+  }
+}
+
+/**
+ * Strip optional/nullable/default/refinement wrappers from a schema
+ */
+function unwrapSchema(schema: z.ZodTypeAny): { inner: z.ZodTypeAny; optional: boolean } {
+  let inner = schema
+  let optional = false
+
+  for (;;) {
+    if (inner instanceof z.ZodOptional || inner instanceof z.ZodNullable) {
+      optional = true
+      inner = inner.unwrap()
+    } else if (inner instanceof z.ZodDefault) {
+      optional = true
+      inner = inner.removeDefault()
+    } else if (inner instanceof z.ZodEffects) {
+      inner = inner.innerType()
+    } else {
+      return { inner, optional }
+    }
+  }
+}
+
+/**
+ * Describe an object schema's fields for the generic form, in schema order
+ */
+export function getFormFields(
+  schema: z.AnyZodObject,
+  fields: Record<string, FieldMetadata>
+): FormFieldSpec[] {
+  return Object.entries(schema.shape as Record<string, z.ZodTypeAny>).map(([name, fieldSchema]) => {
+    const { inner, optional } = unwrapSchema(fieldSchema)
+    const meta = fields[name] ?? { label: name }
+    const spec: FormFieldSpec = { name, kind: 'text', required: !optional, meta }
+
+    if (inner instanceof z.ZodNumber) {
+      spec.kind = 'number'
+      spec.min = inner.minValue ?? undefined
+      spec.max = inner.maxValue ?? undefined
+    } else if (inner instanceof z.ZodBoolean) {
+      spec.kind = 'boolean'
+    } else if (inner instanceof z.ZodEnum) {
+      spec.kind = 'select'
+      spec.options = (inner.options as string[]).map(value => ({ value, label: meta.options?.[value] ?? value }))
+    } else if (inner instanceof z.ZodLiteral) {
+      spec.kind = 'constant'
+      spec.constant = inner.value
+    } else if (inner instanceof z.ZodArray) {
+      const element = unwrapSchema(inner.element).inner
+      if (element instanceof z.ZodObject) {
+        spec.kind = 'grid'
+        spec.columns = getFormFields(element, meta.columns ?? {})
+      } else {
+        spec.kind = 'list'
+      }
+    }
+
+    return spec
+  })
+}
+
+/**
+ * Starting values for a form: prefills, then a blank value per field kind
+ */
+export function getFormDefaults(specs: FormFieldSpec[], context: FormPrefillContext): Record<string, unknown> {
+  const defaults: Record<string, unknown> = {}
+
+  for (const spec of specs) {
+    const prefilled = spec.meta.prefill?.(context)
+
+    if (prefilled !== undefined) {
+      defaults[spec.name] = prefilled
+    } else if (spec.kind === 'constant') {
+      defaults[spec.name] = spec.constant
+    } else if (spec.kind === 'boolean') {
+      defaults[spec.name] = false
+    } else if (spec.kind === 'select') {
+      defaults[spec.name] = spec.options?.[0]?.value
+    } else if (spec.kind === 'text') {
+      defaults[spec.name] = ''
+    } else if (spec.kind === 'list') {
+      defaults[spec.name] = []
+    } else if (spec.kind === 'grid') {
+      defaults[spec.name] = [getGridRowDefaults(spec, 0)]
+    }
+  }
+
+  return defaults
+}
+
+/**
+ * A new grid row, numbering auto-numbered columns from the row index
+ */
+export function getGridRowDefaults(spec: FormFieldSpec, index: number): Record<string, unknown> {
+  const row: Record<string, unknown> = {}
+
+  for (const column of spec.columns ?? []) {
+    if (column.meta.autoNumber) {
+      row[column.name] = `${column.meta.autoNumber}${index + 1}`
+    } else if (column.kind === 'text') {
+      row[column.name] = ''
+    } else if (column.kind === 'boolean') {
+      row[column.name] = false
+    }
+  }
+
+  return row
+}
+
+/**
+ * Reading schema, metadata and field specs for a test type's form
+ */
+export function getTestForm(testType: ReadingTestType) {
+  const schema = TEST_READING_SCHEMAS[testType]
+  const metadata = TEST_FORMS[testType]
+
+  return { schema, metadata, fields: getFormFields(schema, metadata.fields) }
+}
+
+/**
+ * Form metadata for an organization's custom test template
+ */
+export function getTemplateFormMetadata(template: TestTemplateSnapshot): TestFormMetadata {
+  const definition = template.definition as TestTemplateDefinition
+  const fields: Record<string, FieldMetadata> = { notes: NOTES_FIELD }
+
+  for (const field of definition.fields) {
+    fields[field.key] = {
+      label: field.label,
+      unit: field.unit,
+      step: field.step,
+      placeholder: field.placeholder,
+      help: field.help
+    }
+  }
+
+  return {
+    name: template.name,
+    description: template.description || 'Custom test',
+    priority: 'medium',
+    estimatedTime: 'Varies',
+    unit: definition.unit,
+    fields,
+    preview: definition.formulas.map(({ key, label, unit, digits }) => ({ key, label, unit: unitSuffix(unit), digits })),
+    guidelines: definition.guidelines
+  }
+}
+
+/**
+ * Reading schema, metadata and field specs for a custom test template's form
+ */
+export function getTemplateForm(template: TestTemplateSnapshot) {
+  const schema = buildTemplateReadingSchema(template.definition as TestTemplateDefinition)
+  const metadata = getTemplateFormMetadata(template)
+
+  return { schema, metadata, fields: getFormFields(schema, metadata.fields) }
+}
@@ -0,0 +1,42 @@
+import { describe, expect, it } from 'vitest'
+import { computeTemplateResult, type TestTemplateDefinition, type TestTemplateSnapshot } from './test-templates'
+
+const definition: TestTemplateDefinition = {
+  unit: 'none',
+  fields: [{ key: 'supply_F', label: 'Supply temperature', type: 'number', unit: '°F', required: true }],
+  formulas: [{ key: 'split_F', label: 'Split', unit: '°F', expression: 'outdoor_db_F - supply_F', digits: 1 }],
+  checks: [
+    { key: 'supply', label: 'Supply temperature', expression: 'supply_F', max: 60 },
+    { key: 'split', label: 'Split', expression: 'split_F', min: 20 }
+  ],
+  guidelines: []
+}
+
+const template: TestTemplateSnapshot = {
+  id: 'template-1',
+  name: 'Supply split',
+  category: 'HVAC',
+  version: 2,
+  definition
+}
+
+describe('computeTemplateResult', () => {
+  it('grades every check against its range', () => {
+    const result = computeTemplateResult(template, { supply_F: 55 }, { outdoorTemp: 90 })
+
+    expect(result.calculations.split_F).toBe(35)
+    expect(result.checks.supply.pass).toBe(true)
+    expect(result.checks.split.pass).toBe(true)
+    expect(result.pass).toBe(true)
+    expect(result.template).toEqual({ id: 'template-1', name: 'Supply split', version: 2 })
+  })
+
+  it('fails the test when a check cannot be evaluated', () => {
+    const result = computeTemplateResult(template, { supply_F: 55 })
+
+    expect(result.checks.supply.pass).toBe(true)
+    expect(result.checks.split).toMatchObject({ pass: false, value: 'Not evaluated' })
+    expect(result.checks.split.message).toContain("No value for 'split_F'")
+    expect(result.pass).toBe(false)
+  })
+})
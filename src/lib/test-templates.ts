@@ -0,0 +1,351 @@
+/**
+ * Custom Test Templates
+ * Organizations define their own tests as data: input fields with units and
+ * ranges, formulas over those fields and pass/fail checks. Readings are
+ * validated with a schema built from the fields and computed with the safe
+ * expression evaluator into the same ComputedResult shape as built-in tests.
+ */
+
+import { z } from 'zod'
+import type { TestCategory } from '@prisma/client'
+import {
+  evaluateExpression,
+  getExpressionReferences,
+  parseExpression,
+  type ExpressionFunction,
+  type ExpressionValue
+} from './expression'
+import { getPsychrometricState, STANDARD_PRESSURE_PSIA } from './psychrometrics'
+import type { ComputedResult } from './test-computations'
+
+export interface TemplateField {
+  key: string
+  label: string
+  type: 'number' | 'boolean' | 'text' | 'select'
+  unit?: string
+  min?: number
+  max?: number
+  step?: number
+  required: boolean
+  options?: string[]
+  placeholder?: string
+  help?: string
+}
+
+export interface TemplateFormula {
+  key: string
+  label: string
+  unit?: string
+  expression: string
+  digits: number
+}
+
+export interface TemplateCheck {
+  key: string
+  label: string
+  expression: string
+  unit?: string
+  min?: number
+  max?: number
+  target?: string
+  passMessage?: string
+  failMessage?: string
+}
+
+/**
+ * Stored template definition (validated by TestTemplateDefinitionSchema)
+ */
+export interface TestTemplateDefinition {
+  unit: 'required' | 'optional' | 'none'
+  fields: TemplateField[]
+  formulas: TemplateFormula[]
+  checks: TemplateCheck[]
+  guidelines: string[]
+}
+
+/**
+ * Template fields needed to compute and display a custom test
+ */
+export interface TestTemplateSnapshot {
+  id: string
+  name: string
+  description?: string | null
+  category: TestCategory
+  version: number
+  definition: unknown
+}
+
+function normalizeDefinition(value: unknown): unknown {
+  if (Array.isArray(value)) return value.map(normalizeDefinition)
+  if (!value || typeof value !== 'object') return value
+
+  const normalized: Record<string, unknown> = {}
+  for (const key of Object.keys(value).sort()) {
+    normalized[key] = normalizeDefinition((value as Record<string, unknown>)[key])
+  }
+  return normalized
+}
+
+/**
+ * Whether two template definitions are the same, regardless of object key order
+ */
+export function sameDefinition(a: unknown, b: unknown): boolean {
+  return JSON.stringify(normalizeDefinition(a)) === JSON.stringify(normalizeDefinition(b))
+}
+
+/**
+ * Template as a test was recorded with: the template's name and category with the
+ * definition of the version the reading was taken against
+ */
+export function recordedTemplate<T extends { definition: unknown }>(
+  template: T | null,
+  templateVersion?: { version: number; definition: unknown } | null
+): T | null {
+  if (!template || !templateVersion) return template
+  return {
+    ...template,
+    definition: templateVersion.definition,
+    ...('version' in template && { version: templateVersion.version })
+  }
+}
+
+// Site and unit values every formula and check can use
+export const TEMPLATE_CONTEXT_VALUES: Record<string, string> = {
+  outdoor_db_F: 'Outdoor dry bulb (°F)',
+  outdoor_rh_pct: 'Outdoor relative humidity (%)',
+  site_pressure_psia: 'Site barometric pressure (psia)',
+  unit_tons: 'Nominal tons of the selected unit'
+}
+
+/**
+ * Functions available to template expressions
+ * Psychrometric functions take dry bulb (°F) and RH (%) at the site pressure.
+ */
+export function getTemplateFunctions(pressure_psia?: number): Record<string, ExpressionFunction> {
+  const state = (dryBulb_F: number, rh_pct: number) =>
+    getPsychrometricState({ dryBulb_F, rh_pct }, { pressure_psia })
+
+  return {
+    min: (...values) => Math.min(...values),
+    max: (...values) => Math.max(...values),
+    abs: Math.abs,
+    sqrt: Math.sqrt,
+    round: (value, digits = 0) => Math.round(value * Math.pow(10, digits)) / Math.pow(10, digits),
+    floor: Math.floor,
+    ceil: Math.ceil,
+    pow: Math.pow,
+    log: Math.log,
+    log10: value => Math.log(value) / Math.LN10,
+    exp: Math.exp,
+    dewPoint: (db, rh) => state(db, rh).dewPoint_F,
+    wetBulb: (db, rh) => state(db, rh).wetBulb_F,
+    humidityRatio: (db, rh) => state(db, rh).humidityRatio_gr_lb,
+    enthalpy: (db, rh) => state(db, rh).enthalpy_btu_lb
+  }
+}
+
+const FUNCTION_NAMES = Object.keys(getTemplateFunctions())
+
+/**
+ * Semantic checks on a definition beyond its shape: unique keys, sensible ranges,
+ * and expressions that parse and only refer to fields, earlier formulas, context
+ * values and known functions
+ */
+export function checkTemplateDefinition(
+  definition: Pick<TestTemplateDefinition, 'fields' | 'formulas' | 'checks'>
+): Array<{ path: Array<string | number>; message: string }> {
+  const issues: Array<{ path: Array<string | number>; message: string }> = []
+  const known = Object.keys(TEMPLATE_CONTEXT_VALUES)
+  const seen: string[] = []
+
+  const claimKey = (key: string, path: Array<string | number>) => {
+    if (seen.indexOf(key) !== -1 || known.indexOf(key) !== -1 || key === 'notes') {
+      issues.push({ path: [...path, 'key'], message: `Key '${key}' is already used` })
+    }
+    seen.push(key)
+  }
+
+  const checkExpression = (expression: string, available: string[], path: Array<string | number>) => {
+    try {
+      const { identifiers, functions } = getExpressionReferences(parseExpression(expression))
+      for (const name of identifiers) {
+        if (available.indexOf(name) === -1) {
+          issues.push({ path: [...path, 'expression'], message: `Unknown value '${name}'` })
+        }
+      }
+      for (const name of functions) {
+        if (FUNCTION_NAMES.indexOf(name) === -1) {
+          issues.push({ path: [...path, 'expression'], message: `Unknown function '${name}'` })
+        }
+      }
+    } catch (error) {
+      issues.push({ path: [...path, 'expression'], message: (error as Error).message })
+    }
+  }
+
+  definition.fields.forEach((field, index) => {
+    claimKey(field.key, ['fields', index])
+    if (field.min !== undefined && field.max !== undefined && field.min > field.max) {
+      issues.push({ path: ['fields', index, 'min'], message: 'Minimum must not exceed maximum' })
+    }
+    if (field.type === 'select' && !field.options?.length) {
+      issues.push({ path: ['fields', index, 'options'], message: 'Select fields need at least one option' })
+    }
+  })
+
+  // Formulas can use fields and the formulas listed before them
+  const available = known.concat(definition.fields.map(field => field.key))
+  definition.formulas.forEach((formula, index) => {
+    checkExpression(formula.expression, available, ['formulas', index])
+    claimKey(formula.key, ['formulas', index])
+    available.push(formula.key)
+  })
+
+  definition.checks.forEach((check, index) => {
+    checkExpression(check.expression, available, ['checks', index])
+    claimKey(check.key, ['checks', index])
+    if (check.min !== undefined && check.max !== undefined && check.min > check.max) {
+      issues.push({ path: ['checks', index, 'min'], message: 'Minimum must not exceed maximum' })
+    }
+  })
+
+  return issues
+}
+
+/**
+ * Reading schema for a template's fields, plus free-text notes like built-in tests
+ */
+export function buildTemplateReadingSchema(definition: TestTemplateDefinition): z.AnyZodObject {
+  const shape: Record<string, z.ZodTypeAny> = {}
+
+  for (const field of definition.fields) {
+    let schema: z.ZodTypeAny
+
+    if (field.type === 'number') {
+      let number = z.number({ invalid_type_error: `${field.label} is required` })
+      if (field.min !== undefined) number = number.min(field.min)
+      if (field.max !== undefined) number = number.max(field.max)
+      schema = number
+    } else if (field.type === 'boolean') {
+      schema = z.boolean()
+    } else if (field.type === 'select') {
+      schema = z.enum((field.options ?? []) as [string, ...string[]])
+    } else {
+      schema = field.required ? z.string().min(1, `${field.label} is required`) : z.string()
+    }
+
+    shape[field.key] = field.required ? schema : schema.optional()
+  }
+
+  shape.notes = z.string().optional()
+  return z.object(shape)
+}
+
+/**
+ * Unit appended to a value: symbols attach directly (72°F, 45%), words get a space (1200 CFM)
+ */
+export function unitSuffix(unit?: string): string {
+  if (!unit) return ''
+  return /^[°%"']/.test(unit) ? unit : ` ${unit}`
+}
+
+export function formatTemplateValue(value: number, digits: number, unit?: string): string {
+  return `${value.toFixed(digits)}${unitSuffix(unit)}`
+}
+
+function describeTarget(check: TemplateCheck): string {
+  if (check.target) return check.target
+  const unit = unitSuffix(check.unit)
+  if (check.min !== undefined && check.max !== undefined) return `${check.min}-${check.max}${unit}`
+  if (check.min !== undefined) return `≥ ${check.min}${unit}`
+  if (check.max !== undefined) return `≤ ${check.max}${unit}`
+  return 'Yes'
+}
+
+/**
+ * Compute a custom test from its template
+ * Formulas run in order; a formula that can't be evaluated (e.g. an optional field
+ * was left blank) is left out, and checks that depend on it are skipped.
+ */
+export function computeTemplateResult(
+  template: TestTemplateSnapshot,
+  reading: Record<string, unknown>,
+  weatherData?: { outdoorTemp?: number; outdoorRH?: number; barometricPressure?: number },
+  unitData?: { tons?: number | null }
+): ComputedResult {
+  const definition = template.definition as TestTemplateDefinition
+  const functions = getTemplateFunctions(weatherData?.barometricPressure)
+
+  const scope: Record<string, ExpressionValue | undefined> = {
+    outdoor_db_F: weatherData?.outdoorTemp,
+    outdoor_rh_pct: weatherData?.outdoorRH,
+    site_pressure_psia: weatherData?.barometricPressure ?? STANDARD_PRESSURE_PSIA,
+    unit_tons: unitData?.tons ?? undefined
+  }
+
+  for (const field of definition.fields) {
+    const value = reading[field.key]
+    if (typeof value === 'number' || typeof value === 'boolean' || typeof value === 'string') {
+      scope[field.key] = value
+    }
+  }
+
+  const calculations: Record<string, number> = {}
+  for (const formula of definition.formulas) {
+    try {
+      const value = evaluateExpression(parseExpression(formula.expression), scope, functions)
+      if (typeof value === 'number') {
+        calculations[formula.key] = value
+        scope[formula.key] = value
+      }
+    } catch {
+      // Missing inputs leave the formula out
+    }
+  }
+
+  const checks: ComputedResult['checks'] = {}
+  for (const check of definition.checks) {
+    let value: ExpressionValue
+    try {
+      value = evaluateExpression(parseExpression(check.expression), scope, functions)
+    } catch (error) {
+      // A check that couldn't be evaluated (e.g. missing weather data) fails the test rather than dropping out
+      checks[check.key] = {
+        pass: false,
+        value: 'Not evaluated',
+        target: describeTarget(check),
+        message: `${check.label}: not evaluated (${error instanceof Error ? error.message : 'invalid expression'})`
+      }
+      continue
+    }
+
+    const pass = typeof value === 'number'
+      ? (check.min === undefined || value >= check.min) && (check.max === undefined || value <= check.max)
+      : value === true
+    const display = typeof value === 'boolean' ? (value ? 'Yes' : 'No') : value
+
+    checks[check.key] = {
+      pass,
+      value: display,
+      target: describeTarget(check),
+      message: (pass ? check.passMessage : check.failMessage) ??
+        `${check.label}: ${typeof display === 'number' ? formatTemplateValue(display, 2, check.unit) : display}`
+    }
+  }
+
+  const pass = Object.keys(checks).every(key => checks[key].pass)
+  const headline = definition.formulas
+    .filter(formula => calculations[formula.key] !== undefined)
+    .slice(0, 3)
+    .map(formula => `${formula.label}: ${formatTemplateValue(calculations[formula.key], formula.digits, formula.unit)}`)
+
+  return {
+    calculations,
+    checks,
+    pass,
+    summary: headline.length > 0
+      ? `${template.name} - ${headline.join(', ')}`
+      : `${template.name} ${pass ? 'passed' : 'failed'}`,
+    template: { id: template.id, name: template.name, version: template.version }
+  }
+}
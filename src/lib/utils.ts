@@ -4,3 +4,44 @@ import { twMerge } from "tailwind-merge"
 export function cn(...inputs: ClassValue[]) {
   return twMerge(clsx(inputs))
 }
+
+/**
+ * Apply server-side field errors (keyed by field path) to a react-hook-form instance
+ */
+export function applyFieldErrors(
+  fieldErrors: Record<string, string[] | undefined> | undefined,
+  setError: (name: any, error: { type: string; message?: string }) => void
+) {
+  Object.entries(fieldErrors ?? {}).forEach(([field, messages]) => {
+    if (messages?.length) {
+      setError(field, { type: 'server', message: messages[0] })
+    }
+  })
+}
+
+/**
+ * Fetch a file and save it through the browser, using the server's Content-Disposition filename
+ */
+export async function downloadFile(url: string, fallbackFilename: string) {
+  const response = await fetch(url)
+
+  if (!response.ok) {
+    const error = await response.json().catch(() => ({}))
+    throw new Error(error.error || 'Failed to download file')
+  }
+
+  const blob = await response.blob()
+  const objectUrl = window.URL.createObjectURL(blob)
+  const a = document.createElement('a')
+  a.style.display = 'none'
+  a.href = objectUrl
+
+  const contentDisposition = response.headers.get('Content-Disposition')
+  const matches = contentDisposition && /filename="?([^";]+)"?/.exec(contentDisposition)
+  a.download = matches ? matches[1] : fallbackFilename
+
+  document.body.appendChild(a)
+  a.click()
+  window.URL.revokeObjectURL(objectUrl)
+  document.body.removeChild(a)
+}
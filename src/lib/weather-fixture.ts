@@ -0,0 +1,60 @@
+/**
+ * Fixture weather provider
+ * Serves observations from a JSON file instead of a network service, for
+ * air-gapped installs (with conditions exported from a site weather station)
+ * and for testing. WEATHER_FIXTURE_PATH points at a file shaped like:
+ *
+ *   {
+ *     "location": { "latitude": 30.27, "longitude": -97.74 },
+ *     "observations": [
+ *       { "time": "2024-07-01T14:00:00Z", "dryBulb_F": 94.5, "rh_pct": 52 }
+ *     ]
+ *   }
+ *
+ * Every address resolves to the fixture's location.
+ */
+
+import { readFile } from 'fs/promises'
+import path from 'path'
+import type { GeoLocation, HourlyWeather, WeatherProvider } from './weather'
+
+interface WeatherFixture {
+  location: GeoLocation
+  observations: Array<{ time: string; dryBulb_F: number; rh_pct: number }>
+}
+
+export function createFixtureProvider(): WeatherProvider {
+  const fixturePath = process.env.WEATHER_FIXTURE_PATH
+  if (!fixturePath) {
+    throw new Error('WEATHER_FIXTURE_PATH must be set for the fixture weather provider')
+  }
+
+  // A failed read isn't cached, so a missing or malformed file can be fixed without a restart
+  let fixture: Promise<WeatherFixture> | undefined
+  const load = () => {
+    fixture ??= readFile(path.resolve(fixturePath), 'utf8')
+      .then(text => JSON.parse(text) as WeatherFixture)
+      .catch(error => {
+        fixture = undefined
+        throw error
+      })
+    return fixture
+  }
+
+  return {
+    name: 'fixture',
+
+    async geocode(): Promise<GeoLocation | null> {
+      return (await load()).location
+    },
+
+    async getHourly(_location: GeoLocation, start: Date, end: Date): Promise<HourlyWeather[]> {
+      const { observations } = await load()
+
+      return observations
+        .map(o => ({ observedAt: new Date(o.time), dryBulb_F: o.dryBulb_F, rh_pct: o.rh_pct }))
+        .filter(o => o.observedAt >= start && o.observedAt <= end)
+        .sort((a, b) => a.observedAt.getTime() - b.observedAt.getTime())
+    }
+  }
+}
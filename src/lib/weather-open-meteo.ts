@@ -0,0 +1,90 @@
+/**
+ * Open-Meteo weather provider
+ * Hourly temperature and RH from Open-Meteo (no API key). Recent days come
+ * from the forecast API, which keeps about three months of past data; older
+ * sessions use the historical archive. Addresses are geocoded with
+ * OpenStreetMap Nominatim, whose usage policy asks for an identifying
+ * User-Agent (WEATHER_USER_AGENT).
+ */
+
+import { WEATHER_REQUEST_TIMEOUT_MS, type GeoLocation, type HourlyWeather, type WeatherProvider } from './weather'
+
+const FORECAST_URL = 'https://api.open-meteo.com/v1/forecast'
+const ARCHIVE_URL = 'https://archive-api.open-meteo.com/v1/archive'
+const GEOCODE_URL = 'https://nominatim.openstreetmap.org/search'
+
+// The forecast API serves up to 92 past days; leave a margin
+const FORECAST_HISTORY_DAYS = 85
+
+interface OpenMeteoResponse {
+  hourly?: {
+    time: string[]
+    temperature_2m: Array<number | null>
+    relative_humidity_2m: Array<number | null>
+  }
+}
+
+async function getJson<T>(url: string): Promise<T> {
+  const response = await fetch(url, {
+    headers: { 'User-Agent': process.env.WEATHER_USER_AGENT || 'hvac-commissioning-logger' },
+    signal: AbortSignal.timeout(WEATHER_REQUEST_TIMEOUT_MS)
+  })
+
+  if (!response.ok) {
+    throw new Error(`Weather request failed: ${response.status} ${url}`)
+  }
+
+  return response.json() as Promise<T>
+}
+
+const toDateParam = (date: Date) => date.toISOString().slice(0, 10)
+
+export function createOpenMeteoProvider(): WeatherProvider {
+  return {
+    name: 'open-meteo',
+
+    async geocode(address: string): Promise<GeoLocation | null> {
+      const params = new URLSearchParams({ q: address, format: 'jsonv2', limit: '1' })
+      const results = await getJson<Array<{ lat: string; lon: string }>>(`${GEOCODE_URL}?${params}`)
+
+      if (results.length === 0) {
+        return null
+      }
+
+      return { latitude: parseFloat(results[0].lat), longitude: parseFloat(results[0].lon) }
+    },
+
+    async getHourly(location: GeoLocation, start: Date, end: Date): Promise<HourlyWeather[]> {
+      const recent = Date.now() - start.getTime() < FORECAST_HISTORY_DAYS * 24 * 3600 * 1000
+      const params = new URLSearchParams({
+        latitude: location.latitude.toString(),
+        longitude: location.longitude.toString(),
+        start_date: toDateParam(start),
+        end_date: toDateParam(end),
+        hourly: 'temperature_2m,relative_humidity_2m',
+        temperature_unit: 'fahrenheit',
+        timezone: 'GMT'
+      })
+
+      const data = await getJson<OpenMeteoResponse>(`${recent ? FORECAST_URL : ARCHIVE_URL}?${params}`)
+      if (!data.hourly) {
+        return []
+      }
+
+      const { time, temperature_2m, relative_humidity_2m } = data.hourly
+      const observations: HourlyWeather[] = []
+
+      time.forEach((value, i) => {
+        const observedAt = new Date(`${value}:00Z`) // GMT times come without a zone
+        const dryBulb_F = temperature_2m[i]
+        const rh_pct = relative_humidity_2m[i]
+
+        // Days are requested whole; keep the requested window. Null marks missing data.
+        if (observedAt < start || observedAt > end || dryBulb_F == null || rh_pct == null) return
+        observations.push({ observedAt, dryBulb_F, rh_pct })
+      })
+
+      return observations
+    }
+  }
+}
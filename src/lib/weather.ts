@@ -0,0 +1,197 @@
+/**
+ * Outdoor Weather
+ * Provider-agnostic lookup of hourly outdoor conditions for a session. The
+ * provider is chosen with WEATHER_PROVIDER:
+ *   - "manual" (default): retrieval disabled; outdoor conditions are entered by hand
+ *   - "open-meteo": Open-Meteo hourly history, with addresses geocoded through
+ *     OpenStreetMap Nominatim (sends project locations to both services)
+ *   - "fixture": observations read from the JSON file at WEATHER_FIXTURE_PATH,
+ *     for offline installs and testing
+ */
+
+import { db } from './db'
+import { calculateDewPoint } from './calculations'
+import { createOpenMeteoProvider } from './weather-open-meteo'
+import { createFixtureProvider } from './weather-fixture'
+
+export const WEATHER_REQUEST_TIMEOUT_MS = 10000
+
+// Longest span of history stored for one session
+const MAX_HISTORY_DAYS = 14
+
+export interface GeoLocation {
+  latitude: number
+  longitude: number
+}
+
+export interface HourlyWeather {
+  observedAt: Date
+  dryBulb_F: number
+  rh_pct: number
+}
+
+export interface WeatherProvider {
+  /** Name recorded as the session's weather source */
+  name: string
+  /** Coordinates for a street address, or null when it can't be found */
+  geocode(address: string): Promise<GeoLocation | null>
+  /** Hourly conditions covering start to end, in time order */
+  getHourly(location: GeoLocation, start: Date, end: Date): Promise<HourlyWeather[]>
+}
+
+type WeatherFailure = { error: string; status: number }
+
+let provider: WeatherProvider | null | undefined
+
+/**
+ * Configured weather provider, or null when weather retrieval is disabled
+ */
+export function getWeatherProvider(): WeatherProvider | null {
+  if (provider === undefined) {
+    const driver = process.env.WEATHER_PROVIDER || 'manual'
+
+    switch (driver) {
+      case 'manual':
+        provider = null
+        break
+      case 'open-meteo':
+        provider = createOpenMeteoProvider()
+        break
+      case 'fixture':
+        provider = createFixtureProvider()
+        break
+      default:
+        throw new Error(`Unknown WEATHER_PROVIDER: ${driver}`)
+    }
+  }
+
+  return provider
+}
+
+/**
+ * Conditions at a moment, interpolated between the surrounding hourly observations
+ * @returns null when the moment is more than an hour outside the observations
+ */
+export function getWeatherAt(
+  observations: Array<{ observedAt: Date; dryBulb_F: number; rh_pct: number }>,
+  at: Date
+): { dryBulb_F: number; rh_pct: number } | null {
+  const t = at.getTime()
+  const hour = 3600 * 1000
+
+  if (observations.length === 0
+    || t < observations[0].observedAt.getTime() - hour
+    || t > observations[observations.length - 1].observedAt.getTime() + hour) {
+    return null
+  }
+
+  const nextIndex = observations.findIndex(o => o.observedAt.getTime() >= t)
+  if (nextIndex <= 0) {
+    const nearest = observations[nextIndex === 0 ? 0 : observations.length - 1]
+    return { dryBulb_F: nearest.dryBulb_F, rh_pct: nearest.rh_pct }
+  }
+
+  const before = observations[nextIndex - 1]
+  const after = observations[nextIndex]
+  const fraction = (t - before.observedAt.getTime()) / (after.observedAt.getTime() - before.observedAt.getTime())
+
+  return {
+    dryBulb_F: before.dryBulb_F + (after.dryBulb_F - before.dryBulb_F) * fraction,
+    rh_pct: before.rh_pct + (after.rh_pct - before.rh_pct) * fraction
+  }
+}
+
+/**
+ * Project coordinates, geocoding and saving them from the address on first use
+ */
+async function getProjectLocation(
+  weather: WeatherProvider,
+  project: { id: string; address: string | null; latitude: number | null; longitude: number | null }
+): Promise<GeoLocation | WeatherFailure> {
+  if (project.latitude != null && project.longitude != null) {
+    return { latitude: project.latitude, longitude: project.longitude }
+  }
+
+  if (!project.address) {
+    return { error: 'Project has no address or coordinates for weather lookup', status: 400 }
+  }
+
+  const location = await weather.geocode(project.address)
+  if (!location) {
+    return { error: 'Project address could not be located', status: 422 }
+  }
+
+  await db.project.update({
+    where: { id: project.id },
+    data: location
+  })
+
+  return location
+}
+
+/**
+ * Retrieve and store hourly outdoor conditions for a session
+ * Covers the hour before the session started through its end (or now), and
+ * sets the session's outdoor dry bulb and RH to the conditions at its start.
+ * @returns the updated session weather fields and the number of hourly
+ * observations, or an error with the HTTP status to respond with
+ */
+export async function fetchSessionWeather(sessionId: string) {
+  const weather = getWeatherProvider()
+  if (!weather) {
+    return { error: 'Weather retrieval is disabled', status: 503 }
+  }
+
+  const session = await db.session.findUniqueOrThrow({
+    where: { id: sessionId },
+    include: { area: { include: { project: true } } }
+  })
+
+  const hour = 3600 * 1000
+  const start = new Date(session.startedAt.getTime() - hour)
+  const latestEnd = new Date(start.getTime() + MAX_HISTORY_DAYS * 24 * hour)
+  const end = new Date(Math.min((session.endedAt ?? new Date()).getTime() + hour, Date.now(), latestEnd.getTime()))
+
+  let hourly: HourlyWeather[]
+  try {
+    const location = await getProjectLocation(weather, session.area.project)
+    if ('error' in location) {
+      return location
+    }
+
+    hourly = await weather.getHourly(location, start, end)
+  } catch (error) {
+    console.error('Weather provider error:', error)
+    return { error: 'Weather provider request failed', status: 502 }
+  }
+
+  const atStart = getWeatherAt(hourly, session.startedAt)
+
+  if (!atStart) {
+    return { error: 'No weather observations are available for the session start time', status: 404 }
+  }
+
+  const [, , updated] = await db.$transaction([
+    db.weatherObservation.deleteMany({ where: { sessionId } }),
+    db.weatherObservation.createMany({
+      data: hourly.map(observation => ({
+        sessionId,
+        observedAt: observation.observedAt,
+        dryBulb_F: observation.dryBulb_F,
+        rh_pct: observation.rh_pct,
+        dewPoint_F: calculateDewPoint(observation.dryBulb_F, observation.rh_pct)
+      }))
+    }),
+    db.session.update({
+      where: { id: sessionId },
+      data: {
+        weatherOADryBulb: Math.round(atStart.dryBulb_F * 10) / 10,
+        weatherOARH: Math.round(atStart.rh_pct),
+        weatherSource: weather.name
+      },
+      select: { weatherOADryBulb: true, weatherOARH: true, weatherSource: true }
+    })
+  ])
+
+  return { ...updated, observations: hourly.length }
+}